@@ -1,12 +1,26 @@
 import {
     createBrowserRouter,
     createRoutesFromElements,
+    Navigate,
     Route,
     RouterProvider,
 } from "react-router";
 import { ToastContainer } from "react-toastify";
 import { ThemeProvider } from "@/providers/ThemeProvider";
 import MainLayout from "@/components/layout/MainLayout";
+import GuestRoute from "@/components/auth/GuestRoute";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import Login from "@/pages/Login";
+import ProductDetail from "@/pages/ProductDetail";
+import ProductForm from "@/pages/ProductForm";
+import Products from "@/pages/Products";
+import PurchaseOrderDetail from "@/pages/PurchaseOrderDetail";
+import PurchaseOrderForm from "@/pages/PurchaseOrderForm";
+import PurchaseOrders from "@/pages/PurchaseOrders";
+import SalesOrderDetail from "@/pages/SalesOrderDetail";
+import SalesOrderForm from "@/pages/SalesOrderForm";
+import SalesOrders from "@/pages/SalesOrders";
+import TaskBoard from "@/pages/TaskBoard";
 import { useThemeStore } from "./store/themeStore";
 
 function App() {
@@ -15,11 +29,57 @@ function App() {
     const router = createBrowserRouter(
         createRoutesFromElements(
             <Route>
-                <Route path="/" element={<MainLayout />}>
-                    <Route
-                        index
-                        element={<div className="">Home</div>}
-                    />
+                <Route element={<GuestRoute />}>
+                    <Route path="login" element={<Login />} />
+                </Route>
+                <Route element={<ProtectedRoute />}>
+                    <Route path="/" element={<MainLayout />}>
+                        <Route index element={<div className="">Home</div>} />
+                        <Route path="products" element={<Products />} />
+                        <Route path="products/new" element={<ProductForm />} />
+                        <Route
+                            path="products/:id"
+                            element={<ProductDetail />}
+                        />
+                        <Route
+                            path="products/:id/edit"
+                            element={<ProductForm />}
+                        />
+                        <Route
+                            path="orders"
+                            element={<Navigate to="/sales-orders" replace />}
+                        />
+                        <Route path="sales-orders" element={<SalesOrders />} />
+                        <Route
+                            path="sales-orders/new"
+                            element={<SalesOrderForm />}
+                        />
+                        <Route
+                            path="sales-orders/:id"
+                            element={<SalesOrderDetail />}
+                        />
+                        <Route
+                            path="sales-orders/:id/edit"
+                            element={<SalesOrderForm />}
+                        />
+                        <Route
+                            path="purchase-orders"
+                            element={<PurchaseOrders />}
+                        />
+                        <Route
+                            path="purchase-orders/new"
+                            element={<PurchaseOrderForm />}
+                        />
+                        <Route
+                            path="purchase-orders/:id"
+                            element={<PurchaseOrderDetail />}
+                        />
+                        <Route
+                            path="purchase-orders/:id/edit"
+                            element={<PurchaseOrderForm />}
+                        />
+                        <Route path="tasks" element={<TaskBoard />} />
+                    </Route>
                 </Route>
             </Route>
         )
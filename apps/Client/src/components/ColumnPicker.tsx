@@ -0,0 +1,49 @@
+import { Columns3Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ColumnPickerProps {
+    columns: { key: string; header: string }[];
+    hidden: string[];
+    onToggle: (key: string) => void;
+}
+
+export default function ColumnPicker({
+    columns,
+    hidden,
+    onToggle,
+}: ColumnPickerProps) {
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                    <Columns3Icon size={16} aria-hidden="true" />
+                    Columns
+                </Button>
+            </DropdownMenuTrigger>
+
+            <DropdownMenuContent align="end" className="min-w-40">
+                <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {columns.map((column) => (
+                    <DropdownMenuCheckboxItem
+                        key={column.key}
+                        checked={!hidden.includes(column.key)}
+                        // Keeps the menu open while picking several columns
+                        onSelect={(event) => event.preventDefault()}
+                        onCheckedChange={() => onToggle(column.key)}
+                    >
+                        {column.header}
+                    </DropdownMenuCheckboxItem>
+                ))}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
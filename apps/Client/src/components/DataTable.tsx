@@ -0,0 +1,136 @@
+import type { ReactNode } from "react";
+import { ArrowDownIcon, ArrowUpDownIcon, ArrowUpIcon } from "lucide-react";
+
+export interface Column<T> {
+    key: string;
+    header: string;
+    /** Field of the list's `sort` parameter; the column can't be sorted without one */
+    sortField?: string;
+    align?: "left" | "right";
+    render: (row: T) => ReactNode;
+}
+
+interface DataTableProps<T> {
+    columns: Column<T>[];
+    rows: T[];
+    getRowKey: (row: T) => string | number;
+    /** Current `sort` parameter, e.g. "-createdAt" */
+    sort?: string;
+    onSortChange?: (sort: string) => void;
+    onRowClick?: (row: T) => void;
+    isLoading?: boolean;
+    emptyMessage?: string;
+}
+
+const SortIcon = ({ direction }: { direction: "asc" | "desc" | null }) => {
+    if (direction === "asc")
+        return <ArrowUpIcon size={14} aria-hidden="true" />;
+    if (direction === "desc")
+        return <ArrowDownIcon size={14} aria-hidden="true" />;
+    return (
+        <ArrowUpDownIcon size={14} className="opacity-40" aria-hidden="true" />
+    );
+};
+
+/**
+ * A table of server-side data. Clicking a sortable header sorts by it
+ * ascending, then descending; the caller fetches the rows for the new sort.
+ */
+export default function DataTable<T>({
+    columns,
+    rows,
+    getRowKey,
+    sort,
+    onSortChange,
+    onRowClick,
+    isLoading,
+    emptyMessage = "Nothing to show.",
+}: DataTableProps<T>) {
+    const directionOf = (field: string) =>
+        sort === field ? "asc" : sort === `-${field}` ? "desc" : null;
+
+    return (
+        <div className="overflow-x-auto rounded-lg bg-white dark:bg-gray-900 shadow">
+            <table
+                className={`w-full text-sm text-gray-800 dark:text-gray-100 ${
+                    isLoading ? "opacity-60" : ""
+                }`}
+            >
+                <thead className="border-b border-gray-200 dark:border-gray-700 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                        {columns.map((column) => {
+                            const field = column.sortField;
+                            return (
+                                <th
+                                    key={column.key}
+                                    className={`px-3 py-2 font-medium ${
+                                        column.align === "right"
+                                            ? "text-right"
+                                            : ""
+                                    }`}
+                                >
+                                    {field && onSortChange ? (
+                                        <button
+                                            type="button"
+                                            className="inline-flex items-center gap-1 uppercase hover:text-gray-800 dark:hover:text-gray-100"
+                                            onClick={() =>
+                                                onSortChange(
+                                                    directionOf(field) === "asc"
+                                                        ? `-${field}`
+                                                        : field
+                                                )
+                                            }
+                                        >
+                                            {column.header}
+                                            <SortIcon
+                                                direction={directionOf(field)}
+                                            />
+                                        </button>
+                                    ) : (
+                                        column.header
+                                    )}
+                                </th>
+                            );
+                        })}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row) => (
+                        <tr
+                            key={getRowKey(row)}
+                            onClick={onRowClick && (() => onRowClick(row))}
+                            className={`border-b border-gray-100 dark:border-gray-800 last:border-0 ${
+                                onRowClick
+                                    ? "cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800"
+                                    : ""
+                            }`}
+                        >
+                            {columns.map((column) => (
+                                <td
+                                    key={column.key}
+                                    className={`px-3 py-2 ${
+                                        column.align === "right"
+                                            ? "text-right tabular-nums"
+                                            : ""
+                                    }`}
+                                >
+                                    {column.render(row)}
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                    {!rows.length && (
+                        <tr>
+                            <td
+                                colSpan={columns.length}
+                                className="px-3 py-8 text-center text-gray-500 dark:text-gray-400"
+                            >
+                                {isLoading ? "Loading…" : emptyMessage}
+                            </td>
+                        </tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -0,0 +1,29 @@
+import type { ReactNode } from "react";
+
+interface FormFieldProps {
+    id: string;
+    label: string;
+    error?: string;
+    children: ReactNode;
+}
+
+/** A labelled form control with its validation message */
+export default function FormField({
+    id,
+    label,
+    error,
+    children,
+}: FormFieldProps) {
+    return (
+        <div className="space-y-1">
+            <label
+                htmlFor={id}
+                className="text-sm font-medium text-gray-700 dark:text-gray-200"
+            >
+                {label}
+            </label>
+            {children}
+            {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+    );
+}
@@ -1,5 +1,7 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { useNavigate } from "react-router"
 import { BellIcon } from "lucide-react"
+import type { Notification } from "shared"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -8,57 +10,32 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover"
+import { subscribeToEvents } from "@/lib/eventStream"
+import { formatRelativeTime } from "@/lib/utils"
+import { useNotificationStore } from "@/store/notificationStore"
 
-const initialNotifications = [
-  {
-    id: 1,
-    user: "Chris Tompson",
-    action: "requested review on",
-    target: "PR #42: Feature implementation",
-    timestamp: "15 minutes ago",
-    unread: true,
-  },
-  {
-    id: 2,
-    user: "Emma Davis",
-    action: "shared",
-    target: "New component library",
-    timestamp: "45 minutes ago",
-    unread: true,
-  },
-  {
-    id: 3,
-    user: "James Wilson",
-    action: "assigned you to",
-    target: "API integration task",
-    timestamp: "4 hours ago",
-    unread: false,
-  },
-  {
-    id: 4,
-    user: "Alex Morgan",
-    action: "replied to your comment in",
-    target: "Authentication flow",
-    timestamp: "12 hours ago",
-    unread: false,
-  },
-  {
-    id: 5,
-    user: "Sarah Chen",
-    action: "commented on",
-    target: "Dashboard redesign",
-    timestamp: "2 days ago",
-    unread: false,
-  },
-  {
-    id: 6,
-    user: "Miky Derya",
-    action: "mentioned you in",
-    target: "Origin UI open graph image",
-    timestamp: "2 weeks ago",
-    unread: false,
-  },
-]
+/**
+ * In-app path of the record a notification is about, or undefined when it has
+ * no screen (batches)
+ */
+function getNotificationLink({
+  relatedEntityType,
+  relatedEntityId,
+}: Notification): string | undefined {
+  switch (relatedEntityType) {
+    case "PurchaseOrder":
+      return `/purchase-orders/${relatedEntityId}`
+    case "SalesOrder":
+      return `/sales-orders/${relatedEntityId}`
+    case "Product":
+      return `/products/${relatedEntityId}`
+    case "Task":
+      return `/tasks?task=${relatedEntityId}`
+  }
+}
+
+// Relative timestamps are refreshed this often while the app is open
+const CLOCK_INTERVAL_MS = 60_000
 
 function Dot({ className }: { className?: string }) {
   return (
@@ -77,30 +54,55 @@ function Dot({ className }: { className?: string }) {
 }
 
 export default function NotificationPopover() {
-  const [notifications, setNotifications] = useState(initialNotifications)
-  const unreadCount = notifications.filter((n) => n.unread).length
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+  const [now, setNow] = useState(() => new Date())
+  const {
+    notifications,
+    unreadCount,
+    isLoading,
+    fetchNotifications,
+    markAsRead,
+    markAllAsRead,
+    receive,
+    applyRead,
+  } = useNotificationStore()
 
-  const handleMarkAllAsRead = () => {
-    setNotifications(
-      notifications.map((notification) => ({
-        ...notification,
-        unread: false,
-      }))
+  useEffect(() => {
+    fetchNotifications().catch(() => {})
+
+    const controller = new AbortController()
+    subscribeToEvents(
+      "/notifications/stream",
+      {
+        notification: (data) => receive(data as Notification),
+        read: (data) => applyRead(data as { ids?: number[]; all?: boolean }),
+      },
+      controller.signal
     )
+    const clock = setInterval(() => setNow(new Date()), CLOCK_INTERVAL_MS)
+
+    return () => {
+      controller.abort()
+      clearInterval(clock)
+    }
+  }, [fetchNotifications, receive, applyRead])
+
+  const handleMarkAllAsRead = () => {
+    markAllAsRead().catch(() => {})
   }
 
-  const handleNotificationClick = (id: number) => {
-    setNotifications(
-      notifications.map((notification) =>
-        notification.id === id
-          ? { ...notification, unread: false }
-          : notification
-      )
-    )
+  const handleNotificationClick = (notification: Notification) => {
+    markAsRead(notification.id).catch(() => {})
+    const link = getNotificationLink(notification)
+    if (link) {
+      setOpen(false)
+      navigate(link)
+    }
   }
 
   return (
-    <Popover>
+    <Popover open={open} onOpenChange={setOpen}>
       <PopoverTrigger asChild>
         <Button
           size="icon"
@@ -133,6 +135,11 @@ export default function NotificationPopover() {
           aria-orientation="horizontal"
           className="bg-border -mx-1 my-1 h-px"
         ></div>
+        {notifications.length === 0 && (
+          <div className="text-muted-foreground px-3 py-6 text-center text-sm">
+            {isLoading ? "Loading…" : "You're all caught up"}
+          </div>
+        )}
         {notifications.map((notification) => (
           <div
             key={notification.id}
@@ -142,22 +149,17 @@ export default function NotificationPopover() {
               <div className="flex-1 space-y-1">
                 <button
                   className="text-foreground/80 text-left after:absolute after:inset-0"
-                  onClick={() => handleNotificationClick(notification.id)}
+                  onClick={() => handleNotificationClick(notification)}
                 >
-                  <span className="text-foreground font-medium hover:underline">
-                    {notification.user}
-                  </span>{" "}
-                  {notification.action}{" "}
-                  <span className="text-foreground font-medium hover:underline">
-                    {notification.target}
-                  </span>
-                  .
+                  {notification.message}
                 </button>
                 <div className="text-muted-foreground text-xs">
-                  {notification.timestamp}
+                  <time dateTime={notification.createdAt}>
+                    {formatRelativeTime(notification.createdAt, now)}
+                  </time>
                 </div>
               </div>
-              {notification.unread && (
+              {!notification.isRead && (
                 <div className="absolute end-0 self-center">
                   <span className="sr-only">Unread</span>
                   <Dot />
@@ -0,0 +1,52 @@
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface PaginationProps {
+    page: number;
+    limit: number;
+    total: number;
+    onPageChange: (page: number) => void;
+}
+
+/** Previous and next buttons for offset-paged lists */
+export default function Pagination({
+    page,
+    limit,
+    total,
+    onPageChange,
+}: PaginationProps) {
+    const pageCount = Math.max(1, Math.ceil(total / limit));
+    const first = total ? (page - 1) * limit + 1 : 0;
+    const last = Math.min(page * limit, total);
+
+    return (
+        <div className="flex items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <span>
+                {first}–{last} of {total}
+            </span>
+            <div className="flex items-center gap-2">
+                <Button
+                    size="icon"
+                    variant="outline"
+                    aria-label="Previous page"
+                    disabled={page <= 1}
+                    onClick={() => onPageChange(page - 1)}
+                >
+                    <ChevronLeftIcon size={16} aria-hidden="true" />
+                </Button>
+                <span>
+                    Page {page} of {pageCount}
+                </span>
+                <Button
+                    size="icon"
+                    variant="outline"
+                    aria-label="Next page"
+                    disabled={page >= pageCount}
+                    onClick={() => onPageChange(page + 1)}
+                >
+                    <ChevronRightIcon size={16} aria-hidden="true" />
+                </Button>
+            </div>
+        </div>
+    );
+}
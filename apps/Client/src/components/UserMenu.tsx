@@ -0,0 +1,49 @@
+import { LogOutIcon, UserIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuthStore } from "@/store/authStore";
+
+export default function UserMenu() {
+    const { user, logout } = useAuthStore();
+
+    if (!user) return null;
+
+    const fullName = [user.firstName, user.lastName].filter(Boolean).join(" ");
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button size="icon" variant="outline" aria-label="Account">
+                    <UserIcon size={16} aria-hidden="true" />
+                </Button>
+            </DropdownMenuTrigger>
+
+            <DropdownMenuContent align="end" className="min-w-48">
+                <DropdownMenuLabel>
+                    <div className="font-medium">
+                        {fullName || user.username}
+                    </div>
+                    <div className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                        {user.email}
+                    </div>
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => void logout()}>
+                    <LogOutIcon
+                        size={16}
+                        className="opacity-60"
+                        aria-hidden="true"
+                    />
+                    <span>Sign out</span>
+                </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
@@ -0,0 +1,16 @@
+import { Navigate, Outlet, useLocation, type Location } from "react-router";
+import { useAuthStore } from "@/store/authStore";
+
+/** Routes for signed-out users, such as login; a signed-in user moves on */
+const GuestRoute = () => {
+    const user = useAuthStore((state) => state.user);
+    const location = useLocation();
+    const from = (location.state as { from?: Location } | null)?.from;
+
+    if (user) {
+        return <Navigate to={from ?? "/"} replace />;
+    }
+    return <Outlet />;
+};
+
+export default GuestRoute;
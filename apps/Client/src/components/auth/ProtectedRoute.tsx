@@ -0,0 +1,15 @@
+import { Navigate, Outlet, useLocation } from "react-router";
+import { useAuthStore } from "@/store/authStore";
+
+/** Renders its child routes for signed-in users and sends others to login */
+const ProtectedRoute = () => {
+    const user = useAuthStore((state) => state.user);
+    const location = useLocation();
+
+    if (!user) {
+        return <Navigate to="/login" replace state={{ from: location }} />;
+    }
+    return <Outlet />;
+};
+
+export default ProtectedRoute;
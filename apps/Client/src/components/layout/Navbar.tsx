@@ -1,6 +1,7 @@
 import { Link } from "react-router";
 import NotificationPopover from "../NotificationPopover";
 import ThemeSelector from "../ThemeSelector";
+import UserMenu from "../UserMenu";
 
 const Navbar = () => {
     return (
@@ -19,6 +20,7 @@ const Navbar = () => {
             <div className="flex items-center-safe space-x-2">
                 <ThemeSelector />
                 <NotificationPopover />
+                <UserMenu />
             </div>
         </header>
     );
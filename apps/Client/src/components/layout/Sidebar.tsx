@@ -6,6 +6,7 @@ const menu = [
     { name: "Home", path: "/" },
     { name: "Products", path: "/products" },
     { name: "Orders", path: "/orders" },
+    { name: "Tasks", path: "/tasks" },
 ];
 
 const Sidebar = () => {
@@ -0,0 +1,358 @@
+import { useEffect, useState, type KeyboardEvent } from "react";
+import { Trash2Icon } from "lucide-react";
+import type { OrderTotals, Product } from "shared";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api, showApiError, type FieldErrors } from "@/lib/api";
+import { toNumber, type OrderLineValues } from "@/lib/orders";
+import { formatCurrency } from "@/lib/utils";
+
+const SEARCH_DELAY_MS = 300;
+const LOOKUP_LIMIT = 8;
+
+const searchProducts = async (term: string, signal?: AbortSignal) => {
+    const { data } = await api.products.list(
+        { query: { search: term, limit: LOOKUP_LIMIT, sort: "name" } },
+        { signal }
+    );
+    return data;
+};
+
+/**
+ * Finds products by name, SKU or supplier SKU. Enter looks up what has been
+ * typed so far and picks an exact SKU match, or the first result, so a scanned
+ * barcode adds its product straight away.
+ */
+const ProductLookup = ({
+    onSelect,
+}: {
+    onSelect: (product: Product) => void;
+}) => {
+    const [search, setSearch] = useState("");
+    const [results, setResults] = useState<Product[]>([]);
+
+    useEffect(() => {
+        const term = search.trim();
+        if (!term) {
+            setResults([]);
+            return;
+        }
+        // Aborted once the search changes, so a late response can't replace
+        // newer results or refill the list after it was cleared
+        const controller = new AbortController();
+        const timeout = setTimeout(() => {
+            searchProducts(term, controller.signal)
+                .then(setResults)
+                .catch((error) => {
+                    if (!controller.signal.aborted) showApiError(error);
+                });
+        }, SEARCH_DELAY_MS);
+        return () => {
+            clearTimeout(timeout);
+            controller.abort();
+        };
+    }, [search]);
+
+    const select = (product: Product) => {
+        onSelect(product);
+        setSearch("");
+        setResults([]);
+    };
+
+    const pickMatch = async (submitted: string) => {
+        const term = submitted.trim();
+        try {
+            const products = await searchProducts(term);
+            const sku = term.toLowerCase();
+            const match =
+                products.find((product) => product.sku.toLowerCase() === sku) ??
+                products[0];
+            if (!match) return;
+            onSelect(match);
+            // Anything typed while the lookup ran, such as the next scan, stays
+            setSearch((current) => (current === submitted ? "" : current));
+        } catch (error) {
+            showApiError(error);
+        }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+        if (event.key === "Escape") {
+            setSearch("");
+        }
+        if (event.key !== "Enter") return;
+        // Enter would otherwise submit the order form
+        event.preventDefault();
+        if (search.trim()) void pickMatch(search);
+    };
+
+    return (
+        <div className="relative max-w-md">
+            <Input
+                type="search"
+                placeholder="Add a product by SKU or name"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                onKeyDown={handleKeyDown}
+                className="bg-white dark:bg-gray-900"
+            />
+            {results.length > 0 && (
+                <ul className="absolute z-10 mt-1 w-full overflow-hidden rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 shadow">
+                    {results.map((product) => (
+                        <li key={product.id}>
+                            <button
+                                type="button"
+                                onClick={() => select(product)}
+                                className="flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                            >
+                                <span>
+                                    <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                                        {product.sku}
+                                    </span>{" "}
+                                    <span className="text-gray-800 dark:text-gray-100">
+                                        {product.name}
+                                    </span>
+                                </span>
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                    {product.stock.onHand} on hand
+                                </span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+interface OrderLinesEditorProps {
+    lines: OrderLineValues[];
+    onChange: (lines: OrderLineValues[]) => void;
+    /** Line for a product picked in the lookup */
+    createLine: (product: Product) => OrderLineValues;
+    /** Recalculated totals, or null while an input is invalid */
+    totals: OrderTotals | null;
+    /** Name of the unit price field in the request, for its errors */
+    priceField: "unitPrice" | "unitCost";
+    fieldErrors: FieldErrors;
+}
+
+const numberInputClassName = "h-8 bg-white dark:bg-gray-900 text-right";
+
+/**
+ * The lines of a sales or purchase order form. Picking a product that is
+ * already on the order adds one to that line instead of repeating it.
+ */
+export default function OrderLinesEditor({
+    lines,
+    onChange,
+    createLine,
+    totals,
+    priceField,
+    fieldErrors,
+}: OrderLinesEditorProps) {
+    const addProduct = (product: Product) => {
+        const existing = lines.find((line) => line.product.id === product.id);
+        onChange(
+            existing
+                ? lines.map((line) =>
+                      line === existing
+                          ? {
+                                ...line,
+                                quantity: String(toNumber(line.quantity) + 1),
+                            }
+                          : line
+                  )
+                : [...lines, createLine(product)]
+        );
+    };
+
+    const updateLine = (key: string, changes: Partial<OrderLineValues>) =>
+        onChange(
+            lines.map((line) =>
+                line.key === key ? { ...line, ...changes } : line
+            )
+        );
+
+    const errorsFor = (index: number) =>
+        [
+            fieldErrors[`items.${index}.quantityOrdered`],
+            fieldErrors[`items.${index}.${priceField}`],
+            fieldErrors[`items.${index}.discountPercentage`],
+            fieldErrors[`items.${index}.taxRate`],
+        ].filter(Boolean);
+
+    return (
+        <div className="space-y-3">
+            <ProductLookup onSelect={addProduct} />
+
+            <div className="overflow-x-auto rounded-lg bg-white dark:bg-gray-900 shadow">
+                <table className="w-full text-sm">
+                    <thead className="border-b border-gray-200 dark:border-gray-800 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                        <tr>
+                            <th className="px-3 py-2 font-medium">Product</th>
+                            <th className="w-24 px-3 py-2 text-right font-medium">
+                                Qty
+                            </th>
+                            <th className="w-36 px-3 py-2 text-right font-medium">
+                                {priceField === "unitPrice"
+                                    ? "Unit price"
+                                    : "Unit cost"}
+                            </th>
+                            <th className="w-24 px-3 py-2 text-right font-medium">
+                                Disc. %
+                            </th>
+                            <th className="w-24 px-3 py-2 text-right font-medium">
+                                Tax %
+                            </th>
+                            <th className="w-36 px-3 py-2 text-right font-medium">
+                                Total
+                            </th>
+                            <th className="w-10 px-3 py-2">
+                                <span className="sr-only">Remove</span>
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {!lines.length && (
+                            <tr>
+                                <td
+                                    colSpan={7}
+                                    className="px-3 py-6 text-center text-gray-500 dark:text-gray-400"
+                                >
+                                    No lines yet. Look up a product to add one.
+                                </td>
+                            </tr>
+                        )}
+                        {lines.map((line, index) => {
+                            const errors = errorsFor(index);
+                            return (
+                                <tr
+                                    key={line.key}
+                                    className="border-b border-gray-100 dark:border-gray-800 align-top last:border-0"
+                                >
+                                    <td className="px-3 py-2">
+                                        <div className="text-gray-800 dark:text-gray-100">
+                                            {line.product.name}
+                                        </div>
+                                        <div className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                                            {line.product.sku}
+                                        </div>
+                                        {errors.map((error) => (
+                                            <p
+                                                key={error}
+                                                className="text-xs text-red-600"
+                                            >
+                                                {error}
+                                            </p>
+                                        ))}
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <Input
+                                            type="number"
+                                            min={1}
+                                            step={1}
+                                            aria-label="Quantity"
+                                            value={line.quantity}
+                                            onChange={(event) =>
+                                                updateLine(line.key, {
+                                                    quantity:
+                                                        event.target.value,
+                                                })
+                                            }
+                                            className={numberInputClassName}
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            step={1}
+                                            aria-label={
+                                                priceField === "unitPrice"
+                                                    ? "Unit price"
+                                                    : "Unit cost"
+                                            }
+                                            value={line.unitPrice}
+                                            onChange={(event) =>
+                                                updateLine(line.key, {
+                                                    unitPrice:
+                                                        event.target.value,
+                                                })
+                                            }
+                                            className={numberInputClassName}
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            max={100}
+                                            step="any"
+                                            aria-label="Discount percentage"
+                                            value={line.discountPercentage}
+                                            onChange={(event) =>
+                                                updateLine(line.key, {
+                                                    discountPercentage:
+                                                        event.target.value,
+                                                })
+                                            }
+                                            className={numberInputClassName}
+                                        />
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            max={100}
+                                            step="any"
+                                            aria-label="Tax rate"
+                                            value={line.taxRate}
+                                            onChange={(event) =>
+                                                updateLine(line.key, {
+                                                    taxRate: event.target.value,
+                                                })
+                                            }
+                                            className={numberInputClassName}
+                                        />
+                                    </td>
+                                    <td className="px-3 py-3.5 text-right tabular-nums text-gray-800 dark:text-gray-100">
+                                        {totals
+                                            ? formatCurrency(
+                                                  totals.lines[index].total
+                                              )
+                                            : "—"}
+                                    </td>
+                                    <td className="px-1 py-2">
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            aria-label={`Remove ${line.product.name}`}
+                                            onClick={() =>
+                                                onChange(
+                                                    lines.filter(
+                                                        (l) =>
+                                                            l.key !== line.key
+                                                    )
+                                                )
+                                            }
+                                        >
+                                            <Trash2Icon
+                                                size={16}
+                                                aria-hidden="true"
+                                            />
+                                        </Button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {fieldErrors.items && (
+                <p className="text-xs text-red-600">{fieldErrors.items}</p>
+            )}
+        </div>
+    );
+}
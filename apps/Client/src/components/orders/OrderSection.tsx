@@ -0,0 +1,19 @@
+import type { ReactNode } from "react";
+
+/** A titled panel of an order's detail page */
+export default function OrderSection({
+    title,
+    children,
+}: {
+    title: string;
+    children: ReactNode;
+}) {
+    return (
+        <section className="space-y-3 rounded-lg bg-white dark:bg-gray-900 p-4 shadow">
+            <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+                {title}
+            </h2>
+            {children}
+        </section>
+    );
+}
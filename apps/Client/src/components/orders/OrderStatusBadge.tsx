@@ -0,0 +1,29 @@
+import type { ComponentProps } from "react";
+import type { PurchaseOrderStatus, SalesOrderStatus } from "shared";
+import { Badge } from "@/components/ui/badge";
+import { formatEnum } from "@/lib/orders";
+
+type BadgeVariant = ComponentProps<typeof Badge>["variant"];
+
+const VARIANTS: Partial<
+    Record<SalesOrderStatus | PurchaseOrderStatus, BadgeVariant>
+> = {
+    PENDING: "outline",
+    SHIPPED: "default",
+    DELIVERED: "default",
+    RECEIVED: "default",
+    CANCELLED: "destructive",
+    RETURNED: "destructive",
+};
+
+export default function OrderStatusBadge({
+    status,
+}: {
+    status: SalesOrderStatus | PurchaseOrderStatus;
+}) {
+    return (
+        <Badge variant={VARIANTS[status] ?? "secondary"}>
+            {formatEnum(status)}
+        </Badge>
+    );
+}
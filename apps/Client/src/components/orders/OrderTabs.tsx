@@ -0,0 +1,30 @@
+import { NavLink } from "react-router";
+
+const TABS = [
+    { label: "Sales orders", path: "/sales-orders" },
+    { label: "Purchase orders", path: "/purchase-orders" },
+];
+
+/** Switches between the sales and purchase order lists */
+export default function OrderTabs() {
+    return (
+        <nav className="flex gap-1 border-b border-gray-300 dark:border-gray-700">
+            {TABS.map((tab) => (
+                <NavLink
+                    key={tab.path}
+                    to={tab.path}
+                    end
+                    className={({ isActive }) =>
+                        `-mb-px border-b-2 px-3 py-2 text-sm ${
+                            isActive
+                                ? "border-gray-800 dark:border-gray-100 font-medium text-gray-800 dark:text-gray-100"
+                                : "border-transparent text-gray-500 dark:text-gray-400"
+                        }`
+                    }
+                >
+                    {tab.label}
+                </NavLink>
+            ))}
+        </nav>
+    );
+}
@@ -0,0 +1,46 @@
+import type { UserRef } from "shared";
+import { formatEnum } from "@/lib/orders";
+import { formatDate } from "@/lib/utils";
+
+interface OrderEvent {
+    id: number;
+    eventType: string;
+    details: string | null;
+    timestamp: string;
+    user: UserRef;
+}
+
+/** An order's events, newest first as the server sends them */
+export default function OrderTimeline({ events }: { events: OrderEvent[] }) {
+    if (!events.length) {
+        return (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                No events yet.
+            </p>
+        );
+    }
+
+    return (
+        <ol className="space-y-4 border-l border-gray-300 dark:border-gray-700 pl-4">
+            {events.map((event) => (
+                <li key={event.id} className="relative">
+                    <span
+                        className="absolute -left-[21px] top-1.5 size-2.5 rounded-full bg-gray-400 dark:bg-gray-500"
+                        aria-hidden="true"
+                    />
+                    <div className="text-sm font-medium text-gray-800 dark:text-gray-100">
+                        {formatEnum(event.eventType)}
+                    </div>
+                    {event.details && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300">
+                            {event.details}
+                        </p>
+                    )}
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDate(event.timestamp)} by {event.user.username}
+                    </div>
+                </li>
+            ))}
+        </ol>
+    );
+}
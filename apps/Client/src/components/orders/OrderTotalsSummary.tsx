@@ -0,0 +1,48 @@
+import { formatCurrency } from "@/lib/utils";
+
+interface OrderTotalsSummaryProps {
+    subTotal: number;
+    taxAmount: number;
+    /** Omitted for purchase orders, which have no order-level discount */
+    discountAmount?: number;
+    shippingCost: number;
+    totalAmount: number;
+}
+
+export default function OrderTotalsSummary({
+    subTotal,
+    taxAmount,
+    discountAmount,
+    shippingCost,
+    totalAmount,
+}: OrderTotalsSummaryProps) {
+    const rows: [string, number][] = [
+        ["Subtotal", subTotal],
+        ["Tax", taxAmount],
+        ...(discountAmount === undefined
+            ? []
+            : [["Discount", -discountAmount] as [string, number]]),
+        ["Shipping", shippingCost],
+    ];
+
+    return (
+        <dl className="space-y-1 text-sm tabular-nums">
+            {rows.map(([label, amount]) => (
+                <div key={label} className="flex justify-between gap-8">
+                    <dt className="text-gray-500 dark:text-gray-400">
+                        {label}
+                    </dt>
+                    <dd className="text-gray-800 dark:text-gray-100">
+                        {formatCurrency(amount)}
+                    </dd>
+                </div>
+            ))}
+            <div className="flex justify-between gap-8 border-t border-gray-300 dark:border-gray-700 pt-1 font-semibold">
+                <dt className="text-gray-800 dark:text-gray-100">Total</dt>
+                <dd className="text-gray-800 dark:text-gray-100">
+                    {formatCurrency(totalAmount)}
+                </dd>
+            </div>
+        </dl>
+    );
+}
@@ -0,0 +1,179 @@
+import { toast } from "react-toastify";
+import {
+    ApiError,
+    apiContract,
+    createApiClient,
+    type AuthTokens,
+} from "shared";
+
+export const API_BASE_URL = "/api/v1";
+
+const ACCESS_TOKEN_KEY = "accessToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+/** Access token of the signed-in user, if any */
+export const getAccessToken = () => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const storeTokens = ({ accessToken, refreshToken }: AuthTokens) => {
+    localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const clearTokens = () => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+let handleSessionExpired = () => {};
+
+/** Called when the refresh token is rejected, so the session must end */
+export const onSessionExpired = (handler: () => void) => {
+    handleSessionExpired = handler;
+};
+
+/** The refresh in flight; requests made meanwhile wait for it */
+let refreshing: Promise<string> | null = null;
+
+/** Client for the refresh call itself, so its 401 isn't retried */
+const authApi = createApiClient({ baseUrl: API_BASE_URL });
+
+const endSession = () => {
+    clearTokens();
+    handleSessionExpired();
+};
+
+/** The server refused the refresh token, as opposed to the call failing */
+const isRefreshRejected = (error: unknown) =>
+    error instanceof ApiError && (error.status === 401 || error.status === 403);
+
+/**
+ * Swaps the refresh token for a new token pair. Concurrent callers share one
+ * request, since the server rotates refresh tokens and a second use of the
+ * old one would fail. Rejects, ending the session, when there is no valid
+ * refresh token; other failures, e.g. a network error or a 5xx, reject
+ * without signing the user out.
+ */
+export const refreshAccessToken = () => {
+    refreshing ??= (async () => {
+        const refreshToken = getRefreshToken();
+        if (!refreshToken) {
+            endSession();
+            throw new Error("Not signed in");
+        }
+        try {
+            const { data } = await authApi.auth.refresh({
+                body: { refreshToken },
+            });
+            storeTokens(data);
+            return data.accessToken;
+        } catch (error) {
+            if (isRefreshRejected(error)) endSession();
+            throw error;
+        }
+    })().finally(() => {
+        refreshing = null;
+    });
+    return refreshing;
+};
+
+const authHeaders = async (): Promise<Record<string, string>> => {
+    if (refreshing) await refreshing.catch(() => undefined);
+    const token = getAccessToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+/** Endpoints whose 401 means bad credentials, not an expired access token */
+const CREDENTIAL_PATHS = [apiContract.auth.login.path];
+
+const isCredentialRequest = (input: RequestInfo | URL) =>
+    CREDENTIAL_PATHS.some((path) => String(input) === API_BASE_URL + path);
+
+/** Retries a request once with a new access token when the old one expired */
+const fetchWithRefresh: typeof fetch = async (input, init) => {
+    const response = await fetch(input, init);
+    if (response.status !== 401 || isCredentialRequest(input)) {
+        return response;
+    }
+
+    const token = await refreshAccessToken();
+    const headers = new Headers(init?.headers);
+    headers.set("Authorization", `Bearer ${token}`);
+    return fetch(input, { ...init, headers });
+};
+
+/**
+ * Typed client for the endpoints of `apiContract`, signed in as the current
+ * user, e.g. `api.products.get({ params: { id } })`. Calls resolve to the
+ * `data` and `meta` of the response and reject with `ApiError`.
+ */
+export const api = createApiClient({
+    baseUrl: API_BASE_URL,
+    headers: authHeaders,
+    fetch: fetchWithRefresh,
+});
+
+/** Messages by field path, e.g. `{ email: "Invalid email" }` */
+export type FieldErrors = Record<string, string>;
+
+const STATUS_MESSAGES: Record<number, string> = {
+    401: "Your session has expired. Please sign in again.",
+    403: "You don't have permission to do that.",
+    404: "That record no longer exists.",
+    429: "Too many requests. Please wait a moment and try again.",
+};
+
+const DEFAULT_MESSAGE = "Something went wrong. Please try again.";
+
+/** Message of a failed request, as sent by the server's error handler */
+export const getErrorMessage = (error: unknown) => {
+    if (error instanceof ApiError) {
+        return (
+            error.serverMessage ||
+            STATUS_MESSAGES[error.status] ||
+            DEFAULT_MESSAGE
+        );
+    }
+    // fetch rejects with a TypeError when the request can't be sent at all
+    if (error instanceof TypeError) {
+        return "Can't reach the server. Check your connection and try again.";
+    }
+    return DEFAULT_MESSAGE;
+};
+
+/**
+ * Field errors of a rejected request body. `validateRequest` joins zod issues
+ * into one message, e.g. "email: Invalid email; password: Required", which is
+ * split back into fields here; null when the message isn't in that form.
+ */
+export const getFieldErrors = (error: unknown): FieldErrors | null => {
+    if (
+        !(error instanceof ApiError) ||
+        error.status !== 400 ||
+        !error.serverMessage
+    ) {
+        return null;
+    }
+
+    const fieldErrors: FieldErrors = {};
+    for (const issue of error.serverMessage.split("; ")) {
+        const match = /^([\w.]+): (.+)$/.exec(issue);
+        if (!match) return null;
+        fieldErrors[match[1]] ??= match[2];
+    }
+    return fieldErrors;
+};
+
+/**
+ * Reports a failed request: validation errors go to `setFieldErrors` when the
+ * caller shows a form, anything else becomes a toast.
+ */
+export const showApiError = (
+    error: unknown,
+    setFieldErrors?: (errors: FieldErrors) => void
+) => {
+    const fieldErrors = setFieldErrors && getFieldErrors(error);
+    if (fieldErrors) setFieldErrors(fieldErrors);
+    else toast.error(getErrorMessage(error));
+};
@@ -0,0 +1,72 @@
+import { API_BASE_URL, getAccessToken, refreshAccessToken } from "./api";
+
+export type EventHandlers = Record<string, (data: unknown) => void>;
+
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Listens to a Server-Sent Events endpoint. `EventSource` can't send an
+ * `Authorization` header, so the stream is read with `fetch` instead, and
+ * reconnects after a delay until `signal` is aborted.
+ */
+export function subscribeToEvents(
+    path: string,
+    handlers: EventHandlers,
+    signal: AbortSignal
+) {
+    const dispatch = (block: string) => {
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split("\n")) {
+            if (line.startsWith("event:")) event = line.slice(6).trim();
+            else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+        }
+        if (data.length) handlers[event]?.(JSON.parse(data.join("\n")));
+    };
+
+    const connect = async () => {
+        const response = await fetch(`${API_BASE_URL}${path}`, {
+            headers: {
+                Accept: "text/event-stream",
+                Authorization: `Bearer ${getAccessToken() ?? ""}`,
+            },
+            signal,
+        });
+        // An expired token is refreshed, so the next attempt can succeed
+        if (response.status === 401) await refreshAccessToken();
+        if (!response.ok || !response.body) {
+            throw new Error(`Event stream failed with ${response.status}`);
+        }
+
+        const reader = response.body
+            .pipeThrough(new TextDecoderStream())
+            .getReader();
+        let buffer = "";
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) return;
+            buffer += value.replace(/\r\n?/g, "\n");
+            let end: number;
+            while ((end = buffer.indexOf("\n\n")) !== -1) {
+                dispatch(buffer.slice(0, end));
+                buffer = buffer.slice(end + 2);
+            }
+        }
+    };
+
+    const run = async () => {
+        while (!signal.aborted) {
+            try {
+                await connect();
+            } catch {
+                // Dropped or refused; retried below
+            }
+            if (signal.aborted) return;
+            await new Promise((resolve) =>
+                setTimeout(resolve, RECONNECT_DELAY_MS)
+            );
+        }
+    };
+
+    void run();
+}
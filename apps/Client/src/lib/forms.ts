@@ -0,0 +1,18 @@
+import type { FieldErrors } from "./api";
+
+interface Issue {
+    path: (string | number)[];
+    message: string;
+}
+
+/**
+ * First message per field of a failed `safeParse`, keyed by path the way
+ * `getFieldErrors` keys the server's, so a form shows both the same way.
+ */
+export const toFieldErrors = (issues: Issue[]): FieldErrors => {
+    const fieldErrors: FieldErrors = {};
+    for (const issue of issues) {
+        fieldErrors[issue.path.join(".")] ??= issue.message;
+    }
+    return fieldErrors;
+};
@@ -0,0 +1,63 @@
+import {
+    calculateOrderTotals,
+    type OrderTotals,
+    type OrderTotalsInput,
+} from "shared";
+
+export interface OrderLineProduct {
+    id: number;
+    name: string;
+    sku: string;
+}
+
+/** A line of an order form, with its inputs kept as typed */
+export interface OrderLineValues {
+    /** Row key; new lines have no id until the order is saved */
+    key: string;
+    product: OrderLineProduct;
+    quantity: string;
+    unitPrice: string;
+    discountPercentage: string;
+    taxRate: string;
+    /** Purchase orders only */
+    supplierSku?: string | null;
+}
+
+let lastLineKey = 0;
+
+export const newLineKey = () => `line-${++lastLineKey}`;
+
+/** Number typed into an input; blank counts as zero */
+export const toNumber = (value: string) => (value.trim() ? Number(value) : 0);
+
+/** A stored rate such as "18.00" as it would be typed, "18" */
+export const toRateValue = (rate: string | null) =>
+    rate === null ? "" : String(Number(rate));
+
+/** A stored rate for display, e.g. "18.00" → "18%" */
+export const formatRate = (rate: string | null) => `${Number(rate ?? 0)}%`;
+
+/** Serial numbers typed one per line or separated by commas */
+export const parseSerials = (value: string) =>
+    value
+        .split(/[\n,]/)
+        .map((serial) => serial.trim())
+        .filter(Boolean);
+
+/**
+ * Totals of the form as it stands, or null while an input holds something the
+ * shared calculator rejects, such as a fraction of a shilling.
+ */
+export const previewTotals = (input: OrderTotalsInput): OrderTotals | null => {
+    try {
+        return calculateOrderTotals(input);
+    } catch {
+        return null;
+    }
+};
+
+/** Status or event type as a label, e.g. "PARTIALLY_SHIPPED" → "Partially shipped" */
+export const formatEnum = (value: string) => {
+    const text = value.replace(/_/g, " ").toLowerCase();
+    return text.charAt(0).toUpperCase() + text.slice(1);
+};
@@ -4,3 +4,46 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat(undefined, {
+  numeric: "auto",
+})
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60],
+  ["month", 30 * 24 * 60 * 60],
+  ["week", 7 * 24 * 60 * 60],
+  ["day", 24 * 60 * 60],
+  ["hour", 60 * 60],
+  ["minute", 60],
+]
+
+/** Formats a date relative to now, e.g. "15 minutes ago" or "yesterday" */
+export function formatRelativeTime(date: string | Date, now = new Date()) {
+  const seconds = (new Date(date).getTime() - now.getTime()) / 1000
+  for (const [unit, unitSeconds] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(seconds) >= unitSeconds) {
+      return relativeTimeFormat.format(Math.round(seconds / unitSeconds), unit)
+    }
+  }
+  return "just now"
+}
+
+/** Formats a whole amount in the given currency, e.g. "UGX 12,500" */
+export function formatCurrency(amount: number, currency = "UGX") {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+/** Formats a date, with its time unless `dateOnly` is set */
+export function formatDate(date: string | Date, dateOnly = false) {
+  return new Date(date).toLocaleString(
+    undefined,
+    dateOnly
+      ? { dateStyle: "medium" }
+      : { dateStyle: "medium", timeStyle: "short" }
+  )
+}
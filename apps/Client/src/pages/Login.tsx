@@ -0,0 +1,109 @@
+import { useState, type FormEvent } from "react";
+import { loginSchema } from "shared";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { showApiError, type FieldErrors } from "@/lib/api";
+import { toFieldErrors } from "@/lib/forms";
+import { useAuthStore } from "@/store/authStore";
+
+const Login = () => {
+    const login = useAuthStore((state) => state.login);
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const parsed = loginSchema.safeParse({ email, password });
+        if (!parsed.success) {
+            setFieldErrors(toFieldErrors(parsed.error.issues));
+            return;
+        }
+
+        setFieldErrors({});
+        setIsSubmitting(true);
+        try {
+            // GuestRoute takes over once the session is stored
+            await login(parsed.data);
+        } catch (error) {
+            showApiError(error, setFieldErrors);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="flex min-h-screen items-center justify-center bg-gray-100 dark:bg-gray-800 p-4">
+            <form
+                noValidate
+                onSubmit={handleSubmit}
+                className="w-full max-w-sm space-y-4 rounded-lg bg-white dark:bg-gray-900 p-6 shadow"
+            >
+                <div>
+                    <h1 className="text-xl font-bold text-gray-800 dark:text-gray-100">
+                        InvenEase
+                    </h1>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Sign in to continue
+                    </p>
+                </div>
+
+                <div className="space-y-1">
+                    <label
+                        htmlFor="email"
+                        className="text-sm font-medium text-gray-700 dark:text-gray-200"
+                    >
+                        Email
+                    </label>
+                    <Input
+                        id="email"
+                        type="email"
+                        autoComplete="email"
+                        autoFocus
+                        value={email}
+                        onChange={(event) => setEmail(event.target.value)}
+                        aria-invalid={!!fieldErrors.email}
+                    />
+                    {fieldErrors.email && (
+                        <p className="text-xs text-red-600">
+                            {fieldErrors.email}
+                        </p>
+                    )}
+                </div>
+
+                <div className="space-y-1">
+                    <label
+                        htmlFor="password"
+                        className="text-sm font-medium text-gray-700 dark:text-gray-200"
+                    >
+                        Password
+                    </label>
+                    <Input
+                        id="password"
+                        type="password"
+                        autoComplete="current-password"
+                        value={password}
+                        onChange={(event) => setPassword(event.target.value)}
+                        aria-invalid={!!fieldErrors.password}
+                    />
+                    {fieldErrors.password && (
+                        <p className="text-xs text-red-600">
+                            {fieldErrors.password}
+                        </p>
+                    )}
+                </div>
+
+                <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isSubmitting}
+                >
+                    {isSubmitting ? "Signing in…" : "Sign in"}
+                </Button>
+            </form>
+        </div>
+    );
+};
+
+export default Login;
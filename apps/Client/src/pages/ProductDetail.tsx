@@ -0,0 +1,445 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router";
+import { PencilIcon } from "lucide-react";
+import type {
+    InventoryTransaction,
+    InventoryTransactionType,
+    Product,
+    ProductSerial,
+    ProductStock,
+    ProductStockLocation,
+} from "shared";
+import DataTable, { type Column } from "@/components/DataTable";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { api, showApiError } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+
+const MOVEMENTS_PAGE_SIZE = 50;
+
+const TRANSACTION_LABELS: Record<InventoryTransactionType, string> = {
+    RECEIPT_PURCHASE: "Purchase receipt",
+    SHIPMENT_SALES: "Sales shipment",
+    ADJUSTMENT_ADD: "Adjustment in",
+    ADJUSTMENT_REMOVE: "Adjustment out",
+    TRANSFER_OUT: "Transfer out",
+    TRANSFER_IN: "Transfer in",
+    RETURN_CUSTOMER: "Customer return",
+    RETURN_SUPPLIER: "Supplier return",
+    INITIAL_STOCK: "Opening stock",
+    PRODUCTION_OUTPUT: "Production output",
+    PRODUCTION_CONSUMPTION: "Production use",
+};
+
+const locationColumns = (product: Product): Column<ProductStockLocation>[] => [
+    {
+        key: "location",
+        header: "Location",
+        render: ({ warehouseLocation }) => (
+            <span className="flex items-center gap-2">
+                <span className="font-mono text-xs">
+                    {warehouseLocation.code}
+                </span>
+                {warehouseLocation.isQuarantine && (
+                    <Badge variant="destructive">Quarantine</Badge>
+                )}
+            </span>
+        ),
+    },
+    ...(product.isTrackedByBatch
+        ? [
+              {
+                  key: "batch",
+                  header: "Batch",
+                  render: ({ batch }: ProductStockLocation) =>
+                      batch?.batchNumber ?? "—",
+              },
+              {
+                  key: "expiry",
+                  header: "Expires",
+                  render: ({ batch }: ProductStockLocation) =>
+                      batch?.expiryDate
+                          ? formatDate(batch.expiryDate, true)
+                          : "—",
+              },
+          ]
+        : []),
+    {
+        key: "quantity",
+        header: "On hand",
+        align: "right",
+        render: (location) => location.quantity,
+    },
+    {
+        key: "allocated",
+        header: "Allocated",
+        align: "right",
+        render: (location) => location.allocated,
+    },
+    {
+        key: "available",
+        header: "Available",
+        align: "right",
+        render: (location) => location.quantity - location.allocated,
+    },
+];
+
+const SERIAL_COLUMNS: Column<ProductSerial>[] = [
+    {
+        key: "serialNumber",
+        header: "Serial number",
+        render: (serial) => (
+            <span className="font-mono text-xs">{serial.serialNumber}</span>
+        ),
+    },
+    {
+        key: "location",
+        header: "Location",
+        render: ({ currentLocation }) =>
+            currentLocation
+                ? `${currentLocation.warehouse.name} / ${currentLocation.code}`
+                : "—",
+    },
+];
+
+/** Order or transfer a ledger entry belongs to, with a link when it has a screen */
+const getTransactionReference = (transaction: InventoryTransaction) => {
+    if (transaction.salesOrderId) {
+        return (
+            <Link
+                to={`/sales-orders/${transaction.salesOrderId}`}
+                className="hover:underline"
+            >
+                Sales order #{transaction.salesOrderId}
+            </Link>
+        );
+    }
+    if (transaction.purchaseOrderId) {
+        return (
+            <Link
+                to={`/purchase-orders/${transaction.purchaseOrderId}`}
+                className="hover:underline"
+            >
+                Purchase order #{transaction.purchaseOrderId}
+            </Link>
+        );
+    }
+    if (transaction.stockTransferId) {
+        return `Transfer #${transaction.stockTransferId}`;
+    }
+    return "—";
+};
+
+const MOVEMENT_COLUMNS: Column<InventoryTransaction>[] = [
+    {
+        key: "timestamp",
+        header: "Date",
+        render: (transaction) => formatDate(transaction.timestamp),
+    },
+    {
+        key: "type",
+        header: "Type",
+        render: (transaction) =>
+            TRANSACTION_LABELS[transaction.transactionType],
+    },
+    {
+        key: "quantityChange",
+        header: "Change",
+        align: "right",
+        render: ({ quantityChange }) => (
+            <span
+                className={
+                    quantityChange < 0 ? "text-red-600" : "text-green-600"
+                }
+            >
+                {quantityChange > 0 ? `+${quantityChange}` : quantityChange}
+            </span>
+        ),
+    },
+    {
+        key: "balance",
+        header: "Balance",
+        align: "right",
+        render: (transaction) => transaction.newQuantityAtLocation,
+    },
+    {
+        key: "location",
+        header: "Location",
+        render: ({ warehouseLocation }) =>
+            `${warehouseLocation.warehouse.name} / ${warehouseLocation.code}`,
+    },
+    {
+        key: "lot",
+        header: "Batch / serial",
+        render: (transaction) =>
+            transaction.batch?.batchNumber ??
+            transaction.serialNumber?.serialNumber ??
+            "—",
+    },
+    {
+        key: "reference",
+        header: "Reference",
+        render: getTransactionReference,
+    },
+    {
+        key: "user",
+        header: "By",
+        render: (transaction) => transaction.user.username,
+    },
+    {
+        key: "notes",
+        header: "Notes",
+        render: (transaction) => transaction.notes ?? "",
+    },
+];
+
+const StockTab = ({
+    product,
+    stock,
+}: {
+    product: Product;
+    stock: ProductStock;
+}) => {
+    const warehouses = new Map<
+        number,
+        { name: string; locations: ProductStockLocation[] }
+    >();
+    for (const location of stock.locations) {
+        const { warehouse } = location.warehouseLocation;
+        if (!warehouses.has(warehouse.id)) {
+            warehouses.set(warehouse.id, {
+                name: warehouse.name,
+                locations: [],
+            });
+        }
+        warehouses.get(warehouse.id)!.locations.push(location);
+    }
+
+    return (
+        <div className="space-y-4">
+            {!warehouses.size && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    No stock on hand.
+                </p>
+            )}
+            {[...warehouses].map(([id, warehouse]) => (
+                <section key={id} className="space-y-2">
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+                        {warehouse.name}
+                    </h3>
+                    <DataTable
+                        columns={locationColumns(product)}
+                        rows={warehouse.locations}
+                        getRowKey={(location) => location.id}
+                    />
+                </section>
+            ))}
+
+            {product.isTrackedBySerial && (
+                <section className="space-y-2">
+                    <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+                        Serial numbers in stock
+                    </h3>
+                    <DataTable
+                        columns={SERIAL_COLUMNS}
+                        rows={stock.serials}
+                        getRowKey={(serial) => serial.id}
+                        emptyMessage="No serial numbers in stock."
+                    />
+                </section>
+            )}
+        </div>
+    );
+};
+
+/** The product's ledger, newest first, loaded a page at a time */
+const MovementsTab = ({ productId }: { productId: number }) => {
+    const [transactions, setTransactions] = useState<InventoryTransaction[]>(
+        []
+    );
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const fetchPage = useCallback(
+        async (cursor: string) => {
+            setIsLoading(true);
+            try {
+                const { data, meta } = await api.inventoryTransactions.list({
+                    query: {
+                        productId,
+                        sort: "-timestamp",
+                        limit: MOVEMENTS_PAGE_SIZE,
+                        cursor,
+                    },
+                });
+                setTransactions((current) =>
+                    cursor ? [...current, ...data] : data
+                );
+                setNextCursor(meta.nextCursor);
+            } catch (error) {
+                showApiError(error);
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [productId]
+    );
+
+    useEffect(() => {
+        // An empty cursor starts cursor paging from the newest entry
+        void fetchPage("");
+    }, [fetchPage]);
+
+    return (
+        <div className="space-y-3">
+            <DataTable
+                columns={MOVEMENT_COLUMNS}
+                rows={transactions}
+                getRowKey={(transaction) => transaction.id}
+                isLoading={isLoading}
+                emptyMessage="No stock movements yet."
+            />
+            {nextCursor && (
+                <div className="flex justify-center">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => void fetchPage(nextCursor)}
+                    >
+                        Load more
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SummaryCard = ({ label, value }: { label: string; value: number }) => (
+    <div className="rounded-lg bg-white dark:bg-gray-900 p-4 shadow">
+        <div className="text-xs uppercase text-gray-500 dark:text-gray-400">
+            {label}
+        </div>
+        <div className="text-2xl font-semibold tabular-nums text-gray-800 dark:text-gray-100">
+            {value}
+        </div>
+    </div>
+);
+
+type Tab = "stock" | "movements";
+
+const ProductDetail = () => {
+    const productId = Number(useParams().id);
+    const [product, setProduct] = useState<Product | null>(null);
+    const [stock, setStock] = useState<ProductStock | null>(null);
+    const [tab, setTab] = useState<Tab>("stock");
+
+    useEffect(() => {
+        Promise.all([
+            api.products.get({ params: { id: productId } }),
+            api.products.stock({ params: { id: productId } }),
+        ])
+            .then(([productResponse, stockResponse]) => {
+                setProduct(productResponse.data);
+                setStock(stockResponse.data);
+            })
+            .catch((error) => showApiError(error));
+    }, [productId]);
+
+    if (!product || !stock) {
+        return <p className="text-sm text-gray-500">Loading…</p>;
+    }
+
+    const allocated = stock.locations.reduce(
+        (sum, location) => sum + location.allocated,
+        0
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                    <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                        {product.name}
+                    </h1>
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                        <span className="font-mono">{product.sku}</span>
+                        <span>{product.category.name}</span>
+                        {product.defaultSupplier && (
+                            <span>
+                                Supplied by {product.defaultSupplier.name}
+                                {product.supplierSku &&
+                                    ` (${product.supplierSku})`}
+                            </span>
+                        )}
+                        {product.averageCost !== null && (
+                            <span>
+                                Avg. cost {formatCurrency(product.averageCost)}
+                            </span>
+                        )}
+                        {product.isTrackedByBatch && (
+                            <Badge variant="outline">Batch</Badge>
+                        )}
+                        {product.isTrackedBySerial && (
+                            <Badge variant="outline">Serial</Badge>
+                        )}
+                    </div>
+                    {product.description && (
+                        <p className="mt-2 max-w-2xl text-sm text-gray-600 dark:text-gray-300">
+                            {product.description}
+                        </p>
+                    )}
+                </div>
+                <Button asChild variant="outline" size="sm">
+                    <Link to={`/products/${product.id}/edit`}>
+                        <PencilIcon size={16} aria-hidden="true" />
+                        Edit
+                    </Link>
+                </Button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <SummaryCard label="On hand" value={product.stock.onHand} />
+                <SummaryCard label="Allocated" value={allocated} />
+                <SummaryCard
+                    label="Available"
+                    value={product.stock.onHand - allocated}
+                />
+                <SummaryCard
+                    label="In transit"
+                    value={product.stock.inTransit}
+                />
+            </div>
+
+            <div className="flex gap-1 border-b border-gray-300 dark:border-gray-700">
+                {(
+                    [
+                        ["stock", "Stock by location"],
+                        ["movements", "Movement history"],
+                    ] as const
+                ).map(([value, label]) => (
+                    <button
+                        key={value}
+                        type="button"
+                        onClick={() => setTab(value)}
+                        className={`-mb-px border-b-2 px-3 py-2 text-sm ${
+                            tab === value
+                                ? "border-gray-800 dark:border-gray-100 font-medium text-gray-800 dark:text-gray-100"
+                                : "border-transparent text-gray-500 dark:text-gray-400"
+                        }`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === "stock" ? (
+                <StockTab product={product} stock={stock} />
+            ) : (
+                <MovementsTab productId={product.id} />
+            )}
+        </div>
+    );
+};
+
+export default ProductDetail;
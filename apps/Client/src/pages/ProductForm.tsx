@@ -0,0 +1,290 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import { createProductSchema, type Product } from "shared";
+import FormField from "@/components/FormField";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api, showApiError, type FieldErrors } from "@/lib/api";
+import { toFieldErrors } from "@/lib/forms";
+import { useProductStore } from "@/store/productStore";
+
+interface FormValues {
+    name: string;
+    sku: string;
+    description: string;
+    categoryId: string;
+    unitOfMeasure: string;
+    defaultSupplierId: string;
+    supplierSku: string;
+    isTrackedByBatch: boolean;
+    isTrackedBySerial: boolean;
+}
+
+const EMPTY_FORM: FormValues = {
+    name: "",
+    sku: "",
+    description: "",
+    categoryId: "",
+    unitOfMeasure: "",
+    defaultSupplierId: "",
+    supplierSku: "",
+    isTrackedByBatch: false,
+    isTrackedBySerial: false,
+};
+
+const toFormValues = (product: Product): FormValues => ({
+    name: product.name,
+    sku: product.sku,
+    description: product.description ?? "",
+    categoryId: String(product.categoryId),
+    unitOfMeasure: product.unitOfMeasure,
+    defaultSupplierId: product.defaultSupplierId
+        ? String(product.defaultSupplierId)
+        : "",
+    supplierSku: product.supplierSku ?? "",
+    isTrackedByBatch: product.isTrackedByBatch,
+    isTrackedBySerial: product.isTrackedBySerial,
+});
+
+// Blank optional fields are cleared rather than saved as empty strings
+const toInput = (values: FormValues) => ({
+    name: values.name,
+    sku: values.sku,
+    description: values.description.trim() || null,
+    categoryId: values.categoryId ? Number(values.categoryId) : undefined,
+    unitOfMeasure: values.unitOfMeasure.trim() || undefined,
+    defaultSupplierId: values.defaultSupplierId
+        ? Number(values.defaultSupplierId)
+        : null,
+    supplierSku: values.supplierSku.trim() || null,
+    isTrackedByBatch: values.isTrackedByBatch,
+    isTrackedBySerial: values.isTrackedBySerial,
+});
+
+const inputClassName = "bg-white dark:bg-gray-900";
+const selectClassName =
+    "h-9 w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 text-sm text-gray-800 dark:text-gray-100";
+
+const ProductForm = () => {
+    const { id } = useParams();
+    const productId = id ? Number(id) : null;
+    const navigate = useNavigate();
+    const { categories, suppliers, fetchOptions, saveProduct } =
+        useProductStore();
+    const [values, setValues] = useState<FormValues>(EMPTY_FORM);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [isLoading, setIsLoading] = useState(!!productId);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        fetchOptions().catch((error) => showApiError(error));
+    }, [fetchOptions]);
+
+    useEffect(() => {
+        if (!productId) return;
+        api.products
+            .get({ params: { id: productId } })
+            .then(({ data }) => setValues(toFormValues(data)))
+            .catch((error) => showApiError(error))
+            .finally(() => setIsLoading(false));
+    }, [productId]);
+
+    const setValue = <K extends keyof FormValues>(
+        key: K,
+        value: FormValues[K]
+    ) => setValues((current) => ({ ...current, [key]: value }));
+
+    const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const parsed = createProductSchema.safeParse(toInput(values));
+        if (!parsed.success) {
+            setFieldErrors(toFieldErrors(parsed.error.issues));
+            return;
+        }
+
+        setFieldErrors({});
+        setIsSubmitting(true);
+        try {
+            const product = await saveProduct(productId, parsed.data);
+            navigate(`/products/${product.id}`);
+        } catch (error) {
+            showApiError(error, setFieldErrors);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-gray-500">Loading…</p>;
+    }
+
+    return (
+        <form
+            noValidate
+            onSubmit={handleSubmit}
+            className="max-w-2xl space-y-4 rounded-lg bg-white dark:bg-gray-900 p-6 shadow"
+        >
+            <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                {productId ? "Edit product" : "New product"}
+            </h1>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+                <FormField id="name" label="Name" error={fieldErrors.name}>
+                    <Input
+                        id="name"
+                        value={values.name}
+                        onChange={(event) =>
+                            setValue("name", event.target.value)
+                        }
+                        aria-invalid={!!fieldErrors.name}
+                        className={inputClassName}
+                    />
+                </FormField>
+
+                <FormField id="sku" label="SKU" error={fieldErrors.sku}>
+                    <Input
+                        id="sku"
+                        value={values.sku}
+                        onChange={(event) =>
+                            setValue("sku", event.target.value)
+                        }
+                        aria-invalid={!!fieldErrors.sku}
+                        className={inputClassName}
+                    />
+                </FormField>
+
+                <FormField
+                    id="categoryId"
+                    label="Category"
+                    error={fieldErrors.categoryId}
+                >
+                    <select
+                        id="categoryId"
+                        value={values.categoryId}
+                        onChange={(event) =>
+                            setValue("categoryId", event.target.value)
+                        }
+                        aria-invalid={!!fieldErrors.categoryId}
+                        className={selectClassName}
+                    >
+                        <option value="">Select a category</option>
+                        {categories.map((category) => (
+                            <option key={category.id} value={category.id}>
+                                {category.name}
+                            </option>
+                        ))}
+                    </select>
+                </FormField>
+
+                <FormField
+                    id="unitOfMeasure"
+                    label="Unit of measure"
+                    error={fieldErrors.unitOfMeasure}
+                >
+                    <Input
+                        id="unitOfMeasure"
+                        placeholder="Each"
+                        value={values.unitOfMeasure}
+                        onChange={(event) =>
+                            setValue("unitOfMeasure", event.target.value)
+                        }
+                        aria-invalid={!!fieldErrors.unitOfMeasure}
+                        className={inputClassName}
+                    />
+                </FormField>
+
+                <FormField
+                    id="defaultSupplierId"
+                    label="Default supplier"
+                    error={fieldErrors.defaultSupplierId}
+                >
+                    <select
+                        id="defaultSupplierId"
+                        value={values.defaultSupplierId}
+                        onChange={(event) =>
+                            setValue("defaultSupplierId", event.target.value)
+                        }
+                        className={selectClassName}
+                    >
+                        <option value="">None</option>
+                        {suppliers.map((supplier) => (
+                            <option key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                            </option>
+                        ))}
+                    </select>
+                </FormField>
+
+                <FormField
+                    id="supplierSku"
+                    label="Supplier SKU"
+                    error={fieldErrors.supplierSku}
+                >
+                    <Input
+                        id="supplierSku"
+                        value={values.supplierSku}
+                        onChange={(event) =>
+                            setValue("supplierSku", event.target.value)
+                        }
+                        aria-invalid={!!fieldErrors.supplierSku}
+                        className={inputClassName}
+                    />
+                </FormField>
+            </div>
+
+            <FormField
+                id="description"
+                label="Description"
+                error={fieldErrors.description}
+            >
+                <textarea
+                    id="description"
+                    rows={3}
+                    value={values.description}
+                    onChange={(event) =>
+                        setValue("description", event.target.value)
+                    }
+                    className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-800 dark:text-gray-100"
+                />
+            </FormField>
+
+            <div className="flex flex-wrap gap-6 text-sm text-gray-700 dark:text-gray-200">
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={values.isTrackedByBatch}
+                        onChange={(event) =>
+                            setValue("isTrackedByBatch", event.target.checked)
+                        }
+                    />
+                    Tracked by batch
+                </label>
+                <label className="flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={values.isTrackedBySerial}
+                        onChange={(event) =>
+                            setValue("isTrackedBySerial", event.target.checked)
+                        }
+                    />
+                    Tracked by serial number
+                </label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <Button variant="outline" asChild>
+                    <Link
+                        to={productId ? `/products/${productId}` : "/products"}
+                    >
+                        Cancel
+                    </Link>
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? "Saving…" : "Save"}
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+export default ProductForm;
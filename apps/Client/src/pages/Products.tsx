@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router";
+import { PlusIcon } from "lucide-react";
+import type { Product } from "shared";
+import ColumnPicker from "@/components/ColumnPicker";
+import DataTable, { type Column } from "@/components/DataTable";
+import Pagination from "@/components/Pagination";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { showApiError } from "@/lib/api";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { useProductStore } from "@/store/productStore";
+
+const SEARCH_DELAY_MS = 300;
+
+const selectClassName =
+    "rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100";
+
+const COLUMNS: Column<Product>[] = [
+    {
+        key: "sku",
+        header: "SKU",
+        sortField: "sku",
+        render: (product) => (
+            <span className="font-mono text-xs">{product.sku}</span>
+        ),
+    },
+    {
+        key: "name",
+        header: "Name",
+        sortField: "name",
+        render: (product) => (
+            <span className="font-medium">{product.name}</span>
+        ),
+    },
+    {
+        key: "category",
+        header: "Category",
+        render: (product) => product.category.name,
+    },
+    {
+        key: "supplier",
+        header: "Supplier",
+        render: (product) => product.defaultSupplier?.name ?? "—",
+    },
+    {
+        key: "unitOfMeasure",
+        header: "Unit",
+        render: (product) => product.unitOfMeasure,
+    },
+    {
+        key: "averageCost",
+        header: "Avg. cost",
+        sortField: "averageCost",
+        align: "right",
+        render: (product) =>
+            product.averageCost === null
+                ? "—"
+                : formatCurrency(product.averageCost),
+    },
+    {
+        key: "onHand",
+        header: "On hand",
+        align: "right",
+        render: (product) => product.stock.onHand,
+    },
+    {
+        key: "inTransit",
+        header: "In transit",
+        align: "right",
+        render: (product) => product.stock.inTransit,
+    },
+    {
+        key: "tracking",
+        header: "Tracking",
+        render: (product) => (
+            <div className="flex gap-1">
+                {product.isTrackedByBatch && (
+                    <Badge variant="outline">Batch</Badge>
+                )}
+                {product.isTrackedBySerial && (
+                    <Badge variant="outline">Serial</Badge>
+                )}
+            </div>
+        ),
+    },
+    {
+        key: "createdAt",
+        header: "Created",
+        sortField: "createdAt",
+        render: (product) => formatDate(product.createdAt, true),
+    },
+];
+
+const Products = () => {
+    const {
+        products,
+        meta,
+        filters,
+        page,
+        sort,
+        hiddenColumns,
+        isLoading,
+        categories,
+        suppliers,
+        setFilters,
+        setSort,
+        setPage,
+        toggleColumn,
+        fetchProducts,
+        fetchOptions,
+    } = useProductStore();
+    const navigate = useNavigate();
+    const [search, setSearch] = useState(filters.search);
+
+    useEffect(() => {
+        fetchOptions().catch((error) => showApiError(error));
+    }, [fetchOptions]);
+
+    useEffect(() => {
+        // Unchanged on mount, so returning to the list keeps its page
+        if (search.trim() === useProductStore.getState().filters.search) {
+            return;
+        }
+        const timeout = setTimeout(
+            () => setFilters({ search: search.trim() }),
+            SEARCH_DELAY_MS
+        );
+        return () => clearTimeout(timeout);
+    }, [search, setFilters]);
+
+    useEffect(() => {
+        fetchProducts().catch((error) => showApiError(error));
+    }, [fetchProducts, filters, page, sort]);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                    Products
+                </h1>
+                <Button asChild size="sm">
+                    <Link to="/products/new">
+                        <PlusIcon size={16} aria-hidden="true" />
+                        New product
+                    </Link>
+                </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <Input
+                    type="search"
+                    placeholder="Search name, SKU or supplier SKU"
+                    value={search}
+                    onChange={(event) => setSearch(event.target.value)}
+                    className="max-w-xs bg-white dark:bg-gray-900"
+                />
+
+                <select
+                    value={filters.categoryId ?? ""}
+                    onChange={(event) =>
+                        setFilters({
+                            categoryId: Number(event.target.value) || null,
+                        })
+                    }
+                    className={selectClassName}
+                >
+                    <option value="">All categories</option>
+                    {categories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                            {category.name}
+                        </option>
+                    ))}
+                </select>
+
+                <select
+                    value={filters.supplierId ?? ""}
+                    onChange={(event) => {
+                        const { value } = event.target;
+                        setFilters({
+                            supplierId:
+                                value === "none"
+                                    ? "none"
+                                    : Number(value) || null,
+                        });
+                    }}
+                    className={selectClassName}
+                >
+                    <option value="">All suppliers</option>
+                    <option value="none">No default supplier</option>
+                    {suppliers.map((supplier) => (
+                        <option key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                        </option>
+                    ))}
+                </select>
+
+                <div className="ml-auto">
+                    <ColumnPicker
+                        columns={COLUMNS}
+                        hidden={hiddenColumns}
+                        onToggle={toggleColumn}
+                    />
+                </div>
+            </div>
+
+            <DataTable
+                columns={COLUMNS.filter(
+                    (column) => !hiddenColumns.includes(column.key)
+                )}
+                rows={products}
+                getRowKey={(product) => product.id}
+                sort={sort}
+                onSortChange={setSort}
+                onRowClick={(product) => navigate(`/products/${product.id}`)}
+                isLoading={isLoading}
+                emptyMessage="No products match these filters."
+            />
+
+            {meta && meta.total !== null && (
+                <Pagination
+                    page={page}
+                    limit={meta.limit}
+                    total={meta.total}
+                    onPageChange={setPage}
+                />
+            )}
+        </div>
+    );
+};
+
+export default Products;
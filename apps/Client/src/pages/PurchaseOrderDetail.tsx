@@ -0,0 +1,534 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link, useParams } from "react-router";
+import { PencilIcon } from "lucide-react";
+import { toast } from "react-toastify";
+import {
+    receivePurchaseOrderSchema,
+    type PurchaseOrder,
+    type PurchaseOrderItem,
+    type PurchaseOrderStatus,
+    type ReceivePurchaseOrderInput,
+} from "shared";
+import DataTable, { type Column } from "@/components/DataTable";
+import OrderSection from "@/components/orders/OrderSection";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import OrderTimeline from "@/components/orders/OrderTimeline";
+import OrderTotalsSummary from "@/components/orders/OrderTotalsSummary";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api, showApiError, type FieldErrors } from "@/lib/api";
+import { toFieldErrors } from "@/lib/forms";
+import { formatRate, parseSerials, toNumber } from "@/lib/orders";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { usePurchaseOrderStore } from "@/store/purchaseOrderStore";
+
+// Mirror the server's rules, so only actions it accepts are offered
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = [
+    "ORDERED",
+    "PARTIALLY_RECEIVED",
+];
+const CANCELLABLE_STATUSES: PurchaseOrderStatus[] = ["PENDING", "ORDERED"];
+
+const remainingOf = (item: PurchaseOrderItem) =>
+    item.quantityOrdered - item.quantityReceived;
+
+const LINE_COLUMNS: Column<PurchaseOrderItem>[] = [
+    {
+        key: "product",
+        header: "Product",
+        render: (item) => (
+            <div>
+                <Link
+                    to={`/products/${item.product.id}`}
+                    className="text-gray-800 dark:text-gray-100 hover:underline"
+                >
+                    {item.product.name}
+                </Link>
+                <div className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                    {item.product.sku}
+                    {item.supplierSku && ` · ${item.supplierSku}`}
+                </div>
+            </div>
+        ),
+    },
+    {
+        key: "ordered",
+        header: "Ordered",
+        align: "right",
+        render: (item) => item.quantityOrdered,
+    },
+    {
+        key: "received",
+        header: "Received",
+        align: "right",
+        render: (item) => item.quantityReceived,
+    },
+    {
+        key: "unitCost",
+        header: "Unit cost",
+        align: "right",
+        render: (item) => formatCurrency(item.unitCost),
+    },
+    {
+        key: "discount",
+        header: "Disc.",
+        align: "right",
+        render: (item) => formatRate(item.discountPercentage),
+    },
+    {
+        key: "tax",
+        header: "Tax",
+        align: "right",
+        render: (item) => formatRate(item.taxRate),
+    },
+    {
+        key: "total",
+        header: "Total",
+        align: "right",
+        render: (item) =>
+            item.totalCost === null ? "—" : formatCurrency(item.totalCost),
+    },
+];
+
+interface ReceiptLineValues {
+    quantity: string;
+    batchNumber: string;
+    expiryDate: string;
+    serialNumbers: string;
+}
+
+/**
+ * Receives into a warehouse's default receiving location, everything still
+ * outstanding by default. Batch-tracked lines take a batch number and expiry,
+ * serial-tracked lines the serial numbers of the units that arrived.
+ */
+const ReceiveForm = ({
+    order,
+    onReceive,
+    onClose,
+}: {
+    order: PurchaseOrder;
+    onReceive: (input: ReceivePurchaseOrderInput) => Promise<void>;
+    onClose: () => void;
+}) => {
+    const { warehouses } = usePurchaseOrderStore();
+    const items = order.items.filter((item) => remainingOf(item) > 0);
+    const [warehouseId, setWarehouseId] = useState(
+        order.warehouseId ? String(order.warehouseId) : ""
+    );
+    const [values, setValues] = useState<Record<number, ReceiptLineValues>>(
+        () =>
+            Object.fromEntries(
+                items.map((item) => [
+                    item.id,
+                    {
+                        quantity: String(remainingOf(item)),
+                        batchNumber: "",
+                        expiryDate: "",
+                        serialNumbers: "",
+                    },
+                ])
+            )
+    );
+    const [notes, setNotes] = useState("");
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const setLineValue = (
+        itemId: number,
+        key: keyof ReceiptLineValues,
+        value: string
+    ) =>
+        setValues((current) => ({
+            ...current,
+            [itemId]: { ...current[itemId], [key]: value },
+        }));
+
+    const lines = items
+        .map((item) => {
+            const line = values[item.id];
+            return {
+                purchaseOrderItemId: item.id,
+                quantity: toNumber(line.quantity),
+                batchNumber: item.product.isTrackedByBatch
+                    ? line.batchNumber.trim() || undefined
+                    : undefined,
+                expiryDate: item.product.isTrackedByBatch
+                    ? line.expiryDate || undefined
+                    : undefined,
+                serialNumbers: item.product.isTrackedBySerial
+                    ? parseSerials(line.serialNumbers)
+                    : undefined,
+            };
+        })
+        .filter((line) => line.quantity !== 0);
+
+    const errorFor = (itemId: number) => {
+        const index = lines.findIndex(
+            (line) => line.purchaseOrderItemId === itemId
+        );
+        return (
+            fieldErrors[`lines.${index}.quantity`] ??
+            fieldErrors[`lines.${index}.batchNumber`] ??
+            fieldErrors[`lines.${index}.expiryDate`] ??
+            fieldErrors[`lines.${index}.serialNumbers`]
+        );
+    };
+
+    const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const parsed = receivePurchaseOrderSchema.safeParse({
+            warehouseId: warehouseId ? Number(warehouseId) : undefined,
+            notes: notes.trim() || undefined,
+            lines,
+        });
+        if (!parsed.success) {
+            setFieldErrors(toFieldErrors(parsed.error.issues));
+            return;
+        }
+
+        setFieldErrors({});
+        setIsSubmitting(true);
+        try {
+            await onReceive(parsed.data);
+        } catch (error) {
+            showApiError(error, setFieldErrors);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const lineInputClassName = "h-8 bg-white dark:bg-gray-900";
+
+    return (
+        <form noValidate onSubmit={handleSubmit}>
+            <OrderSection title="Receive">
+                <div className="space-y-1">
+                    <select
+                        aria-label="Receiving warehouse"
+                        value={warehouseId}
+                        onChange={(event) => setWarehouseId(event.target.value)}
+                        aria-invalid={!!fieldErrors.warehouseId}
+                        className="h-9 w-full max-w-xs rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 text-sm text-gray-800 dark:text-gray-100"
+                    >
+                        <option value="">Select a warehouse</option>
+                        {warehouses.map((warehouse) => (
+                            <option key={warehouse.id} value={warehouse.id}>
+                                {warehouse.name}
+                            </option>
+                        ))}
+                    </select>
+                    {fieldErrors.warehouseId && (
+                        <p className="text-xs text-red-600">
+                            {fieldErrors.warehouseId}
+                        </p>
+                    )}
+                </div>
+
+                <table className="w-full text-sm">
+                    <thead className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                        <tr>
+                            <th className="py-1 font-medium">Product</th>
+                            <th className="w-24 py-1 text-right font-medium">
+                                Remaining
+                            </th>
+                            <th className="w-28 py-1 pl-3 font-medium">
+                                Receive
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map((item) => (
+                            <tr key={item.id} className="align-top">
+                                <td className="space-y-1 py-1.5">
+                                    <div className="text-gray-800 dark:text-gray-100">
+                                        {item.product.name}
+                                    </div>
+                                    {item.product.isTrackedByBatch && (
+                                        <div className="grid gap-2 sm:grid-cols-2">
+                                            <Input
+                                                placeholder="Batch number"
+                                                aria-label={`Batch number of ${item.product.name}`}
+                                                value={
+                                                    values[item.id].batchNumber
+                                                }
+                                                onChange={(event) =>
+                                                    setLineValue(
+                                                        item.id,
+                                                        "batchNumber",
+                                                        event.target.value
+                                                    )
+                                                }
+                                                className={lineInputClassName}
+                                            />
+                                            <Input
+                                                type="date"
+                                                aria-label={`Expiry date of ${item.product.name}`}
+                                                value={
+                                                    values[item.id].expiryDate
+                                                }
+                                                onChange={(event) =>
+                                                    setLineValue(
+                                                        item.id,
+                                                        "expiryDate",
+                                                        event.target.value
+                                                    )
+                                                }
+                                                className={lineInputClassName}
+                                            />
+                                        </div>
+                                    )}
+                                    {item.product.isTrackedBySerial && (
+                                        <textarea
+                                            rows={2}
+                                            placeholder="Serial numbers, one per line"
+                                            aria-label={`Serial numbers of ${item.product.name}`}
+                                            value={
+                                                values[item.id].serialNumbers
+                                            }
+                                            onChange={(event) =>
+                                                setLineValue(
+                                                    item.id,
+                                                    "serialNumbers",
+                                                    event.target.value
+                                                )
+                                            }
+                                            className="w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 py-1 font-mono text-xs text-gray-800 dark:text-gray-100"
+                                        />
+                                    )}
+                                    {errorFor(item.id) && (
+                                        <p className="text-xs text-red-600">
+                                            {errorFor(item.id)}
+                                        </p>
+                                    )}
+                                </td>
+                                <td className="py-1.5 text-right tabular-nums">
+                                    {remainingOf(item)}
+                                </td>
+                                <td className="py-1.5 pl-3">
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        max={remainingOf(item)}
+                                        step={1}
+                                        aria-label={`Quantity of ${item.product.name} received`}
+                                        value={values[item.id].quantity}
+                                        onChange={(event) =>
+                                            setLineValue(
+                                                item.id,
+                                                "quantity",
+                                                event.target.value
+                                            )
+                                        }
+                                        className={`${lineInputClassName} text-right`}
+                                    />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {fieldErrors.lines && (
+                    <p className="text-xs text-red-600">{fieldErrors.lines}</p>
+                )}
+
+                <Input
+                    placeholder="Notes"
+                    aria-label="Receipt notes"
+                    value={notes}
+                    onChange={(event) => setNotes(event.target.value)}
+                    className="bg-white dark:bg-gray-900"
+                />
+
+                <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                        Close
+                    </Button>
+                    <Button type="submit" disabled={isSubmitting}>
+                        {isSubmitting ? "Receiving…" : "Receive"}
+                    </Button>
+                </div>
+            </OrderSection>
+        </form>
+    );
+};
+
+const PurchaseOrderDetail = () => {
+    const orderId = Number(useParams().id);
+    const { fetchOptions, confirmOrder, receiveOrder, cancelOrder } =
+        usePurchaseOrderStore();
+    const [order, setOrder] = useState<PurchaseOrder | null>(null);
+    const [isReceiving, setIsReceiving] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        fetchOptions().catch((error) => showApiError(error));
+    }, [fetchOptions]);
+
+    useEffect(() => {
+        api.purchaseOrders
+            .get({ params: { id: orderId } })
+            .then(({ data }) => setOrder(data))
+            .catch((error) => showApiError(error));
+    }, [orderId]);
+
+    if (!order) {
+        return <p className="text-sm text-gray-500">Loading…</p>;
+    }
+
+    const runAction = async (
+        action: () => Promise<PurchaseOrder>,
+        message: string
+    ) => {
+        setIsBusy(true);
+        try {
+            setOrder(await action());
+            toast.success(message);
+        } catch (error) {
+            showApiError(error);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCancel = () => {
+        if (!window.confirm(`Cancel purchase order #${order.id}?`)) return;
+        void runAction(() => cancelOrder(order.id), "Order cancelled");
+    };
+
+    const handleReceive = async (input: ReceivePurchaseOrderInput) => {
+        setOrder(await receiveOrder(order.id, input));
+        setIsReceiving(false);
+        toast.success("Receipt recorded");
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                    <h1 className="flex items-center gap-2 text-xl font-semibold text-gray-800 dark:text-gray-100">
+                        Purchase order #{order.id}
+                        <OrderStatusBadge status={order.status} />
+                    </h1>
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 text-sm text-gray-500 dark:text-gray-400">
+                        <span>{order.supplier.name}</span>
+                        {order.warehouse && (
+                            <span>Deliver to {order.warehouse.name}</span>
+                        )}
+                        <span>Ordered {formatDate(order.orderDate, true)}</span>
+                        {order.expectedDeliveryDate && (
+                            <span>
+                                Expected{" "}
+                                {formatDate(order.expectedDeliveryDate, true)}
+                            </span>
+                        )}
+                        {order.isReplenishment && (
+                            <Badge variant="outline">Replenishment</Badge>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                    {order.status === "PENDING" && (
+                        <>
+                            <Button asChild variant="outline" size="sm">
+                                <Link to={`/purchase-orders/${order.id}/edit`}>
+                                    <PencilIcon size={16} aria-hidden="true" />
+                                    Edit
+                                </Link>
+                            </Button>
+                            <Button
+                                size="sm"
+                                disabled={isBusy}
+                                onClick={() =>
+                                    void runAction(
+                                        () => confirmOrder(order.id),
+                                        "Order confirmed"
+                                    )
+                                }
+                            >
+                                Confirm
+                            </Button>
+                        </>
+                    )}
+                    {RECEIVABLE_STATUSES.includes(order.status) &&
+                        !isReceiving && (
+                            <Button
+                                size="sm"
+                                disabled={isBusy}
+                                onClick={() => setIsReceiving(true)}
+                            >
+                                Receive
+                            </Button>
+                        )}
+                    {CANCELLABLE_STATUSES.includes(order.status) && (
+                        <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={isBusy}
+                            onClick={handleCancel}
+                        >
+                            Cancel order
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-[1fr_20rem]">
+                <div className="space-y-4">
+                    <DataTable
+                        columns={LINE_COLUMNS}
+                        rows={order.items}
+                        getRowKey={(item) => item.id}
+                    />
+
+                    {isReceiving && (
+                        <ReceiveForm
+                            order={order}
+                            onReceive={handleReceive}
+                            onClose={() => setIsReceiving(false)}
+                        />
+                    )}
+
+                    <OrderSection title="History">
+                        <OrderTimeline events={order.events} />
+                    </OrderSection>
+                </div>
+
+                <div className="space-y-4">
+                    <OrderSection title="Totals">
+                        <OrderTotalsSummary
+                            subTotal={order.subTotal ?? 0}
+                            taxAmount={order.taxAmount ?? 0}
+                            shippingCost={order.shippingCost ?? 0}
+                            totalAmount={order.totalAmount ?? 0}
+                        />
+                    </OrderSection>
+
+                    <OrderSection title="Delivery">
+                        <dl className="space-y-2 text-sm">
+                            {(
+                                [
+                                    ["Ship to", order.shippingAddress],
+                                    ["Tracking", order.trackingNumber],
+                                    ["Notes", order.notes],
+                                ] as const
+                            ).map(([label, value]) => (
+                                <div key={label}>
+                                    <dt className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                                        {label}
+                                    </dt>
+                                    <dd className="whitespace-pre-line text-gray-800 dark:text-gray-100">
+                                        {value || "—"}
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </OrderSection>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PurchaseOrderDetail;
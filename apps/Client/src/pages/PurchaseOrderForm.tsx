@@ -0,0 +1,347 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import {
+    createPurchaseOrderSchema,
+    type Product,
+    type PurchaseOrder,
+} from "shared";
+import FormField from "@/components/FormField";
+import OrderLinesEditor from "@/components/orders/OrderLinesEditor";
+import OrderTotalsSummary from "@/components/orders/OrderTotalsSummary";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api, showApiError, type FieldErrors } from "@/lib/api";
+import { toFieldErrors } from "@/lib/forms";
+import {
+    newLineKey,
+    previewTotals,
+    toNumber,
+    toRateValue,
+    type OrderLineValues,
+} from "@/lib/orders";
+import { usePurchaseOrderStore } from "@/store/purchaseOrderStore";
+
+interface FormValues {
+    supplierId: string;
+    warehouseId: string;
+    expectedDeliveryDate: string;
+    shippingAddress: string;
+    notes: string;
+    shippingCost: string;
+}
+
+const EMPTY_FORM: FormValues = {
+    supplierId: "",
+    warehouseId: "",
+    expectedDeliveryDate: "",
+    shippingAddress: "",
+    notes: "",
+    shippingCost: "",
+};
+
+const toFormValues = (order: PurchaseOrder): FormValues => ({
+    supplierId: String(order.supplierId),
+    warehouseId: order.warehouseId ? String(order.warehouseId) : "",
+    expectedDeliveryDate: order.expectedDeliveryDate?.slice(0, 10) ?? "",
+    shippingAddress: order.shippingAddress ?? "",
+    notes: order.notes ?? "",
+    shippingCost: order.shippingCost ? String(order.shippingCost) : "",
+});
+
+const toLineValues = (order: PurchaseOrder): OrderLineValues[] =>
+    order.items.map((item) => ({
+        key: newLineKey(),
+        product: item.product,
+        quantity: String(item.quantityOrdered),
+        unitPrice: String(item.unitCost),
+        discountPercentage: toRateValue(item.discountPercentage),
+        taxRate: toRateValue(item.taxRate),
+        supplierSku: item.supplierSku,
+    }));
+
+const toInput = (values: FormValues, lines: OrderLineValues[]) => ({
+    supplierId: values.supplierId ? Number(values.supplierId) : undefined,
+    warehouseId: values.warehouseId ? Number(values.warehouseId) : null,
+    expectedDeliveryDate: values.expectedDeliveryDate || undefined,
+    shippingAddress: values.shippingAddress.trim() || undefined,
+    notes: values.notes.trim() || undefined,
+    shippingCost: toNumber(values.shippingCost),
+    items: lines.map((line) => ({
+        productId: line.product.id,
+        quantityOrdered: toNumber(line.quantity),
+        unitCost: toNumber(line.unitPrice),
+        supplierSku: line.supplierSku ?? null,
+        discountPercentage: toNumber(line.discountPercentage),
+        taxRate: toNumber(line.taxRate),
+    })),
+});
+
+const inputClassName = "bg-white dark:bg-gray-900";
+const selectClassName =
+    "h-9 w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 text-sm text-gray-800 dark:text-gray-100";
+const textareaClassName =
+    "w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-800 dark:text-gray-100";
+
+const PurchaseOrderForm = () => {
+    const { id } = useParams();
+    const orderId = id ? Number(id) : null;
+    const navigate = useNavigate();
+    const { suppliers, warehouses, fetchOptions, saveOrder } =
+        usePurchaseOrderStore();
+    const [values, setValues] = useState<FormValues>(EMPTY_FORM);
+    const [lines, setLines] = useState<OrderLineValues[]>([]);
+    const [status, setStatus] = useState<PurchaseOrder["status"] | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [isLoading, setIsLoading] = useState(!!orderId);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        fetchOptions().catch((error) => showApiError(error));
+    }, [fetchOptions]);
+
+    useEffect(() => {
+        if (!orderId) return;
+        api.purchaseOrders
+            .get({ params: { id: orderId } })
+            .then(({ data }) => {
+                setValues(toFormValues(data));
+                setLines(toLineValues(data));
+                setStatus(data.status);
+            })
+            .catch((error) => showApiError(error))
+            .finally(() => setIsLoading(false));
+    }, [orderId]);
+
+    const totals = previewTotals({
+        lines: lines.map((line) => ({
+            quantity: toNumber(line.quantity),
+            unitPrice: toNumber(line.unitPrice),
+            discountPercentage: toNumber(line.discountPercentage),
+            taxRate: toNumber(line.taxRate),
+        })),
+        shippingCost: toNumber(values.shippingCost),
+    });
+
+    // Priced at the current average cost, with the supplier's own SKU when
+    // the product is bought from this supplier by default
+    const createLine = (product: Product): OrderLineValues => ({
+        key: newLineKey(),
+        product,
+        quantity: "1",
+        unitPrice:
+            product.averageCost === null ? "" : String(product.averageCost),
+        discountPercentage: "",
+        taxRate: "",
+        supplierSku:
+            product.defaultSupplierId === Number(values.supplierId)
+                ? product.supplierSku
+                : null,
+    });
+
+    const setValue = <K extends keyof FormValues>(
+        key: K,
+        value: FormValues[K]
+    ) => setValues((current) => ({ ...current, [key]: value }));
+
+    const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const parsed = createPurchaseOrderSchema.safeParse(
+            toInput(values, lines)
+        );
+        if (!parsed.success) {
+            setFieldErrors(toFieldErrors(parsed.error.issues));
+            return;
+        }
+
+        setFieldErrors({});
+        setIsSubmitting(true);
+        try {
+            const order = await saveOrder(orderId, parsed.data);
+            navigate(`/purchase-orders/${order.id}`);
+        } catch (error) {
+            showApiError(error, setFieldErrors);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-gray-500">Loading…</p>;
+    }
+
+    if (status && status !== "PENDING") {
+        return (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                Only pending orders can be edited.{" "}
+                <Link to={`/purchase-orders/${orderId}`} className="underline">
+                    Back to the order
+                </Link>
+            </p>
+        );
+    }
+
+    return (
+        <form noValidate onSubmit={handleSubmit} className="space-y-4">
+            <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                {orderId
+                    ? `Edit purchase order #${orderId}`
+                    : "New purchase order"}
+            </h1>
+
+            <div className="grid gap-4 rounded-lg bg-white dark:bg-gray-900 p-6 shadow sm:grid-cols-2">
+                <FormField
+                    id="supplierId"
+                    label="Supplier"
+                    error={fieldErrors.supplierId}
+                >
+                    <select
+                        id="supplierId"
+                        value={values.supplierId}
+                        onChange={(event) =>
+                            setValue("supplierId", event.target.value)
+                        }
+                        aria-invalid={!!fieldErrors.supplierId}
+                        className={selectClassName}
+                    >
+                        <option value="">Select a supplier</option>
+                        {suppliers.map((supplier) => (
+                            <option key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                            </option>
+                        ))}
+                    </select>
+                </FormField>
+
+                <FormField
+                    id="warehouseId"
+                    label="Deliver to"
+                    error={fieldErrors.warehouseId}
+                >
+                    <select
+                        id="warehouseId"
+                        value={values.warehouseId}
+                        onChange={(event) =>
+                            setValue("warehouseId", event.target.value)
+                        }
+                        className={selectClassName}
+                    >
+                        <option value="">Not decided yet</option>
+                        {warehouses.map((warehouse) => (
+                            <option key={warehouse.id} value={warehouse.id}>
+                                {warehouse.name}
+                            </option>
+                        ))}
+                    </select>
+                </FormField>
+
+                <FormField
+                    id="expectedDeliveryDate"
+                    label="Expected delivery"
+                    error={fieldErrors.expectedDeliveryDate}
+                >
+                    <Input
+                        id="expectedDeliveryDate"
+                        type="date"
+                        value={values.expectedDeliveryDate}
+                        onChange={(event) =>
+                            setValue("expectedDeliveryDate", event.target.value)
+                        }
+                        className={inputClassName}
+                    />
+                </FormField>
+
+                <FormField
+                    id="shippingAddress"
+                    label="Shipping address"
+                    error={fieldErrors.shippingAddress}
+                >
+                    <textarea
+                        id="shippingAddress"
+                        rows={2}
+                        value={values.shippingAddress}
+                        onChange={(event) =>
+                            setValue("shippingAddress", event.target.value)
+                        }
+                        className={textareaClassName}
+                    />
+                </FormField>
+            </div>
+
+            <OrderLinesEditor
+                lines={lines}
+                onChange={setLines}
+                createLine={createLine}
+                totals={totals}
+                priceField="unitCost"
+                fieldErrors={fieldErrors}
+            />
+
+            <div className="grid gap-4 rounded-lg bg-white dark:bg-gray-900 p-6 shadow md:grid-cols-[1fr_auto]">
+                <FormField id="notes" label="Notes" error={fieldErrors.notes}>
+                    <textarea
+                        id="notes"
+                        rows={4}
+                        value={values.notes}
+                        onChange={(event) =>
+                            setValue("notes", event.target.value)
+                        }
+                        className={textareaClassName}
+                    />
+                </FormField>
+
+                <div className="space-y-3 md:w-72">
+                    <FormField
+                        id="shippingCost"
+                        label="Shipping"
+                        error={fieldErrors.shippingCost}
+                    >
+                        <Input
+                            id="shippingCost"
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={values.shippingCost}
+                            onChange={(event) =>
+                                setValue("shippingCost", event.target.value)
+                            }
+                            aria-invalid={!!fieldErrors.shippingCost}
+                            className={inputClassName}
+                        />
+                    </FormField>
+                    {totals ? (
+                        <OrderTotalsSummary
+                            subTotal={totals.subTotal}
+                            taxAmount={totals.taxAmount}
+                            shippingCost={totals.shippingCost}
+                            totalAmount={totals.totalAmount}
+                        />
+                    ) : (
+                        <p className="text-xs text-red-600">
+                            Amounts must be whole shillings and rates between 0
+                            and 100.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <Button variant="outline" asChild>
+                    <Link
+                        to={
+                            orderId
+                                ? `/purchase-orders/${orderId}`
+                                : "/purchase-orders"
+                        }
+                    >
+                        Cancel
+                    </Link>
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? "Saving…" : "Save"}
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+export default PurchaseOrderForm;
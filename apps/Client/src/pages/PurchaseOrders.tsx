@@ -0,0 +1,187 @@
+import { useEffect } from "react";
+import { Link, useNavigate } from "react-router";
+import { PlusIcon } from "lucide-react";
+import { PurchaseOrderStatus, type PurchaseOrderSummary } from "shared";
+import DataTable, { type Column } from "@/components/DataTable";
+import Pagination from "@/components/Pagination";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import OrderTabs from "@/components/orders/OrderTabs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { showApiError } from "@/lib/api";
+import { formatEnum } from "@/lib/orders";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { usePurchaseOrderStore } from "@/store/purchaseOrderStore";
+
+const selectClassName =
+    "rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100";
+
+const COLUMNS: Column<PurchaseOrderSummary>[] = [
+    {
+        key: "id",
+        header: "Order",
+        render: (order) => (
+            <span className="flex items-center gap-2">
+                <span className="font-medium">#{order.id}</span>
+                {order.isReplenishment && (
+                    <Badge variant="outline">Replenishment</Badge>
+                )}
+            </span>
+        ),
+    },
+    {
+        key: "supplier",
+        header: "Supplier",
+        render: (order) => order.supplier.name,
+    },
+    {
+        key: "warehouse",
+        header: "Warehouse",
+        render: (order) => order.warehouse?.name ?? "—",
+    },
+    {
+        key: "status",
+        header: "Status",
+        render: (order) => <OrderStatusBadge status={order.status} />,
+    },
+    {
+        key: "orderDate",
+        header: "Ordered",
+        render: (order) => formatDate(order.orderDate, true),
+    },
+    {
+        key: "expectedDeliveryDate",
+        header: "Expected",
+        render: (order) =>
+            order.expectedDeliveryDate
+                ? formatDate(order.expectedDeliveryDate, true)
+                : "—",
+    },
+    {
+        key: "totalAmount",
+        header: "Total",
+        align: "right",
+        render: (order) =>
+            order.totalAmount === null
+                ? "—"
+                : formatCurrency(order.totalAmount),
+    },
+];
+
+const PurchaseOrders = () => {
+    const {
+        orders,
+        meta,
+        filters,
+        page,
+        isLoading,
+        suppliers,
+        warehouses,
+        setFilters,
+        setPage,
+        fetchOrders,
+        fetchOptions,
+    } = usePurchaseOrderStore();
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        fetchOptions().catch((error) => showApiError(error));
+    }, [fetchOptions]);
+
+    useEffect(() => {
+        fetchOrders().catch((error) => showApiError(error));
+    }, [fetchOrders, filters, page]);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                    Orders
+                </h1>
+                <Button asChild size="sm">
+                    <Link to="/purchase-orders/new">
+                        <PlusIcon size={16} aria-hidden="true" />
+                        New purchase order
+                    </Link>
+                </Button>
+            </div>
+
+            <OrderTabs />
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={filters.status ?? ""}
+                    onChange={(event) =>
+                        setFilters({
+                            status:
+                                (event.target.value as PurchaseOrderStatus) ||
+                                null,
+                        })
+                    }
+                    className={selectClassName}
+                >
+                    <option value="">All statuses</option>
+                    {Object.values(PurchaseOrderStatus).map((status) => (
+                        <option key={status} value={status}>
+                            {formatEnum(status)}
+                        </option>
+                    ))}
+                </select>
+
+                <select
+                    value={filters.supplierId ?? ""}
+                    onChange={(event) =>
+                        setFilters({
+                            supplierId: Number(event.target.value) || null,
+                        })
+                    }
+                    className={selectClassName}
+                >
+                    <option value="">All suppliers</option>
+                    {suppliers.map((supplier) => (
+                        <option key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                        </option>
+                    ))}
+                </select>
+
+                <select
+                    value={filters.warehouseId ?? ""}
+                    onChange={(event) =>
+                        setFilters({
+                            warehouseId: Number(event.target.value) || null,
+                        })
+                    }
+                    className={selectClassName}
+                >
+                    <option value="">All warehouses</option>
+                    {warehouses.map((warehouse) => (
+                        <option key={warehouse.id} value={warehouse.id}>
+                            {warehouse.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <DataTable
+                columns={COLUMNS}
+                rows={orders}
+                getRowKey={(order) => order.id}
+                onRowClick={(order) => navigate(`/purchase-orders/${order.id}`)}
+                isLoading={isLoading}
+                emptyMessage="No purchase orders match these filters."
+            />
+
+            {meta && meta.total !== null && (
+                <Pagination
+                    page={page}
+                    limit={meta.limit}
+                    total={meta.total}
+                    onPageChange={setPage}
+                />
+            )}
+        </div>
+    );
+};
+
+export default PurchaseOrders;
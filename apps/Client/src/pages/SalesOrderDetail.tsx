@@ -0,0 +1,463 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link, useParams } from "react-router";
+import { PencilIcon } from "lucide-react";
+import { toast } from "react-toastify";
+import {
+    shipSalesOrderSchema,
+    type SalesOrder,
+    type SalesOrderItem,
+    type SalesOrderStatus,
+    type ShipSalesOrderInput,
+} from "shared";
+import DataTable, { type Column } from "@/components/DataTable";
+import OrderSection from "@/components/orders/OrderSection";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import OrderTimeline from "@/components/orders/OrderTimeline";
+import OrderTotalsSummary from "@/components/orders/OrderTotalsSummary";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api, showApiError, type FieldErrors } from "@/lib/api";
+import { toFieldErrors } from "@/lib/forms";
+import { formatRate, parseSerials, toNumber } from "@/lib/orders";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { useSalesOrderStore } from "@/store/salesOrderStore";
+
+// Mirror the server's fulfillment rules, so only actions it accepts are offered
+const ALLOCATABLE_STATUSES: SalesOrderStatus[] = [
+    "PENDING",
+    "PROCESSING",
+    "PARTIALLY_SHIPPED",
+];
+const SHIPPABLE_STATUSES: SalesOrderStatus[] = [
+    "PROCESSING",
+    "PARTIALLY_SHIPPED",
+];
+const CANCELLABLE_STATUSES: SalesOrderStatus[] = ["PENDING", "PROCESSING"];
+
+const allocatedOf = (item: SalesOrderItem) =>
+    item.allocations.reduce((sum, a) => sum + a.quantity, 0);
+
+const outstandingOf = (item: SalesOrderItem) =>
+    item.quantityOrdered - item.quantityShipped - allocatedOf(item);
+
+const LINE_COLUMNS: Column<SalesOrderItem>[] = [
+    {
+        key: "product",
+        header: "Product",
+        render: (item) => (
+            <div>
+                <Link
+                    to={`/products/${item.product.id}`}
+                    className="text-gray-800 dark:text-gray-100 hover:underline"
+                >
+                    {item.product.name}
+                </Link>
+                <div className="flex items-center gap-2">
+                    <span className="font-mono text-xs text-gray-500 dark:text-gray-400">
+                        {item.product.sku}
+                    </span>
+                    {item.isBackordered && (
+                        <Badge variant="destructive">Backordered</Badge>
+                    )}
+                </div>
+            </div>
+        ),
+    },
+    {
+        key: "ordered",
+        header: "Ordered",
+        align: "right",
+        render: (item) => item.quantityOrdered,
+    },
+    {
+        key: "allocated",
+        header: "Allocated",
+        align: "right",
+        render: allocatedOf,
+    },
+    {
+        key: "shipped",
+        header: "Shipped",
+        align: "right",
+        render: (item) => item.quantityShipped,
+    },
+    {
+        key: "unitPrice",
+        header: "Unit price",
+        align: "right",
+        render: (item) => formatCurrency(item.unitPrice),
+    },
+    {
+        key: "discount",
+        header: "Disc.",
+        align: "right",
+        render: (item) => formatRate(item.discountPercentage),
+    },
+    {
+        key: "tax",
+        header: "Tax",
+        align: "right",
+        render: (item) => formatRate(item.taxRate),
+    },
+    {
+        key: "total",
+        header: "Total",
+        align: "right",
+        render: (item) =>
+            item.totalPrice === null ? "—" : formatCurrency(item.totalPrice),
+    },
+];
+
+/**
+ * Ships allocated stock, all of it by default. Serial-tracked lines need the
+ * serial numbers of the units going out.
+ */
+const ShipForm = ({
+    order,
+    onShip,
+    onClose,
+}: {
+    order: SalesOrder;
+    onShip: (input: ShipSalesOrderInput) => Promise<void>;
+    onClose: () => void;
+}) => {
+    const items = order.items.filter((item) => allocatedOf(item) > 0);
+    const [quantities, setQuantities] = useState<Record<number, string>>(() =>
+        Object.fromEntries(
+            items.map((item) => [item.id, String(allocatedOf(item))])
+        )
+    );
+    const [serials, setSerials] = useState<Record<number, string>>({});
+    const [trackingNumber, setTrackingNumber] = useState("");
+    const [notes, setNotes] = useState("");
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const lines = items
+        .map((item) => ({
+            salesOrderItemId: item.id,
+            quantity: toNumber(quantities[item.id] ?? ""),
+            serialNumbers: item.product.isTrackedBySerial
+                ? parseSerials(serials[item.id] ?? "")
+                : undefined,
+        }))
+        .filter((line) => line.quantity !== 0);
+
+    const errorFor = (itemId: number) => {
+        const index = lines.findIndex(
+            (line) => line.salesOrderItemId === itemId
+        );
+        return (
+            fieldErrors[`lines.${index}.quantity`] ??
+            fieldErrors[`lines.${index}.serialNumbers`]
+        );
+    };
+
+    const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const parsed = shipSalesOrderSchema.safeParse({
+            trackingNumber: trackingNumber.trim() || undefined,
+            notes: notes.trim() || undefined,
+            lines,
+        });
+        if (!parsed.success) {
+            setFieldErrors(toFieldErrors(parsed.error.issues));
+            return;
+        }
+
+        setFieldErrors({});
+        setIsSubmitting(true);
+        try {
+            await onShip(parsed.data);
+        } catch (error) {
+            showApiError(error, setFieldErrors);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form noValidate onSubmit={handleSubmit}>
+            <OrderSection title="Ship">
+                <table className="w-full text-sm">
+                    <thead className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                        <tr>
+                            <th className="py-1 font-medium">Product</th>
+                            <th className="w-24 py-1 text-right font-medium">
+                                Allocated
+                            </th>
+                            <th className="w-28 py-1 pl-3 font-medium">Ship</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map((item) => (
+                            <tr key={item.id} className="align-top">
+                                <td className="py-1.5">
+                                    <div className="text-gray-800 dark:text-gray-100">
+                                        {item.product.name}
+                                    </div>
+                                    {item.product.isTrackedBySerial && (
+                                        <textarea
+                                            rows={2}
+                                            placeholder="Serial numbers, one per line"
+                                            aria-label={`Serial numbers of ${item.product.name}`}
+                                            value={serials[item.id] ?? ""}
+                                            onChange={(event) =>
+                                                setSerials((current) => ({
+                                                    ...current,
+                                                    [item.id]:
+                                                        event.target.value,
+                                                }))
+                                            }
+                                            className="mt-1 w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2 py-1 font-mono text-xs text-gray-800 dark:text-gray-100"
+                                        />
+                                    )}
+                                    {errorFor(item.id) && (
+                                        <p className="text-xs text-red-600">
+                                            {errorFor(item.id)}
+                                        </p>
+                                    )}
+                                </td>
+                                <td className="py-1.5 text-right tabular-nums">
+                                    {allocatedOf(item)}
+                                </td>
+                                <td className="py-1.5 pl-3">
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        max={allocatedOf(item)}
+                                        step={1}
+                                        aria-label={`Quantity of ${item.product.name} to ship`}
+                                        value={quantities[item.id] ?? ""}
+                                        onChange={(event) =>
+                                            setQuantities((current) => ({
+                                                ...current,
+                                                [item.id]: event.target.value,
+                                            }))
+                                        }
+                                        className="h-8 bg-white dark:bg-gray-900 text-right"
+                                    />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {fieldErrors.lines && (
+                    <p className="text-xs text-red-600">{fieldErrors.lines}</p>
+                )}
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                    <Input
+                        placeholder="Tracking number"
+                        aria-label="Tracking number"
+                        value={trackingNumber}
+                        onChange={(event) =>
+                            setTrackingNumber(event.target.value)
+                        }
+                        className="bg-white dark:bg-gray-900"
+                    />
+                    <Input
+                        placeholder="Notes"
+                        aria-label="Shipment notes"
+                        value={notes}
+                        onChange={(event) => setNotes(event.target.value)}
+                        className="bg-white dark:bg-gray-900"
+                    />
+                </div>
+
+                <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" onClick={onClose}>
+                        Close
+                    </Button>
+                    <Button type="submit" disabled={isSubmitting}>
+                        {isSubmitting ? "Shipping…" : "Ship"}
+                    </Button>
+                </div>
+            </OrderSection>
+        </form>
+    );
+};
+
+const SalesOrderDetail = () => {
+    const orderId = Number(useParams().id);
+    const { allocateOrder, shipOrder, cancelOrder } = useSalesOrderStore();
+    const [order, setOrder] = useState<SalesOrder | null>(null);
+    const [isShipping, setIsShipping] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        api.salesOrders
+            .get({ params: { id: orderId } })
+            .then(({ data }) => setOrder(data))
+            .catch((error) => showApiError(error));
+    }, [orderId]);
+
+    if (!order) {
+        return <p className="text-sm text-gray-500">Loading…</p>;
+    }
+
+    const runAction = async (
+        action: () => Promise<SalesOrder>,
+        message: string
+    ) => {
+        setIsBusy(true);
+        try {
+            setOrder(await action());
+            toast.success(message);
+        } catch (error) {
+            showApiError(error);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCancel = () => {
+        if (!window.confirm(`Cancel sales order #${order.id}?`)) return;
+        void runAction(() => cancelOrder(order.id), "Order cancelled");
+    };
+
+    const handleShip = async (input: ShipSalesOrderInput) => {
+        setOrder(await shipOrder(order.id, input));
+        setIsShipping(false);
+        toast.success("Shipment recorded");
+    };
+
+    const canAllocate =
+        ALLOCATABLE_STATUSES.includes(order.status) &&
+        order.items.some((item) => outstandingOf(item) > 0);
+    const canShip =
+        SHIPPABLE_STATUSES.includes(order.status) &&
+        order.items.some((item) => allocatedOf(item) > 0);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                    <h1 className="flex items-center gap-2 text-xl font-semibold text-gray-800 dark:text-gray-100">
+                        Sales order #{order.id}
+                        <OrderStatusBadge status={order.status} />
+                    </h1>
+                    <div className="mt-1 flex flex-wrap items-center gap-x-3 text-sm text-gray-500 dark:text-gray-400">
+                        <span>{order.customer.name}</span>
+                        {order.customer.taxExempt && (
+                            <Badge variant="outline">Tax exempt</Badge>
+                        )}
+                        <span>Ordered {formatDate(order.orderDate, true)}</span>
+                        {order.requestedDeliveryDate && (
+                            <span>
+                                Requested for{" "}
+                                {formatDate(order.requestedDeliveryDate, true)}
+                            </span>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                    {order.status === "PENDING" && (
+                        <Button asChild variant="outline" size="sm">
+                            <Link to={`/sales-orders/${order.id}/edit`}>
+                                <PencilIcon size={16} aria-hidden="true" />
+                                Edit
+                            </Link>
+                        </Button>
+                    )}
+                    {canAllocate && (
+                        <Button
+                            size="sm"
+                            disabled={isBusy}
+                            onClick={() =>
+                                void runAction(
+                                    () => allocateOrder(order.id),
+                                    "Stock allocated"
+                                )
+                            }
+                        >
+                            {order.status === "PENDING"
+                                ? "Confirm & allocate"
+                                : "Allocate backorders"}
+                        </Button>
+                    )}
+                    {canShip && !isShipping && (
+                        <Button
+                            size="sm"
+                            disabled={isBusy}
+                            onClick={() => setIsShipping(true)}
+                        >
+                            Ship
+                        </Button>
+                    )}
+                    {CANCELLABLE_STATUSES.includes(order.status) && (
+                        <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={isBusy}
+                            onClick={handleCancel}
+                        >
+                            Cancel order
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid gap-4 lg:grid-cols-[1fr_20rem]">
+                <div className="space-y-4">
+                    <DataTable
+                        columns={LINE_COLUMNS}
+                        rows={order.items}
+                        getRowKey={(item) => item.id}
+                    />
+
+                    {isShipping && (
+                        <ShipForm
+                            order={order}
+                            onShip={handleShip}
+                            onClose={() => setIsShipping(false)}
+                        />
+                    )}
+
+                    <OrderSection title="History">
+                        <OrderTimeline events={order.events} />
+                    </OrderSection>
+                </div>
+
+                <div className="space-y-4">
+                    <OrderSection title="Totals">
+                        <OrderTotalsSummary
+                            subTotal={order.subTotal ?? 0}
+                            taxAmount={order.taxAmount ?? 0}
+                            discountAmount={order.discountAmount ?? 0}
+                            shippingCost={order.shippingCost ?? 0}
+                            totalAmount={order.totalAmount ?? 0}
+                        />
+                    </OrderSection>
+
+                    <OrderSection title="Delivery">
+                        <dl className="space-y-2 text-sm">
+                            {(
+                                [
+                                    ["Ship to", order.shippingAddress],
+                                    ["Bill to", order.billingAddress],
+                                    ["Carrier", order.carrier?.name],
+                                    ["Tracking", order.trackingNumber],
+                                    ["Notes", order.notes],
+                                ] as const
+                            ).map(([label, value]) => (
+                                <div key={label}>
+                                    <dt className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                                        {label}
+                                    </dt>
+                                    <dd className="whitespace-pre-line text-gray-800 dark:text-gray-100">
+                                        {value || "—"}
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </OrderSection>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SalesOrderDetail;
@@ -0,0 +1,375 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import { createSalesOrderSchema, type Product, type SalesOrder } from "shared";
+import FormField from "@/components/FormField";
+import OrderLinesEditor from "@/components/orders/OrderLinesEditor";
+import OrderTotalsSummary from "@/components/orders/OrderTotalsSummary";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api, showApiError, type FieldErrors } from "@/lib/api";
+import { toFieldErrors } from "@/lib/forms";
+import {
+    newLineKey,
+    previewTotals,
+    toNumber,
+    toRateValue,
+    type OrderLineValues,
+} from "@/lib/orders";
+import { useSalesOrderStore } from "@/store/salesOrderStore";
+
+interface FormValues {
+    customerId: string;
+    requestedDeliveryDate: string;
+    shippingAddress: string;
+    billingAddress: string;
+    notes: string;
+    shippingCost: string;
+    discountAmount: string;
+}
+
+const EMPTY_FORM: FormValues = {
+    customerId: "",
+    requestedDeliveryDate: "",
+    shippingAddress: "",
+    billingAddress: "",
+    notes: "",
+    shippingCost: "",
+    discountAmount: "",
+};
+
+const toFormValues = (order: SalesOrder): FormValues => ({
+    customerId: String(order.customerId),
+    requestedDeliveryDate: order.requestedDeliveryDate?.slice(0, 10) ?? "",
+    shippingAddress: order.shippingAddress ?? "",
+    billingAddress: order.billingAddress ?? "",
+    notes: order.notes ?? "",
+    shippingCost: order.shippingCost ? String(order.shippingCost) : "",
+    discountAmount: order.discountAmount ? String(order.discountAmount) : "",
+});
+
+const toLineValues = (order: SalesOrder): OrderLineValues[] =>
+    order.items.map((item) => ({
+        key: newLineKey(),
+        product: item.product,
+        quantity: String(item.quantityOrdered),
+        unitPrice: String(item.unitPrice),
+        discountPercentage: toRateValue(item.discountPercentage),
+        taxRate: toRateValue(item.taxRate),
+    }));
+
+const createLine = (product: Product): OrderLineValues => ({
+    key: newLineKey(),
+    product,
+    quantity: "1",
+    unitPrice: "",
+    discountPercentage: "",
+    taxRate: "",
+});
+
+const toInput = (values: FormValues, lines: OrderLineValues[]) => ({
+    customerId: values.customerId ? Number(values.customerId) : undefined,
+    requestedDeliveryDate: values.requestedDeliveryDate || undefined,
+    shippingAddress: values.shippingAddress.trim() || undefined,
+    billingAddress: values.billingAddress.trim() || undefined,
+    notes: values.notes.trim() || undefined,
+    shippingCost: toNumber(values.shippingCost),
+    discountAmount: toNumber(values.discountAmount),
+    items: lines.map((line) => ({
+        productId: line.product.id,
+        quantityOrdered: toNumber(line.quantity),
+        unitPrice: toNumber(line.unitPrice),
+        discountPercentage: toNumber(line.discountPercentage),
+        taxRate: toNumber(line.taxRate),
+    })),
+});
+
+const inputClassName = "bg-white dark:bg-gray-900";
+const selectClassName =
+    "h-9 w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 text-sm text-gray-800 dark:text-gray-100";
+const textareaClassName =
+    "w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-800 dark:text-gray-100";
+
+const SalesOrderForm = () => {
+    const { id } = useParams();
+    const orderId = id ? Number(id) : null;
+    const navigate = useNavigate();
+    const { customers, fetchCustomers, saveOrder } = useSalesOrderStore();
+    const [values, setValues] = useState<FormValues>(EMPTY_FORM);
+    const [lines, setLines] = useState<OrderLineValues[]>([]);
+    const [status, setStatus] = useState<SalesOrder["status"] | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+    const [isLoading, setIsLoading] = useState(!!orderId);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        fetchCustomers().catch((error) => showApiError(error));
+    }, [fetchCustomers]);
+
+    useEffect(() => {
+        if (!orderId) return;
+        api.salesOrders
+            .get({ params: { id: orderId } })
+            .then(({ data }) => {
+                setValues(toFormValues(data));
+                setLines(toLineValues(data));
+                setStatus(data.status);
+            })
+            .catch((error) => showApiError(error))
+            .finally(() => setIsLoading(false));
+    }, [orderId]);
+
+    const customer = customers.find((c) => c.id === Number(values.customerId));
+    const totals = previewTotals({
+        lines: lines.map((line) => ({
+            quantity: toNumber(line.quantity),
+            unitPrice: toNumber(line.unitPrice),
+            discountPercentage: toNumber(line.discountPercentage),
+            taxRate: toNumber(line.taxRate),
+        })),
+        discountAmount: toNumber(values.discountAmount),
+        shippingCost: toNumber(values.shippingCost),
+        taxExempt: customer?.taxExempt,
+    });
+
+    const setValue = <K extends keyof FormValues>(
+        key: K,
+        value: FormValues[K]
+    ) => setValues((current) => ({ ...current, [key]: value }));
+
+    // A new customer's default addresses fill whichever address is still blank
+    const selectCustomer = (customerId: string) => {
+        const selected = customers.find((c) => c.id === Number(customerId));
+        setValues((current) => ({
+            ...current,
+            customerId,
+            shippingAddress:
+                current.shippingAddress ||
+                selected?.defaultShippingAddress ||
+                "",
+            billingAddress:
+                current.billingAddress || selected?.defaultBillingAddress || "",
+        }));
+    };
+
+    const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+        event.preventDefault();
+        const parsed = createSalesOrderSchema.safeParse(toInput(values, lines));
+        if (!parsed.success) {
+            setFieldErrors(toFieldErrors(parsed.error.issues));
+            return;
+        }
+
+        setFieldErrors({});
+        setIsSubmitting(true);
+        try {
+            const order = await saveOrder(orderId, parsed.data);
+            navigate(`/sales-orders/${order.id}`);
+        } catch (error) {
+            showApiError(error, setFieldErrors);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-sm text-gray-500">Loading…</p>;
+    }
+
+    if (status && status !== "PENDING") {
+        return (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+                Only pending orders can be edited.{" "}
+                <Link to={`/sales-orders/${orderId}`} className="underline">
+                    Back to the order
+                </Link>
+            </p>
+        );
+    }
+
+    return (
+        <form noValidate onSubmit={handleSubmit} className="space-y-4">
+            <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                {orderId ? `Edit sales order #${orderId}` : "New sales order"}
+            </h1>
+
+            <div className="grid gap-4 rounded-lg bg-white dark:bg-gray-900 p-6 shadow sm:grid-cols-2">
+                <FormField
+                    id="customerId"
+                    label="Customer"
+                    error={fieldErrors.customerId}
+                >
+                    <select
+                        id="customerId"
+                        value={values.customerId}
+                        onChange={(event) => selectCustomer(event.target.value)}
+                        aria-invalid={!!fieldErrors.customerId}
+                        className={selectClassName}
+                    >
+                        <option value="">Select a customer</option>
+                        {customers.map((c) => (
+                            <option key={c.id} value={c.id}>
+                                {c.name}
+                            </option>
+                        ))}
+                    </select>
+                    {customer?.taxExempt && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Tax exempt; no tax is charged on this order.
+                        </p>
+                    )}
+                </FormField>
+
+                <FormField
+                    id="requestedDeliveryDate"
+                    label="Requested delivery"
+                    error={fieldErrors.requestedDeliveryDate}
+                >
+                    <Input
+                        id="requestedDeliveryDate"
+                        type="date"
+                        value={values.requestedDeliveryDate}
+                        onChange={(event) =>
+                            setValue(
+                                "requestedDeliveryDate",
+                                event.target.value
+                            )
+                        }
+                        className={inputClassName}
+                    />
+                </FormField>
+
+                <FormField
+                    id="shippingAddress"
+                    label="Shipping address"
+                    error={fieldErrors.shippingAddress}
+                >
+                    <textarea
+                        id="shippingAddress"
+                        rows={2}
+                        value={values.shippingAddress}
+                        onChange={(event) =>
+                            setValue("shippingAddress", event.target.value)
+                        }
+                        className={textareaClassName}
+                    />
+                </FormField>
+
+                <FormField
+                    id="billingAddress"
+                    label="Billing address"
+                    error={fieldErrors.billingAddress}
+                >
+                    <textarea
+                        id="billingAddress"
+                        rows={2}
+                        value={values.billingAddress}
+                        onChange={(event) =>
+                            setValue("billingAddress", event.target.value)
+                        }
+                        className={textareaClassName}
+                    />
+                </FormField>
+            </div>
+
+            <OrderLinesEditor
+                lines={lines}
+                onChange={setLines}
+                createLine={createLine}
+                totals={totals}
+                priceField="unitPrice"
+                fieldErrors={fieldErrors}
+            />
+
+            <div className="grid gap-4 rounded-lg bg-white dark:bg-gray-900 p-6 shadow md:grid-cols-[1fr_auto]">
+                <FormField id="notes" label="Notes" error={fieldErrors.notes}>
+                    <textarea
+                        id="notes"
+                        rows={4}
+                        value={values.notes}
+                        onChange={(event) =>
+                            setValue("notes", event.target.value)
+                        }
+                        className={textareaClassName}
+                    />
+                </FormField>
+
+                <div className="space-y-3 md:w-72">
+                    <div className="grid grid-cols-2 gap-3">
+                        <FormField
+                            id="shippingCost"
+                            label="Shipping"
+                            error={fieldErrors.shippingCost}
+                        >
+                            <Input
+                                id="shippingCost"
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={values.shippingCost}
+                                onChange={(event) =>
+                                    setValue("shippingCost", event.target.value)
+                                }
+                                aria-invalid={!!fieldErrors.shippingCost}
+                                className={inputClassName}
+                            />
+                        </FormField>
+                        <FormField
+                            id="discountAmount"
+                            label="Order discount"
+                            error={fieldErrors.discountAmount}
+                        >
+                            <Input
+                                id="discountAmount"
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={values.discountAmount}
+                                onChange={(event) =>
+                                    setValue(
+                                        "discountAmount",
+                                        event.target.value
+                                    )
+                                }
+                                aria-invalid={!!fieldErrors.discountAmount}
+                                className={inputClassName}
+                            />
+                        </FormField>
+                    </div>
+                    {totals ? (
+                        <OrderTotalsSummary
+                            subTotal={totals.subTotal}
+                            taxAmount={totals.taxAmount}
+                            discountAmount={totals.discountAmount}
+                            shippingCost={totals.shippingCost}
+                            totalAmount={totals.totalAmount}
+                        />
+                    ) : (
+                        <p className="text-xs text-red-600">
+                            Amounts must be whole shillings and rates between 0
+                            and 100.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <Button variant="outline" asChild>
+                    <Link
+                        to={
+                            orderId
+                                ? `/sales-orders/${orderId}`
+                                : "/sales-orders"
+                        }
+                    >
+                        Cancel
+                    </Link>
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                    {isSubmitting ? "Saving…" : "Save"}
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+export default SalesOrderForm;
@@ -0,0 +1,156 @@
+import { useEffect } from "react";
+import { Link, useNavigate } from "react-router";
+import { PlusIcon } from "lucide-react";
+import { SalesOrderStatus, type SalesOrderSummary } from "shared";
+import DataTable, { type Column } from "@/components/DataTable";
+import Pagination from "@/components/Pagination";
+import OrderStatusBadge from "@/components/orders/OrderStatusBadge";
+import OrderTabs from "@/components/orders/OrderTabs";
+import { Button } from "@/components/ui/button";
+import { showApiError } from "@/lib/api";
+import { formatEnum } from "@/lib/orders";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { useSalesOrderStore } from "@/store/salesOrderStore";
+
+const selectClassName =
+    "rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100";
+
+const COLUMNS: Column<SalesOrderSummary>[] = [
+    {
+        key: "id",
+        header: "Order",
+        render: (order) => <span className="font-medium">#{order.id}</span>,
+    },
+    {
+        key: "customer",
+        header: "Customer",
+        render: (order) => order.customer.name,
+    },
+    {
+        key: "status",
+        header: "Status",
+        render: (order) => <OrderStatusBadge status={order.status} />,
+    },
+    {
+        key: "orderDate",
+        header: "Ordered",
+        render: (order) => formatDate(order.orderDate, true),
+    },
+    {
+        key: "requestedDeliveryDate",
+        header: "Requested delivery",
+        render: (order) =>
+            order.requestedDeliveryDate
+                ? formatDate(order.requestedDeliveryDate, true)
+                : "—",
+    },
+    {
+        key: "totalAmount",
+        header: "Total",
+        align: "right",
+        render: (order) =>
+            order.totalAmount === null
+                ? "—"
+                : formatCurrency(order.totalAmount),
+    },
+];
+
+const SalesOrders = () => {
+    const {
+        orders,
+        meta,
+        filters,
+        page,
+        isLoading,
+        customers,
+        setFilters,
+        setPage,
+        fetchOrders,
+        fetchCustomers,
+    } = useSalesOrderStore();
+    const navigate = useNavigate();
+
+    useEffect(() => {
+        fetchCustomers().catch((error) => showApiError(error));
+    }, [fetchCustomers]);
+
+    useEffect(() => {
+        fetchOrders().catch((error) => showApiError(error));
+    }, [fetchOrders, filters, page]);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                    Orders
+                </h1>
+                <Button asChild size="sm">
+                    <Link to="/sales-orders/new">
+                        <PlusIcon size={16} aria-hidden="true" />
+                        New sales order
+                    </Link>
+                </Button>
+            </div>
+
+            <OrderTabs />
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={filters.status ?? ""}
+                    onChange={(event) =>
+                        setFilters({
+                            status:
+                                (event.target.value as SalesOrderStatus) ||
+                                null,
+                        })
+                    }
+                    className={selectClassName}
+                >
+                    <option value="">All statuses</option>
+                    {Object.values(SalesOrderStatus).map((status) => (
+                        <option key={status} value={status}>
+                            {formatEnum(status)}
+                        </option>
+                    ))}
+                </select>
+
+                <select
+                    value={filters.customerId ?? ""}
+                    onChange={(event) =>
+                        setFilters({
+                            customerId: Number(event.target.value) || null,
+                        })
+                    }
+                    className={selectClassName}
+                >
+                    <option value="">All customers</option>
+                    {customers.map((customer) => (
+                        <option key={customer.id} value={customer.id}>
+                            {customer.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <DataTable
+                columns={COLUMNS}
+                rows={orders}
+                getRowKey={(order) => order.id}
+                onRowClick={(order) => navigate(`/sales-orders/${order.id}`)}
+                isLoading={isLoading}
+                emptyMessage="No sales orders match these filters."
+            />
+
+            {meta && meta.total !== null && (
+                <Pagination
+                    page={page}
+                    limit={meta.limit}
+                    total={meta.total}
+                    onPageChange={setPage}
+                />
+            )}
+        </div>
+    );
+};
+
+export default SalesOrders;
@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router";
+import { toast } from "react-toastify";
+import type { Task, TaskStatus, TaskType } from "shared";
+import { Badge } from "@/components/ui/badge";
+import { getErrorMessage } from "@/lib/api";
+import { TASK_STATUSES, useTaskStore } from "@/store/taskStore";
+
+const COLUMN_TITLES: Record<TaskStatus, string> = {
+    PENDING: "To do",
+    IN_PROGRESS: "In progress",
+    COMPLETED: "Done",
+    CANCELLED: "Cancelled",
+};
+
+const TYPE_LABELS: Record<TaskType, string> = {
+    GENERAL: "General",
+    PICK: "Pick",
+    PUT_AWAY: "Put away",
+    COUNT: "Count",
+};
+
+/** Document the task was raised for, with a link when it has a screen */
+const getTaskSource = (task: Task) => {
+    if (task.salesOrder) {
+        return {
+            label: `Sales order #${task.salesOrder.id}`,
+            to: `/sales-orders/${task.salesOrder.id}`,
+        };
+    }
+    if (task.purchaseOrder) {
+        return {
+            label: `Purchase order #${task.purchaseOrder.id}`,
+            to: `/purchase-orders/${task.purchaseOrder.id}`,
+        };
+    }
+    if (task.StockTransfer) {
+        return { label: `Transfer ${task.StockTransfer.transferNumber}` };
+    }
+    if (task.cycleCount) {
+        return { label: `Cycle count ${task.cycleCount.countNumber}` };
+    }
+    return null;
+};
+
+const isOverdue = (task: Task) =>
+    !!task.dueDate &&
+    (task.status === "PENDING" || task.status === "IN_PROGRESS") &&
+    new Date(task.dueDate) < new Date();
+
+const TaskCard = ({
+    task,
+    isHighlighted,
+}: {
+    task: Task;
+    /** Task linked to, e.g. from a notification; scrolled into view */
+    isHighlighted: boolean;
+}) => {
+    const source = getTaskSource(task);
+    // Count tasks follow their cycle count session and can't be dragged
+    const isDraggable = !task.cycleCountId;
+    const ref = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (isHighlighted) {
+            ref.current?.scrollIntoView({
+                block: "center",
+                behavior: "smooth",
+            });
+        }
+    }, [isHighlighted]);
+
+    return (
+        <div
+            ref={ref}
+            draggable={isDraggable}
+            onDragStart={(event) => {
+                event.dataTransfer.setData("text/plain", String(task.id));
+                event.dataTransfer.effectAllowed = "move";
+            }}
+            className={`rounded-md bg-white dark:bg-gray-900 p-3 shadow-sm text-sm text-gray-800 dark:text-gray-100 ${
+                isDraggable ? "cursor-grab" : "opacity-90"
+            } ${isHighlighted ? "ring-2 ring-blue-500" : ""}`}
+        >
+            <div className="flex items-start justify-between gap-2">
+                <span className="font-medium">{task.title}</span>
+                <Badge variant="outline">{TYPE_LABELS[task.type]}</Badge>
+            </div>
+
+            {source && (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {source.to ? (
+                        <Link to={source.to} className="hover:underline">
+                            {source.label}
+                        </Link>
+                    ) : (
+                        source.label
+                    )}
+                </div>
+            )}
+
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                {task.warehouse && <span>{task.warehouse.name}</span>}
+                <span>{task.assignedToUser?.username ?? "Unassigned"}</span>
+                {task.dueDate && (
+                    <span
+                        className={
+                            isOverdue(task) ? "text-red-600 font-medium" : ""
+                        }
+                    >
+                        Due {new Date(task.dueDate).toLocaleDateString()}
+                    </span>
+                )}
+                {!!task.priority && (
+                    <Badge variant="secondary">P{task.priority}</Badge>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const TaskBoard = () => {
+    const {
+        board,
+        warehouses,
+        warehouseId,
+        isLoading,
+        setWarehouseId,
+        fetchWarehouses,
+        fetchBoard,
+        moveTask,
+    } = useTaskStore();
+    const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+    const [searchParams] = useSearchParams();
+    const highlightedTaskId = Number(searchParams.get("task"));
+
+    useEffect(() => {
+        fetchWarehouses().catch((error) => toast.error(getErrorMessage(error)));
+    }, [fetchWarehouses]);
+
+    useEffect(() => {
+        fetchBoard().catch((error) => toast.error(getErrorMessage(error)));
+    }, [fetchBoard, warehouseId]);
+
+    const handleDrop = (status: TaskStatus, taskId: number) => {
+        setDropTarget(null);
+        moveTask(taskId, status).catch((error) =>
+            toast.error(getErrorMessage(error))
+        );
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex items-center justify-between gap-4">
+                <h1 className="text-xl font-semibold text-gray-800 dark:text-gray-100">
+                    Work board
+                </h1>
+
+                <select
+                    value={warehouseId ?? ""}
+                    onChange={(event) =>
+                        setWarehouseId(Number(event.target.value) || null)
+                    }
+                    className="rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-1.5 text-sm text-gray-800 dark:text-gray-100"
+                >
+                    <option value="">All warehouses</option>
+                    {warehouses.map((warehouse) => (
+                        <option key={warehouse.id} value={warehouse.id}>
+                            {warehouse.name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div
+                className={`grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4 ${
+                    isLoading ? "opacity-60" : ""
+                }`}
+            >
+                {TASK_STATUSES.map((status) => (
+                    <section
+                        key={status}
+                        onDragOver={(event) => {
+                            event.preventDefault();
+                            setDropTarget(status);
+                        }}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={(event) => {
+                            event.preventDefault();
+                            handleDrop(
+                                status,
+                                Number(event.dataTransfer.getData("text/plain"))
+                            );
+                        }}
+                        className={`flex min-h-64 flex-col gap-2 rounded-lg p-3 transition-colors ${
+                            dropTarget === status
+                                ? "bg-gray-300 dark:bg-gray-700"
+                                : "bg-gray-200 dark:bg-gray-800/60"
+                        }`}
+                    >
+                        <h2 className="flex items-center justify-between text-sm font-semibold text-gray-700 dark:text-gray-200">
+                            {COLUMN_TITLES[status]}
+                            <span className="text-xs font-normal text-gray-500">
+                                {board[status].length}
+                            </span>
+                        </h2>
+
+                        {board[status].map((task) => (
+                            <TaskCard
+                                key={task.id}
+                                task={task}
+                                isHighlighted={task.id === highlightedTaskId}
+                            />
+                        ))}
+                    </section>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default TaskBoard;
@@ -0,0 +1,58 @@
+import { create } from "zustand";
+import type { LoginInput, SessionUser } from "shared";
+import {
+    api,
+    clearTokens,
+    getRefreshToken,
+    onSessionExpired,
+    storeTokens,
+} from "@/lib/api";
+
+const USER_KEY = "user";
+
+// The session outlives a reload for as long as its refresh token is stored
+const getInitialUser = (): SessionUser | null => {
+    const stored = localStorage.getItem(USER_KEY);
+    if (!stored || !getRefreshToken()) return null;
+    try {
+        return JSON.parse(stored) as SessionUser;
+    } catch {
+        return null;
+    }
+};
+
+interface AuthStore {
+    user: SessionUser | null;
+    login: (credentials: LoginInput) => Promise<void>;
+    logout: () => Promise<void>;
+    /** Forgets the session locally, e.g. when it has expired */
+    clearSession: () => void;
+}
+
+export const useAuthStore = create<AuthStore>((set, get) => ({
+    user: getInitialUser(),
+    login: async (credentials) => {
+        const { data } = await api.auth.login({ body: credentials });
+        const { user, ...tokens } = data;
+        storeTokens(tokens);
+        localStorage.setItem(USER_KEY, JSON.stringify(user));
+        set({ user });
+    },
+    logout: async () => {
+        const refreshToken = getRefreshToken();
+        get().clearSession();
+        if (refreshToken) {
+            // Signed out locally either way; this only revokes the token
+            await api.auth
+                .logout({ body: { refreshToken } })
+                .catch(() => undefined);
+        }
+    },
+    clearSession: () => {
+        clearTokens();
+        localStorage.removeItem(USER_KEY);
+        set({ user: null });
+    },
+}));
+
+onSessionExpired(() => useAuthStore.getState().clearSession());
@@ -0,0 +1,70 @@
+import { create } from "zustand";
+import type { Notification } from "shared";
+import { api } from "@/lib/api";
+
+interface NotificationStore {
+    notifications: Notification[];
+    unreadCount: number;
+    isLoading: boolean;
+    fetchNotifications: () => Promise<void>;
+    markAsRead: (id: number) => Promise<void>;
+    markAllAsRead: () => Promise<void>;
+    /** Handlers for the live stream */
+    receive: (notification: Notification) => void;
+    applyRead: (change: { ids?: number[]; all?: boolean }) => void;
+}
+
+const PAGE_SIZE = 20;
+
+export const useNotificationStore = create<NotificationStore>((set, get) => ({
+    notifications: [],
+    unreadCount: 0,
+    isLoading: false,
+    fetchNotifications: async () => {
+        set({ isLoading: true });
+        try {
+            const { data, meta } = await api.notifications.list({
+                query: { limit: PAGE_SIZE },
+            });
+            set({ notifications: data, unreadCount: meta.unread });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+    markAsRead: async (id) => {
+        const notification = get().notifications.find((n) => n.id === id);
+        if (!notification || notification.isRead) return;
+        get().applyRead({ ids: [id] });
+        await api.notifications.markRead({ params: { id } });
+    },
+    markAllAsRead: async () => {
+        get().applyRead({ all: true });
+        await api.notifications.markAllRead();
+    },
+    receive: (notification) => {
+        // The same notification may arrive on a reconnect after a fetch
+        if (get().notifications.some((n) => n.id === notification.id)) return;
+        set((state) => ({
+            notifications: [notification, ...state.notifications].slice(
+                0,
+                PAGE_SIZE
+            ),
+            unreadCount: state.unreadCount + (notification.isRead ? 0 : 1),
+        }));
+    },
+    applyRead: ({ ids, all }) =>
+        set((state) => {
+            const notifications = state.notifications.map((n) =>
+                all || ids?.includes(n.id) ? { ...n, isRead: true } : n
+            );
+            const newlyRead = state.notifications.filter(
+                (n, i) => !n.isRead && notifications[i].isRead
+            ).length;
+            return {
+                notifications,
+                unreadCount: all
+                    ? 0
+                    : Math.max(state.unreadCount - newlyRead, 0),
+            };
+        }),
+}));
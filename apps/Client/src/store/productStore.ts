@@ -0,0 +1,123 @@
+import { create } from "zustand";
+import type {
+    Category,
+    CreateProductInput,
+    ListMeta,
+    ListParams,
+    Product,
+    Supplier,
+} from "shared";
+import { api } from "@/lib/api";
+
+export interface ProductFilters {
+    search: string;
+    categoryId: number | null;
+    /** A supplier's id, or "none" for products without a default supplier */
+    supplierId: number | "none" | null;
+}
+
+const PAGE_SIZE = 25;
+const HIDDEN_COLUMNS_KEY = "productColumnsHidden";
+
+const getInitialHiddenColumns = (): string[] => {
+    try {
+        const stored: unknown = JSON.parse(
+            localStorage.getItem(HIDDEN_COLUMNS_KEY) ?? "[]"
+        );
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+const toListParams = (
+    filters: ProductFilters,
+    page: number,
+    sort: string
+): ListParams => ({
+    page,
+    limit: PAGE_SIZE,
+    sort,
+    search: filters.search || undefined,
+    categoryId: filters.categoryId ?? undefined,
+    ...(filters.supplierId === "none"
+        ? { "defaultSupplierId.isNull": true }
+        : { defaultSupplierId: filters.supplierId ?? undefined }),
+});
+
+interface ProductStore {
+    products: Product[];
+    meta: ListMeta | null;
+    filters: ProductFilters;
+    page: number;
+    sort: string;
+    hiddenColumns: string[];
+    isLoading: boolean;
+    categories: Category[];
+    suppliers: Supplier[];
+    /** Changing filters or sort goes back to the first page */
+    setFilters: (filters: Partial<ProductFilters>) => void;
+    setSort: (sort: string) => void;
+    setPage: (page: number) => void;
+    toggleColumn: (key: string) => void;
+    fetchProducts: () => Promise<void>;
+    /** Categories and suppliers for filters and the product form */
+    fetchOptions: () => Promise<void>;
+    /** Creates the product, or updates it when `id` is given */
+    saveProduct: (
+        id: number | null,
+        input: CreateProductInput
+    ) => Promise<Product>;
+}
+
+export const useProductStore = create<ProductStore>((set, get) => ({
+    products: [],
+    meta: null,
+    filters: { search: "", categoryId: null, supplierId: null },
+    page: 1,
+    sort: "name",
+    hiddenColumns: getInitialHiddenColumns(),
+    isLoading: false,
+    categories: [],
+    suppliers: [],
+    setFilters: (filters) =>
+        set((state) => ({
+            filters: { ...state.filters, ...filters },
+            page: 1,
+        })),
+    setSort: (sort) => set({ sort, page: 1 }),
+    setPage: (page) => set({ page }),
+    toggleColumn: (key) => {
+        const { hiddenColumns } = get();
+        const hidden = hiddenColumns.includes(key)
+            ? hiddenColumns.filter((k) => k !== key)
+            : [...hiddenColumns, key];
+        localStorage.setItem(HIDDEN_COLUMNS_KEY, JSON.stringify(hidden));
+        set({ hiddenColumns: hidden });
+    },
+    fetchProducts: async () => {
+        set({ isLoading: true });
+        try {
+            const { filters, page, sort } = get();
+            const { data, meta } = await api.products.list({
+                query: toListParams(filters, page, sort),
+            });
+            set({ products: data, meta });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+    fetchOptions: async () => {
+        const [categories, suppliers] = await Promise.all([
+            api.categories.list(),
+            api.suppliers.list(),
+        ]);
+        set({ categories: categories.data, suppliers: suppliers.data });
+    },
+    saveProduct: async (id, input) => {
+        const { data } = id
+            ? await api.products.update({ params: { id }, body: input })
+            : await api.products.create({ body: input });
+        return data;
+    },
+}));
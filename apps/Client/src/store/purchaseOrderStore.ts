@@ -0,0 +1,109 @@
+import { create } from "zustand";
+import type {
+    CreatePurchaseOrderInput,
+    ListMeta,
+    PurchaseOrder,
+    PurchaseOrderStatus,
+    PurchaseOrderSummary,
+    ReceivePurchaseOrderInput,
+    Supplier,
+    Warehouse,
+} from "shared";
+import { api } from "@/lib/api";
+
+export interface PurchaseOrderFilters {
+    status: PurchaseOrderStatus | null;
+    supplierId: number | null;
+    warehouseId: number | null;
+}
+
+const PAGE_SIZE = 25;
+
+interface PurchaseOrderStore {
+    orders: PurchaseOrderSummary[];
+    meta: ListMeta | null;
+    filters: PurchaseOrderFilters;
+    page: number;
+    isLoading: boolean;
+    suppliers: Supplier[];
+    warehouses: Warehouse[];
+    /** Changing filters goes back to the first page */
+    setFilters: (filters: Partial<PurchaseOrderFilters>) => void;
+    setPage: (page: number) => void;
+    fetchOrders: () => Promise<void>;
+    /** Suppliers and warehouses for filters, the order form and receiving */
+    fetchOptions: () => Promise<void>;
+    /** Creates the order, or replaces a pending order's details when `id` is given */
+    saveOrder: (
+        id: number | null,
+        input: CreatePurchaseOrderInput
+    ) => Promise<PurchaseOrder>;
+    confirmOrder: (id: number) => Promise<PurchaseOrder>;
+    receiveOrder: (
+        id: number,
+        input: ReceivePurchaseOrderInput
+    ) => Promise<PurchaseOrder>;
+    cancelOrder: (id: number) => Promise<PurchaseOrder>;
+}
+
+export const usePurchaseOrderStore = create<PurchaseOrderStore>((set, get) => ({
+    orders: [],
+    meta: null,
+    filters: { status: null, supplierId: null, warehouseId: null },
+    page: 1,
+    isLoading: false,
+    suppliers: [],
+    warehouses: [],
+    setFilters: (filters) =>
+        set((state) => ({
+            filters: { ...state.filters, ...filters },
+            page: 1,
+        })),
+    setPage: (page) => set({ page }),
+    fetchOrders: async () => {
+        set({ isLoading: true });
+        try {
+            const { filters, page } = get();
+            const { data, meta } = await api.purchaseOrders.list({
+                query: {
+                    page,
+                    limit: PAGE_SIZE,
+                    status: filters.status ?? undefined,
+                    supplierId: filters.supplierId ?? undefined,
+                    warehouseId: filters.warehouseId ?? undefined,
+                },
+            });
+            set({ orders: data, meta });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+    fetchOptions: async () => {
+        const [suppliers, warehouses] = await Promise.all([
+            api.suppliers.list(),
+            api.warehouses.list(),
+        ]);
+        set({ suppliers: suppliers.data, warehouses: warehouses.data });
+    },
+    saveOrder: async (id, input) => {
+        const { data } = id
+            ? await api.purchaseOrders.update({ params: { id }, body: input })
+            : await api.purchaseOrders.create({ body: input });
+        return data;
+    },
+    confirmOrder: async (id) => {
+        const { data } = await api.purchaseOrders.confirm({ params: { id } });
+        return data;
+    },
+    receiveOrder: async (id, input) => {
+        const { data } = await api.purchaseOrders.receive({
+            params: { id },
+            body: input,
+        });
+        return data;
+    },
+    cancelOrder: async (id) => {
+        const { data } = await api.purchaseOrders.cancel({ params: { id } });
+        return data;
+    },
+}));
@@ -0,0 +1,100 @@
+import { create } from "zustand";
+import type {
+    CreateSalesOrderInput,
+    Customer,
+    ListMeta,
+    SalesOrder,
+    SalesOrderStatus,
+    SalesOrderSummary,
+    ShipSalesOrderInput,
+} from "shared";
+import { api } from "@/lib/api";
+
+export interface SalesOrderFilters {
+    status: SalesOrderStatus | null;
+    customerId: number | null;
+}
+
+const PAGE_SIZE = 25;
+
+interface SalesOrderStore {
+    orders: SalesOrderSummary[];
+    meta: ListMeta | null;
+    filters: SalesOrderFilters;
+    page: number;
+    isLoading: boolean;
+    customers: Customer[];
+    /** Changing filters goes back to the first page */
+    setFilters: (filters: Partial<SalesOrderFilters>) => void;
+    setPage: (page: number) => void;
+    fetchOrders: () => Promise<void>;
+    fetchCustomers: () => Promise<void>;
+    /** Creates the order, or replaces a pending order's details when `id` is given */
+    saveOrder: (
+        id: number | null,
+        input: CreateSalesOrderInput
+    ) => Promise<SalesOrder>;
+    allocateOrder: (id: number) => Promise<SalesOrder>;
+    shipOrder: (id: number, input: ShipSalesOrderInput) => Promise<SalesOrder>;
+    cancelOrder: (id: number) => Promise<SalesOrder>;
+}
+
+export const useSalesOrderStore = create<SalesOrderStore>((set, get) => ({
+    orders: [],
+    meta: null,
+    filters: { status: null, customerId: null },
+    page: 1,
+    isLoading: false,
+    customers: [],
+    setFilters: (filters) =>
+        set((state) => ({
+            filters: { ...state.filters, ...filters },
+            page: 1,
+        })),
+    setPage: (page) => set({ page }),
+    fetchOrders: async () => {
+        set({ isLoading: true });
+        try {
+            const { filters, page } = get();
+            const { data, meta } = await api.salesOrders.list({
+                query: {
+                    page,
+                    limit: PAGE_SIZE,
+                    status: filters.status ?? undefined,
+                    customerId: filters.customerId ?? undefined,
+                },
+            });
+            set({ orders: data, meta });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+    fetchCustomers: async () => {
+        const { data } = await api.customers.list();
+        set({ customers: data });
+    },
+    saveOrder: async (id, input) => {
+        const { data } = id
+            ? await api.salesOrders.update({ params: { id }, body: input })
+            : await api.salesOrders.create({ body: input });
+        return data;
+    },
+    allocateOrder: async (id) => {
+        const { data } = await api.salesOrders.allocate({
+            params: { id },
+            body: {},
+        });
+        return data;
+    },
+    shipOrder: async (id, input) => {
+        const { data } = await api.salesOrders.ship({
+            params: { id },
+            body: input,
+        });
+        return data;
+    },
+    cancelOrder: async (id) => {
+        const { data } = await api.salesOrders.cancel({ params: { id } });
+        return data;
+    },
+}));
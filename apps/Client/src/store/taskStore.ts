@@ -0,0 +1,98 @@
+import { create } from "zustand";
+import { TaskStatus, type Task, type Warehouse } from "shared";
+import { api } from "@/lib/api";
+
+export const TASK_STATUSES = Object.values(TaskStatus);
+
+/** The board with every column present, empty ones included */
+type Board = Record<TaskStatus, Task[]>;
+
+const emptyBoard = (): Board => ({
+    PENDING: [],
+    IN_PROGRESS: [],
+    COMPLETED: [],
+    CANCELLED: [],
+});
+
+const WAREHOUSE_KEY = "taskBoardWarehouseId";
+
+const getInitialWarehouseId = () => {
+    const stored = Number(localStorage.getItem(WAREHOUSE_KEY));
+    return stored > 0 ? stored : null;
+};
+
+interface TaskStore {
+    board: Board;
+    warehouses: Warehouse[];
+    /** Board filter; null shows every warehouse */
+    warehouseId: number | null;
+    isLoading: boolean;
+    setWarehouseId: (warehouseId: number | null) => void;
+    fetchWarehouses: () => Promise<void>;
+    fetchBoard: () => Promise<void>;
+    /** Moves a task to another column, reverting if the server refuses */
+    moveTask: (id: number, status: TaskStatus) => Promise<void>;
+}
+
+export const useTaskStore = create<TaskStore>((set, get) => ({
+    board: emptyBoard(),
+    warehouses: [],
+    warehouseId: getInitialWarehouseId(),
+    isLoading: false,
+    setWarehouseId: (warehouseId) => {
+        if (warehouseId) {
+            localStorage.setItem(WAREHOUSE_KEY, String(warehouseId));
+        } else {
+            localStorage.removeItem(WAREHOUSE_KEY);
+        }
+        set({ warehouseId });
+    },
+    fetchWarehouses: async () => {
+        const { data } = await api.warehouses.list();
+        set({ warehouses: data });
+    },
+    fetchBoard: async () => {
+        set({ isLoading: true });
+        try {
+            const { warehouseId } = get();
+            const { data } = await api.tasks.board({
+                query: { warehouseId: warehouseId ?? undefined },
+            });
+            set({ board: { ...emptyBoard(), ...data } });
+        } finally {
+            set({ isLoading: false });
+        }
+    },
+    moveTask: async (id, status) => {
+        const previous = get().board;
+        const task = Object.values(previous)
+            .flat()
+            .find((t) => t.id === id);
+        if (!task || task.status === status) return;
+
+        const board = emptyBoard();
+        for (const column of TASK_STATUSES) {
+            board[column] = previous[column].filter((t) => t.id !== id);
+        }
+        board[status] = [{ ...task, status }, ...board[status]];
+        set({ board });
+
+        try {
+            const { data } = await api.tasks.updateStatus({
+                params: { id },
+                body: { status },
+            });
+            set((state) => ({
+                board: {
+                    ...state.board,
+                    [status]: state.board[status].map((t) =>
+                        t.id === id ? data : t
+                    ),
+                },
+            }));
+        } catch (error) {
+            set({ board: previous });
+            throw error;
+        }
+    },
+}));
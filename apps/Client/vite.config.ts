@@ -1,24 +1,30 @@
-/// <reference types="vite/client" />
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import tailwindcss from "@tailwindcss/vite";
 
 // https://vite.dev/config/
-export default defineConfig({
-    plugins: [react(), tailwindcss()],
-    resolve: {
-        alias: {
-            "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+    // `import.meta.env` isn't populated while the config itself is loaded
+    const env = loadEnv(mode, __dirname);
+
+    return {
+        plugins: [react(), tailwindcss()],
+        resolve: {
+            alias: {
+                "@": path.resolve(__dirname, "./src"),
+            },
         },
-    },
-    server: {
-        proxy: {
-            "/api": {
-                target: import.meta.env.VITE_API_URL,
-                changeOrigin: true,
-                rewrite: (path) => path.replace(/^\/api/, ""),
+        server: {
+            proxy: {
+                // The client calls `/api/v1/...` on its own origin; only the
+                // server's origin is taken from VITE_API_URL
+                "/api": {
+                    target: new URL(env.VITE_API_URL || "http://localhost:3001")
+                        .origin,
+                    changeOrigin: true,
+                },
             },
         },
-    },
+    };
 });
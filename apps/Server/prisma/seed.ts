@@ -0,0 +1,83 @@
+import { PrismaClient, PermissionScope } from "@prisma/client";
+import {
+    PERMISSION_DESCRIPTIONS,
+    PERMISSIONS,
+    PermissionKey,
+} from "../src/config/permissions.js";
+
+const prisma = new PrismaClient();
+
+/** Default roles and their grants. Admin always receives every permission. */
+const ROLES: Record<
+    string,
+    { description: string; grants: [PermissionKey, PermissionScope][] }
+> = {
+    "Warehouse Manager": {
+        description: "Runs day-to-day operations in the warehouses they manage",
+        grants: [
+            [PERMISSIONS.STOCK_ADJUST, "MANAGED_WAREHOUSES"],
+            [PERMISSIONS.STOCK_TRANSFER, "MANAGED_WAREHOUSES"],
+            [PERMISSIONS.CYCLE_COUNT_MANAGE, "MANAGED_WAREHOUSES"],
+            [PERMISSIONS.REPLENISHMENT_MANAGE, "MANAGED_WAREHOUSES"],
+            [PERMISSIONS.PURCHASE_ORDER_RECEIVE, "MANAGED_WAREHOUSES"],
+            [PERMISSIONS.SALES_ORDER_FULFILL, "MANAGED_WAREHOUSES"],
+            [PERMISSIONS.TASK_MANAGE, "MANAGED_WAREHOUSES"],
+        ],
+    },
+};
+
+async function main() {
+    const permissions = await Promise.all(
+        Object.values(PERMISSIONS).map((key) =>
+            prisma.permission.upsert({
+                where: { key },
+                update: { description: PERMISSION_DESCRIPTIONS[key] },
+                create: { key, description: PERMISSION_DESCRIPTIONS[key] },
+            })
+        )
+    );
+    const idByKey = new Map(permissions.map((p) => [p.key, p.id]));
+
+    const admin = await prisma.role.upsert({
+        where: { name: "Admin" },
+        update: {},
+        create: { name: "Admin", description: "Full access" },
+    });
+    for (const permission of permissions) {
+        await prisma.rolePermission.upsert({
+            where: {
+                roleId_permissionId: {
+                    roleId: admin.id,
+                    permissionId: permission.id,
+                },
+            },
+            update: { scope: "GLOBAL" },
+            create: { roleId: admin.id, permissionId: permission.id },
+        });
+    }
+
+    for (const [name, { description, grants }] of Object.entries(ROLES)) {
+        const role = await prisma.role.upsert({
+            where: { name },
+            update: {},
+            create: { name, description },
+        });
+        for (const [key, scope] of grants) {
+            const permissionId = idByKey.get(key)!;
+            await prisma.rolePermission.upsert({
+                where: {
+                    roleId_permissionId: { roleId: role.id, permissionId },
+                },
+                update: { scope },
+                create: { roleId: role.id, permissionId, scope },
+            });
+        }
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error(error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,29 @@
+import type { SignOptions } from "jsonwebtoken";
+
+/** Secret used to sign short-lived access tokens */
+export const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET ?? "";
+
+/** Lifetime of an access token, in any format understood by `jsonwebtoken` */
+export const JWT_ACCESS_EXPIRES_IN = (process.env.JWT_ACCESS_EXPIRES_IN ??
+    "15m") as NonNullable<SignOptions["expiresIn"]>;
+
+/** Lifetime of a refresh token in days */
+export const REFRESH_TOKEN_TTL_DAYS = Number(
+    process.env.REFRESH_TOKEN_TTL_DAYS ?? 7
+);
+
+/** Cost factor passed to bcrypt when hashing passwords */
+export const BCRYPT_SALT_ROUNDS = 12;
+
+/** How long a password reset link stays valid, in minutes */
+export const PASSWORD_RESET_TTL_MINUTES = Number(
+    process.env.PASSWORD_RESET_TTL_MINUTES ?? 30
+);
+
+/** How long an email verification link stays valid, in minutes */
+export const EMAIL_VERIFICATION_TTL_MINUTES = Number(
+    process.env.EMAIL_VERIFICATION_TTL_MINUTES ?? 24 * 60
+);
+
+/** Base URL of the web client, used to build links sent by email */
+export const CLIENT_URL = process.env.CLIENT_URL ?? "http://localhost:5173";
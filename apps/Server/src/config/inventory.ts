@@ -0,0 +1,7 @@
+/**
+ * Cycle counts whose absolute variance, valued at average cost, exceeds this
+ * amount (UGX) need approval before their adjustments are posted
+ */
+export const CYCLE_COUNT_APPROVAL_THRESHOLD = Number(
+    process.env.CYCLE_COUNT_APPROVAL_THRESHOLD ?? 500_000
+);
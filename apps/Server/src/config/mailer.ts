@@ -0,0 +1,66 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import nodemailer, { SendMailOptions, Transporter } from "nodemailer";
+import logger from "./logger.js";
+
+/**
+ * Mail transport selected by `MAIL_TRANSPORT`:
+ * - `smtp`: delivers through the SMTP server in `SMTP_*`
+ * - `json`: serialises messages and logs them, nothing is sent
+ * - `file`: writes each message as an `.eml` file to `MAIL_OUTPUT_DIR`
+ *
+ * `json` and `file` let the flows be exercised offline.
+ */
+export type MailTransport = "smtp" | "json" | "file";
+
+export const MAIL_TRANSPORT = (process.env.MAIL_TRANSPORT ??
+    "json") as MailTransport;
+export const MAIL_FROM =
+    process.env.MAIL_FROM ?? "InvenEase <no-reply@invenease.local>";
+const MAIL_OUTPUT_DIR = process.env.MAIL_OUTPUT_DIR ?? "mail";
+
+const createTransporter = (): Transporter => {
+    switch (MAIL_TRANSPORT) {
+        case "smtp":
+            return nodemailer.createTransport({
+                host: process.env.SMTP_HOST,
+                port: Number(process.env.SMTP_PORT ?? 587),
+                secure: process.env.SMTP_SECURE === "true",
+                auth: process.env.SMTP_USER
+                    ? {
+                          user: process.env.SMTP_USER,
+                          pass: process.env.SMTP_PASSWORD,
+                      }
+                    : undefined,
+            });
+        case "file":
+            return nodemailer.createTransport({
+                streamTransport: true,
+                buffer: true,
+                newline: "unix",
+            });
+        default:
+            return nodemailer.createTransport({ jsonTransport: true });
+    }
+};
+
+const transporter = createTransporter();
+
+/** Sends a message through the configured transport */
+export async function deliverMail(message: SendMailOptions) {
+    const info = await transporter.sendMail({ from: MAIL_FROM, ...message });
+
+    if (MAIL_TRANSPORT === "file") {
+        await fs.mkdir(MAIL_OUTPUT_DIR, { recursive: true });
+        const file = path.join(
+            MAIL_OUTPUT_DIR,
+            `${Date.now()}-${info.messageId.replace(/[<>@]/g, "")}.eml`
+        );
+        await fs.writeFile(file, info.message as Buffer);
+        logger.debug(`Mail to ${message.to} written to ${file}`);
+    } else if (MAIL_TRANSPORT === "json") {
+        logger.debug(`Mail to ${message.to}: ${info.message}`);
+    }
+
+    return info;
+}
@@ -0,0 +1,9 @@
+/** How often stock is scanned for low-stock and expiring-batch notifications */
+export const NOTIFICATION_SCAN_INTERVAL_MINUTES = Number(
+    process.env.NOTIFICATION_SCAN_INTERVAL_MINUTES ?? 60
+);
+
+/** Batches expiring within this many days are notified */
+export const BATCH_EXPIRY_NOTICE_DAYS = Number(
+    process.env.BATCH_EXPIRY_NOTICE_DAYS ?? 30
+);
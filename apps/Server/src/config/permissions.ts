@@ -0,0 +1,46 @@
+/**
+ * Catalog of permission keys checked by `requirePermission`. Keys follow the
+ * `resource:action` convention and are synced to the `Permission` table by the seed.
+ */
+export const PERMISSIONS = {
+    PRODUCT_MANAGE: "product:manage",
+    PURCHASE_ORDER_CREATE: "purchaseOrder:create",
+    PURCHASE_ORDER_APPROVE: "purchaseOrder:approve",
+    PURCHASE_ORDER_RECEIVE: "purchaseOrder:receive",
+    SALES_ORDER_CREATE: "salesOrder:create",
+    SALES_ORDER_FULFILL: "salesOrder:fulfill",
+    STOCK_ADJUST: "stock:adjust",
+    STOCK_TRANSFER: "stock:transfer",
+    RETURN_MANAGE: "return:manage",
+    CYCLE_COUNT_MANAGE: "cycleCount:manage",
+    CYCLE_COUNT_APPROVE: "cycleCount:approve",
+    REPLENISHMENT_MANAGE: "replenishment:manage",
+    REPORT_VIEW: "report:view",
+    TASK_MANAGE: "task:manage",
+    AUDIT_VIEW: "audit:view",
+    WAREHOUSE_MANAGE: "warehouse:manage",
+    ROLE_MANAGE: "role:manage",
+} as const;
+
+export type PermissionKey = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const PERMISSION_DESCRIPTIONS: Record<PermissionKey, string> = {
+    "product:manage": "Create, edit and delete products and categories",
+    "purchaseOrder:create": "Create and edit purchase orders",
+    "purchaseOrder:approve": "Approve purchase orders for ordering",
+    "purchaseOrder:receive": "Receive goods against purchase orders",
+    "salesOrder:create": "Create and edit sales orders",
+    "salesOrder:fulfill": "Allocate, pick and ship sales orders",
+    "stock:adjust": "Post stock adjustments",
+    "stock:transfer": "Create, ship and receive stock transfers",
+    "return:manage": "Process customer and supplier returns",
+    "cycleCount:manage": "Start, review and submit cycle counts",
+    "cycleCount:approve": "Approve cycle counts above the variance threshold",
+    "replenishment:manage":
+        "Maintain reorder settings and draft replenishment purchase orders",
+    "report:view": "View financial reports such as inventory valuation",
+    "task:manage": "Create, assign and update warehouse tasks",
+    "audit:view": "View the audit trail of changes to business records",
+    "warehouse:manage": "Manage warehouses and their locations",
+    "role:manage": "Manage roles and their permissions",
+};
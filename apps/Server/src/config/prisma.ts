@@ -1,5 +1,47 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+import type { Types } from "@prisma/client/runtime/library";
+import { auditTrail, transactionScope } from "../lib/auditTrail.js";
 
-const prisma = new PrismaClient();
+const auditedPrisma = new PrismaClient().$extends(
+    auditTrail((fn): Promise<unknown> => prisma.$transaction(fn))
+);
 
-export default prisma;
\ No newline at end of file
+/** Client of an interactive transaction, as passed to `$transaction` callbacks */
+export type TransactionClient = Parameters<
+    Parameters<typeof auditedPrisma.$transaction>[0]
+>[0];
+
+type TransactionOptions = Parameters<typeof auditedPrisma.$transaction>[1];
+
+/**
+ * Interactive transactions expose their client to the audit extension, so
+ * writes made through it are logged on the same transaction.
+ */
+function $transaction<P extends Prisma.PrismaPromise<unknown>[]>(
+    queries: [...P],
+    options?: Pick<NonNullable<TransactionOptions>, "isolationLevel">
+): Promise<Types.Utils.UnwrapTuple<P>>;
+function $transaction<T>(
+    fn: (tx: TransactionClient) => Promise<T>,
+    options?: TransactionOptions
+): Promise<T>;
+function $transaction(
+    input:
+        | Prisma.PrismaPromise<unknown>[]
+        | ((tx: TransactionClient) => Promise<unknown>),
+    options?: TransactionOptions
+) {
+    return typeof input === "function"
+        ? auditedPrisma.$transaction(
+              (tx) => transactionScope.run(tx, () => input(tx)),
+              options
+          )
+        : auditedPrisma.$transaction(input, options);
+}
+
+// Typed as the audited client, so it can stand in for a transaction client
+const prisma: typeof auditedPrisma = auditedPrisma.$extends({
+    client: { $transaction },
+});
+
+export default prisma;
@@ -0,0 +1,25 @@
+import type { $Enums, Prisma } from "@prisma/client";
+import type * as shared from "shared";
+
+/*
+ * `shared` mirrors the Prisma enums by hand so the client doesn't depend on
+ * @prisma/client. These types fail to compile when an enum in `schema.prisma`
+ * changes without its copy in `packages/shared/src/enums.ts`.
+ */
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Assert<T extends true> = T;
+
+type PrismaEnums = typeof $Enums;
+
+export type SharedEnumsMatchSchema = Assert<
+    {
+        [K in keyof PrismaEnums]: K extends keyof typeof shared
+            ? Same<PrismaEnums[K], (typeof shared)[K]>
+            : false;
+    }[keyof PrismaEnums]
+>;
+
+export type SharedModelNamesMatchSchema = Assert<
+    Same<Prisma.ModelName, shared.ModelName>
+>;
@@ -0,0 +1,18 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as auditService from "../services/audit.service.js";
+import { listAuditLogsQuerySchema } from "../schemas/audit.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listAuditLogs = catchAsync(async (req: Request, res: Response) => {
+    const { auditLogs, ...meta } = await auditService.listAuditLogs(
+        validated(req.query, listAuditLogsQuerySchema)
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: auditLogs,
+        meta,
+    });
+});
@@ -0,0 +1,85 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    loginSchema,
+    passwordResetConfirmSchema,
+    passwordResetRequestSchema,
+    refreshTokenSchema,
+    verifyEmailSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as authService from "../services/auth.service.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const login = catchAsync(async (req: Request, res: Response) => {
+    const { email, password } = validated(req.body, loginSchema);
+    const { user, tokens } = await authService.login(email, password);
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: { user, ...tokens },
+    });
+});
+
+export const refresh = catchAsync(async (req: Request, res: Response) => {
+    const { refreshToken } = validated(req.body, refreshTokenSchema);
+    const tokens = await authService.refresh(refreshToken);
+
+    res.status(StatusCodes.OK).json({ status: "success", data: tokens });
+});
+
+export const logout = catchAsync(async (req: Request, res: Response) => {
+    const { refreshToken } = validated(req.body, refreshTokenSchema);
+    await authService.logout(refreshToken);
+
+    res.status(StatusCodes.NO_CONTENT).send();
+});
+
+export const requestPasswordReset = catchAsync(
+    async (req: Request, res: Response) => {
+        const { email } = validated(req.body, passwordResetRequestSchema);
+        await authService.requestPasswordReset(email);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            message:
+                "If an account exists for that email, a reset link has been sent",
+        });
+    }
+);
+
+export const confirmPasswordReset = catchAsync(
+    async (req: Request, res: Response) => {
+        const { token, password } = validated(
+            req.body,
+            passwordResetConfirmSchema
+        );
+        await authService.confirmPasswordReset(token, password);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            message: "Password has been reset",
+        });
+    }
+);
+
+export const sendEmailVerification = catchAsync(
+    async (req: Request, res: Response) => {
+        await authService.sendEmailVerification(req.user!.id);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            message: "Verification email sent",
+        });
+    }
+);
+
+export const verifyEmail = catchAsync(async (req: Request, res: Response) => {
+    const { token } = validated(req.body, verifyEmailSchema);
+    await authService.verifyEmail(token);
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        message: "Email address verified",
+    });
+});
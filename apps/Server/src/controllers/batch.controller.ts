@@ -0,0 +1,33 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { expiringBatchesQuerySchema, writeOffExpiredSchema } from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as batchService from "../services/batch.service.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const getExpiringBatches = catchAsync(
+    async (req: Request, res: Response) => {
+        const batches = await batchService.getExpiringBatches(
+            validated(req.query, expiringBatchesQuerySchema)
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: batches,
+        });
+    }
+);
+
+export const writeOffExpiredStock = catchAsync(
+    async (req: Request, res: Response) => {
+        const adjustments = await batchService.writeOffExpiredStock(
+            validated(req.body, writeOffExpiredSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: adjustments,
+        });
+    }
+);
@@ -0,0 +1,59 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createCategorySchema,
+    idParamSchema,
+    updateCategorySchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as categoryService from "../services/category.service.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listCategories = catchAsync(
+    async (_req: Request, res: Response) => {
+        const categories = await categoryService.listCategories();
+
+        res.status(StatusCodes.OK).json({ status: "success", data: categories });
+    }
+);
+
+export const getCategory = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const category = await categoryService.getCategory(id);
+
+    res.status(StatusCodes.OK).json({ status: "success", data: category });
+});
+
+export const createCategory = catchAsync(
+    async (req: Request, res: Response) => {
+        const category = await categoryService.createCategory(
+            validated(req.body, createCategorySchema)
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: category,
+        });
+    }
+);
+
+export const updateCategory = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const category = await categoryService.updateCategory(
+            id,
+            validated(req.body, updateCategorySchema)
+        );
+
+        res.status(StatusCodes.OK).json({ status: "success", data: category });
+    }
+);
+
+export const deleteCategory = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        await categoryService.deleteCategory(id);
+
+        res.status(StatusCodes.NO_CONTENT).send();
+    }
+);
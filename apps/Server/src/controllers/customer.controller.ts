@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as customerService from "../services/customer.service.js";
+
+export const listCustomers = catchAsync(
+    async (_req: Request, res: Response) => {
+        const customers = await customerService.listCustomers();
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: customers,
+        });
+    }
+);
@@ -0,0 +1,115 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    completeCustomerReturnSchema,
+    createCustomerReturnSchema,
+    idParamSchema,
+    inspectCustomerReturnSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as customerReturnService from "../services/customerReturn.service.js";
+import { listCustomerReturnsQuerySchema } from "../schemas/customerReturn.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listCustomerReturns = catchAsync(
+    async (req: Request, res: Response) => {
+        const { customerReturns, ...meta } =
+            await customerReturnService.listCustomerReturns(
+                validated(req.query, listCustomerReturnsQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: customerReturns,
+            meta,
+        });
+    }
+);
+
+export const getCustomerReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const customerReturn = await customerReturnService.getCustomerReturn(
+            id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: customerReturn,
+        });
+    }
+);
+
+export const createCustomerReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const customerReturn = await customerReturnService.createCustomerReturn(
+            validated(req.body, createCustomerReturnSchema)
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: customerReturn,
+        });
+    }
+);
+
+export const receiveCustomerReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const customerReturn =
+            await customerReturnService.receiveCustomerReturn(id);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: customerReturn,
+        });
+    }
+);
+
+export const inspectCustomerReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const customerReturn =
+            await customerReturnService.inspectCustomerReturn(
+                id,
+                validated(req.body, inspectCustomerReturnSchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: customerReturn,
+        });
+    }
+);
+
+export const completeCustomerReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const customerReturn =
+            await customerReturnService.completeCustomerReturn(
+                id,
+                validated(req.body, completeCustomerReturnSchema),
+                req.user!.id
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: customerReturn,
+        });
+    }
+);
+
+export const cancelCustomerReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const customerReturn = await customerReturnService.cancelCustomerReturn(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: customerReturn,
+        });
+    }
+);
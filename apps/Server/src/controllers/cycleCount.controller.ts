@@ -0,0 +1,128 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createCycleCountSchema,
+    idParamSchema,
+    recordCountsSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as cycleCountService from "../services/cycleCount.service.js";
+import { listCycleCountsQuerySchema } from "../schemas/cycleCount.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listCycleCounts = catchAsync(
+    async (req: Request, res: Response) => {
+        const { cycleCounts, ...meta } =
+            await cycleCountService.listCycleCounts(
+                validated(req.query, listCycleCountsQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: cycleCounts,
+            meta,
+        });
+    }
+);
+
+export const getCycleCount = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const cycleCount = await cycleCountService.getCycleCount(id);
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: cycleCount,
+    });
+});
+
+export const getCountSheet = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const sheet = await cycleCountService.getCountSheet(id, req.user!.id);
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: sheet,
+    });
+});
+
+export const createCycleCount = catchAsync(
+    async (req: Request, res: Response) => {
+        const cycleCount = await cycleCountService.createCycleCount(
+            validated(req.body, createCycleCountSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: cycleCount,
+        });
+    }
+);
+
+export const recordCounts = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const sheet = await cycleCountService.recordCounts(
+        id,
+        validated(req.body, recordCountsSchema),
+        req.user!.id
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: sheet,
+    });
+});
+
+export const submitCycleCount = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const cycleCount = await cycleCountService.submitCycleCount(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: cycleCount,
+        });
+    }
+);
+
+export const approveCycleCount = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const cycleCount = await cycleCountService.approveCycleCount(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: cycleCount,
+        });
+    }
+);
+
+export const rejectCycleCount = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const cycleCount = await cycleCountService.rejectCycleCount(id);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: cycleCount,
+        });
+    }
+);
+
+export const cancelCycleCount = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const cycleCount = await cycleCountService.cancelCycleCount(id);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: cycleCount,
+        });
+    }
+);
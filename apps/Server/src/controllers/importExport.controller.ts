@@ -0,0 +1,41 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as importExportService from "../services/importExport.service.js";
+import {
+    dataEntityParamSchema,
+    importQuerySchema,
+} from "../schemas/importExport.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const importCsv = catchAsync(async (req: Request, res: Response) => {
+    const { entity } = validated(req.params, dataEntityParamSchema);
+    const result = await importExportService.importCsv(
+        entity,
+        typeof req.body === "string" ? req.body : "",
+        validated(req.query, importQuerySchema),
+        req.user!.id
+    );
+
+    // A dry run reports row errors as its result; a real import fails on them
+    const rejected = !result.dryRun && !result.committed;
+    res.status(
+        rejected ? StatusCodes.UNPROCESSABLE_ENTITY : StatusCodes.OK
+    ).json({
+        status: rejected ? "error" : "success",
+        ...(rejected && {
+            message: `${result.errors.length} error(s) found; nothing was imported`,
+        }),
+        data: result,
+    });
+});
+
+export const exportCsv = catchAsync(async (req: Request, res: Response) => {
+    const { entity } = validated(req.params, dataEntityParamSchema);
+    const csv = await importExportService.exportCsv(entity);
+
+    res.status(StatusCodes.OK)
+        .attachment(`${entity}-${new Date().toISOString().slice(0, 10)}.csv`)
+        .type("text/csv")
+        .send(csv);
+});
@@ -0,0 +1,21 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as inventoryTransactionService from "../services/inventoryTransaction.service.js";
+import { listInventoryTransactionsQuerySchema } from "../schemas/inventoryTransaction.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listInventoryTransactions = catchAsync(
+    async (req: Request, res: Response) => {
+        const { inventoryTransactions, ...meta } =
+            await inventoryTransactionService.listInventoryTransactions(
+                validated(req.query, listInventoryTransactionsQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: inventoryTransactions,
+            meta,
+        });
+    }
+);
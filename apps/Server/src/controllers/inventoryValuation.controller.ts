@@ -0,0 +1,36 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { inventoryValuationQuerySchema } from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as inventoryValuationService from "../services/inventoryValuation.service.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const getInventoryValuation = catchAsync(
+    async (req: Request, res: Response) => {
+        const { format, ...query } = validated(
+            req.query,
+            inventoryValuationQuerySchema
+        );
+        const valuation = await inventoryValuationService.getInventoryValuation(
+            query
+        );
+
+        if (format === "csv") {
+            const date = valuation.asOf.toISOString().slice(0, 10);
+            res.status(StatusCodes.OK)
+                .attachment(
+                    `inventory-valuation-${valuation.method.toLowerCase()}-${date}.csv`
+                )
+                .type("text/csv")
+                .send(
+                    inventoryValuationService.toInventoryValuationCsv(valuation)
+                );
+            return;
+        }
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: valuation,
+        });
+    }
+);
@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { idParamSchema } from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as notificationService from "../services/notification.service.js";
+import { listNotificationsQuerySchema } from "../schemas/notification.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listNotifications = catchAsync(
+    async (req: Request, res: Response) => {
+        const { notifications, ...meta } =
+            await notificationService.listNotifications(
+                req.user!.id,
+                validated(req.query, listNotificationsQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: notifications,
+            meta,
+        });
+    }
+);
+
+export const markNotificationRead = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const notification = await notificationService.markNotificationRead(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: notification,
+        });
+    }
+);
+
+export const markAllNotificationsRead = catchAsync(
+    async (req: Request, res: Response) => {
+        const result = await notificationService.markAllNotificationsRead(
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: result,
+        });
+    }
+);
+
+/**
+ * Server-Sent Events stream of the user's new notifications (`notification`
+ * events) and read state changes from other sessions (`read` events)
+ */
+export const streamNotifications = (req: Request, res: Response) => {
+    res.status(StatusCodes.OK).set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        // Stop nginx from buffering the stream
+        "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = notificationService.subscribe(req.user!.id, res);
+    req.on("close", unsubscribe);
+};
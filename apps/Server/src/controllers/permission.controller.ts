@@ -0,0 +1,21 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { catchAsync } from "../utils/catchAsync.js";
+import { loadPermissions } from "../lib/requirePermission.js";
+import * as permissionService from "../services/permission.service.js";
+
+export const getMyPermissions = catchAsync(
+    async (req: Request, res: Response) => {
+        const permissions = await loadPermissions(req);
+
+        res.status(StatusCodes.OK).json({ status: "success", data: permissions });
+    }
+);
+
+export const listPermissions = catchAsync(
+    async (_req: Request, res: Response) => {
+        const permissions = await permissionService.listPermissions();
+
+        res.status(StatusCodes.OK).json({ status: "success", data: permissions });
+    }
+);
@@ -0,0 +1,64 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createProductSchema,
+    idParamSchema,
+    updateProductSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as productService from "../services/product.service.js";
+import { listProductsQuerySchema } from "../schemas/product.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listProducts = catchAsync(async (req: Request, res: Response) => {
+    const { products, ...meta } = await productService.listProducts(
+        validated(req.query, listProductsQuerySchema)
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: products,
+        meta,
+    });
+});
+
+export const getProduct = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const product = await productService.getProduct(id);
+
+    res.status(StatusCodes.OK).json({ status: "success", data: product });
+});
+
+export const getProductStock = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const stock = await productService.getProductStock(id);
+
+        res.status(StatusCodes.OK).json({ status: "success", data: stock });
+    }
+);
+
+export const createProduct = catchAsync(async (req: Request, res: Response) => {
+    const product = await productService.createProduct(
+        validated(req.body, createProductSchema)
+    );
+
+    res.status(StatusCodes.CREATED).json({ status: "success", data: product });
+});
+
+export const updateProduct = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const product = await productService.updateProduct(
+        id,
+        validated(req.body, updateProductSchema)
+    );
+
+    res.status(StatusCodes.OK).json({ status: "success", data: product });
+});
+
+export const deleteProduct = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    await productService.deleteProduct(id);
+
+    res.status(StatusCodes.NO_CONTENT).send();
+});
@@ -0,0 +1,115 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createPurchaseOrderSchema,
+    idParamSchema,
+    receivePurchaseOrderSchema,
+    updatePurchaseOrderSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as purchaseOrderService from "../services/purchaseOrder.service.js";
+import { listPurchaseOrdersQuerySchema } from "../schemas/purchaseOrder.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listPurchaseOrders = catchAsync(
+    async (req: Request, res: Response) => {
+        const { purchaseOrders, ...meta } =
+            await purchaseOrderService.listPurchaseOrders(
+                validated(req.query, listPurchaseOrdersQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: purchaseOrders,
+            meta,
+        });
+    }
+);
+
+export const getPurchaseOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const purchaseOrder = await purchaseOrderService.getPurchaseOrder(id);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: purchaseOrder,
+        });
+    }
+);
+
+export const createPurchaseOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const purchaseOrder = await purchaseOrderService.createPurchaseOrder(
+            validated(req.body, createPurchaseOrderSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: purchaseOrder,
+        });
+    }
+);
+
+export const updatePurchaseOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const purchaseOrder = await purchaseOrderService.updatePurchaseOrder(
+            id,
+            validated(req.body, updatePurchaseOrderSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: purchaseOrder,
+        });
+    }
+);
+
+export const confirmPurchaseOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const purchaseOrder = await purchaseOrderService.confirmPurchaseOrder(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: purchaseOrder,
+        });
+    }
+);
+
+export const cancelPurchaseOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const purchaseOrder = await purchaseOrderService.cancelPurchaseOrder(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: purchaseOrder,
+        });
+    }
+);
+
+export const receivePurchaseOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const purchaseOrder = await purchaseOrderService.receivePurchaseOrder(
+            id,
+            validated(req.body, receivePurchaseOrderSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: purchaseOrder,
+        });
+    }
+);
@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createReplenishmentDraftsSchema,
+    idParamSchema,
+    lowStockQuerySchema,
+    upsertReorderSettingSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as replenishmentService from "../services/replenishment.service.js";
+import { listReorderSettingsQuerySchema } from "../schemas/replenishment.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listReorderSettings = catchAsync(
+    async (req: Request, res: Response) => {
+        const { settings, ...meta } =
+            await replenishmentService.listReorderSettings(
+                validated(req.query, listReorderSettingsQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: settings,
+            meta,
+        });
+    }
+);
+
+export const upsertReorderSetting = catchAsync(
+    async (req: Request, res: Response) => {
+        const setting = await replenishmentService.upsertReorderSetting(
+            validated(req.body, upsertReorderSettingSchema)
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: setting,
+        });
+    }
+);
+
+export const deleteReorderSetting = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        await replenishmentService.deleteReorderSetting(id);
+
+        res.status(StatusCodes.NO_CONTENT).send();
+    }
+);
+
+export const getLowStock = catchAsync(async (req: Request, res: Response) => {
+    const positions = await replenishmentService.getLowStock(
+        validated(req.query, lowStockQuerySchema)
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: positions,
+    });
+});
+
+export const createReplenishmentDrafts = catchAsync(
+    async (req: Request, res: Response) => {
+        const result = await replenishmentService.createReplenishmentDrafts(
+            validated(req.body, createReplenishmentDraftsSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: result,
+        });
+    }
+);
@@ -0,0 +1,120 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    allocateSalesOrderSchema,
+    createSalesOrderSchema,
+    idParamSchema,
+    shipSalesOrderSchema,
+    updateSalesOrderSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as salesOrderService from "../services/salesOrder.service.js";
+import * as fulfillmentService from "../services/fulfillment.service.js";
+import { listSalesOrdersQuerySchema } from "../schemas/salesOrder.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listSalesOrders = catchAsync(
+    async (req: Request, res: Response) => {
+        const { salesOrders, ...meta } =
+            await salesOrderService.listSalesOrders(
+                validated(req.query, listSalesOrdersQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: salesOrders,
+            meta,
+        });
+    }
+);
+
+export const getSalesOrder = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const salesOrder = await salesOrderService.getSalesOrder(id);
+
+    res.status(StatusCodes.OK).json({ status: "success", data: salesOrder });
+});
+
+export const createSalesOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const salesOrder = await salesOrderService.createSalesOrder(
+            validated(req.body, createSalesOrderSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: salesOrder,
+        });
+    }
+);
+
+export const updateSalesOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const salesOrder = await salesOrderService.updateSalesOrder(
+            id,
+            validated(req.body, updateSalesOrderSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: salesOrder,
+        });
+    }
+);
+
+export const allocateSalesOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const salesOrder = await fulfillmentService.allocateSalesOrder(
+            id,
+            validated(req.body, allocateSalesOrderSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: salesOrder,
+        });
+    }
+);
+
+export const getPickList = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const pickList = await fulfillmentService.getPickList(id);
+
+    res.status(StatusCodes.OK).json({ status: "success", data: pickList });
+});
+
+export const shipSalesOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const salesOrder = await fulfillmentService.shipSalesOrder(
+            id,
+            validated(req.body, shipSalesOrderSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: salesOrder,
+        });
+    }
+);
+
+export const cancelSalesOrder = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const salesOrder = await fulfillmentService.cancelSalesOrder(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: salesOrder,
+        });
+    }
+);
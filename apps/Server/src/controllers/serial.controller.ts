@@ -0,0 +1,21 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { serialHistoryQuerySchema, serialParamSchema } from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as serialService from "../services/serial.service.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const getSerialHistory = catchAsync(
+    async (req: Request, res: Response) => {
+        const { serial } = validated(req.params, serialParamSchema);
+        const units = await serialService.getSerialHistory(
+            serial,
+            validated(req.query, serialHistoryQuerySchema)
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: units,
+        });
+    }
+);
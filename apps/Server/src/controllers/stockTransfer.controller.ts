@@ -0,0 +1,100 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createStockTransferSchema,
+    idParamSchema,
+    receiveStockTransferSchema,
+    shipStockTransferSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as stockTransferService from "../services/stockTransfer.service.js";
+import { listStockTransfersQuerySchema } from "../schemas/stockTransfer.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listStockTransfers = catchAsync(
+    async (req: Request, res: Response) => {
+        const { stockTransfers, ...meta } =
+            await stockTransferService.listStockTransfers(
+                validated(req.query, listStockTransfersQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: stockTransfers,
+            meta,
+        });
+    }
+);
+
+export const getStockTransfer = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const stockTransfer = await stockTransferService.getStockTransfer(id);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: stockTransfer,
+        });
+    }
+);
+
+export const createStockTransfer = catchAsync(
+    async (req: Request, res: Response) => {
+        const stockTransfer = await stockTransferService.createStockTransfer(
+            validated(req.body, createStockTransferSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: stockTransfer,
+        });
+    }
+);
+
+export const shipStockTransfer = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const stockTransfer = await stockTransferService.shipStockTransfer(
+            id,
+            validated(req.body, shipStockTransferSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: stockTransfer,
+        });
+    }
+);
+
+export const receiveStockTransfer = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const stockTransfer = await stockTransferService.receiveStockTransfer(
+            id,
+            validated(req.body, receiveStockTransferSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: stockTransfer,
+        });
+    }
+);
+
+export const cancelStockTransfer = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const stockTransfer = await stockTransferService.cancelStockTransfer(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: stockTransfer,
+        });
+    }
+);
@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as supplierService from "../services/supplier.service.js";
+
+export const listSuppliers = catchAsync(
+    async (_req: Request, res: Response) => {
+        const suppliers = await supplierService.listSuppliers();
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: suppliers,
+        });
+    }
+);
@@ -0,0 +1,114 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createSupplierReturnSchema,
+    idParamSchema,
+    returnRateReportQuerySchema,
+    shipSupplierReturnSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as supplierReturnService from "../services/supplierReturn.service.js";
+import { listSupplierReturnsQuerySchema } from "../schemas/supplierReturn.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listSupplierReturns = catchAsync(
+    async (req: Request, res: Response) => {
+        const { supplierReturns, ...meta } =
+            await supplierReturnService.listSupplierReturns(
+                validated(req.query, listSupplierReturnsQuerySchema)
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: supplierReturns,
+            meta,
+        });
+    }
+);
+
+export const getReturnRateReport = catchAsync(
+    async (req: Request, res: Response) => {
+        const report = await supplierReturnService.getReturnRateReport(
+            validated(req.query, returnRateReportQuerySchema)
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: report,
+        });
+    }
+);
+
+export const getSupplierReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const supplierReturn = await supplierReturnService.getSupplierReturn(
+            id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: supplierReturn,
+        });
+    }
+);
+
+export const createSupplierReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const supplierReturn = await supplierReturnService.createSupplierReturn(
+            validated(req.body, createSupplierReturnSchema)
+        );
+
+        res.status(StatusCodes.CREATED).json({
+            status: "success",
+            data: supplierReturn,
+        });
+    }
+);
+
+export const shipSupplierReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const supplierReturn = await supplierReturnService.shipSupplierReturn(
+            id,
+            validated(req.body, shipSupplierReturnSchema),
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: supplierReturn,
+        });
+    }
+);
+
+export const completeSupplierReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const supplierReturn =
+            await supplierReturnService.completeSupplierReturn(
+                id,
+                req.user!.id
+            );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: supplierReturn,
+        });
+    }
+);
+
+export const cancelSupplierReturn = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const supplierReturn = await supplierReturnService.cancelSupplierReturn(
+            id,
+            req.user!.id
+        );
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: supplierReturn,
+        });
+    }
+);
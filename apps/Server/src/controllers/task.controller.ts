@@ -0,0 +1,107 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import {
+    createTaskSchema,
+    idParamSchema,
+    taskBoardQuerySchema,
+    updateTaskSchema,
+    updateTaskStatusSchema,
+} from "shared";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as taskService from "../services/task.service.js";
+import {
+    listTasksQuerySchema,
+    myTasksQuerySchema,
+} from "../schemas/task.schema.js";
+import { validated } from "../lib/validateRequest.js";
+
+export const listTasks = catchAsync(async (req: Request, res: Response) => {
+    const { tasks, ...meta } = await taskService.listTasks(
+        validated(req.query, listTasksQuerySchema)
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: tasks,
+        meta,
+    });
+});
+
+export const listMyTasks = catchAsync(async (req: Request, res: Response) => {
+    const { tasks, ...meta } = await taskService.listTasks(
+        validated(req.query, myTasksQuerySchema),
+        req.user!.id
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: tasks,
+        meta,
+    });
+});
+
+export const getTaskBoard = catchAsync(async (req: Request, res: Response) => {
+    const board = await taskService.getTaskBoard(
+        validated(req.query, taskBoardQuerySchema)
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: board,
+    });
+});
+
+export const getTask = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const task = await taskService.getTask(id);
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: task,
+    });
+});
+
+export const createTask = catchAsync(async (req: Request, res: Response) => {
+    const task = await taskService.createTask(
+        validated(req.body, createTaskSchema),
+        req.user!.id
+    );
+
+    res.status(StatusCodes.CREATED).json({
+        status: "success",
+        data: task,
+    });
+});
+
+export const updateTask = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    const task = await taskService.updateTask(
+        id,
+        validated(req.body, updateTaskSchema)
+    );
+
+    res.status(StatusCodes.OK).json({
+        status: "success",
+        data: task,
+    });
+});
+
+export const updateTaskStatus = catchAsync(
+    async (req: Request, res: Response) => {
+        const { id } = validated(req.params, idParamSchema);
+        const { status } = validated(req.body, updateTaskStatusSchema);
+        const task = await taskService.updateTaskStatus(id, status);
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: task,
+        });
+    }
+);
+
+export const deleteTask = catchAsync(async (req: Request, res: Response) => {
+    const { id } = validated(req.params, idParamSchema);
+    await taskService.deleteTask(id);
+
+    res.status(StatusCodes.NO_CONTENT).send();
+});
@@ -0,0 +1,15 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { catchAsync } from "../utils/catchAsync.js";
+import * as warehouseService from "../services/warehouse.service.js";
+
+export const listWarehouses = catchAsync(
+    async (_req: Request, res: Response) => {
+        const warehouses = await warehouseService.listWarehouses();
+
+        res.status(StatusCodes.OK).json({
+            status: "success",
+            data: warehouses,
+        });
+    }
+);
@@ -4,6 +4,29 @@ import logger from "./config/logger.js";
 import morganMiddleware from "./lib/morganMiddleware.js";
 import AppError from "./utils/AppError.js";
 import { globalErrorHandler } from "./lib/globalErrorHandler.js";
+import authRoutes from "./routes/auth.routes.js";
+import permissionRoutes from "./routes/permission.routes.js";
+import categoryRoutes from "./routes/category.routes.js";
+import productRoutes from "./routes/product.routes.js";
+import purchaseOrderRoutes from "./routes/purchaseOrder.routes.js";
+import salesOrderRoutes from "./routes/salesOrder.routes.js";
+import stockTransferRoutes from "./routes/stockTransfer.routes.js";
+import customerReturnRoutes from "./routes/customerReturn.routes.js";
+import supplierReturnRoutes from "./routes/supplierReturn.routes.js";
+import batchRoutes from "./routes/batch.routes.js";
+import serialRoutes from "./routes/serial.routes.js";
+import cycleCountRoutes from "./routes/cycleCount.routes.js";
+import replenishmentRoutes from "./routes/replenishment.routes.js";
+import inventoryValuationRoutes from "./routes/inventoryValuation.routes.js";
+import importExportRoutes from "./routes/importExport.routes.js";
+import notificationRoutes from "./routes/notification.routes.js";
+import taskRoutes from "./routes/task.routes.js";
+import warehouseRoutes from "./routes/warehouse.routes.js";
+import supplierRoutes from "./routes/supplier.routes.js";
+import customerRoutes from "./routes/customer.routes.js";
+import auditRoutes from "./routes/audit.routes.js";
+import inventoryTransactionRoutes from "./routes/inventoryTransaction.routes.js";
+import { startNotificationScans } from "./jobs/notificationScans.js";
 
 const app = express();
 
@@ -14,10 +37,34 @@ app.get("/api/v1/health", (_req: Request, res: Response) => {
     res.status(StatusCodes.OK).send("Backend is working");
 });
 
+app.use("/api/v1/auth", authRoutes);
+app.use("/api/v1/permissions", permissionRoutes);
+app.use("/api/v1/categories", categoryRoutes);
+app.use("/api/v1/products", productRoutes);
+app.use("/api/v1/purchase-orders", purchaseOrderRoutes);
+app.use("/api/v1/sales-orders", salesOrderRoutes);
+app.use("/api/v1/stock-transfers", stockTransferRoutes);
+app.use("/api/v1/customer-returns", customerReturnRoutes);
+app.use("/api/v1/supplier-returns", supplierReturnRoutes);
+app.use("/api/v1/batches", batchRoutes);
+app.use("/api/v1/serials", serialRoutes);
+app.use("/api/v1/cycle-counts", cycleCountRoutes);
+app.use("/api/v1/replenishment", replenishmentRoutes);
+app.use("/api/v1/inventory-valuation", inventoryValuationRoutes);
+app.use("/api/v1/data", importExportRoutes);
+app.use("/api/v1/notifications", notificationRoutes);
+app.use("/api/v1/tasks", taskRoutes);
+app.use("/api/v1/warehouses", warehouseRoutes);
+app.use("/api/v1/suppliers", supplierRoutes);
+app.use("/api/v1/customers", customerRoutes);
+app.use("/api/v1/audit", auditRoutes);
+app.use("/api/v1/inventory-transactions", inventoryTransactionRoutes);
+
 // Global Error handler
 app.use(globalErrorHandler);
 
 const PORT = process.env.PORT ?? 3001;
 app.listen(PORT, () => {
     logger.info(`Server is running on http://localhost:${PORT}`);
+    startNotificationScans();
 });
@@ -0,0 +1,78 @@
+import logger from "../config/logger.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import {
+    BATCH_EXPIRY_NOTICE_DAYS,
+    NOTIFICATION_SCAN_INTERVAL_MINUTES,
+} from "../config/notifications.js";
+import { getExpiringBatches } from "../services/batch.service.js";
+import { getLowStock } from "../services/replenishment.service.js";
+import { getUsersWithPermission } from "../services/permission.service.js";
+import {
+    filterUnnotified,
+    notifyUsers,
+} from "../services/notification.service.js";
+
+/** Tells replenishment managers about stock at or below its reorder point */
+export const scanLowStock = async () => {
+    for (const position of await getLowStock({})) {
+        const related = {
+            type: "LOW_STOCK" as const,
+            relatedEntityType: "Product",
+            relatedEntityId: position.productId,
+        };
+        const recipients = await filterUnnotified(
+            await getUsersWithPermission(
+                PERMISSIONS.REPLENISHMENT_MANAGE,
+                position.warehouseId
+            ),
+            related
+        );
+        await notifyUsers(recipients, {
+            ...related,
+            message:
+                `${position.product.name} (${position.product.sku}) is low in ${position.warehouse.name}: ` +
+                `${position.position} against a reorder point of ${position.reorderPoint}`,
+        });
+    }
+};
+
+/** Tells users who can write stock off about batches that are expiring */
+export const scanExpiringBatches = async () => {
+    const batches = await getExpiringBatches({
+        days: BATCH_EXPIRY_NOTICE_DAYS,
+    });
+    for (const entry of batches) {
+        const related = {
+            type: "BATCH_EXPIRING" as const,
+            relatedEntityType: "Batch",
+            relatedEntityId: entry.batch.id,
+        };
+        const recipients = await filterUnnotified(
+            await getUsersWithPermission(
+                PERMISSIONS.STOCK_ADJUST,
+                entry.warehouse.id
+            ),
+            related
+        );
+        const when = entry.isExpired
+            ? "has expired"
+            : `expires in ${entry.daysUntilExpiry} day(s)`;
+        await notifyUsers(recipients, {
+            ...related,
+            message:
+                `Batch ${entry.batch.batchNumber} of ${entry.product.name} ${when}; ` +
+                `${entry.quantity} unit(s) in ${entry.warehouse.name}`,
+        });
+    }
+};
+
+/** Runs the scans now and then on an interval for the life of the process */
+export const startNotificationScans = () => {
+    const run = () =>
+        Promise.all([scanLowStock(), scanExpiringBatches()]).catch((error) =>
+            logger.error("Notification scan failed: ", error)
+        );
+
+    void run();
+    setInterval(run, NOTIFICATION_SCAN_INTERVAL_MINUTES * 60 * 1000).unref();
+};
@@ -0,0 +1,363 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { AuditAction, Prisma } from "@prisma/client";
+import { getRequestContext } from "./requestContext.js";
+
+type AuditedOperation = (typeof AUDITED_OPERATIONS)[number];
+type Row = Record<string, unknown>;
+type JsonRow = Record<string, Prisma.JsonValue>;
+type Data = Record<string, unknown>;
+
+/** The parts of a model query's arguments the audit trail reads */
+interface QueryArgs {
+    where?: Row;
+    data?: unknown;
+    create?: Data;
+    update?: Data;
+    select?: Record<string, unknown>;
+    skipDuplicates?: boolean;
+}
+
+type Delegate = Record<string, (args?: QueryArgs) => Promise<unknown>>;
+
+const AUDITED_OPERATIONS = [
+    "create",
+    "createMany",
+    "createManyAndReturn",
+    "update",
+    "updateMany",
+    "upsert",
+    "delete",
+    "deleteMany",
+] as const;
+
+/** Operational records that aren't business history */
+const UNAUDITED_MODELS = new Set<string>([
+    "AuditLog",
+    "RefreshToken",
+    "Notification",
+]);
+
+/** Bookkeeping fields left out of diffs */
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+/** Secrets whose changes are logged without their values */
+const REDACTED_FIELDS = new Set([
+    "password",
+    "passwordResetToken",
+    "emailVerificationToken",
+    "tokenHash",
+]);
+const REDACTED = "[REDACTED]";
+
+/** Primary keys of models not keyed by `id` */
+const COMPOSITE_KEYS: Partial<Record<Prisma.ModelName, string[]>> = {
+    RolePermission: ["roleId", "permissionId"],
+};
+
+const primaryKeyOf = (model: string) =>
+    COMPOSITE_KEYS[model as Prisma.ModelName] ?? ["id"];
+
+/**
+ * Transaction client of the interactive transaction the current code runs
+ * in, set by the client's `$transaction` wrapper.
+ */
+export const transactionScope = new AsyncLocalStorage<unknown>();
+
+const delegateOf = (db: unknown, model: string) =>
+    (db as Record<string, Delegate>)[
+        model.charAt(0).toLowerCase() + model.slice(1)
+    ];
+
+const keyOf = (model: string, row: Row) =>
+    Object.fromEntries(primaryKeyOf(model).map((key) => [key, row[key]]));
+
+const entityIdOf = (model: string, row: Row) =>
+    primaryKeyOf(model)
+        .map((key) => String(row[key]))
+        .join(":");
+
+/** Where clause matching the given rows by primary key */
+const whereKeys = (model: string, rows: Row[]) => ({
+    OR: rows.map((row) => keyOf(model, row)),
+});
+
+/** Makes sure a `select` returns the primary key, so the row can be re-read */
+const selectingKeys = (model: string, args: QueryArgs) =>
+    args.select
+        ? {
+              ...args,
+              select: {
+                  ...args.select,
+                  ...Object.fromEntries(
+                      primaryKeyOf(model).map((key) => [key, true])
+                  ),
+              },
+          }
+        : args;
+
+/** Drops primary key fields the caller didn't select */
+const withoutAddedKeys = <T>(model: string, args: QueryArgs, result: T) => {
+    if (!args.select || !result || typeof result !== "object") return result;
+    const rows = (Array.isArray(result) ? result : [result]) as Row[];
+    for (const key of primaryKeyOf(model)) {
+        if (args.select[key]) continue;
+        for (const row of rows) delete row[key];
+    }
+    return result;
+};
+
+/** Serialises a row the way it is stored: dates as ISO strings, decimals as strings */
+const toJson = (row: Row): JsonRow => {
+    const json = JSON.parse(JSON.stringify(row)) as JsonRow;
+    for (const field of Object.keys(json)) {
+        if (REDACTED_FIELDS.has(field) && json[field] !== null) {
+            json[field] = REDACTED;
+        }
+    }
+    return json;
+};
+
+/** Changed fields of a row, before and after, or null when nothing changed */
+const diff = (before: Row, after: Row) => {
+    const from = toJson(before);
+    const to = toJson(after);
+    const changed: [JsonRow, JsonRow] = [{}, {}];
+    for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (IGNORED_FIELDS.has(field)) continue;
+        const changedValue =
+            JSON.stringify(from[field]) !== JSON.stringify(to[field]) ||
+            // Redacted values compare equal even when the secret changed
+            (REDACTED_FIELDS.has(field) && before[field] !== after[field]);
+        if (changedValue) {
+            changed[0][field] = from[field] ?? null;
+            changed[1][field] = to[field] ?? null;
+        }
+    }
+    return Object.keys(changed[0]).length ? changed : null;
+};
+
+interface AuditEntry {
+    action: AuditAction;
+    entityId: string;
+    before?: JsonRow;
+    after?: JsonRow;
+}
+
+const writeAuditEntries = async (
+    db: unknown,
+    model: string,
+    entries: AuditEntry[]
+) => {
+    if (!entries.length) return;
+    const context = getRequestContext();
+    await delegateOf(db, "AuditLog").createMany({
+        data: entries.map((entry) => ({
+            entityType: model,
+            userId: context?.userId,
+            ipAddress: context?.ipAddress,
+            ...entry,
+        })),
+    });
+};
+
+/**
+ * Runs an audited mutation inside the transaction `tx`, reading the affected
+ * rows before and after it and logging the difference in the same
+ * transaction, so an entry exists exactly when its change was committed.
+ */
+const auditMutation = async (
+    tx: unknown,
+    model: string,
+    operation: AuditedOperation,
+    args: QueryArgs,
+    query: (args: QueryArgs) => Promise<unknown>
+) => {
+    const delegate = delegateOf(tx, model);
+    const entries: AuditEntry[] = [];
+    const created = (row: Row) =>
+        entries.push({
+            action: "CREATE",
+            entityId: entityIdOf(model, row),
+            after: toJson(row),
+        });
+    const deleted = (row: Row) =>
+        entries.push({
+            action: "DELETE",
+            entityId: entityIdOf(model, row),
+            before: toJson(row),
+        });
+    const updated = (before: Row, after: Row) => {
+        const changes = diff(before, after);
+        if (changes) {
+            entries.push({
+                action: "UPDATE",
+                entityId: entityIdOf(model, after),
+                before: changes[0],
+                after: changes[1],
+            });
+        }
+    };
+
+    let result: unknown;
+    switch (operation) {
+        case "create":
+        case "update":
+        case "upsert": {
+            const before =
+                operation === "create"
+                    ? null
+                    : ((await delegate.findUnique({
+                          where: args.where,
+                      })) as Row | null);
+            const row = (await query(selectingKeys(model, args))) as Row;
+            const after = (await delegate.findFirstOrThrow({
+                where: keyOf(model, row),
+            })) as Row;
+            if (before) updated(before, after);
+            else created(after);
+            result = withoutAddedKeys(model, args, row);
+            break;
+        }
+        case "createMany": {
+            // Runs as createManyAndReturn, which is audited in turn, to learn the keys
+            const rows = (await delegate.createManyAndReturn({
+                data: args.data,
+                skipDuplicates: args.skipDuplicates,
+            })) as Row[];
+            return { count: rows.length };
+        }
+        case "createManyAndReturn": {
+            const rows = (await query(selectingKeys(model, args))) as Row[];
+            if (rows.length) {
+                const after = (await delegate.findMany({
+                    where: whereKeys(model, rows),
+                })) as Row[];
+                after.forEach(created);
+            }
+            result = withoutAddedKeys(model, args, rows);
+            break;
+        }
+        case "updateMany": {
+            const before = (await delegate.findMany({
+                where: args.where,
+            })) as Row[];
+            result = await query(args);
+            if (before.length) {
+                const after = (await delegate.findMany({
+                    where: whereKeys(model, before),
+                })) as Row[];
+                for (const row of after) {
+                    const id = entityIdOf(model, row);
+                    updated(
+                        before.find((b) => entityIdOf(model, b) === id)!,
+                        row
+                    );
+                }
+            }
+            break;
+        }
+        case "delete": {
+            const before = (await delegate.findUnique({
+                where: args.where,
+            })) as Row | null;
+            result = await query(args);
+            if (before) deleted(before);
+            break;
+        }
+        case "deleteMany": {
+            const before = (await delegate.findMany({
+                where: args.where,
+            })) as Row[];
+            result = await query(args);
+            before.forEach(deleted);
+            break;
+        }
+    }
+
+    await writeAuditEntries(tx, model, entries);
+    return result;
+};
+
+/** Relation fields of each model */
+const RELATION_FIELDS = new Map(
+    Prisma.dmmf.datamodel.models.map((model) => [
+        model.name,
+        model.fields.filter((field) => field.kind === "object"),
+    ])
+);
+
+/**
+ * Nested writes change related rows without going through their delegates,
+ * so they would be missing from the log. The only ones allowed connect or
+ * disconnect a relation whose foreign key is on the row itself, where the
+ * row's own diff shows the change.
+ */
+const assertNoNestedWrites = (model: string, args: QueryArgs) => {
+    const payloads = [args.data, args.create, args.update].filter(
+        (data): data is Data =>
+            !!data && typeof data === "object" && !Array.isArray(data)
+    );
+    for (const field of RELATION_FIELDS.get(model) ?? []) {
+        if (UNAUDITED_MODELS.has(field.type)) continue;
+        const ownsKey = !field.isList && !!field.relationFromFields?.length;
+        for (const data of payloads) {
+            const write = data[field.name] as Data | undefined;
+            if (!write) continue;
+            const linksOnly = Object.keys(write).every(
+                (op) => op === "connect" || op === "disconnect"
+            );
+            if (!ownsKey || !linksOnly) {
+                throw new Error(
+                    `Nested write to ${model}.${field.name} would bypass the audit trail; ` +
+                        `write ${field.type} rows through their own delegate`
+                );
+            }
+        }
+    }
+};
+
+/**
+ * Records every create, update and delete of a business record in
+ * `AuditLog`, attributed to the user of the current request context.
+ *
+ * Writes made inside `$transaction` are logged on that transaction; others
+ * are re-run in a transaction of their own through `transaction`, so audited
+ * writes can't be batched with `$transaction([...])`. Nested writes to
+ * related records are rejected, as they would bypass the log, and raw SQL
+ * isn't captured at all.
+ */
+export const auditTrail = (
+    transaction: (fn: (tx: unknown) => Promise<unknown>) => Promise<unknown>
+) =>
+    Prisma.defineExtension({
+        name: "auditTrail",
+        query: {
+            $allModels: {
+                $allOperations({ model, operation, args, query }) {
+                    if (
+                        UNAUDITED_MODELS.has(model) ||
+                        !(AUDITED_OPERATIONS as readonly string[]).includes(
+                            operation
+                        )
+                    ) {
+                        return query(args);
+                    }
+
+                    assertNoNestedWrites(model, args as QueryArgs);
+                    const tx = transactionScope.getStore();
+                    if (tx) {
+                        return auditMutation(
+                            tx,
+                            model,
+                            operation as AuditedOperation,
+                            args as QueryArgs,
+                            query as (args: QueryArgs) => Promise<unknown>
+                        );
+                    }
+                    return transaction((tx) =>
+                        delegateOf(tx, model)[operation](args as QueryArgs)
+                    );
+                },
+            },
+        },
+    });
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../utils/AppError.js";
+import { verifyAccessToken } from "../services/auth.service.js";
+
+/**
+ * Requires a valid `Authorization: Bearer <access token>` header and exposes the
+ * token's user as `req.user`. Failures are forwarded to the global error handler.
+ */
+export function authenticate(req: Request, _res: Response, next: NextFunction) {
+    const header = req.headers.authorization;
+    if (!header?.startsWith("Bearer ")) {
+        return next(
+            new AppError("Authentication required", StatusCodes.UNAUTHORIZED)
+        );
+    }
+
+    try {
+        req.user = verifyAccessToken(header.slice("Bearer ".length).trim());
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
@@ -0,0 +1,20 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface RequestContext {
+    /** Authenticated user the work is done for; unset for anonymous requests and jobs */
+    userId?: number;
+    ipAddress?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs `fn` with `context` available to everything it calls, including
+ * database writes, through {@link getRequestContext}.
+ */
+export const runWithRequestContext = <T>(
+    context: RequestContext,
+    fn: () => T
+) => storage.run(context, fn);
+
+export const getRequestContext = () => storage.getStore();
@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../utils/AppError.js";
+import type { PermissionKey } from "../config/permissions.js";
+import {
+    getUserPermissions,
+    hasPermission,
+} from "../services/permission.service.js";
+
+type WarehouseResolver = (
+    req: Request
+) => number | undefined | Promise<number | undefined>;
+
+/**
+ * Loads the permission set of `req.user` once per request and caches it on
+ * `req.permissions`. Must run after `authenticate`.
+ */
+export const loadPermissions = async (req: Request) => {
+    if (!req.user) {
+        throw new AppError("Authentication required", StatusCodes.UNAUTHORIZED);
+    }
+    req.permissions ??= await getUserPermissions(req.user.id, req.user.roleId);
+    return req.permissions;
+};
+
+/**
+ * Rejects the request with 403 unless the user holds `key`.
+ *
+ * Pass `warehouse` to honour warehouse-scoped grants: it resolves the warehouse
+ * the request acts on, and users with a `MANAGED_WAREHOUSES` grant are allowed
+ * only when they manage that warehouse.
+ *
+ * Pass `allow` to let a request through without the permission when it acts on
+ * something the user owns, such as a task assigned to them.
+ */
+export const requirePermission =
+    (
+        key: PermissionKey,
+        options: {
+            warehouse?: WarehouseResolver;
+            allow?: (req: Request) => boolean | Promise<boolean>;
+        } = {}
+    ) =>
+    async (req: Request, _res: Response, next: NextFunction) => {
+        try {
+            if (await options.allow?.(req)) return next();
+
+            const permissions = await loadPermissions(req);
+            const warehouseId = await options.warehouse?.(req);
+
+            if (!hasPermission(permissions, key, warehouseId)) {
+                throw new AppError(
+                    `Missing permission: ${key}`,
+                    StatusCodes.FORBIDDEN
+                );
+            }
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z, ZodError, ZodTypeAny } from "zod";
+import AppError from "../utils/AppError.js";
+
+interface RequestSchemas {
+    body?: ZodTypeAny;
+    params?: ZodTypeAny;
+    query?: ZodTypeAny;
+}
+
+/** Values parsed by `validateRequest`, with the schema that parsed each */
+const parsedBy = new WeakMap<object, ZodTypeAny>();
+
+const parse = (schema: ZodTypeAny, value: unknown) => {
+    const parsed = schema.parse(value);
+    if (typeof parsed === "object" && parsed !== null) {
+        parsedBy.set(parsed, schema);
+    }
+    return parsed;
+};
+
+/** Format zod issues as a single readable message, e.g. "email: Required" */
+const formatZodError = (error: ZodError) =>
+    error.issues
+        .map((issue) =>
+            issue.path.length
+                ? `${issue.path.join(".")}: ${issue.message}`
+                : issue.message
+        )
+        .join("; ");
+
+/**
+ * Validates and coerces the request body, params and query against zod schemas.
+ *
+ * Parsed values replace the raw ones so handlers receive typed, defaulted data.
+ * Express 5 exposes `req.query` as a getter, so it is redefined rather than assigned.
+ */
+export const validateRequest =
+    (schemas: RequestSchemas) =>
+    (req: Request, _res: Response, next: NextFunction) => {
+        try {
+            if (schemas.body) req.body = parse(schemas.body, req.body);
+            if (schemas.params) {
+                req.params = parse(schemas.params, req.params);
+            }
+            if (schemas.query) {
+                Object.defineProperty(req, "query", {
+                    value: parse(schemas.query, req.query),
+                    writable: true,
+                    enumerable: true,
+                });
+            }
+            next();
+        } catch (error) {
+            if (error instanceof ZodError) {
+                return next(
+                    new AppError(
+                        formatZodError(error),
+                        StatusCodes.BAD_REQUEST
+                    )
+                );
+            }
+            next(error);
+        }
+    };
+
+/**
+ * Request params, query or body as parsed by `validateRequest`, typed from
+ * the schema it was parsed with, e.g. `validated(req.params, idParamSchema)`.
+ * Fails if the route didn't validate the value against that schema.
+ */
+export const validated = <S extends ZodTypeAny>(value: unknown, schema: S) => {
+    if (
+        typeof value !== "object" ||
+        value === null ||
+        parsedBy.get(value) !== schema
+    ) {
+        throw new AppError(
+            "Request input was not validated against the expected schema",
+            StatusCodes.INTERNAL_SERVER_ERROR,
+            false
+        );
+    }
+    return value as z.output<S>;
+};
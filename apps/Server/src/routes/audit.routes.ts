@@ -0,0 +1,20 @@
+import { Router } from "express";
+import * as auditController from "../controllers/audit.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { listAuditLogsQuerySchema } from "../schemas/audit.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listAuditLogsQuerySchema }),
+    requirePermission(PERMISSIONS.AUDIT_VIEW),
+    auditController.listAuditLogs
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import {
+    loginSchema,
+    passwordResetConfirmSchema,
+    passwordResetRequestSchema,
+    refreshTokenSchema,
+    verifyEmailSchema,
+} from "shared";
+import * as authController from "../controllers/auth.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { validateRequest } from "../lib/validateRequest.js";
+
+const router = Router();
+
+router.post(
+    "/login",
+    validateRequest({ body: loginSchema }),
+    authController.login
+);
+router.post(
+    "/refresh",
+    validateRequest({ body: refreshTokenSchema }),
+    authController.refresh
+);
+router.post(
+    "/logout",
+    validateRequest({ body: refreshTokenSchema }),
+    authController.logout
+);
+router.post(
+    "/password-reset/request",
+    validateRequest({ body: passwordResetRequestSchema }),
+    authController.requestPasswordReset
+);
+router.post(
+    "/password-reset/confirm",
+    validateRequest({ body: passwordResetConfirmSchema }),
+    authController.confirmPasswordReset
+);
+router.post(
+    "/verify-email/send",
+    authenticate,
+    authController.sendEmailVerification
+);
+router.post(
+    "/verify-email",
+    validateRequest({ body: verifyEmailSchema }),
+    authController.verifyEmail
+);
+
+export default router;
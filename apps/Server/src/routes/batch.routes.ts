@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { expiringBatchesQuerySchema, writeOffExpiredSchema } from "shared";
+import * as batchController from "../controllers/batch.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/expiring",
+    validateRequest({ query: expiringBatchesQuerySchema }),
+    batchController.getExpiringBatches
+);
+router.post(
+    "/write-off-expired",
+    validateRequest({ body: writeOffExpiredSchema }),
+    requirePermission(PERMISSIONS.STOCK_ADJUST, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    batchController.writeOffExpiredStock
+);
+
+export default router;
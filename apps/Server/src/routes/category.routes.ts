@@ -0,0 +1,42 @@
+import { Router } from "express";
+import {
+    createCategorySchema,
+    idParamSchema,
+    updateCategorySchema,
+} from "shared";
+import * as categoryController from "../controllers/category.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", categoryController.listCategories);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    categoryController.getCategory
+);
+router.post(
+    "/",
+    requirePermission(PERMISSIONS.PRODUCT_MANAGE),
+    validateRequest({ body: createCategorySchema }),
+    categoryController.createCategory
+);
+router.patch(
+    "/:id",
+    requirePermission(PERMISSIONS.PRODUCT_MANAGE),
+    validateRequest({ params: idParamSchema, body: updateCategorySchema }),
+    categoryController.updateCategory
+);
+router.delete(
+    "/:id",
+    requirePermission(PERMISSIONS.PRODUCT_MANAGE),
+    validateRequest({ params: idParamSchema }),
+    categoryController.deleteCategory
+);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import * as customerController from "../controllers/customer.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", customerController.listCustomers);
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router } from "express";
+import {
+    completeCustomerReturnSchema,
+    createCustomerReturnSchema,
+    idParamSchema,
+    inspectCustomerReturnSchema,
+} from "shared";
+import * as customerReturnController from "../controllers/customerReturn.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { listCustomerReturnsQuerySchema } from "../schemas/customerReturn.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listCustomerReturnsQuerySchema }),
+    customerReturnController.listCustomerReturns
+);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    customerReturnController.getCustomerReturn
+);
+router.post(
+    "/",
+    requirePermission(PERMISSIONS.RETURN_MANAGE),
+    validateRequest({ body: createCustomerReturnSchema }),
+    customerReturnController.createCustomerReturn
+);
+router.post(
+    "/:id/receive",
+    requirePermission(PERMISSIONS.RETURN_MANAGE),
+    validateRequest({ params: idParamSchema }),
+    customerReturnController.receiveCustomerReturn
+);
+router.post(
+    "/:id/inspect",
+    requirePermission(PERMISSIONS.RETURN_MANAGE),
+    validateRequest({
+        params: idParamSchema,
+        body: inspectCustomerReturnSchema,
+    }),
+    customerReturnController.inspectCustomerReturn
+);
+router.post(
+    "/:id/complete",
+    validateRequest({
+        params: idParamSchema,
+        body: completeCustomerReturnSchema,
+    }),
+    requirePermission(PERMISSIONS.RETURN_MANAGE, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    customerReturnController.completeCustomerReturn
+);
+router.post(
+    "/:id/cancel",
+    requirePermission(PERMISSIONS.RETURN_MANAGE),
+    validateRequest({ params: idParamSchema }),
+    customerReturnController.cancelCustomerReturn
+);
+
+export default router;
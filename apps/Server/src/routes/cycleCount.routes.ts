@@ -0,0 +1,80 @@
+import { Router } from "express";
+import {
+    createCycleCountSchema,
+    idParamSchema,
+    recordCountsSchema,
+} from "shared";
+import * as cycleCountController from "../controllers/cycleCount.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { getCycleCountWarehouseId } from "../services/cycleCount.service.js";
+import { listCycleCountsQuerySchema } from "../schemas/cycleCount.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+const sessionWarehouse = {
+    warehouse: (req: { params: Record<string, string> }) =>
+        getCycleCountWarehouseId(Number(req.params.id)),
+};
+
+router.get(
+    "/",
+    validateRequest({ query: listCycleCountsQuerySchema }),
+    cycleCountController.listCycleCounts
+);
+// Expected quantities are hidden from counters, so the full view is restricted
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.CYCLE_COUNT_MANAGE, sessionWarehouse),
+    cycleCountController.getCycleCount
+);
+// Counting is open to the assignees of the session, checked by the service
+router.get(
+    "/:id/count-sheet",
+    validateRequest({ params: idParamSchema }),
+    cycleCountController.getCountSheet
+);
+router.post(
+    "/:id/counts",
+    validateRequest({ params: idParamSchema, body: recordCountsSchema }),
+    cycleCountController.recordCounts
+);
+router.post(
+    "/",
+    validateRequest({ body: createCycleCountSchema }),
+    requirePermission(PERMISSIONS.CYCLE_COUNT_MANAGE, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    cycleCountController.createCycleCount
+);
+router.post(
+    "/:id/submit",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.CYCLE_COUNT_MANAGE, sessionWarehouse),
+    cycleCountController.submitCycleCount
+);
+router.post(
+    "/:id/approve",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.CYCLE_COUNT_APPROVE, sessionWarehouse),
+    cycleCountController.approveCycleCount
+);
+router.post(
+    "/:id/reject",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.CYCLE_COUNT_APPROVE, sessionWarehouse),
+    cycleCountController.rejectCycleCount
+);
+router.post(
+    "/:id/cancel",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.CYCLE_COUNT_MANAGE, sessionWarehouse),
+    cycleCountController.cancelCycleCount
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import express, { Request, Response, NextFunction, Router } from "express";
+import * as importExportController from "../controllers/importExport.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS, PermissionKey } from "../config/permissions.js";
+import {
+    dataEntityParamSchema,
+    importQuerySchema,
+    type DataEntity,
+} from "../schemas/importExport.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+/** Permission needed to import each entity */
+const IMPORT_PERMISSIONS: Record<DataEntity, PermissionKey> = {
+    products: PERMISSIONS.PRODUCT_MANAGE,
+    customers: PERMISSIONS.SALES_ORDER_CREATE,
+    suppliers: PERMISSIONS.PURCHASE_ORDER_CREATE,
+    locations: PERMISSIONS.WAREHOUSE_MANAGE,
+    "opening-stock": PERMISSIONS.STOCK_ADJUST,
+};
+
+/**
+ * Permission needed to export each entity. Stock balances are exported valued
+ * at average cost, so they need the same permission as the valuation report.
+ */
+const EXPORT_PERMISSIONS: Record<DataEntity, PermissionKey> = {
+    ...IMPORT_PERMISSIONS,
+    "opening-stock": PERMISSIONS.REPORT_VIEW,
+};
+
+const requireEntityPermission =
+    (permissions: Record<DataEntity, PermissionKey>) =>
+    (req: Request, res: Response, next: NextFunction) =>
+        requirePermission(permissions[req.params.entity as DataEntity])(
+            req,
+            res,
+            next
+        );
+
+router.get(
+    "/:entity/export",
+    validateRequest({ params: dataEntityParamSchema }),
+    requireEntityPermission(EXPORT_PERMISSIONS),
+    importExportController.exportCsv
+);
+// The file is sent as the raw request body with a text/csv content type
+router.post(
+    "/:entity/import",
+    validateRequest({
+        params: dataEntityParamSchema,
+        query: importQuerySchema,
+    }),
+    requireEntityPermission(IMPORT_PERMISSIONS),
+    express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }),
+    importExportController.importCsv
+);
+
+export default router;
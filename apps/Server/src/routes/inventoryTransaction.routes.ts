@@ -0,0 +1,17 @@
+import { Router } from "express";
+import * as inventoryTransactionController from "../controllers/inventoryTransaction.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { listInventoryTransactionsQuerySchema } from "../schemas/inventoryTransaction.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listInventoryTransactionsQuerySchema }),
+    inventoryTransactionController.listInventoryTransactions
+);
+
+export default router;
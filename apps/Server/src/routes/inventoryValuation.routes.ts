@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { inventoryValuationQuerySchema } from "shared";
+import * as inventoryValuationController from "../controllers/inventoryValuation.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+// `?format=csv` downloads the lines as CSV
+router.get(
+    "/",
+    validateRequest({ query: inventoryValuationQuerySchema }),
+    requirePermission(PERMISSIONS.REPORT_VIEW, {
+        warehouse: (req) => (req.query as { warehouseId?: number }).warehouseId,
+    }),
+    inventoryValuationController.getInventoryValuation
+);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { idParamSchema } from "shared";
+import * as notificationController from "../controllers/notification.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { listNotificationsQuerySchema } from "../schemas/notification.schema.js";
+
+const router = Router();
+
+// Every route acts on the signed-in user's own notifications
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listNotificationsQuerySchema }),
+    notificationController.listNotifications
+);
+router.get("/stream", notificationController.streamNotifications);
+router.post("/read-all", notificationController.markAllNotificationsRead);
+router.post(
+    "/:id/read",
+    validateRequest({ params: idParamSchema }),
+    notificationController.markNotificationRead
+);
+
+export default router;
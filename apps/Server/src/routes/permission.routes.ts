@@ -0,0 +1,18 @@
+import { Router } from "express";
+import * as permissionController from "../controllers/permission.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { PERMISSIONS } from "../config/permissions.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/me", permissionController.getMyPermissions);
+router.get(
+    "/",
+    requirePermission(PERMISSIONS.ROLE_MANAGE),
+    permissionController.listPermissions
+);
+
+export default router;
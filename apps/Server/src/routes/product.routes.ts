@@ -0,0 +1,52 @@
+import { Router } from "express";
+import {
+    createProductSchema,
+    idParamSchema,
+    updateProductSchema,
+} from "shared";
+import * as productController from "../controllers/product.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { listProductsQuerySchema } from "../schemas/product.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listProductsQuerySchema }),
+    productController.listProducts
+);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    productController.getProduct
+);
+router.get(
+    "/:id/stock",
+    validateRequest({ params: idParamSchema }),
+    productController.getProductStock
+);
+router.post(
+    "/",
+    requirePermission(PERMISSIONS.PRODUCT_MANAGE),
+    validateRequest({ body: createProductSchema }),
+    productController.createProduct
+);
+router.patch(
+    "/:id",
+    requirePermission(PERMISSIONS.PRODUCT_MANAGE),
+    validateRequest({ params: idParamSchema, body: updateProductSchema }),
+    productController.updateProduct
+);
+router.delete(
+    "/:id",
+    requirePermission(PERMISSIONS.PRODUCT_MANAGE),
+    validateRequest({ params: idParamSchema }),
+    productController.deleteProduct
+);
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router } from "express";
+import {
+    createPurchaseOrderSchema,
+    idParamSchema,
+    receivePurchaseOrderSchema,
+    updatePurchaseOrderSchema,
+} from "shared";
+import * as purchaseOrderController from "../controllers/purchaseOrder.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { getReceiptWarehouseId } from "../services/purchaseOrder.service.js";
+import { listPurchaseOrdersQuerySchema } from "../schemas/purchaseOrder.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listPurchaseOrdersQuerySchema }),
+    purchaseOrderController.listPurchaseOrders
+);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    purchaseOrderController.getPurchaseOrder
+);
+router.post(
+    "/",
+    requirePermission(PERMISSIONS.PURCHASE_ORDER_CREATE),
+    validateRequest({ body: createPurchaseOrderSchema }),
+    purchaseOrderController.createPurchaseOrder
+);
+router.patch(
+    "/:id",
+    requirePermission(PERMISSIONS.PURCHASE_ORDER_CREATE),
+    validateRequest({ params: idParamSchema, body: updatePurchaseOrderSchema }),
+    purchaseOrderController.updatePurchaseOrder
+);
+router.post(
+    "/:id/confirm",
+    requirePermission(PERMISSIONS.PURCHASE_ORDER_APPROVE),
+    validateRequest({ params: idParamSchema }),
+    purchaseOrderController.confirmPurchaseOrder
+);
+router.post(
+    "/:id/receive",
+    validateRequest({ params: idParamSchema, body: receivePurchaseOrderSchema }),
+    requirePermission(PERMISSIONS.PURCHASE_ORDER_RECEIVE, {
+        warehouse: (req) => getReceiptWarehouseId(req.body),
+    }),
+    purchaseOrderController.receivePurchaseOrder
+);
+router.post(
+    "/:id/cancel",
+    requirePermission(PERMISSIONS.PURCHASE_ORDER_APPROVE),
+    validateRequest({ params: idParamSchema }),
+    purchaseOrderController.cancelPurchaseOrder
+);
+
+export default router;
@@ -0,0 +1,55 @@
+import { Router } from "express";
+import {
+    createReplenishmentDraftsSchema,
+    idParamSchema,
+    lowStockQuerySchema,
+    upsertReorderSettingSchema,
+} from "shared";
+import * as replenishmentController from "../controllers/replenishment.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { getReorderSettingWarehouseId } from "../services/replenishment.service.js";
+import { listReorderSettingsQuerySchema } from "../schemas/replenishment.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/settings",
+    validateRequest({ query: listReorderSettingsQuerySchema }),
+    replenishmentController.listReorderSettings
+);
+router.put(
+    "/settings",
+    validateRequest({ body: upsertReorderSettingSchema }),
+    requirePermission(PERMISSIONS.REPLENISHMENT_MANAGE, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    replenishmentController.upsertReorderSetting
+);
+router.delete(
+    "/settings/:id",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.REPLENISHMENT_MANAGE, {
+        warehouse: (req) => getReorderSettingWarehouseId(Number(req.params.id)),
+    }),
+    replenishmentController.deleteReorderSetting
+);
+router.get(
+    "/low-stock",
+    validateRequest({ query: lowStockQuerySchema }),
+    replenishmentController.getLowStock
+);
+router.post(
+    "/drafts",
+    validateRequest({ body: createReplenishmentDraftsSchema }),
+    requirePermission(PERMISSIONS.REPLENISHMENT_MANAGE, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    replenishmentController.createReplenishmentDrafts
+);
+
+export default router;
@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response, Router } from "express";
+import {
+    allocateSalesOrderSchema,
+    createSalesOrderSchema,
+    idParamSchema,
+    shipSalesOrderSchema,
+    updateSalesOrderSchema,
+} from "shared";
+import * as salesOrderController from "../controllers/salesOrder.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import {
+    getAllocationWarehouseId,
+    hasAllocations,
+} from "../services/fulfillment.service.js";
+import { listSalesOrdersQuerySchema } from "../schemas/salesOrder.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+/**
+ * Cancelling releases any allocated stock, so once an order has allocations it
+ * needs the fulfilment permission for their warehouse, as shipping does.
+ */
+const requireCancelPermission = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const id = Number(req.params.id);
+    const guard = (await hasAllocations(id))
+        ? requirePermission(PERMISSIONS.SALES_ORDER_FULFILL, {
+              warehouse: () => getAllocationWarehouseId(id),
+          })
+        : requirePermission(PERMISSIONS.SALES_ORDER_CREATE);
+    return guard(req, res, next);
+};
+
+router.get(
+    "/",
+    validateRequest({ query: listSalesOrdersQuerySchema }),
+    salesOrderController.listSalesOrders
+);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    salesOrderController.getSalesOrder
+);
+router.post(
+    "/",
+    requirePermission(PERMISSIONS.SALES_ORDER_CREATE),
+    validateRequest({ body: createSalesOrderSchema }),
+    salesOrderController.createSalesOrder
+);
+router.patch(
+    "/:id",
+    requirePermission(PERMISSIONS.SALES_ORDER_CREATE),
+    validateRequest({ params: idParamSchema, body: updateSalesOrderSchema }),
+    salesOrderController.updateSalesOrder
+);
+router.post(
+    "/:id/allocate",
+    validateRequest({ params: idParamSchema, body: allocateSalesOrderSchema }),
+    requirePermission(PERMISSIONS.SALES_ORDER_FULFILL, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    salesOrderController.allocateSalesOrder
+);
+router.get(
+    "/:id/pick-list",
+    validateRequest({ params: idParamSchema }),
+    salesOrderController.getPickList
+);
+router.post(
+    "/:id/ship",
+    validateRequest({ params: idParamSchema, body: shipSalesOrderSchema }),
+    requirePermission(PERMISSIONS.SALES_ORDER_FULFILL, {
+        warehouse: (req) => getAllocationWarehouseId(Number(req.params.id)),
+    }),
+    salesOrderController.shipSalesOrder
+);
+router.post(
+    "/:id/cancel",
+    validateRequest({ params: idParamSchema }),
+    requireCancelPermission,
+    salesOrderController.cancelSalesOrder
+);
+
+export default router;
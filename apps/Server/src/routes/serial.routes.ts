@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { serialHistoryQuerySchema, serialParamSchema } from "shared";
+import * as serialController from "../controllers/serial.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { validateRequest } from "../lib/validateRequest.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/:serial/history",
+    validateRequest({
+        params: serialParamSchema,
+        query: serialHistoryQuerySchema,
+    }),
+    serialController.getSerialHistory
+);
+
+export default router;
@@ -0,0 +1,68 @@
+import { Router } from "express";
+import {
+    createStockTransferSchema,
+    idParamSchema,
+    receiveStockTransferSchema,
+    shipStockTransferSchema,
+} from "shared";
+import * as stockTransferController from "../controllers/stockTransfer.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { getTransferWarehouseId } from "../services/stockTransfer.service.js";
+import { listStockTransfersQuerySchema } from "../schemas/stockTransfer.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listStockTransfersQuerySchema }),
+    stockTransferController.listStockTransfers
+);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    stockTransferController.getStockTransfer
+);
+router.post(
+    "/",
+    validateRequest({ body: createStockTransferSchema }),
+    requirePermission(PERMISSIONS.STOCK_TRANSFER, {
+        warehouse: (req) => req.body.fromWarehouseId,
+    }),
+    stockTransferController.createStockTransfer
+);
+router.post(
+    "/:id/ship",
+    validateRequest({ params: idParamSchema, body: shipStockTransferSchema }),
+    requirePermission(PERMISSIONS.STOCK_TRANSFER, {
+        warehouse: (req) =>
+            getTransferWarehouseId(Number(req.params.id), "from"),
+    }),
+    stockTransferController.shipStockTransfer
+);
+router.post(
+    "/:id/receive",
+    validateRequest({
+        params: idParamSchema,
+        body: receiveStockTransferSchema,
+    }),
+    requirePermission(PERMISSIONS.STOCK_TRANSFER, {
+        warehouse: (req) => getTransferWarehouseId(Number(req.params.id), "to"),
+    }),
+    stockTransferController.receiveStockTransfer
+);
+router.post(
+    "/:id/cancel",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.STOCK_TRANSFER, {
+        warehouse: (req) =>
+            getTransferWarehouseId(Number(req.params.id), "from"),
+    }),
+    stockTransferController.cancelStockTransfer
+);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import * as supplierController from "../controllers/supplier.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", supplierController.listSuppliers);
+
+export default router;
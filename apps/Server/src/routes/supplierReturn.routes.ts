@@ -0,0 +1,61 @@
+import { Router } from "express";
+import {
+    createSupplierReturnSchema,
+    idParamSchema,
+    returnRateReportQuerySchema,
+    shipSupplierReturnSchema,
+} from "shared";
+import * as supplierReturnController from "../controllers/supplierReturn.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import { listSupplierReturnsQuerySchema } from "../schemas/supplierReturn.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get(
+    "/",
+    validateRequest({ query: listSupplierReturnsQuerySchema }),
+    supplierReturnController.listSupplierReturns
+);
+router.get(
+    "/return-rates",
+    validateRequest({ query: returnRateReportQuerySchema }),
+    supplierReturnController.getReturnRateReport
+);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    supplierReturnController.getSupplierReturn
+);
+router.post(
+    "/",
+    requirePermission(PERMISSIONS.RETURN_MANAGE),
+    validateRequest({ body: createSupplierReturnSchema }),
+    supplierReturnController.createSupplierReturn
+);
+router.post(
+    "/:id/ship",
+    validateRequest({ params: idParamSchema, body: shipSupplierReturnSchema }),
+    requirePermission(PERMISSIONS.RETURN_MANAGE, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    supplierReturnController.shipSupplierReturn
+);
+router.post(
+    "/:id/complete",
+    requirePermission(PERMISSIONS.RETURN_MANAGE),
+    validateRequest({ params: idParamSchema }),
+    supplierReturnController.completeSupplierReturn
+);
+router.post(
+    "/:id/cancel",
+    requirePermission(PERMISSIONS.RETURN_MANAGE),
+    validateRequest({ params: idParamSchema }),
+    supplierReturnController.cancelSupplierReturn
+);
+
+export default router;
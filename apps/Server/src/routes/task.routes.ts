@@ -0,0 +1,83 @@
+import { Router } from "express";
+import {
+    createTaskSchema,
+    idParamSchema,
+    taskBoardQuerySchema,
+    updateTaskSchema,
+    updateTaskStatusSchema,
+} from "shared";
+import * as taskController from "../controllers/task.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+import { requirePermission } from "../lib/requirePermission.js";
+import { validateRequest } from "../lib/validateRequest.js";
+import { PERMISSIONS } from "../config/permissions.js";
+import {
+    getTaskWarehouseId,
+    isTaskAssignee,
+} from "../services/task.service.js";
+import {
+    listTasksQuerySchema,
+    myTasksQuerySchema,
+} from "../schemas/task.schema.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+const taskWarehouse = {
+    warehouse: (req: { params: Record<string, string> }) =>
+        getTaskWarehouseId(Number(req.params.id)),
+};
+
+router.get(
+    "/",
+    validateRequest({ query: listTasksQuerySchema }),
+    taskController.listTasks
+);
+router.get(
+    "/my",
+    validateRequest({ query: myTasksQuerySchema }),
+    taskController.listMyTasks
+);
+router.get(
+    "/board",
+    validateRequest({ query: taskBoardQuerySchema }),
+    taskController.getTaskBoard
+);
+router.get(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    taskController.getTask
+);
+router.post(
+    "/",
+    validateRequest({ body: createTaskSchema }),
+    requirePermission(PERMISSIONS.TASK_MANAGE, {
+        warehouse: (req) => req.body.warehouseId,
+    }),
+    taskController.createTask
+);
+router.patch(
+    "/:id",
+    validateRequest({ params: idParamSchema, body: updateTaskSchema }),
+    requirePermission(PERMISSIONS.TASK_MANAGE, taskWarehouse),
+    taskController.updateTask
+);
+// Assignees move their own tasks along; anyone else needs task:manage
+router.patch(
+    "/:id/status",
+    validateRequest({ params: idParamSchema, body: updateTaskStatusSchema }),
+    requirePermission(PERMISSIONS.TASK_MANAGE, {
+        ...taskWarehouse,
+        allow: (req) => isTaskAssignee(Number(req.params.id), req.user!.id),
+    }),
+    taskController.updateTaskStatus
+);
+router.delete(
+    "/:id",
+    validateRequest({ params: idParamSchema }),
+    requirePermission(PERMISSIONS.TASK_MANAGE, taskWarehouse),
+    taskController.deleteTask
+);
+
+export default router;
@@ -0,0 +1,11 @@
+import { Router } from "express";
+import * as warehouseController from "../controllers/warehouse.controller.js";
+import { authenticate } from "../lib/authenticate.js";
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get("/", warehouseController.listWarehouses);
+
+export default router;
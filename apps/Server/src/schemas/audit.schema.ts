@@ -0,0 +1,17 @@
+import { AuditAction, Prisma } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listAuditLogsQuerySchema = createListQuerySchema({
+    fields: {
+        /** Prisma model name, e.g. `Product` */
+        entityType: { type: "enum", values: Prisma.ModelName },
+        entityId: { type: "string" },
+        action: { type: "enum", values: AuditAction },
+        userId: { type: "number", nullable: true },
+        timestamp: { type: "date" },
+    },
+    sortable: ["timestamp", "id"],
+    defaultSort: "-timestamp",
+});
+
+export type ListAuditLogsQuery = ListQuery;
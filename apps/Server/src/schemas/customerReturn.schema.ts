@@ -0,0 +1,18 @@
+import { CustomerReturnStatus } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listCustomerReturnsQuerySchema = createListQuerySchema({
+    fields: {
+        status: { type: "enum", values: CustomerReturnStatus },
+        customerId: { type: "number" },
+        originalSalesOrderId: { type: "number", nullable: true },
+        createdAt: { type: "date" },
+        processedAt: { type: "date", nullable: true },
+        creditAmount: { type: "number", nullable: true },
+    },
+    sortable: ["createdAt", "processedAt", "creditAmount", "id"],
+    defaultSort: "-createdAt",
+    search: ["returnNumber", "customer.name"],
+});
+
+export type ListCustomerReturnsQuery = ListQuery;
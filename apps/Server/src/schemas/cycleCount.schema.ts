@@ -0,0 +1,18 @@
+import { CycleCountStatus } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listCycleCountsQuerySchema = createListQuerySchema({
+    fields: {
+        status: { type: "enum", values: CycleCountStatus },
+        warehouseId: { type: "number" },
+        categoryId: { type: "number", nullable: true },
+        createdAt: { type: "date" },
+        completedAt: { type: "date", nullable: true },
+        varianceValue: { type: "number", nullable: true },
+    },
+    sortable: ["createdAt", "completedAt", "varianceValue", "id"],
+    defaultSort: "-createdAt",
+    search: ["countNumber", "notes"],
+});
+
+export type ListCycleCountsQuery = ListQuery;
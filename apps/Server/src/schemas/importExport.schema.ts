@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { booleanQuery } from "shared";
+
+export const DATA_ENTITIES = [
+    "products",
+    "customers",
+    "suppliers",
+    "locations",
+    "opening-stock",
+] as const;
+
+export const dataEntityParamSchema = z.object({
+    entity: z.enum(DATA_ENTITIES),
+});
+
+export const importQuerySchema = z.object({
+    /** Validate every row and report what would change without writing */
+    dryRun: booleanQuery.optional(),
+});
+
+/*
+ * Row schemas for CSV imports. Cells arrive as strings and empty cells are
+ * dropped before parsing, so optional columns may be left blank or omitted.
+ */
+
+const flagCell = z
+    .string()
+    .trim()
+    .toLowerCase()
+    .pipe(z.enum(["true", "false", "yes", "no", "1", "0"]))
+    .transform((value) => ["true", "yes", "1"].includes(value));
+
+const dateCell = z.coerce.date();
+
+export const productRowSchema = z.object({
+    sku: z.string().trim().min(1).max(64),
+    name: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(2000).optional(),
+    /** Category name; missing categories are created */
+    category: z.string().trim().min(1).max(100),
+    unitOfMeasure: z.string().trim().min(1).max(32).optional(),
+    isTrackedByBatch: flagCell.optional(),
+    isTrackedBySerial: flagCell.optional(),
+    /** Supplier name; the supplier must exist */
+    defaultSupplier: z.string().trim().min(1).max(200).optional(),
+    supplierSku: z.string().trim().max(64).optional(),
+});
+
+export const customerRowSchema = z.object({
+    accountNumber: z.string().trim().min(1).max(64),
+    name: z.string().trim().min(1).max(200),
+    contactName: z.string().trim().max(200).optional(),
+    contactEmail: z.string().trim().toLowerCase().email().optional(),
+    contactPhone: z.string().trim().max(32).optional(),
+    defaultShippingAddress: z.string().trim().max(500).optional(),
+    defaultBillingAddress: z.string().trim().max(500).optional(),
+    creditLimit: z.coerce.number().int().nonnegative().optional(),
+    paymentTerms: z.string().trim().max(100).optional(),
+    taxExempt: flagCell.optional(),
+});
+
+export const supplierRowSchema = z.object({
+    name: z.string().trim().min(1).max(200),
+    contactName: z.string().trim().max(200).optional(),
+    contactEmail: z.string().trim().toLowerCase().email().optional(),
+    contactPhone: z.string().trim().max(32).optional(),
+    address: z.string().trim().max(500).optional(),
+    paymentTerms: z.string().trim().max(100).optional(),
+    defaultCurrency: z
+        .string()
+        .trim()
+        .toUpperCase()
+        .regex(/^[A-Z]{3}$/, "Use a three-letter currency code")
+        .optional(),
+});
+
+export const locationRowSchema = z.object({
+    /** Warehouse name; the warehouse must exist */
+    warehouse: z.string().trim().min(1).max(200),
+    code: z.string().trim().min(1).max(64),
+    description: z.string().trim().max(500).optional(),
+    isDefaultReceiving: flagCell.optional(),
+    isDefaultPicking: flagCell.optional(),
+    isQuarantine: flagCell.optional(),
+});
+
+export const openingStockRowSchema = z
+    .object({
+        sku: z.string().trim().min(1).max(64),
+        warehouse: z.string().trim().min(1).max(200),
+        /** Location code within the warehouse */
+        location: z.string().trim().min(1).max(64),
+        quantity: z.coerce.number().int().positive(),
+        /** UGX per unit; opening balances are valued at this cost */
+        unitCost: z.coerce.number().int().nonnegative(),
+        batchNumber: z.string().trim().min(1).max(64).optional(),
+        manufacturingDate: dateCell.optional(),
+        expiryDate: dateCell.optional(),
+        /** Serial numbers separated by `|` */
+        serialNumbers: z
+            .string()
+            .transform((value) =>
+                value
+                    .split("|")
+                    .map((serial) => serial.trim())
+                    .filter(Boolean)
+            )
+            .optional(),
+    })
+    .refine(
+        (row) =>
+            !row.serialNumbers || row.serialNumbers.length === row.quantity,
+        {
+            message: "Number of serial numbers must equal the quantity",
+            path: ["serialNumbers"],
+        }
+    );
+
+export type DataEntity = (typeof DATA_ENTITIES)[number];
+export type DataEntityParam = z.infer<typeof dataEntityParamSchema>;
+export type ImportQuery = z.infer<typeof importQuerySchema>;
+export type ProductRow = z.infer<typeof productRowSchema>;
+export type CustomerRow = z.infer<typeof customerRowSchema>;
+export type SupplierRow = z.infer<typeof supplierRowSchema>;
+export type LocationRow = z.infer<typeof locationRowSchema>;
+export type OpeningStockRow = z.infer<typeof openingStockRowSchema>;
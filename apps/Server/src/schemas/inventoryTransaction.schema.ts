@@ -0,0 +1,30 @@
+import { InventoryTransactionType } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+// The ledger grows without bound, so it only pages by cursor
+export const listInventoryTransactionsQuerySchema = createListQuerySchema({
+    fields: {
+        id: { type: "number" },
+        productId: { type: "number" },
+        warehouseLocationId: { type: "number" },
+        warehouseId: {
+            type: "number",
+            path: "warehouseLocation.warehouseId",
+        },
+        transactionType: { type: "enum", values: InventoryTransactionType },
+        quantityChange: { type: "number" },
+        timestamp: { type: "date" },
+        userId: { type: "number" },
+        batchId: { type: "number", nullable: true },
+        serialNumberId: { type: "number", nullable: true },
+        purchaseOrderId: { type: "number", nullable: true },
+        salesOrderId: { type: "number", nullable: true },
+        stockTransferId: { type: "number", nullable: true },
+    },
+    sortable: ["timestamp", "quantityChange", "id"],
+    defaultSort: "-timestamp",
+    search: ["notes", "product.name", "product.sku"],
+    pagination: ["cursor"],
+});
+
+export type ListInventoryTransactionsQuery = ListQuery;
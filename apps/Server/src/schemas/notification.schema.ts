@@ -0,0 +1,16 @@
+import { NotificationType } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listNotificationsQuerySchema = createListQuerySchema({
+    fields: {
+        type: { type: "enum", values: NotificationType },
+        isRead: { type: "boolean" },
+        relatedEntityType: { type: "string", nullable: true },
+        createdAt: { type: "date" },
+    },
+    sortable: ["createdAt", "id"],
+    defaultSort: "-createdAt",
+    search: ["message"],
+});
+
+export type ListNotificationsQuery = ListQuery;
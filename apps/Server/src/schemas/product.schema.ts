@@ -0,0 +1,20 @@
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listProductsQuerySchema = createListQuerySchema({
+    fields: {
+        name: { type: "string" },
+        sku: { type: "string" },
+        categoryId: { type: "number" },
+        defaultSupplierId: { type: "number", nullable: true },
+        unitOfMeasure: { type: "string" },
+        averageCost: { type: "number", nullable: true },
+        isTrackedByBatch: { type: "boolean" },
+        isTrackedBySerial: { type: "boolean" },
+        createdAt: { type: "date" },
+    },
+    sortable: ["name", "sku", "averageCost", "createdAt", "id"],
+    defaultSort: "name",
+    search: ["name", "sku", "supplierSku"],
+});
+
+export type ListProductsQuery = ListQuery;
@@ -0,0 +1,20 @@
+import { PurchaseOrderStatus } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listPurchaseOrdersQuerySchema = createListQuerySchema({
+    fields: {
+        status: { type: "enum", values: PurchaseOrderStatus },
+        supplierId: { type: "number" },
+        warehouseId: { type: "number", nullable: true },
+        carrierId: { type: "number", nullable: true },
+        isReplenishment: { type: "boolean" },
+        orderDate: { type: "date" },
+        expectedDeliveryDate: { type: "date", nullable: true },
+        totalAmount: { type: "number", nullable: true },
+    },
+    sortable: ["orderDate", "expectedDeliveryDate", "totalAmount", "id"],
+    defaultSort: "-orderDate",
+    search: ["supplier.name", "trackingNumber"],
+});
+
+export type ListPurchaseOrdersQuery = ListQuery;
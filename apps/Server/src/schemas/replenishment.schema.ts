@@ -0,0 +1,23 @@
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listReorderSettingsQuerySchema = createListQuerySchema({
+    fields: {
+        productId: { type: "number" },
+        warehouseId: { type: "number" },
+        minQuantity: { type: "number" },
+        reorderPoint: { type: "number" },
+        maxQuantity: { type: "number" },
+        leadTimeDays: { type: "number" },
+    },
+    sortable: [
+        "productId",
+        "warehouseId",
+        "reorderPoint",
+        "leadTimeDays",
+        "id",
+    ],
+    defaultSort: "productId,warehouseId",
+    search: ["product.name", "product.sku"],
+});
+
+export type ListReorderSettingsQuery = ListQuery;
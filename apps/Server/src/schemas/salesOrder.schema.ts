@@ -0,0 +1,27 @@
+import { SalesOrderStatus } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listSalesOrdersQuerySchema = createListQuerySchema({
+    fields: {
+        status: { type: "enum", values: SalesOrderStatus },
+        customerId: { type: "number" },
+        carrierId: { type: "number", nullable: true },
+        orderDate: { type: "date" },
+        requestedDeliveryDate: { type: "date", nullable: true },
+        totalAmount: { type: "number", nullable: true },
+        // Orders with at least one backordered line, or with none
+        isBackordered: {
+            type: "boolean",
+            where: (value) => ({
+                items: value
+                    ? { some: { isBackordered: true } }
+                    : { none: { isBackordered: true } },
+            }),
+        },
+    },
+    sortable: ["orderDate", "requestedDeliveryDate", "totalAmount", "id"],
+    defaultSort: "-orderDate",
+    search: ["customer.name", "trackingNumber"],
+});
+
+export type ListSalesOrdersQuery = ListQuery;
@@ -0,0 +1,18 @@
+import { StockTransferStatus } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listStockTransfersQuerySchema = createListQuerySchema({
+    fields: {
+        status: { type: "enum", values: StockTransferStatus },
+        fromWarehouseId: { type: "number" },
+        toWarehouseId: { type: "number" },
+        initiatedAt: { type: "date" },
+        shippedAt: { type: "date", nullable: true },
+        receivedAt: { type: "date", nullable: true },
+    },
+    sortable: ["initiatedAt", "shippedAt", "receivedAt", "id"],
+    defaultSort: "-initiatedAt",
+    search: ["transferNumber", "notes"],
+});
+
+export type ListStockTransfersQuery = ListQuery;
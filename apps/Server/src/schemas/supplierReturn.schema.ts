@@ -0,0 +1,17 @@
+import { SupplierReturnStatus } from "@prisma/client";
+import { createListQuerySchema, type ListQuery } from "../utils/listQuery.js";
+
+export const listSupplierReturnsQuerySchema = createListQuerySchema({
+    fields: {
+        status: { type: "enum", values: SupplierReturnStatus },
+        supplierId: { type: "number" },
+        originalPurchaseOrderId: { type: "number", nullable: true },
+        createdAt: { type: "date" },
+        processedAt: { type: "date", nullable: true },
+    },
+    sortable: ["createdAt", "processedAt", "id"],
+    defaultSort: "-createdAt",
+    search: ["returnNumber", "supplier.name", "trackingNumber"],
+});
+
+export type ListSupplierReturnsQuery = ListQuery;
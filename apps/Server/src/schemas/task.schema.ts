@@ -0,0 +1,41 @@
+import { TaskStatus, TaskType } from "@prisma/client";
+import {
+    createListQuerySchema,
+    type ListField,
+    type ListQuery,
+    type ListQueryConfig,
+} from "../utils/listQuery.js";
+
+const myTaskFields: Record<string, ListField> = {
+    status: { type: "enum", values: TaskStatus },
+    type: { type: "enum", values: TaskType },
+    warehouseId: { type: "number", nullable: true },
+    priority: { type: "number", nullable: true },
+    dueDate: { type: "date", nullable: true },
+    createdAt: { type: "date" },
+    salesOrderId: { type: "number", nullable: true },
+    purchaseOrderId: { type: "number", nullable: true },
+};
+
+// Most urgent first: highest priority, then the earliest due date
+const taskList = {
+    sortable: ["priority", "dueDate", "createdAt", "id"],
+    defaultSort: "-priority,dueDate",
+    search: ["title", "description"],
+} satisfies Omit<ListQueryConfig, "fields">;
+
+export const listTasksQuerySchema = createListQuerySchema({
+    ...taskList,
+    fields: {
+        ...myTaskFields,
+        assignedTo: { type: "number", nullable: true },
+    },
+});
+
+/** The caller's own tasks, so there is no `assignedTo` filter */
+export const myTasksQuerySchema = createListQuerySchema({
+    ...taskList,
+    fields: myTaskFields,
+});
+
+export type ListTasksQuery = ListQuery;
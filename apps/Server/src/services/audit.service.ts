@@ -0,0 +1,16 @@
+import prisma from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListAuditLogsQuery } from "../schemas/audit.schema.js";
+
+export const listAuditLogs = async (query: ListAuditLogsQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.auditLog.findMany({
+                ...args,
+                include: { user: { select: { id: true, username: true } } },
+            }),
+        count: (args) => prisma.auditLog.count(args),
+    });
+
+    return { auditLogs: items, ...meta };
+};
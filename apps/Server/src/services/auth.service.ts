@@ -0,0 +1,331 @@
+import crypto from "node:crypto";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import { StatusCodes } from "http-status-codes";
+import type { AuthTokens } from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import {
+    BCRYPT_SALT_ROUNDS,
+    CLIENT_URL,
+    EMAIL_VERIFICATION_TTL_MINUTES,
+    JWT_ACCESS_EXPIRES_IN,
+    JWT_ACCESS_SECRET,
+    PASSWORD_RESET_TTL_MINUTES,
+    REFRESH_TOKEN_TTL_DAYS,
+} from "../config/auth.js";
+import { deliverMail } from "../config/mailer.js";
+import logger from "../config/logger.js";
+import {
+    emailVerificationEmail,
+    passwordResetEmail,
+} from "../templates/emails.js";
+import AppError from "../utils/AppError.js";
+import type { AuthUser } from "../types/express.js";
+
+export interface AccessTokenPayload {
+    sub: number;
+    roleId: number;
+}
+
+// Well-formed bcrypt hash that matches no password, compared against when the
+// user is missing so response times don't reveal which emails have accounts
+const DUMMY_PASSWORD_HASH =
+    "$2b$12$C6UzMDM.H6dfI/f/IKcEeO5dVIeQ2p1/7NGZFcD7YuRh6kbYpP3yO";
+
+const hashToken = (token: string) =>
+    crypto.createHash("sha256").update(token).digest("hex");
+
+/** Generates a random single-use token; callers store only its hash */
+const generateOneTimeToken = () => crypto.randomBytes(32).toString("hex");
+
+const minutesFromNow = (minutes: number) =>
+    new Date(Date.now() + minutes * 60 * 1000);
+
+const signAccessToken = (user: AuthUser) => {
+    if (!JWT_ACCESS_SECRET) {
+        throw new AppError(
+            "JWT_ACCESS_SECRET is not configured",
+            StatusCodes.INTERNAL_SERVER_ERROR,
+            false
+        );
+    }
+    return jwt.sign({ roleId: user.roleId }, JWT_ACCESS_SECRET, {
+        subject: String(user.id),
+        expiresIn: JWT_ACCESS_EXPIRES_IN,
+    });
+};
+
+/** Creates and stores a new opaque refresh token; only its hash is persisted */
+const issueRefreshToken = async (
+    userId: number,
+    db: TransactionClient = prisma
+) => {
+    const token = crypto.randomBytes(48).toString("base64url");
+    const record = await db.refreshToken.create({
+        data: {
+            userId,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(
+                Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+            ),
+        },
+    });
+    return { token, record };
+};
+
+/** Verifies an access token and returns the user it was issued to */
+export const verifyAccessToken = (token: string): AuthUser => {
+    try {
+        const payload = jwt.verify(token, JWT_ACCESS_SECRET) as jwt.JwtPayload;
+        return { id: Number(payload.sub), roleId: Number(payload.roleId) };
+    } catch {
+        throw new AppError(
+            "Invalid or expired access token",
+            StatusCodes.UNAUTHORIZED
+        );
+    }
+};
+
+export const login = async (email: string, password: string) => {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    const passwordMatches = await bcrypt.compare(
+        password,
+        user?.password ?? DUMMY_PASSWORD_HASH
+    );
+    if (!user || !passwordMatches) {
+        throw new AppError(
+            "Incorrect email or password",
+            StatusCodes.UNAUTHORIZED
+        );
+    }
+    if (!user.isActive) {
+        throw new AppError("This account is disabled", StatusCodes.FORBIDDEN);
+    }
+
+    const updated = await prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() },
+        select: {
+            id: true,
+            username: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            roleId: true,
+            isEmailVerified: true,
+            lastLoginAt: true,
+        },
+    });
+
+    const { token: refreshToken } = await issueRefreshToken(user.id);
+    const tokens: AuthTokens = {
+        accessToken: signAccessToken(user),
+        refreshToken,
+    };
+
+    return { user: updated, tokens };
+};
+
+/**
+ * Exchanges a refresh token for a new token pair. The presented token is revoked
+ * and linked to its replacement; presenting an already rotated token is treated
+ * as theft and revokes every session the user has.
+ */
+export const refresh = async (refreshToken: string): Promise<AuthTokens> => {
+    const stored = await prisma.refreshToken.findUnique({
+        where: { tokenHash: hashToken(refreshToken) },
+        include: { user: { select: { id: true, roleId: true, isActive: true } } },
+    });
+
+    if (!stored) {
+        throw new AppError("Invalid refresh token", StatusCodes.UNAUTHORIZED);
+    }
+
+    if (stored.revokedAt) {
+        await prisma.refreshToken.updateMany({
+            where: { userId: stored.userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        throw new AppError("Invalid refresh token", StatusCodes.UNAUTHORIZED);
+    }
+
+    if (stored.expiresAt < new Date()) {
+        throw new AppError("Refresh token expired", StatusCodes.UNAUTHORIZED);
+    }
+
+    if (!stored.user.isActive) {
+        throw new AppError("This account is disabled", StatusCodes.FORBIDDEN);
+    }
+
+    // Revoking only while still unrevoked lets a single concurrent request
+    // rotate the token; the others find it already taken
+    const token = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.refreshToken.updateMany({
+            where: { id: stored.id, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        if (count !== 1) {
+            throw new AppError(
+                "Invalid refresh token",
+                StatusCodes.UNAUTHORIZED
+            );
+        }
+
+        const { token, record } = await issueRefreshToken(stored.userId, tx);
+        await tx.refreshToken.update({
+            where: { id: stored.id },
+            data: { replacedById: record.id },
+        });
+        return token;
+    });
+
+    return { accessToken: signAccessToken(stored.user), refreshToken: token };
+};
+
+/** Revokes a refresh token. Unknown or already revoked tokens are ignored */
+export const logout = async (refreshToken: string) => {
+    await prisma.refreshToken.updateMany({
+        where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+};
+
+/** Emails a reset link for a token that has already been stored */
+const sendPasswordResetEmail = async (email: string, token: string) => {
+    try {
+        const user = await prisma.user.findUniqueOrThrow({ where: { email } });
+        await deliverMail({
+            to: user.email,
+            ...passwordResetEmail({
+                name: user.firstName ?? user.username,
+                url: `${CLIENT_URL}/reset-password?token=${token}`,
+                expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+            }),
+        });
+    } catch (error) {
+        logger.error(`Failed to send password reset email to ${email}`, error);
+    }
+};
+
+/**
+ * Emails a password reset link if the address belongs to an active account.
+ * Always resolves the same way, doing the same work before it does, so callers
+ * can't probe for registered emails; the email is sent in the background.
+ */
+export const requestPasswordReset = async (email: string) => {
+    const token = generateOneTimeToken();
+    const { count } = await prisma.user.updateMany({
+        where: { email, isActive: true },
+        data: {
+            passwordResetToken: hashToken(token),
+            passwordResetExpires: minutesFromNow(PASSWORD_RESET_TTL_MINUTES),
+        },
+    });
+
+    if (count) void sendPasswordResetEmail(email, token);
+};
+
+const invalidResetLink = () =>
+    new AppError(
+        "Password reset link is invalid or has expired",
+        StatusCodes.BAD_REQUEST
+    );
+
+/**
+ * Sets a new password using a reset token. The token is cleared so it can't be
+ * reused, and every refresh token is revoked to sign out existing sessions.
+ */
+export const confirmPasswordReset = async (token: string, password: string) => {
+    const tokenHash = hashToken(token);
+    const user = await prisma.user.findUnique({
+        where: { passwordResetToken: tokenHash },
+    });
+
+    if (
+        !user ||
+        !user.passwordResetExpires ||
+        user.passwordResetExpires < new Date()
+    ) {
+        throw invalidResetLink();
+    }
+
+    const hashedPassword = await bcrypt.hash(password, BCRYPT_SALT_ROUNDS);
+    await prisma.$transaction(async (tx) => {
+        // Consumes the token only if no concurrent request has used it since
+        const { count } = await tx.user.updateMany({
+            where: {
+                id: user.id,
+                passwordResetToken: tokenHash,
+                passwordResetExpires: { gt: new Date() },
+            },
+            data: {
+                password: hashedPassword,
+                passwordResetToken: null,
+                passwordResetExpires: null,
+            },
+        });
+        if (count !== 1) throw invalidResetLink();
+
+        await tx.refreshToken.updateMany({
+            where: { userId: user.id, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    });
+};
+
+/** Emails a fresh verification link, replacing any previously issued one */
+export const sendEmailVerification = async (userId: number) => {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+        throw new AppError("User not found", StatusCodes.NOT_FOUND);
+    }
+    if (user.isEmailVerified) {
+        throw new AppError(
+            "Email address is already verified",
+            StatusCodes.CONFLICT
+        );
+    }
+
+    const token = generateOneTimeToken();
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            emailVerificationToken: hashToken(token),
+            emailVerificationExpires: minutesFromNow(
+                EMAIL_VERIFICATION_TTL_MINUTES
+            ),
+        },
+    });
+
+    await deliverMail({
+        to: user.email,
+        ...emailVerificationEmail({
+            name: user.firstName ?? user.username,
+            url: `${CLIENT_URL}/verify-email?token=${token}`,
+            expiresInMinutes: EMAIL_VERIFICATION_TTL_MINUTES,
+        }),
+    });
+};
+
+export const verifyEmail = async (token: string) => {
+    // A single conditional update, so a link can't be used twice concurrently
+    const { count } = await prisma.user.updateMany({
+        where: {
+            emailVerificationToken: hashToken(token),
+            emailVerificationExpires: { gt: new Date() },
+        },
+        data: {
+            isEmailVerified: true,
+            emailVerificationToken: null,
+            emailVerificationExpires: null,
+        },
+    });
+
+    if (count !== 1) {
+        throw new AppError(
+            "Verification link is invalid or has expired",
+            StatusCodes.BAD_REQUEST
+        );
+    }
+};
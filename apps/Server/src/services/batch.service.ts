@@ -0,0 +1,221 @@
+import { StatusCodes } from "http-status-codes";
+import type { ExpiringBatchesQuery, WriteOffExpiredInput } from "shared";
+import prisma from "../config/prisma.js";
+import AppError from "../utils/AppError.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import { lockProducts, releaseBackorders } from "./fulfillment.service.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stock of batches expiring within `days`, per batch and warehouse, soonest
+ * first. Already expired batches that still hold stock are included.
+ */
+export const getExpiringBatches = async ({
+    days,
+    warehouseId,
+    productId,
+}: ExpiringBatchesQuery) => {
+    const now = new Date();
+    const rows = await prisma.inventoryStockLocation.findMany({
+        where: {
+            productId,
+            quantity: { gt: 0 },
+            batch: {
+                expiryDate: { lte: new Date(now.getTime() + days * DAY_MS) },
+            },
+            ...(warehouseId && { warehouseLocation: { warehouseId } }),
+        },
+        include: {
+            product: { select: { id: true, name: true, sku: true } },
+            batch: {
+                select: { id: true, batchNumber: true, expiryDate: true },
+            },
+            warehouseLocation: {
+                select: { warehouse: { select: { id: true, name: true } } },
+            },
+        },
+        orderBy: [{ batch: { expiryDate: "asc" } }, { id: "asc" }],
+    });
+
+    const grouped = new Map<
+        string,
+        Pick<(typeof rows)[number], "product"> & {
+            batch: NonNullable<(typeof rows)[number]["batch"]>;
+            warehouse: { id: number; name: string };
+            quantity: number;
+        }
+    >();
+    for (const row of rows) {
+        const { warehouse } = row.warehouseLocation;
+        const key = `${row.batchId}:${warehouse.id}`;
+        const entry = grouped.get(key) ?? {
+            product: row.product,
+            batch: row.batch!,
+            warehouse,
+            quantity: 0,
+        };
+        entry.quantity += row.quantity;
+        grouped.set(key, entry);
+    }
+
+    return [...grouped.values()].map((entry) => {
+        const daysUntilExpiry = Math.ceil(
+            (entry.batch.expiryDate!.getTime() - now.getTime()) / DAY_MS
+        );
+        return { ...entry, daysUntilExpiry, isExpired: daysUntilExpiry <= 0 };
+    });
+};
+
+/**
+ * Writes off all stock of expired batches in a warehouse: one `EXPIRY` stock
+ * adjustment and `ADJUSTMENT_REMOVE` movement per stock row. Allocations
+ * holding the expired stock are dropped and their lines re-allocated from
+ * other stock, or backordered.
+ */
+export const writeOffExpiredStock = (
+    { warehouseId, batchIds, notes }: WriteOffExpiredInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        const now = new Date();
+
+        if (batchIds) {
+            const batches = await tx.batch.findMany({
+                where: { id: { in: batchIds } },
+                select: { id: true, batchNumber: true, expiryDate: true },
+            });
+            for (const batchId of batchIds) {
+                const batch = batches.find((b) => b.id === batchId);
+                if (!batch) {
+                    throw new AppError(
+                        `Batch ${batchId} not found`,
+                        StatusCodes.NOT_FOUND
+                    );
+                }
+                if (!batch.expiryDate || batch.expiryDate > now) {
+                    throw new AppError(
+                        `Batch ${batch.batchNumber} has not expired`,
+                        StatusCodes.BAD_REQUEST
+                    );
+                }
+            }
+        }
+
+        const where = {
+            quantity: { gt: 0 },
+            batch: { expiryDate: { lte: now } },
+            ...(batchIds && { batchId: { in: batchIds } }),
+            warehouseLocation: { warehouseId },
+        };
+
+        // Allocations are about to change, so lock the products before reading
+        const candidates = await tx.inventoryStockLocation.findMany({
+            where,
+            select: { productId: true },
+        });
+        await lockProducts(
+            tx,
+            candidates.map((c) => c.productId)
+        );
+
+        const rows = await tx.inventoryStockLocation.findMany({
+            where,
+            include: {
+                batch: { select: { batchNumber: true } },
+                product: { select: { sku: true, isTrackedBySerial: true } },
+                allocations: { select: { id: true, salesOrderItemId: true } },
+            },
+            orderBy: { id: "asc" },
+        });
+
+        const allocations = rows.flatMap((row) => row.allocations);
+        if (allocations.length) {
+            await tx.stockAllocation.deleteMany({
+                where: { id: { in: allocations.map((a) => a.id) } },
+            });
+            await tx.salesOrderItem.updateMany({
+                where: {
+                    id: { in: allocations.map((a) => a.salesOrderItemId) },
+                },
+                data: { isBackordered: true },
+            });
+        }
+
+        const movements: StockMovement[] = [];
+        const adjustmentIds: number[] = [];
+        for (const row of rows) {
+            const adjustment = await tx.stockAdjustment.create({
+                data: {
+                    productId: row.productId,
+                    warehouseLocationId: row.warehouseLocationId,
+                    adjustmentQuantity: -row.quantity,
+                    reason: "EXPIRY",
+                    notes: notes ?? `Batch ${row.batch!.batchNumber} expired`,
+                    processedByUserId: userId,
+                },
+            });
+            adjustmentIds.push(adjustment.id);
+            const movement: StockMovement = {
+                productId: row.productId,
+                warehouseLocationId: row.warehouseLocationId,
+                batchId: row.batchId,
+                quantity: row.quantity,
+                transactionType: "ADJUSTMENT_REMOVE",
+                notes: adjustment.notes,
+                source: { stockAdjustmentId: adjustment.id },
+            };
+            if (!row.product.isTrackedBySerial) {
+                movements.push(movement);
+                continue;
+            }
+
+            // Serials don't carry their batch; the ledger entries that
+            // brought them in do
+            const serials = await tx.serialNumber.findMany({
+                where: {
+                    productId: row.productId,
+                    currentLocationId: row.warehouseLocationId,
+                    inventoryTransactions: { some: { batchId: row.batchId } },
+                },
+                select: { id: true },
+                take: row.quantity,
+            });
+            if (serials.length < row.quantity) {
+                throw new AppError(
+                    `Found ${serials.length} of ${row.quantity} expired serialised units of ` +
+                        `product ${row.product.sku} at location ${row.warehouseLocationId}`,
+                    StatusCodes.CONFLICT
+                );
+            }
+            for (const serial of serials) {
+                movements.push({
+                    ...movement,
+                    quantity: 1,
+                    serialNumberId: serial.id,
+                });
+            }
+        }
+
+        if (movements.length) {
+            await postStockMovements(movements, { userId, tx });
+        }
+        if (allocations.length) {
+            await releaseBackorders(
+                tx,
+                rows
+                    .filter((row) => row.allocations.length)
+                    .map((row) => row.productId),
+                userId
+            );
+        }
+
+        return tx.stockAdjustment.findMany({
+            where: { id: { in: adjustmentIds } },
+            include: {
+                product: { select: { id: true, name: true, sku: true } },
+                warehouseLocation: { select: { id: true, code: true } },
+            },
+            orderBy: { id: "asc" },
+        });
+    });
@@ -0,0 +1,26 @@
+import type { CreateCategoryInput, UpdateCategoryInput } from "shared";
+import prisma from "../config/prisma.js";
+
+const categoryInclude = { _count: { select: { products: true } } } as const;
+
+export const listCategories = () =>
+    prisma.category.findMany({
+        include: categoryInclude,
+        orderBy: { name: "asc" },
+    });
+
+export const getCategory = (id: number) =>
+    prisma.category.findUniqueOrThrow({
+        where: { id },
+        include: categoryInclude,
+    });
+
+export const createCategory = (data: CreateCategoryInput) =>
+    prisma.category.create({ data, include: categoryInclude });
+
+export const updateCategory = (id: number, data: UpdateCategoryInput) =>
+    prisma.category.update({ where: { id }, data, include: categoryInclude });
+
+/** Fails with a foreign key conflict while products still use the category */
+export const deleteCategory = (id: number) =>
+    prisma.category.delete({ where: { id } });
@@ -0,0 +1,17 @@
+import prisma from "../config/prisma.js";
+
+export const listCustomers = () =>
+    prisma.customer.findMany({
+        select: {
+            id: true,
+            name: true,
+            accountNumber: true,
+            contactName: true,
+            contactEmail: true,
+            contactPhone: true,
+            defaultShippingAddress: true,
+            defaultBillingAddress: true,
+            taxExempt: true,
+        },
+        orderBy: { name: "asc" },
+    });
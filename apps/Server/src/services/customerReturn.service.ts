@@ -0,0 +1,600 @@
+import {
+    CustomerReturnStatus,
+    Prisma,
+    ReturnedItemCondition,
+} from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import {
+    calculateReturnCredit,
+    type CompleteCustomerReturnInput,
+    type CreateCustomerReturnInput,
+    type InspectCustomerReturnInput,
+} from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListCustomerReturnsQuery } from "../schemas/customerReturn.schema.js";
+import AppError from "../utils/AppError.js";
+import { formatDocumentNumber } from "../utils/documentNumber.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import { lockProducts, releaseBackorders } from "./fulfillment.service.js";
+import {
+    assertLocationInWarehouse,
+    getDefaultLocation,
+} from "./warehouse.service.js";
+
+export const customerReturnDetailInclude = {
+    customer: { select: { id: true, name: true } },
+    salesOrder: { select: { id: true, orderDate: true, status: true } },
+    processedByUser: { select: { id: true, username: true } },
+    items: {
+        include: {
+            product: { select: { id: true, name: true, sku: true } },
+            restockLocation: {
+                select: {
+                    id: true,
+                    code: true,
+                    warehouseId: true,
+                    isQuarantine: true,
+                },
+            },
+        },
+        orderBy: { id: "asc" },
+    },
+} satisfies Prisma.CustomerReturnInclude;
+
+const COMPLETABLE_STATUSES: CustomerReturnStatus[] = ["RECEIVED", "PROCESSING"];
+const CANCELLABLE_STATUSES: CustomerReturnStatus[] = ["PENDING", "RECEIVED"];
+
+/** Conditions whose goods must not go back into sellable stock */
+const QUARANTINE_CONDITIONS: ReturnedItemCondition[] = [
+    "QUARANTINED",
+    "DAMAGED_REQUIRES_REPAIR",
+    "UNSELLABLE_DISPOSE",
+];
+
+const lockReturn = (tx: TransactionClient, id: number) =>
+    tx.$executeRaw`SELECT id FROM "CustomerReturn" WHERE id = ${id} FOR UPDATE`;
+
+const assertStatus = (
+    status: CustomerReturnStatus,
+    allowed: CustomerReturnStatus[],
+    action: string
+) => {
+    if (!allowed.includes(status)) {
+        throw new AppError(
+            `Cannot ${action} a customer return with status ${status}`,
+            StatusCodes.CONFLICT
+        );
+    }
+};
+
+/** Quantity of each sales order item already claimed by returns that haven't been cancelled */
+const getReturnedQuantities = async (
+    tx: TransactionClient,
+    salesOrderItemIds: number[]
+) => {
+    const rows = await tx.customerReturnItem.groupBy({
+        by: ["originalSalesOrderItemId"],
+        where: {
+            originalSalesOrderItemId: { in: salesOrderItemIds },
+            customerReturn: { status: { not: "CANCELLED" } },
+        },
+        _sum: { quantityReturned: true },
+    });
+    return new Map(
+        rows.map((row) => [
+            row.originalSalesOrderItemId!,
+            row._sum.quantityReturned ?? 0,
+        ])
+    );
+};
+
+export const listCustomerReturns = async (query: ListCustomerReturnsQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.customerReturn.findMany({
+                ...args,
+                include: {
+                    customer: { select: { id: true, name: true } },
+                    salesOrder: {
+                        select: { id: true, orderDate: true, status: true },
+                    },
+                    _count: { select: { items: true } },
+                },
+            }),
+        count: (args) => prisma.customerReturn.count(args),
+    });
+
+    return { customerReturns: items, ...meta };
+};
+
+export const getCustomerReturn = (id: number) =>
+    prisma.customerReturn.findUniqueOrThrow({
+        where: { id },
+        include: customerReturnDetailInclude,
+    });
+
+/**
+ * Opens an RMA. Items returned against a sales order must reference one of
+ * its lines, and the total returned per line across open returns can't exceed
+ * what was shipped on it.
+ */
+export const createCustomerReturn = ({
+    items,
+    ...customerReturn
+}: CreateCustomerReturnInput) =>
+    prisma.$transaction(async (tx) => {
+        const { originalSalesOrderId, customerId } = customerReturn;
+
+        if (originalSalesOrderId) {
+            // Serialise returns against the same order so the shipped
+            // quantity check can't be raced
+            await tx.$executeRaw`SELECT id FROM "SalesOrder" WHERE id = ${originalSalesOrderId} FOR UPDATE`;
+            const order = await tx.salesOrder.findUniqueOrThrow({
+                where: { id: originalSalesOrderId },
+                include: { items: true },
+            });
+            if (order.customerId !== customerId) {
+                throw new AppError(
+                    `Sales order ${order.id} belongs to a different customer`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+
+            const returned = await getReturnedQuantities(
+                tx,
+                order.items.map((i) => i.id)
+            );
+            const requested = new Map<number, number>();
+
+            for (const item of items) {
+                const orderItem = order.items.find(
+                    (i) => i.id === item.originalSalesOrderItemId
+                );
+                if (!orderItem) {
+                    throw new AppError(
+                        "Every returned item must reference a line of the original sales order",
+                        StatusCodes.BAD_REQUEST
+                    );
+                }
+                if (orderItem.productId !== item.productId) {
+                    throw new AppError(
+                        `Sales order item ${orderItem.id} is not for product ${item.productId}`,
+                        StatusCodes.BAD_REQUEST
+                    );
+                }
+
+                const total =
+                    (requested.get(orderItem.id) ?? 0) + item.quantityReturned;
+                requested.set(orderItem.id, total);
+                const returnable =
+                    orderItem.quantityShipped -
+                    (returned.get(orderItem.id) ?? 0);
+                if (total > returnable) {
+                    throw new AppError(
+                        `Cannot return ${total} of sales order item ${orderItem.id}: ` +
+                            `only ${returnable} shipped and not yet returned`,
+                        StatusCodes.BAD_REQUEST
+                    );
+                }
+            }
+        } else if (items.some((item) => item.originalSalesOrderItemId)) {
+            throw new AppError(
+                "originalSalesOrderId is required when items reference sales order lines",
+                StatusCodes.BAD_REQUEST
+            );
+        }
+
+        const serialised = await tx.product.findMany({
+            where: {
+                id: { in: items.map((item) => item.productId) },
+                isTrackedBySerial: true,
+            },
+            select: { id: true, sku: true },
+        });
+        for (const product of serialised) {
+            if (
+                items.some(
+                    (item) =>
+                        item.productId === product.id && !item.serialNumbers
+                )
+            ) {
+                throw new AppError(
+                    `Product ${product.sku} is tracked by serial number; list the returned serials`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+        }
+
+        const created = await tx.customerReturn.create({
+            data: { ...customerReturn, status: "PENDING" },
+        });
+        await tx.customerReturnItem.createMany({
+            data: items.map((item) => ({
+                ...item,
+                customerReturnId: created.id,
+            })),
+        });
+
+        return tx.customerReturn.update({
+            where: { id: created.id },
+            data: { returnNumber: formatDocumentNumber("RMA", created.id) },
+            include: customerReturnDetailInclude,
+        });
+    });
+
+/** Marks the goods as physically received back; nothing is posted until completion */
+export const receiveCustomerReturn = (id: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockReturn(tx, id);
+        const customerReturn = await tx.customerReturn.findUniqueOrThrow({
+            where: { id },
+        });
+        assertStatus(customerReturn.status, ["PENDING"], "receive");
+
+        return tx.customerReturn.update({
+            where: { id },
+            data: { status: "RECEIVED" },
+            include: customerReturnDetailInclude,
+        });
+    });
+
+/** Records inspection results per item and moves the return to `PROCESSING` */
+export const inspectCustomerReturn = (
+    id: number,
+    input: InspectCustomerReturnInput
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockReturn(tx, id);
+        const customerReturn = await tx.customerReturn.findUniqueOrThrow({
+            where: { id },
+            include: { items: true },
+        });
+        assertStatus(customerReturn.status, COMPLETABLE_STATUSES, "inspect");
+
+        for (const { customerReturnItemId, ...data } of input.items) {
+            if (
+                !customerReturn.items.some((i) => i.id === customerReturnItemId)
+            ) {
+                throw new AppError(
+                    `Item ${customerReturnItemId} does not belong to customer return ${id}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+            await tx.customerReturnItem.update({
+                where: { id: customerReturnItemId },
+                data,
+            });
+        }
+
+        return tx.customerReturn.update({
+            where: { id },
+            data: { status: "PROCESSING" },
+            include: customerReturnDetailInclude,
+        });
+    });
+
+/**
+ * Completes a return and posts its stock by item condition:
+ *
+ * - `SELLABLE` goes back into the restock location, or the warehouse's default
+ *   receiving location, and can release backorders.
+ * - `QUARANTINED` and `DAMAGED_REQUIRES_REPAIR` go into a quarantine location,
+ *   where allocation never picks them up.
+ * - `UNSELLABLE_DISPOSE` is received into quarantine and written off straight
+ *   away with a `DAMAGE` stock adjustment, so the ledger shows both steps.
+ *
+ * Posting flips returned serials to `RETURNED` (then `SCRAPPED` when disposed),
+ * and serials must have shipped on the original order line. The credit
+ * is the returned share of each original line's total price, less the line's
+ * share of the order discount.
+ */
+export const completeCustomerReturn = (
+    id: number,
+    input: CompleteCustomerReturnInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockReturn(tx, id);
+        const customerReturn = await tx.customerReturn.findUniqueOrThrow({
+            where: { id },
+            include: {
+                items: {
+                    include: {
+                        salesOrderItem: {
+                            include: {
+                                salesOrder: {
+                                    select: {
+                                        subTotal: true,
+                                        taxAmount: true,
+                                        discountAmount: true,
+                                    },
+                                },
+                            },
+                        },
+                        restockLocation: true,
+                    },
+                },
+            },
+        });
+        assertStatus(customerReturn.status, COMPLETABLE_STATUSES, "complete");
+
+        const defaultLocations = new Map<string, number>();
+        const resolveDefault = async (purpose: "receiving" | "quarantine") => {
+            if (!input.warehouseId) {
+                throw new AppError(
+                    "warehouseId is required for items without a suitable restock location",
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+            let locationId = defaultLocations.get(purpose);
+            if (!locationId) {
+                locationId = (
+                    await getDefaultLocation(input.warehouseId, purpose, tx)
+                ).id;
+                defaultLocations.set(purpose, locationId);
+            }
+            return locationId;
+        };
+
+        const receipts: StockMovement[] = [];
+        const disposals: StockMovement[] = [];
+        const restockedProductIds: number[] = [];
+        let creditAmount = 0;
+
+        for (const item of customerReturn.items) {
+            const quarantine = QUARANTINE_CONDITIONS.includes(item.condition);
+            const restock = item.restockLocation;
+
+            let warehouseLocationId: number;
+            if (restock && restock.isQuarantine === quarantine) {
+                warehouseLocationId = restock.id;
+                if (input.warehouseId) {
+                    await assertLocationInWarehouse(
+                        restock.id,
+                        input.warehouseId,
+                        tx
+                    );
+                }
+            } else {
+                warehouseLocationId = await resolveDefault(
+                    quarantine ? "quarantine" : "receiving"
+                );
+            }
+
+            // Put batch-tracked goods back into the batch they shipped from
+            const lastShipment = item.originalSalesOrderItemId
+                ? await tx.inventoryTransaction.findFirst({
+                      where: {
+                          salesOrderItemId: item.originalSalesOrderItemId,
+                          transactionType: "SHIPMENT_SALES",
+                      },
+                      orderBy: { id: "desc" },
+                      select: { batchId: true },
+                  })
+                : null;
+
+            const base = {
+                productId: item.productId,
+                warehouseLocationId,
+                batchId: lastShipment?.batchId,
+                source: { customerReturnItemId: item.id },
+            };
+            const lines: StockMovement[] = [];
+
+            if (item.serialNumbers.length) {
+                const serials = await tx.serialNumber.findMany({
+                    where: {
+                        productId: item.productId,
+                        serialNumber: { in: item.serialNumbers },
+                    },
+                });
+                const missing = item.serialNumbers.filter(
+                    (s) => !serials.some((serial) => serial.serialNumber === s)
+                );
+                if (missing.length) {
+                    throw new AppError(
+                        `Unknown serial number(s) for product ${
+                            item.productId
+                        }: ${missing.join(", ")}`,
+                        StatusCodes.BAD_REQUEST
+                    );
+                }
+
+                // Serials returned against an order must have shipped on it
+                const shipped = item.originalSalesOrderItemId
+                    ? await tx.inventoryTransaction.findMany({
+                          where: {
+                              salesOrderItemId: item.originalSalesOrderItemId,
+                              transactionType: "SHIPMENT_SALES",
+                              serialNumberId: { in: serials.map((s) => s.id) },
+                          },
+                          select: { serialNumberId: true, batchId: true },
+                      })
+                    : null;
+
+                for (const serial of serials) {
+                    const shipment = shipped?.find(
+                        (t) => t.serialNumberId === serial.id
+                    );
+                    if (shipped && !shipment) {
+                        throw new AppError(
+                            `Serial ${serial.serialNumber} was not shipped on sales order item ${item.originalSalesOrderItemId}`,
+                            StatusCodes.BAD_REQUEST
+                        );
+                    }
+                    lines.push({
+                        ...base,
+                        batchId: shipment?.batchId ?? base.batchId,
+                        serialNumberId: serial.id,
+                        quantity: 1,
+                        transactionType: "RETURN_CUSTOMER",
+                    });
+                }
+            } else {
+                lines.push({
+                    ...base,
+                    quantity: item.quantityReturned,
+                    transactionType: "RETURN_CUSTOMER",
+                });
+            }
+
+            receipts.push(...lines);
+            if (item.condition === "UNSELLABLE_DISPOSE") {
+                disposals.push(
+                    ...lines.map((line) => ({
+                        ...line,
+                        transactionType: "ADJUSTMENT_REMOVE" as const,
+                        notes: item.notes ?? undefined,
+                    }))
+                );
+            } else if (!quarantine) {
+                restockedProductIds.push(item.productId);
+            }
+
+            const orderItem = item.salesOrderItem;
+            if (orderItem) {
+                const { salesOrder } = orderItem;
+                creditAmount += calculateReturnCredit(
+                    {
+                        quantity: orderItem.quantityOrdered,
+                        total: orderItem.totalPrice ?? 0,
+                    },
+                    item.quantityReturned,
+                    {
+                        subTotal: salesOrder.subTotal ?? 0,
+                        taxAmount: salesOrder.taxAmount ?? 0,
+                        discountAmount: salesOrder.discountAmount,
+                    }
+                );
+            }
+        }
+
+        await lockProducts(
+            tx,
+            receipts.map((m) => m.productId)
+        );
+        await postStockMovements(receipts, { userId, tx });
+
+        if (disposals.length) {
+            const writeOffs: StockMovement[] = [];
+            for (const disposal of disposals) {
+                const adjustment = await tx.stockAdjustment.create({
+                    data: {
+                        productId: disposal.productId,
+                        warehouseLocationId: disposal.warehouseLocationId,
+                        adjustmentQuantity: -disposal.quantity,
+                        reason: "DAMAGE",
+                        notes:
+                            disposal.notes ??
+                            `Disposed on customer return ${customerReturn.returnNumber}`,
+                        processedByUserId: userId,
+                    },
+                });
+                writeOffs.push({
+                    ...disposal,
+                    notes: adjustment.notes,
+                    source: {
+                        ...disposal.source,
+                        stockAdjustmentId: adjustment.id,
+                    },
+                });
+            }
+            await postStockMovements(writeOffs, { userId, tx });
+        }
+
+        if (restockedProductIds.length) {
+            await releaseBackorders(tx, restockedProductIds, userId);
+        }
+
+        if (customerReturn.originalSalesOrderId) {
+            await markOrderReturned(
+                tx,
+                customerReturn.originalSalesOrderId,
+                id,
+                userId
+            );
+        }
+
+        return tx.customerReturn.update({
+            where: { id },
+            data: {
+                status: "COMPLETED",
+                creditAmount,
+                processedByUserId: userId,
+                processedAt: new Date(),
+            },
+            include: customerReturnDetailInclude,
+        });
+    });
+
+/**
+ * Logs the return on the sales order and moves the order to `RETURNED` once
+ * everything shipped on it has come back through completed returns.
+ */
+const markOrderReturned = async (
+    tx: TransactionClient,
+    salesOrderId: number,
+    customerReturnId: number,
+    userId: number
+) => {
+    const order = await tx.salesOrder.findUniqueOrThrow({
+        where: { id: salesOrderId },
+        include: { items: true },
+    });
+    const completed = await tx.customerReturnItem.groupBy({
+        by: ["originalSalesOrderItemId"],
+        where: {
+            originalSalesOrderItemId: { in: order.items.map((i) => i.id) },
+            customerReturn: {
+                OR: [{ status: "COMPLETED" }, { id: customerReturnId }],
+            },
+        },
+        _sum: { quantityReturned: true },
+    });
+    const fullyReturned =
+        order.items.some((i) => i.quantityShipped > 0) &&
+        order.items.every(
+            (item) =>
+                (completed.find((c) => c.originalSalesOrderItemId === item.id)
+                    ?._sum.quantityReturned ?? 0) >= item.quantityShipped
+        );
+
+    if (fullyReturned) {
+        await tx.salesOrder.update({
+            where: { id: salesOrderId },
+            data: { status: "RETURNED" },
+        });
+    }
+    await tx.salesOrderEvent.create({
+        data: {
+            salesOrderId,
+            userId,
+            eventType: "RETURN_COMPLETED",
+            details: `Customer return ${formatDocumentNumber(
+                "RMA",
+                customerReturnId
+            )} completed${fullyReturned ? ", order fully returned" : ""}`,
+        },
+    });
+};
+
+/** Cancels a return before any stock has been posted for it */
+export const cancelCustomerReturn = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockReturn(tx, id);
+        const customerReturn = await tx.customerReturn.findUniqueOrThrow({
+            where: { id },
+        });
+        assertStatus(customerReturn.status, CANCELLABLE_STATUSES, "cancel");
+
+        return tx.customerReturn.update({
+            where: { id },
+            data: {
+                status: "CANCELLED",
+                processedByUserId: userId,
+                processedAt: new Date(),
+            },
+            include: customerReturnDetailInclude,
+        });
+    });
@@ -0,0 +1,653 @@
+import { CycleCountStatus, Prisma } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import type { CreateCycleCountInput, RecordCountsInput } from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListCycleCountsQuery } from "../schemas/cycleCount.schema.js";
+import { CYCLE_COUNT_APPROVAL_THRESHOLD } from "../config/inventory.js";
+import AppError from "../utils/AppError.js";
+import { formatDocumentNumber } from "../utils/documentNumber.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import { notifyTasksAssigned } from "./notification.service.js";
+import {
+    lockProducts,
+    releaseBackorders,
+    trimAllocations,
+} from "./fulfillment.service.js";
+
+const lineInclude = {
+    product: {
+        select: { id: true, name: true, sku: true, isTrackedBySerial: true },
+    },
+    warehouseLocation: { select: { id: true, code: true } },
+    batch: { select: { id: true, batchNumber: true, expiryDate: true } },
+    countedByUser: { select: { id: true, username: true } },
+} satisfies Prisma.CycleCountLineInclude;
+
+export const cycleCountDetailInclude = {
+    warehouse: { select: { id: true, name: true } },
+    category: { select: { id: true, name: true } },
+    createdByUser: { select: { id: true, username: true } },
+    approvedByUser: { select: { id: true, username: true } },
+    tasks: {
+        select: {
+            id: true,
+            status: true,
+            assignedToUser: { select: { id: true, username: true } },
+        },
+        orderBy: { id: "asc" },
+    },
+    lines: {
+        include: lineInclude,
+        orderBy: [{ warehouseLocationId: "asc" }, { id: "asc" }],
+    },
+} satisfies Prisma.CycleCountInclude;
+
+const lockCycleCount = (tx: TransactionClient, id: number) =>
+    tx.$executeRaw`SELECT id FROM "CycleCount" WHERE id = ${id} FOR UPDATE`;
+
+const assertStatus = (
+    status: CycleCountStatus,
+    allowed: CycleCountStatus[],
+    action: string
+) => {
+    if (!allowed.includes(status)) {
+        throw new AppError(
+            `Cannot ${action} a cycle count with status ${status}`,
+            StatusCodes.CONFLICT
+        );
+    }
+};
+
+/** Stock rows and new lines a session may cover */
+const scopeWhere = (session: {
+    warehouseId: number;
+    locationIds: number[];
+    categoryId: number | null;
+}) => ({
+    warehouseLocation: {
+        warehouseId: session.warehouseId,
+        ...(session.locationIds.length && {
+            id: { in: session.locationIds },
+        }),
+    },
+    ...(session.categoryId && {
+        product: { categoryId: session.categoryId },
+    }),
+});
+
+export const listCycleCounts = async (query: ListCycleCountsQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.cycleCount.findMany({
+                ...args,
+                include: {
+                    warehouse: { select: { id: true, name: true } },
+                    category: { select: { id: true, name: true } },
+                    _count: { select: { lines: true } },
+                },
+            }),
+        count: (args) => prisma.cycleCount.count(args),
+    });
+
+    return { cycleCounts: items, ...meta };
+};
+
+/** Full session with expected quantities and variances, for supervisors */
+export const getCycleCount = (id: number) =>
+    prisma.cycleCount.findUniqueOrThrow({
+        where: { id },
+        include: cycleCountDetailInclude,
+    });
+
+/**
+ * The lines assigned to a counter. Counts are blind: expected quantities,
+ * movements and variances are left out.
+ */
+export const getCountSheet = async (
+    id: number,
+    userId: number,
+    db: TransactionClient = prisma
+) => {
+    const session = await db.cycleCount.findUniqueOrThrow({
+        where: { id },
+        select: { id: true, countNumber: true, status: true },
+    });
+    const lines = await db.cycleCountLine.findMany({
+        where: { cycleCountId: id, task: { assignedTo: userId } },
+        select: {
+            id: true,
+            countedQuantity: true,
+            countedSerials: true,
+            countedAt: true,
+            product: lineInclude.product,
+            warehouseLocation: lineInclude.warehouseLocation,
+            batch: lineInclude.batch,
+        },
+        orderBy: [{ warehouseLocationId: "asc" }, { id: "asc" }],
+    });
+
+    return { ...session, lines };
+};
+
+/**
+ * Starts a session: snapshots the expected quantity of every stock row in
+ * scope and shares the locations out between the assignees, one counting
+ * `Task` each, so a location is always counted by a single person.
+ */
+export const createCycleCount = async (
+    { assigneeIds, dueDate, ...input }: CreateCycleCountInput,
+    userId: number
+) => {
+    const cycleCount = await prisma.$transaction(async (tx) => {
+        if (input.locationIds) {
+            const locations = await tx.warehouseLocation.count({
+                where: {
+                    id: { in: input.locationIds },
+                    warehouseId: input.warehouseId,
+                },
+            });
+            if (locations !== new Set(input.locationIds).size) {
+                throw new AppError(
+                    `Every location must belong to warehouse ${input.warehouseId}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+        }
+
+        const counters = [...new Set(assigneeIds ?? [userId])];
+        const activeCounters = await tx.user.count({
+            where: { id: { in: counters }, isActive: true },
+        });
+        if (activeCounters !== counters.length) {
+            throw new AppError(
+                "Every assignee must be an active user",
+                StatusCodes.BAD_REQUEST
+            );
+        }
+
+        const created = await tx.cycleCount.create({
+            data: {
+                ...input,
+                approvalThreshold: CYCLE_COUNT_APPROVAL_THRESHOLD,
+                createdByUserId: userId,
+            },
+        });
+        const countNumber = formatDocumentNumber("CC", created.id);
+        const session = await tx.cycleCount.update({
+            where: { id: created.id },
+            data: { countNumber },
+        });
+
+        const stock = await tx.inventoryStockLocation.findMany({
+            where: { quantity: { not: 0 }, ...scopeWhere(session) },
+            orderBy: [{ warehouseLocationId: "asc" }, { id: "asc" }],
+        });
+        if (!stock.length) {
+            throw new AppError(
+                "There is no stock to count in this scope",
+                StatusCodes.BAD_REQUEST
+            );
+        }
+
+        const taskIds: number[] = [];
+        for (const assignedTo of counters) {
+            const task = await tx.task.create({
+                data: {
+                    type: "COUNT",
+                    title: `Count ${countNumber}`,
+                    description: session.notes,
+                    assignedTo,
+                    createdBy: userId,
+                    dueDate,
+                    warehouseId: session.warehouseId,
+                    cycleCountId: session.id,
+                },
+            });
+            taskIds.push(task.id);
+        }
+
+        const locationIds = [
+            ...new Set(stock.map((s) => s.warehouseLocationId)),
+        ];
+        await tx.cycleCountLine.createMany({
+            data: stock.map((row) => ({
+                cycleCountId: session.id,
+                taskId: taskIds[
+                    locationIds.indexOf(row.warehouseLocationId) %
+                        taskIds.length
+                ],
+                productId: row.productId,
+                warehouseLocationId: row.warehouseLocationId,
+                batchId: row.batchId,
+                expectedQuantity: row.quantity,
+            })),
+        });
+
+        return tx.cycleCount.findUniqueOrThrow({
+            where: { id: session.id },
+            include: cycleCountDetailInclude,
+        });
+    });
+
+    await notifyTasksAssigned(
+        cycleCount.tasks.map((task) => ({
+            id: task.id,
+            title: `Count ${cycleCount.countNumber}`,
+            assignedTo: task.assignedToUser?.id ?? null,
+        }))
+    );
+
+    return cycleCount;
+};
+
+/**
+ * Records counts from an assigned counter. Each count is compared with the
+ * balance at the moment it is entered rather than the snapshot, so stock that
+ * moved while the session was open is reconciled instead of overwritten: the
+ * net movement since the snapshot is kept on the line and only the difference
+ * between what was counted and the live balance becomes the variance.
+ */
+export const recordCounts = (
+    id: number,
+    { counts }: RecordCountsInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockCycleCount(tx, id);
+        const session = await tx.cycleCount.findUniqueOrThrow({
+            where: { id },
+            include: {
+                tasks: { where: { assignedTo: userId } },
+                lines: { include: { product: true } },
+            },
+        });
+        assertStatus(session.status, ["IN_PROGRESS"], "record counts on");
+
+        const [task] = session.tasks;
+        if (!task) {
+            throw new AppError(
+                `You are not assigned to count ${session.countNumber}`,
+                StatusCodes.FORBIDDEN
+            );
+        }
+        const ownTaskIds = session.tasks.map((t) => t.id);
+
+        for (const entry of counts) {
+            let line = session.lines.find((l) =>
+                entry.cycleCountLineId
+                    ? l.id === entry.cycleCountLineId
+                    : l.productId === entry.productId &&
+                      l.warehouseLocationId === entry.warehouseLocationId &&
+                      l.batchId === (entry.batchId ?? null)
+            );
+
+            if (!line && entry.cycleCountLineId) {
+                throw new AppError(
+                    `Line ${entry.cycleCountLineId} does not belong to ${session.countNumber}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+            if (line && !ownTaskIds.includes(line.taskId!)) {
+                throw new AppError(
+                    `Line ${line.id} is assigned to another counter`,
+                    StatusCodes.FORBIDDEN
+                );
+            }
+            if (!line) {
+                // Stock the snapshot didn't expect: must still be in scope
+                const inScope = await tx.warehouseLocation.count({
+                    where: {
+                        ...scopeWhere(session).warehouseLocation,
+                        id: entry.warehouseLocationId,
+                    },
+                });
+                const product = await tx.product.findUniqueOrThrow({
+                    where: { id: entry.productId },
+                });
+                if (
+                    !inScope ||
+                    (session.categoryId &&
+                        product.categoryId !== session.categoryId)
+                ) {
+                    throw new AppError(
+                        `Product ${product.sku} at location ${entry.warehouseLocationId} is outside the scope of ${session.countNumber}`,
+                        StatusCodes.BAD_REQUEST
+                    );
+                }
+                line = {
+                    ...(await tx.cycleCountLine.create({
+                        data: {
+                            cycleCountId: id,
+                            taskId: task.id,
+                            productId: product.id,
+                            warehouseLocationId: entry.warehouseLocationId!,
+                            batchId: entry.batchId,
+                            expectedQuantity: 0,
+                        },
+                    })),
+                    product,
+                };
+                session.lines.push(line);
+            }
+
+            if (line.product.isTrackedBySerial && !entry.serialNumbers) {
+                throw new AppError(
+                    `Product ${line.product.sku} is tracked by serial number; list the serials counted`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+            const countedQuantity =
+                entry.serialNumbers?.length ?? entry.countedQuantity!;
+
+            const balance = await tx.inventoryStockLocation.findFirst({
+                where: {
+                    productId: line.productId,
+                    warehouseLocationId: line.warehouseLocationId,
+                    batchId: line.batchId,
+                },
+                select: { quantity: true },
+            });
+            const onHand = balance?.quantity ?? 0;
+
+            await tx.cycleCountLine.update({
+                where: { id: line.id },
+                data: {
+                    countedQuantity,
+                    countedSerials: entry.serialNumbers ?? [],
+                    movementQuantity: onHand - line.expectedQuantity,
+                    varianceQuantity: countedQuantity - onHand,
+                    countedByUserId: userId,
+                    countedAt: new Date(),
+                },
+            });
+        }
+
+        await tx.task.updateMany({
+            where: { id: { in: ownTaskIds }, status: "PENDING" },
+            data: { status: "IN_PROGRESS" },
+        });
+
+        return getCountSheet(id, userId, tx);
+    });
+
+/**
+ * Closes counting. The absolute variance is valued at each product's average
+ * cost; sessions above their approval threshold wait for approval, the rest
+ * post their adjustments straight away.
+ */
+export const submitCycleCount = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockCycleCount(tx, id);
+        const session = await tx.cycleCount.findUniqueOrThrow({
+            where: { id },
+            include: {
+                lines: {
+                    include: { product: { select: { averageCost: true } } },
+                },
+            },
+        });
+        assertStatus(session.status, ["IN_PROGRESS"], "submit");
+
+        const uncounted = session.lines.filter(
+            (line) => line.countedQuantity === null
+        );
+        if (uncounted.length) {
+            throw new AppError(
+                `${uncounted.length} line(s) of ${session.countNumber} have not been counted`,
+                StatusCodes.BAD_REQUEST
+            );
+        }
+
+        let varianceValue = 0;
+        for (const line of session.lines) {
+            const unitCost = line.product.averageCost ?? 0;
+            varianceValue += Math.abs(line.varianceQuantity ?? 0) * unitCost;
+            await tx.cycleCountLine.update({
+                where: { id: line.id },
+                data: { unitCost },
+            });
+        }
+
+        await tx.task.updateMany({
+            where: { cycleCountId: id, status: { not: "CANCELLED" } },
+            data: { status: "COMPLETED", completedAt: new Date() },
+        });
+        await tx.cycleCount.update({
+            where: { id },
+            data: { varianceValue, submittedAt: new Date() },
+        });
+
+        if (varianceValue > session.approvalThreshold) {
+            return tx.cycleCount.update({
+                where: { id },
+                data: { status: "PENDING_APPROVAL" },
+                include: cycleCountDetailInclude,
+            });
+        }
+        return postVariances(tx, id, userId);
+    });
+
+/** Approves a session held for its variance value and posts its adjustments */
+export const approveCycleCount = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockCycleCount(tx, id);
+        const session = await tx.cycleCount.findUniqueOrThrow({
+            where: { id },
+        });
+        assertStatus(session.status, ["PENDING_APPROVAL"], "approve");
+
+        await tx.cycleCount.update({
+            where: { id },
+            data: { approvedByUserId: userId },
+        });
+        return postVariances(tx, id, userId);
+    });
+
+/** Sends a session back for recounting; existing counts are kept and can be corrected */
+export const rejectCycleCount = (id: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockCycleCount(tx, id);
+        const session = await tx.cycleCount.findUniqueOrThrow({
+            where: { id },
+        });
+        assertStatus(session.status, ["PENDING_APPROVAL"], "reject");
+
+        await tx.task.updateMany({
+            where: { cycleCountId: id, status: "COMPLETED" },
+            data: { status: "IN_PROGRESS", completedAt: null },
+        });
+        return tx.cycleCount.update({
+            where: { id },
+            data: { status: "IN_PROGRESS", submittedAt: null },
+            include: cycleCountDetailInclude,
+        });
+    });
+
+export const cancelCycleCount = (id: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockCycleCount(tx, id);
+        const session = await tx.cycleCount.findUniqueOrThrow({
+            where: { id },
+        });
+        assertStatus(
+            session.status,
+            ["IN_PROGRESS", "PENDING_APPROVAL"],
+            "cancel"
+        );
+
+        await tx.task.updateMany({
+            where: { cycleCountId: id },
+            data: { status: "CANCELLED" },
+        });
+        return tx.cycleCount.update({
+            where: { id },
+            data: { status: "CANCELLED" },
+            include: cycleCountDetailInclude,
+        });
+    });
+
+/**
+ * Posts one `CYCLE_COUNT` stock adjustment per line with a variance, applied as
+ * a delta on the live balance. Serialised lines are reconciled unit by unit:
+ * serials on hand but not counted are removed and counted serials the system
+ * didn't have there are added. Allocations the reduced stock can no longer
+ * cover are trimmed and re-allocated.
+ */
+const postVariances = async (
+    tx: TransactionClient,
+    id: number,
+    userId: number
+) => {
+    const session = await tx.cycleCount.findUniqueOrThrow({
+        where: { id },
+        include: { lines: { include: { product: true } } },
+    });
+    await lockProducts(
+        tx,
+        session.lines.map((line) => line.productId)
+    );
+
+    const notes = `Cycle count ${session.countNumber}`;
+    const movements: StockMovement[] = [];
+
+    for (const line of session.lines) {
+        const base = {
+            productId: line.productId,
+            warehouseLocationId: line.warehouseLocationId,
+            batchId: line.batchId,
+            notes,
+        };
+        const lineMovements: StockMovement[] = [];
+
+        if (line.product.isTrackedBySerial) {
+            const present = await tx.serialNumber.findMany({
+                where: {
+                    productId: line.productId,
+                    currentLocationId: line.warehouseLocationId,
+                    ...(line.batchId && {
+                        inventoryTransactions: {
+                            some: { batchId: line.batchId },
+                        },
+                    }),
+                },
+            });
+            for (const serial of present) {
+                if (!line.countedSerials.includes(serial.serialNumber)) {
+                    lineMovements.push({
+                        ...base,
+                        serialNumberId: serial.id,
+                        quantity: 1,
+                        transactionType: "ADJUSTMENT_REMOVE",
+                    });
+                }
+            }
+            for (const serialNumber of line.countedSerials) {
+                if (present.some((s) => s.serialNumber === serialNumber)) {
+                    continue;
+                }
+                const serial = await tx.serialNumber.upsert({
+                    where: {
+                        productId_serialNumber: {
+                            productId: line.productId,
+                            serialNumber,
+                        },
+                    },
+                    update: {},
+                    create: {
+                        productId: line.productId,
+                        serialNumber,
+                        status: "IN_STOCK",
+                    },
+                });
+                lineMovements.push({
+                    ...base,
+                    serialNumberId: serial.id,
+                    quantity: 1,
+                    transactionType: "ADJUSTMENT_ADD",
+                });
+            }
+        } else if (line.varianceQuantity) {
+            lineMovements.push({
+                ...base,
+                quantity: Math.abs(line.varianceQuantity),
+                transactionType:
+                    line.varianceQuantity > 0
+                        ? "ADJUSTMENT_ADD"
+                        : "ADJUSTMENT_REMOVE",
+            });
+        }
+        if (!lineMovements.length) continue;
+
+        const adjustment = await tx.stockAdjustment.create({
+            data: {
+                productId: line.productId,
+                warehouseLocationId: line.warehouseLocationId,
+                adjustmentQuantity: lineMovements.reduce(
+                    (total, m) =>
+                        total +
+                        (m.transactionType === "ADJUSTMENT_ADD"
+                            ? m.quantity
+                            : -m.quantity),
+                    0
+                ),
+                reason: "CYCLE_COUNT",
+                notes,
+                processedByUserId: userId,
+            },
+        });
+        await tx.cycleCountLine.update({
+            where: { id: line.id },
+            data: { stockAdjustmentId: adjustment.id },
+        });
+        movements.push(
+            ...lineMovements.map((m) => ({
+                ...m,
+                source: { stockAdjustmentId: adjustment.id },
+            }))
+        );
+    }
+
+    if (movements.length) {
+        await postStockMovements(movements, { userId, tx });
+
+        const reduced = await tx.inventoryStockLocation.findMany({
+            where: {
+                OR: movements
+                    .filter((m) => m.transactionType === "ADJUSTMENT_REMOVE")
+                    .map((m) => ({
+                        productId: m.productId,
+                        warehouseLocationId: m.warehouseLocationId,
+                        batchId: m.batchId ?? null,
+                    })),
+            },
+            select: { id: true },
+        });
+        const backordered = await trimAllocations(
+            tx,
+            reduced.map((row) => row.id)
+        );
+        // Found stock can cover lines that were already waiting too
+        const added = movements
+            .filter((m) => m.transactionType === "ADJUSTMENT_ADD")
+            .map((m) => m.productId);
+        if (backordered.length || added.length) {
+            await releaseBackorders(tx, [...backordered, ...added], userId);
+        }
+    }
+
+    return tx.cycleCount.update({
+        where: { id },
+        data: { status: "COMPLETED", completedAt: new Date() },
+        include: cycleCountDetailInclude,
+    });
+};
+
+/** Warehouse a session counts, for warehouse-scoped permission checks */
+export const getCycleCountWarehouseId = async (id: number) => {
+    const session = await prisma.cycleCount.findUnique({
+        where: { id },
+        select: { warehouseId: true },
+    });
+    return session?.warehouseId;
+};
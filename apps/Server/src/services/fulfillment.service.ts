@@ -0,0 +1,716 @@
+import { Prisma, SalesOrderStatus } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import type { AllocateSalesOrderInput, ShipSalesOrderInput } from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import AppError from "../utils/AppError.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import { salesOrderDetailInclude } from "./salesOrder.service.js";
+import { cancelOpenTasks, createOpenTask } from "./task.service.js";
+
+const ALLOCATABLE_STATUSES: SalesOrderStatus[] = [
+    "PENDING",
+    "PROCESSING",
+    "PARTIALLY_SHIPPED",
+];
+const SHIPPABLE_STATUSES: SalesOrderStatus[] = [
+    "PROCESSING",
+    "PARTIALLY_SHIPPED",
+];
+
+const CANCELLABLE_STATUSES: SalesOrderStatus[] = ["PENDING", "PROCESSING"];
+
+type AllocatableItem = Prisma.SalesOrderItemGetPayload<{
+    include: { allocations: true };
+}>;
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+/**
+ * Serialises allocation of the given products across orders. Uses the single-key
+ * advisory lock space, which doesn't overlap the `(product, location)` locks
+ * taken by the stock movement engine.
+ *
+ * Flows that post inbound stock and then call {@link releaseBackorders} must take
+ * these locks before posting, so every flow acquires product locks first.
+ */
+export const lockProducts = async (
+    tx: TransactionClient,
+    productIds: number[]
+) => {
+    for (const productId of [...new Set(productIds)].sort((a, b) => a - b)) {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${productId}::bigint)`;
+    }
+};
+
+const lockSalesOrder = (tx: TransactionClient, id: number) =>
+    tx.$executeRaw`SELECT id FROM "SalesOrder" WHERE id = ${id} FOR UPDATE`;
+
+/**
+ * Stock rows with unreserved quantity in first-expired-first-out order, then
+ * default picking locations first. Quarantine locations and expired batches are
+ * never included, and only picking warehouses are searched unless
+ * `pickingOnly` is false.
+ */
+export const findAvailableStock = async (
+    tx: TransactionClient,
+    productId: number,
+    {
+        warehouseId,
+        batchId,
+        pickingOnly = true,
+    }: {
+        warehouseId?: number;
+        batchId?: number | null;
+        pickingOnly?: boolean;
+    } = {}
+) => {
+    const rows = await tx.inventoryStockLocation.findMany({
+        where: {
+            productId,
+            quantity: { gt: 0 },
+            ...(batchId && { batchId }),
+            OR: [
+                { batchId: null },
+                {
+                    batch: {
+                        OR: [
+                            { expiryDate: null },
+                            { expiryDate: { gt: new Date() } },
+                        ],
+                    },
+                },
+            ],
+            warehouseLocation: {
+                isQuarantine: false,
+                warehouse: {
+                    ...(pickingOnly && { isPickingLocation: true }),
+                    ...(warehouseId && { id: warehouseId }),
+                },
+            },
+        },
+        include: { allocations: { select: { quantity: true } } },
+        orderBy: [
+            { batch: { expiryDate: { sort: "asc", nulls: "last" } } },
+            { warehouseLocation: { isDefaultPicking: "desc" } },
+            { id: "asc" },
+        ],
+    });
+
+    return rows
+        .map((row) => ({
+            id: row.id,
+            warehouseLocationId: row.warehouseLocationId,
+            batchId: row.batchId,
+            available:
+                row.quantity - sum(row.allocations.map((a) => a.quantity)),
+        }))
+        .filter((row) => row.available > 0);
+};
+
+/** Locations an order was just allocated stock from, to be picked */
+type PickTarget = { salesOrderId: number; warehouseLocationId: number };
+
+/**
+ * Reserves stock for the unallocated remainder of a line and flags the line as
+ * backordered if it couldn't be covered. Returns the quantity still short and
+ * adds the locations it reserved from to `picks`.
+ */
+const allocateItem = async (
+    tx: TransactionClient,
+    item: AllocatableItem,
+    picks: PickTarget[],
+    warehouseId?: number
+) => {
+    let outstanding =
+        item.quantityOrdered -
+        item.quantityShipped -
+        sum(item.allocations.map((a) => a.quantity));
+
+    if (outstanding > 0) {
+        for (const stock of await findAvailableStock(tx, item.productId, {
+            warehouseId,
+        })) {
+            const quantity = Math.min(outstanding, stock.available);
+            await tx.stockAllocation.upsert({
+                where: {
+                    salesOrderItemId_inventoryStockLocationId: {
+                        salesOrderItemId: item.id,
+                        inventoryStockLocationId: stock.id,
+                    },
+                },
+                update: { quantity: { increment: quantity } },
+                create: {
+                    salesOrderItemId: item.id,
+                    inventoryStockLocationId: stock.id,
+                    quantity,
+                },
+            });
+            picks.push({
+                salesOrderId: item.salesOrderId,
+                warehouseLocationId: stock.warehouseLocationId,
+            });
+            outstanding -= quantity;
+            if (outstanding === 0) break;
+        }
+    }
+
+    const isBackordered = outstanding > 0;
+    if (isBackordered !== item.isBackordered) {
+        await tx.salesOrderItem.update({
+            where: { id: item.id },
+            data: { isBackordered },
+        });
+    }
+    return Math.max(outstanding, 0);
+};
+
+/**
+ * Opens a `PICK` task for each order in every warehouse it was just allocated
+ * stock in, unless one is already open there.
+ */
+const createPickTasks = async (
+    tx: TransactionClient,
+    picks: PickTarget[],
+    userId: number
+) => {
+    const locations = await tx.warehouseLocation.findMany({
+        where: { id: { in: picks.map((p) => p.warehouseLocationId) } },
+        select: { id: true, warehouseId: true },
+    });
+    const warehouseOf = new Map(locations.map((l) => [l.id, l.warehouseId]));
+    const targets = new Set(
+        picks.map(
+            (p) => `${p.salesOrderId}:${warehouseOf.get(p.warehouseLocationId)}`
+        )
+    );
+
+    for (const target of targets) {
+        const [salesOrderId, warehouseId] = target.split(":").map(Number);
+        await createOpenTask(tx, {
+            type: "PICK",
+            title: `Pick sales order #${salesOrderId}`,
+            warehouseId,
+            salesOrderId,
+            createdBy: userId,
+        });
+    }
+};
+
+/**
+ * Reserves stock from picking locations for every open line of a sales order
+ * and opens pick tasks where it was found. Lines that can't be covered are
+ * flagged `isBackordered` and picked up by {@link releaseBackorders} when stock
+ * arrives.
+ */
+export const allocateSalesOrder = (
+    id: number,
+    { warehouseId }: AllocateSalesOrderInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockSalesOrder(tx, id);
+        const order = await tx.salesOrder.findUniqueOrThrow({
+            where: { id },
+            include: { items: { include: { allocations: true } } },
+        });
+        if (!ALLOCATABLE_STATUSES.includes(order.status)) {
+            throw new AppError(
+                `Cannot allocate a sales order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        await lockProducts(
+            tx,
+            order.items.map((item) => item.productId)
+        );
+
+        let short = 0;
+        const picks: PickTarget[] = [];
+        for (const item of order.items) {
+            short += await allocateItem(tx, item, picks, warehouseId);
+        }
+        await createPickTasks(tx, picks, userId);
+
+        await tx.salesOrderEvent.create({
+            data: {
+                salesOrderId: id,
+                userId,
+                eventType: "ALLOCATED",
+                details: short
+                    ? `Stock allocated, ${short} unit(s) backordered`
+                    : "Stock allocated for all lines",
+            },
+        });
+
+        return tx.salesOrder.update({
+            where: { id },
+            data: order.status === "PENDING" ? { status: "PROCESSING" } : {},
+            include: salesOrderDetailInclude,
+        });
+    });
+
+/**
+ * Allocates newly arrived stock to backordered lines, oldest orders first, and
+ * opens pick tasks for it. Called inside the transaction that posted the
+ * inbound movements.
+ */
+export const releaseBackorders = async (
+    tx: TransactionClient,
+    productIds: number[],
+    userId: number
+) => {
+    const items = await tx.salesOrderItem.findMany({
+        where: {
+            productId: { in: productIds },
+            isBackordered: true,
+            salesOrder: { status: { in: ALLOCATABLE_STATUSES } },
+        },
+        include: { allocations: true },
+        orderBy: [{ salesOrder: { orderDate: "asc" } }, { id: "asc" }],
+    });
+    if (!items.length) return;
+
+    await lockProducts(
+        tx,
+        items.map((item) => item.productId)
+    );
+
+    const released = new Map<number, number>();
+    const picks: PickTarget[] = [];
+    for (const item of items) {
+        if ((await allocateItem(tx, item, picks)) === 0) {
+            released.set(
+                item.salesOrderId,
+                (released.get(item.salesOrderId) ?? 0) + 1
+            );
+        }
+    }
+    await createPickTasks(tx, picks, userId);
+
+    for (const [salesOrderId, lines] of released) {
+        await tx.salesOrderEvent.create({
+            data: {
+                salesOrderId,
+                userId,
+                eventType: "BACKORDER_RELEASED",
+                details: `${lines} backordered line(s) fully allocated`,
+            },
+        });
+    }
+};
+
+/**
+ * Shrinks allocations that no longer fit the stock rows they reserve, after a
+ * row was reduced by something other than shipping (a count variance, for
+ * instance). Newest allocations give way first and their lines are flagged as
+ * backordered; returns the affected products so the caller can
+ * {@link releaseBackorders}. Product locks must already be held.
+ */
+export const trimAllocations = async (
+    tx: TransactionClient,
+    stockLocationIds: number[]
+) => {
+    const rows = await tx.inventoryStockLocation.findMany({
+        where: { id: { in: stockLocationIds } },
+        include: { allocations: { orderBy: { id: "desc" } } },
+    });
+
+    const productIds: number[] = [];
+    for (const row of rows) {
+        let excess =
+            sum(row.allocations.map((a) => a.quantity)) -
+            Math.max(row.quantity, 0);
+        for (const allocation of row.allocations) {
+            if (excess <= 0) break;
+            const quantity = Math.min(excess, allocation.quantity);
+            if (quantity === allocation.quantity) {
+                await tx.stockAllocation.delete({
+                    where: { id: allocation.id },
+                });
+            } else {
+                await tx.stockAllocation.update({
+                    where: { id: allocation.id },
+                    data: { quantity: { decrement: quantity } },
+                });
+            }
+            await tx.salesOrderItem.update({
+                where: { id: allocation.salesOrderItemId },
+                data: { isBackordered: true },
+            });
+            productIds.push(row.productId);
+            excess -= quantity;
+        }
+    }
+    return productIds;
+};
+
+/** Allocated stock of an order grouped for picking, by warehouse and location */
+export const getPickList = async (id: number) => {
+    const order = await prisma.salesOrder.findUniqueOrThrow({
+        where: { id },
+        select: { id: true, status: true },
+    });
+
+    const allocations = await prisma.stockAllocation.findMany({
+        where: { salesOrderItem: { salesOrderId: id } },
+        include: {
+            salesOrderItem: {
+                select: {
+                    id: true,
+                    product: { select: { id: true, name: true, sku: true } },
+                },
+            },
+            stockLocation: {
+                select: {
+                    batch: {
+                        select: {
+                            id: true,
+                            batchNumber: true,
+                            expiryDate: true,
+                        },
+                    },
+                    warehouseLocation: {
+                        select: {
+                            id: true,
+                            code: true,
+                            warehouse: { select: { id: true, name: true } },
+                        },
+                    },
+                },
+            },
+        },
+        orderBy: [
+            { stockLocation: { warehouseLocation: { warehouseId: "asc" } } },
+            { stockLocation: { warehouseLocation: { code: "asc" } } },
+        ],
+    });
+
+    return {
+        salesOrderId: order.id,
+        status: order.status,
+        lines: allocations.map(({ stockLocation, salesOrderItem, ...a }) => ({
+            allocationId: a.id,
+            salesOrderItemId: salesOrderItem.id,
+            product: salesOrderItem.product,
+            warehouse: stockLocation.warehouseLocation.warehouse,
+            location: {
+                id: stockLocation.warehouseLocation.id,
+                code: stockLocation.warehouseLocation.code,
+            },
+            batch: stockLocation.batch,
+            quantity: a.quantity,
+        })),
+    };
+};
+
+/**
+ * Confirms shipment of allocated stock: consumes allocations, posts
+ * `SHIPMENT_SALES` movements, updates shipped quantities and the order status,
+ * and records the carrier and tracking number. Serialised units are shipped
+ * from the allocation at their current location.
+ */
+export const shipSalesOrder = (
+    id: number,
+    input: ShipSalesOrderInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockSalesOrder(tx, id);
+        const order = await tx.salesOrder.findUniqueOrThrow({
+            where: { id },
+            include: {
+                items: {
+                    include: {
+                        // Partial shipments consume the earliest-expiring stock first
+                        product: {
+                            select: { sku: true, isTrackedBySerial: true },
+                        },
+                        allocations: {
+                            include: { stockLocation: true },
+                            orderBy: [
+                                {
+                                    stockLocation: {
+                                        batch: {
+                                            expiryDate: {
+                                                sort: "asc",
+                                                nulls: "last",
+                                            },
+                                        },
+                                    },
+                                },
+                                { id: "asc" },
+                            ],
+                        },
+                    },
+                },
+            },
+        });
+        if (!SHIPPABLE_STATUSES.includes(order.status)) {
+            throw new AppError(
+                `Cannot ship a sales order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        const requested = new Map(
+            input.lines
+                ? input.lines.map((line) => [
+                      line.salesOrderItemId,
+                      line.quantity,
+                  ])
+                : order.items.map((item) => [
+                      item.id,
+                      sum(item.allocations.map((a) => a.quantity)),
+                  ])
+        );
+
+        await lockProducts(
+            tx,
+            order.items.map((item) => item.productId)
+        );
+
+        const movements: StockMovement[] = [];
+        const shipped = new Map<number, number>();
+
+        for (const [itemId, quantity] of requested) {
+            if (!quantity) continue;
+            const item = order.items.find((i) => i.id === itemId);
+            if (!item) {
+                throw new AppError(
+                    `Item ${itemId} does not belong to sales order ${id}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+
+            const allocated = sum(item.allocations.map((a) => a.quantity));
+            if (quantity > allocated) {
+                throw new AppError(
+                    `Cannot ship ${quantity} of item ${itemId}: only ${allocated} allocated`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+
+            const serialNumbers = input.lines?.find(
+                (line) => line.salesOrderItemId === itemId
+            )?.serialNumbers;
+            const base = {
+                productId: item.productId,
+                transactionType: "SHIPMENT_SALES" as const,
+                notes: input.notes,
+                source: { salesOrderId: id, salesOrderItemId: item.id },
+            };
+            const used = new Map<number, number>();
+            const take = (
+                allocation: (typeof item.allocations)[number],
+                quantity: number
+            ) =>
+                used.set(
+                    allocation.id,
+                    (used.get(allocation.id) ?? 0) + quantity
+                );
+
+            if (item.product.isTrackedBySerial) {
+                if (!serialNumbers) {
+                    throw new AppError(
+                        `Product ${item.product.sku} is tracked by serial number; list the serials shipped on item ${itemId}`,
+                        StatusCodes.BAD_REQUEST
+                    );
+                }
+                const serials = await tx.serialNumber.findMany({
+                    where: {
+                        productId: item.productId,
+                        serialNumber: { in: serialNumbers },
+                    },
+                });
+
+                for (const serialNumber of serialNumbers) {
+                    const serial = serials.find(
+                        (s) => s.serialNumber === serialNumber
+                    );
+                    // Returned units restocked to a sellable location can ship again
+                    const onHand =
+                        serial &&
+                        ["IN_STOCK", "RETURNED"].includes(serial.status);
+                    const allocation =
+                        onHand &&
+                        item.allocations.find(
+                            (a) =>
+                                a.stockLocation.warehouseLocationId ===
+                                    serial.currentLocationId &&
+                                (used.get(a.id) ?? 0) < a.quantity
+                        );
+                    if (!allocation) {
+                        throw new AppError(
+                            `Serial ${serialNumber} is not in stock at a location allocated to item ${itemId}`,
+                            StatusCodes.BAD_REQUEST
+                        );
+                    }
+                    take(allocation, 1);
+                    movements.push({
+                        ...base,
+                        warehouseLocationId:
+                            allocation.stockLocation.warehouseLocationId,
+                        batchId: allocation.stockLocation.batchId,
+                        serialNumberId: serial.id,
+                        quantity: 1,
+                    });
+                }
+            } else {
+                let remaining = quantity;
+                for (const allocation of item.allocations) {
+                    const portion = Math.min(remaining, allocation.quantity);
+                    take(allocation, portion);
+                    movements.push({
+                        ...base,
+                        warehouseLocationId:
+                            allocation.stockLocation.warehouseLocationId,
+                        batchId: allocation.stockLocation.batchId,
+                        quantity: portion,
+                    });
+                    remaining -= portion;
+                    if (remaining === 0) break;
+                }
+            }
+
+            for (const allocation of item.allocations) {
+                const quantity = used.get(allocation.id);
+                if (!quantity) continue;
+                if (quantity === allocation.quantity) {
+                    await tx.stockAllocation.delete({
+                        where: { id: allocation.id },
+                    });
+                } else {
+                    await tx.stockAllocation.update({
+                        where: { id: allocation.id },
+                        data: { quantity: { decrement: quantity } },
+                    });
+                }
+            }
+            shipped.set(item.id, quantity);
+        }
+
+        if (!movements.length) {
+            throw new AppError(
+                "Nothing is allocated to ship",
+                StatusCodes.BAD_REQUEST
+            );
+        }
+
+        await postStockMovements(movements, { userId, tx });
+
+        for (const [itemId, quantity] of shipped) {
+            await tx.salesOrderItem.update({
+                where: { id: itemId },
+                data: { quantityShipped: { increment: quantity } },
+            });
+        }
+
+        const fullyShipped = order.items.every(
+            (item) =>
+                item.quantityShipped + (shipped.get(item.id) ?? 0) >=
+                item.quantityOrdered
+        );
+        const status: SalesOrderStatus = fullyShipped
+            ? "SHIPPED"
+            : "PARTIALLY_SHIPPED";
+
+        await tx.salesOrderEvent.create({
+            data: {
+                salesOrderId: id,
+                userId,
+                eventType: status,
+                details:
+                    `Shipped ${sum([...shipped.values()])} unit(s)` +
+                    (input.trackingNumber
+                        ? `, tracking ${input.trackingNumber}`
+                        : "") +
+                    (input.notes ? `: ${input.notes}` : ""),
+            },
+        });
+
+        return tx.salesOrder.update({
+            where: { id },
+            data: {
+                status,
+                carrierId: input.carrierId,
+                trackingNumber: input.trackingNumber,
+            },
+            include: salesOrderDetailInclude,
+        });
+    });
+
+/**
+ * Cancels an order that hasn't shipped anything yet. Its allocations are
+ * released and handed on to backordered lines of other orders, and open pick
+ * tasks for it are cancelled.
+ */
+export const cancelSalesOrder = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockSalesOrder(tx, id);
+        const order = await tx.salesOrder.findUniqueOrThrow({
+            where: { id },
+            include: { items: { include: { allocations: true } } },
+        });
+        if (!CANCELLABLE_STATUSES.includes(order.status)) {
+            throw new AppError(
+                `Cannot cancel a sales order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        const released = order.items
+            .filter((item) => item.allocations.length)
+            .map((item) => item.productId);
+        await lockProducts(tx, released);
+
+        await tx.stockAllocation.deleteMany({
+            where: { salesOrderItem: { salesOrderId: id } },
+        });
+        await tx.salesOrderItem.updateMany({
+            where: { salesOrderId: id },
+            data: { isBackordered: false },
+        });
+        await cancelOpenTasks(tx, { salesOrderId: id });
+
+        await tx.salesOrderEvent.create({
+            data: { salesOrderId: id, userId, eventType: "CANCELLED" },
+        });
+        const cancelled = await tx.salesOrder.update({
+            where: { id },
+            data: { status: "CANCELLED" },
+            include: salesOrderDetailInclude,
+        });
+
+        if (released.length) {
+            await releaseBackorders(tx, released, userId);
+        }
+        return cancelled;
+    });
+
+/** Whether any stock is allocated to the order */
+export const hasAllocations = async (salesOrderId: number) =>
+    (await prisma.stockAllocation.count({
+        where: { salesOrderItem: { salesOrderId } },
+    })) > 0;
+
+/**
+ * Warehouse an order's allocated stock sits in, for warehouse-scoped permission
+ * checks. Returns undefined when allocations span several warehouses.
+ */
+export const getAllocationWarehouseId = async (salesOrderId: number) => {
+    const locations = await prisma.stockAllocation.findMany({
+        where: { salesOrderItem: { salesOrderId } },
+        select: {
+            stockLocation: {
+                select: {
+                    warehouseLocation: { select: { warehouseId: true } },
+                },
+            },
+        },
+    });
+    const warehouseIds = new Set(
+        locations.map((l) => l.stockLocation.warehouseLocation.warehouseId)
+    );
+    return warehouseIds.size === 1 ? [...warehouseIds][0] : undefined;
+};
@@ -0,0 +1,797 @@
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import AppError from "../utils/AppError.js";
+import { parseCsv, toCsv } from "../utils/csv.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import { lockProducts, releaseBackorders } from "./fulfillment.service.js";
+import { createCostTracker } from "./purchaseOrder.service.js";
+import {
+    customerRowSchema,
+    locationRowSchema,
+    openingStockRowSchema,
+    productRowSchema,
+    supplierRowSchema,
+    type CustomerRow,
+    type DataEntity,
+    type ImportQuery,
+    type LocationRow,
+    type OpeningStockRow,
+    type ProductRow,
+    type SupplierRow,
+} from "../schemas/importExport.schema.js";
+
+const MAX_IMPORT_ROWS = 10_000;
+
+/** Row numbers count the header as row 1, as spreadsheets do */
+export interface RowError {
+    row: number;
+    field?: string;
+    message: string;
+}
+
+interface ParsedRow<T> {
+    row: number;
+    data: T;
+}
+
+/**
+ * CSV import and export of one entity. `columns` are both the export headers
+ * and the import columns, so an export can be edited and imported again.
+ */
+interface DataHandler<T> {
+    columns: readonly string[];
+    /** Columns the import can't do without */
+    required: readonly string[];
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+    /** Upsert key; a file may mention each key once */
+    key(row: T): string;
+    /**
+     * Checks rows against the database. Returns row errors, how many rows
+     * update an existing record, and the writes to run when the import commits.
+     */
+    prepare(
+        tx: TransactionClient,
+        rows: ParsedRow<T>[]
+    ): Promise<{
+        errors: RowError[];
+        existing: number;
+        commit: (userId: number) => Promise<void>;
+    }>;
+    exportRows(): Promise<Record<string, unknown>[]>;
+}
+
+const formatDate = (date: Date | null) => date?.toISOString().slice(0, 10);
+
+const productHandler: DataHandler<ProductRow> = {
+    columns: [
+        "sku",
+        "name",
+        "description",
+        "category",
+        "unitOfMeasure",
+        "isTrackedByBatch",
+        "isTrackedBySerial",
+        "defaultSupplier",
+        "supplierSku",
+    ],
+    required: ["sku", "name", "category"],
+    schema: productRowSchema,
+    key: (row) => row.sku,
+    async prepare(tx, rows) {
+        const errors: RowError[] = [];
+        const [existing, suppliers] = await Promise.all([
+            tx.product.count({
+                where: { sku: { in: rows.map(({ data }) => data.sku) } },
+            }),
+            tx.supplier.findMany({
+                where: {
+                    name: {
+                        in: rows.flatMap(({ data }) =>
+                            data.defaultSupplier ? [data.defaultSupplier] : []
+                        ),
+                    },
+                },
+                select: { id: true, name: true },
+            }),
+        ]);
+        const supplierIds = new Map(suppliers.map((s) => [s.name, s.id]));
+        for (const { row, data } of rows) {
+            if (
+                data.defaultSupplier &&
+                !supplierIds.has(data.defaultSupplier)
+            ) {
+                errors.push({
+                    row,
+                    field: "defaultSupplier",
+                    message: `Supplier "${data.defaultSupplier}" not found`,
+                });
+            }
+        }
+
+        return {
+            errors,
+            existing,
+            async commit() {
+                // Categories are only a name, so unknown ones are created
+                await tx.category.createMany({
+                    data: [
+                        ...new Set(rows.map(({ data }) => data.category)),
+                    ].map((name) => ({ name })),
+                    skipDuplicates: true,
+                });
+                const categories = await tx.category.findMany({
+                    where: {
+                        name: { in: rows.map(({ data }) => data.category) },
+                    },
+                    select: { id: true, name: true },
+                });
+                const categoryIds = new Map(
+                    categories.map((c) => [c.name, c.id])
+                );
+
+                for (const { data } of rows) {
+                    const { category, defaultSupplier, ...fields } = data;
+                    const values = {
+                        ...fields,
+                        categoryId: categoryIds.get(category)!,
+                        defaultSupplierId: defaultSupplier
+                            ? supplierIds.get(defaultSupplier)
+                            : undefined,
+                    };
+                    await tx.product.upsert({
+                        where: { sku: data.sku },
+                        update: values,
+                        create: values,
+                    });
+                }
+            },
+        };
+    },
+    async exportRows() {
+        const products = await prisma.product.findMany({
+            include: {
+                category: { select: { name: true } },
+                defaultSupplier: { select: { name: true } },
+            },
+            orderBy: { sku: "asc" },
+        });
+        return products.map((product) => ({
+            ...product,
+            category: product.category.name,
+            defaultSupplier: product.defaultSupplier?.name,
+        }));
+    },
+};
+
+const customerHandler: DataHandler<CustomerRow> = {
+    columns: [
+        "accountNumber",
+        "name",
+        "contactName",
+        "contactEmail",
+        "contactPhone",
+        "defaultShippingAddress",
+        "defaultBillingAddress",
+        "creditLimit",
+        "paymentTerms",
+        "taxExempt",
+    ],
+    required: ["accountNumber", "name"],
+    schema: customerRowSchema,
+    key: (row) => row.accountNumber,
+    async prepare(tx, rows) {
+        const errors: RowError[] = [];
+        const [existing, emailOwners] = await Promise.all([
+            tx.customer.count({
+                where: {
+                    accountNumber: {
+                        in: rows.map(({ data }) => data.accountNumber),
+                    },
+                },
+            }),
+            tx.customer.findMany({
+                where: {
+                    contactEmail: {
+                        in: rows.flatMap(({ data }) =>
+                            data.contactEmail ? [data.contactEmail] : []
+                        ),
+                    },
+                },
+                select: { accountNumber: true, contactEmail: true },
+            }),
+        ]);
+
+        // Contact emails are unique across customers
+        const emailRows = new Map<string, number>();
+        for (const { row, data } of rows) {
+            if (!data.contactEmail) continue;
+            const owner = emailOwners.find(
+                (c) => c.contactEmail === data.contactEmail
+            );
+            const firstRow = emailRows.get(data.contactEmail);
+            if (owner && owner.accountNumber !== data.accountNumber) {
+                errors.push({
+                    row,
+                    field: "contactEmail",
+                    message: `Email is already used by customer ${
+                        owner.accountNumber ?? "without an account number"
+                    }`,
+                });
+            } else if (firstRow) {
+                errors.push({
+                    row,
+                    field: "contactEmail",
+                    message: `Email is also used on row ${firstRow}`,
+                });
+            }
+            emailRows.set(data.contactEmail, firstRow ?? row);
+        }
+
+        return {
+            errors,
+            existing,
+            async commit() {
+                for (const { data } of rows) {
+                    await tx.customer.upsert({
+                        where: { accountNumber: data.accountNumber },
+                        update: data,
+                        create: data,
+                    });
+                }
+            },
+        };
+    },
+    exportRows: () =>
+        prisma.customer.findMany({ orderBy: [{ name: "asc" }, { id: "asc" }] }),
+};
+
+const supplierHandler: DataHandler<SupplierRow> = {
+    columns: [
+        "name",
+        "contactName",
+        "contactEmail",
+        "contactPhone",
+        "address",
+        "paymentTerms",
+        "defaultCurrency",
+    ],
+    required: ["name"],
+    schema: supplierRowSchema,
+    key: (row) => row.name,
+    async prepare(tx, rows) {
+        const existing = await tx.supplier.count({
+            where: { name: { in: rows.map(({ data }) => data.name) } },
+        });
+
+        return {
+            errors: [],
+            existing,
+            async commit() {
+                for (const { data } of rows) {
+                    await tx.supplier.upsert({
+                        where: { name: data.name },
+                        update: data,
+                        create: data,
+                    });
+                }
+            },
+        };
+    },
+    exportRows: () => prisma.supplier.findMany({ orderBy: { name: "asc" } }),
+};
+
+/** Looks up warehouses by name, reporting unknown names against `field` */
+const resolveWarehouses = async (
+    tx: TransactionClient,
+    rows: ParsedRow<{ warehouse: string }>[],
+    errors: RowError[]
+) => {
+    const warehouses = await tx.warehouse.findMany({
+        where: { name: { in: rows.map(({ data }) => data.warehouse) } },
+        select: { id: true, name: true },
+    });
+    const warehouseIds = new Map(warehouses.map((w) => [w.name, w.id]));
+    for (const { row, data } of rows) {
+        if (!warehouseIds.has(data.warehouse)) {
+            errors.push({
+                row,
+                field: "warehouse",
+                message: `Warehouse "${data.warehouse}" not found`,
+            });
+        }
+    }
+    return warehouseIds;
+};
+
+const locationHandler: DataHandler<LocationRow> = {
+    columns: [
+        "warehouse",
+        "code",
+        "description",
+        "isDefaultReceiving",
+        "isDefaultPicking",
+        "isQuarantine",
+    ],
+    required: ["warehouse", "code"],
+    schema: locationRowSchema,
+    key: (row) => `${row.warehouse}:${row.code}`,
+    async prepare(tx, rows) {
+        const errors: RowError[] = [];
+        const warehouseIds = await resolveWarehouses(tx, rows, errors);
+        const existing = await tx.warehouseLocation.count({
+            where: {
+                OR: rows.flatMap(({ data }) => {
+                    const warehouseId = warehouseIds.get(data.warehouse);
+                    return warehouseId
+                        ? [{ warehouseId, code: data.code }]
+                        : [];
+                }),
+            },
+        });
+
+        return {
+            errors,
+            existing,
+            async commit() {
+                for (const { data } of rows) {
+                    const { warehouse, ...fields } = data;
+                    const warehouseId = warehouseIds.get(warehouse)!;
+                    await tx.warehouseLocation.upsert({
+                        where: {
+                            warehouseId_code: { warehouseId, code: data.code },
+                        },
+                        update: fields,
+                        create: { ...fields, warehouseId },
+                    });
+                }
+            },
+        };
+    },
+    async exportRows() {
+        const locations = await prisma.warehouseLocation.findMany({
+            include: { warehouse: { select: { name: true } } },
+            orderBy: [{ warehouse: { name: "asc" } }, { code: "asc" }],
+        });
+        return locations.map((location) => ({
+            ...location,
+            warehouse: location.warehouse.name,
+        }));
+    },
+};
+
+/**
+ * Opening balances: posts one `INITIAL_STOCK` movement per row (per serial for
+ * serialised products) at the row's unit cost, which also feeds the products'
+ * average cost. Rows are rejected when the product already holds stock at the
+ * location, so an import can't be applied twice; later corrections are stock
+ * adjustments.
+ */
+const openingStockHandler: DataHandler<OpeningStockRow> = {
+    columns: [
+        "sku",
+        "warehouse",
+        "location",
+        "quantity",
+        "unitCost",
+        "batchNumber",
+        "manufacturingDate",
+        "expiryDate",
+        "serialNumbers",
+    ],
+    required: ["sku", "warehouse", "location", "quantity", "unitCost"],
+    schema: openingStockRowSchema,
+    key: (row) =>
+        `${row.sku}:${row.warehouse}:${row.location}:${row.batchNumber ?? ""}`,
+    async prepare(tx, rows) {
+        const errors: RowError[] = [];
+        const [products, warehouseIds] = await Promise.all([
+            tx.product.findMany({
+                where: { sku: { in: rows.map(({ data }) => data.sku) } },
+                select: {
+                    id: true,
+                    sku: true,
+                    isTrackedByBatch: true,
+                    isTrackedBySerial: true,
+                },
+            }),
+            resolveWarehouses(tx, rows, errors),
+        ]);
+        const productBySku = new Map(products.map((p) => [p.sku, p]));
+        const locations = await tx.warehouseLocation.findMany({
+            where: { warehouseId: { in: [...warehouseIds.values()] } },
+            select: { id: true, warehouseId: true, code: true },
+        });
+        const locationIdFor = (data: OpeningStockRow) => {
+            const warehouseId = warehouseIds.get(data.warehouse);
+            return locations.find(
+                (l) => l.warehouseId === warehouseId && l.code === data.location
+            )?.id;
+        };
+
+        const [stocked, serials] = await Promise.all([
+            tx.inventoryStockLocation.findMany({
+                where: {
+                    productId: { in: products.map((p) => p.id) },
+                    warehouseLocationId: { in: locations.map((l) => l.id) },
+                    quantity: { not: 0 },
+                },
+                select: { productId: true, warehouseLocationId: true },
+            }),
+            tx.serialNumber.findMany({
+                where: {
+                    productId: { in: products.map((p) => p.id) },
+                    serialNumber: {
+                        in: rows.flatMap(
+                            ({ data }) => data.serialNumbers ?? []
+                        ),
+                    },
+                },
+                select: {
+                    productId: true,
+                    serialNumber: true,
+                    currentLocationId: true,
+                    status: true,
+                },
+            }),
+        ]);
+
+        const valid: (ParsedRow<OpeningStockRow> & {
+            productId: number;
+            warehouseLocationId: number;
+        })[] = [];
+        const serialRows = new Map<string, number>();
+        for (const { row, data } of rows) {
+            const rowErrors: RowError[] = [];
+            const fail = (field: string, message: string) =>
+                rowErrors.push({ row, field, message });
+
+            const product = productBySku.get(data.sku);
+            const warehouseLocationId = locationIdFor(data);
+            if (!product) {
+                fail("sku", `Product "${data.sku}" not found`);
+            }
+            if (warehouseIds.has(data.warehouse) && !warehouseLocationId) {
+                fail(
+                    "location",
+                    `Location "${data.location}" not found in warehouse "${data.warehouse}"`
+                );
+            }
+            if (!product || !warehouseLocationId) {
+                errors.push(...rowErrors);
+                continue;
+            }
+
+            if (product.isTrackedByBatch && !data.batchNumber) {
+                fail("batchNumber", "Required for batch-tracked products");
+            }
+            if (!product.isTrackedByBatch && data.batchNumber) {
+                fail("batchNumber", "Product is not tracked by batch");
+            }
+            if (product.isTrackedBySerial && !data.serialNumbers) {
+                fail("serialNumbers", "Required for serialised products");
+            }
+            if (!product.isTrackedBySerial && data.serialNumbers) {
+                fail(
+                    "serialNumbers",
+                    "Product is not tracked by serial number"
+                );
+            }
+            if (
+                stocked.some(
+                    (s) =>
+                        s.productId === product.id &&
+                        s.warehouseLocationId === warehouseLocationId
+                )
+            ) {
+                fail(
+                    "location",
+                    "Product already has stock at this location; post an adjustment instead"
+                );
+            }
+            for (const serialNumber of data.serialNumbers ?? []) {
+                const key = `${product.id}:${serialNumber}`;
+                const serial = serials.find(
+                    (s) =>
+                        s.productId === product.id &&
+                        s.serialNumber === serialNumber
+                );
+                if (serialRows.has(key)) {
+                    fail(
+                        "serialNumbers",
+                        `Serial ${serialNumber} is also on row ${serialRows.get(
+                            key
+                        )}`
+                    );
+                } else if (
+                    serial &&
+                    (serial.currentLocationId || serial.status === "SCRAPPED")
+                ) {
+                    fail(
+                        "serialNumbers",
+                        `Serial ${serialNumber} is already ${
+                            serial.status === "SCRAPPED"
+                                ? "scrapped"
+                                : "in stock"
+                        }`
+                    );
+                }
+                serialRows.set(key, row);
+            }
+
+            errors.push(...rowErrors);
+            if (!rowErrors.length) {
+                valid.push({
+                    row,
+                    data,
+                    productId: product.id,
+                    warehouseLocationId,
+                });
+            }
+        }
+
+        return {
+            errors,
+            existing: 0,
+            async commit(userId) {
+                const productIds = [...new Set(valid.map((v) => v.productId))];
+                const costs = await createCostTracker(tx, productIds);
+                const movements: StockMovement[] = [];
+
+                for (const { data, productId, warehouseLocationId } of valid) {
+                    const batch = data.batchNumber
+                        ? await tx.batch.upsert({
+                              where: {
+                                  productId_batchNumber: {
+                                      productId,
+                                      batchNumber: data.batchNumber,
+                                  },
+                              },
+                              update: {},
+                              create: {
+                                  productId,
+                                  batchNumber: data.batchNumber,
+                                  manufacturingDate: data.manufacturingDate,
+                                  expiryDate: data.expiryDate,
+                              },
+                          })
+                        : null;
+
+                    const movement: StockMovement = {
+                        productId,
+                        warehouseLocationId,
+                        batchId: batch?.id,
+                        quantity: data.quantity,
+                        transactionType: "INITIAL_STOCK",
+                        notes: "Opening balance import",
+                        unitCost: data.unitCost,
+                    };
+                    if (data.serialNumbers) {
+                        for (const serialNumber of data.serialNumbers) {
+                            const serial = await tx.serialNumber.upsert({
+                                where: {
+                                    productId_serialNumber: {
+                                        productId,
+                                        serialNumber,
+                                    },
+                                },
+                                update: {},
+                                create: {
+                                    productId,
+                                    serialNumber,
+                                    status: "IN_STOCK",
+                                },
+                            });
+                            movements.push({
+                                ...movement,
+                                quantity: 1,
+                                serialNumberId: serial.id,
+                            });
+                        }
+                    } else {
+                        movements.push(movement);
+                    }
+
+                    costs.receive(productId, data.quantity, data.unitCost);
+                }
+
+                await lockProducts(tx, productIds);
+                await postStockMovements(movements, { userId, tx });
+                await costs.save();
+                await releaseBackorders(tx, productIds, userId);
+            },
+        };
+    },
+    /** Current balances in the import format, valued at average cost */
+    async exportRows() {
+        const balances = await prisma.inventoryStockLocation.findMany({
+            where: { quantity: { gt: 0 } },
+            include: {
+                product: {
+                    select: {
+                        sku: true,
+                        averageCost: true,
+                        isTrackedBySerial: true,
+                    },
+                },
+                warehouseLocation: {
+                    select: {
+                        code: true,
+                        warehouse: { select: { name: true } },
+                    },
+                },
+                batch: {
+                    select: {
+                        batchNumber: true,
+                        manufacturingDate: true,
+                        expiryDate: true,
+                    },
+                },
+            },
+            orderBy: [
+                { product: { sku: "asc" } },
+                { warehouseLocation: { warehouse: { name: "asc" } } },
+                { warehouseLocation: { code: "asc" } },
+                { id: "asc" },
+            ],
+        });
+
+        const rows = [];
+        for (const balance of balances) {
+            // Serials don't carry their batch; the ledger entries that brought
+            // them in do
+            const serials = balance.product.isTrackedBySerial
+                ? await prisma.serialNumber.findMany({
+                      where: {
+                          productId: balance.productId,
+                          currentLocationId: balance.warehouseLocationId,
+                          ...(balance.batchId && {
+                              inventoryTransactions: {
+                                  some: { batchId: balance.batchId },
+                              },
+                          }),
+                      },
+                      select: { serialNumber: true },
+                      orderBy: { serialNumber: "asc" },
+                      take: balance.quantity,
+                  })
+                : [];
+
+            rows.push({
+                sku: balance.product.sku,
+                warehouse: balance.warehouseLocation.warehouse.name,
+                location: balance.warehouseLocation.code,
+                quantity: balance.quantity,
+                unitCost: balance.product.averageCost,
+                batchNumber: balance.batch?.batchNumber,
+                manufacturingDate: formatDate(
+                    balance.batch?.manufacturingDate ?? null
+                ),
+                expiryDate: formatDate(balance.batch?.expiryDate ?? null),
+                serialNumbers: serials.map((s) => s.serialNumber).join("|"),
+            });
+        }
+        return rows;
+    },
+};
+
+const HANDLERS: Record<DataEntity, DataHandler<unknown>> = {
+    products: productHandler,
+    customers: customerHandler,
+    suppliers: supplierHandler,
+    locations: locationHandler,
+    "opening-stock": openingStockHandler,
+};
+
+/**
+ * Imports a CSV file as upserts keyed by SKU, account number, name, or
+ * warehouse and location code, or as opening stock. Every row is validated
+ * first, with zod and against the database; nothing is written unless all
+ * rows pass, and nothing at all in dry-run mode. Empty cells leave existing
+ * values unchanged.
+ */
+export const importCsv = (
+    entity: DataEntity,
+    csv: string,
+    { dryRun = false }: ImportQuery,
+    userId: number
+) => {
+    const handler = HANDLERS[entity];
+    const [header, ...records] = parseCsv(csv);
+    if (!header || header.every((cell) => !cell.trim())) {
+        throw new AppError("The file is empty", StatusCodes.BAD_REQUEST);
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+        throw new AppError(
+            `Import at most ${MAX_IMPORT_ROWS} rows per file`,
+            StatusCodes.BAD_REQUEST
+        );
+    }
+    const columns = header.map((cell) => cell.trim());
+    const missing = handler.required.filter((c) => !columns.includes(c));
+    if (missing.length) {
+        throw new AppError(
+            `Missing column(s): ${missing.join(", ")}`,
+            StatusCodes.BAD_REQUEST
+        );
+    }
+
+    const errors: RowError[] = [];
+    const rows: ParsedRow<unknown>[] = [];
+    const keyRows = new Map<string, number>();
+    let total = 0;
+    records.forEach((record, index) => {
+        const row = index + 2;
+        if (record.every((cell) => !cell.trim())) return;
+        total++;
+
+        const values = Object.fromEntries(
+            columns.flatMap((column, i) =>
+                handler.columns.includes(column) && record[i]?.trim()
+                    ? [[column, record[i]]]
+                    : []
+            )
+        );
+        const parsed = handler.schema.safeParse(values);
+        if (!parsed.success) {
+            for (const issue of parsed.error.issues) {
+                errors.push({
+                    row,
+                    field: issue.path.length ? issue.path.join(".") : undefined,
+                    message: issue.message,
+                });
+            }
+            return;
+        }
+
+        const key = handler.key(parsed.data);
+        const firstRow = keyRows.get(key);
+        if (firstRow) {
+            errors.push({ row, message: `Duplicate of row ${firstRow}` });
+            return;
+        }
+        keyRows.set(key, row);
+        rows.push({ row, data: parsed.data });
+    });
+
+    return prisma.$transaction(
+        async (tx) => {
+            const prepared = await handler.prepare(tx, rows);
+            errors.push(...prepared.errors);
+            errors.sort((a, b) => a.row - b.row);
+
+            const committed = !dryRun && !errors.length;
+            if (committed) await prepared.commit(userId);
+
+            return {
+                dryRun,
+                committed,
+                rows: total,
+                created: rows.length - prepared.existing,
+                updated: prepared.existing,
+                errors,
+            };
+        },
+        { timeout: 120_000 }
+    );
+};
+
+export type ImportResult = Awaited<ReturnType<typeof importCsv>>;
+
+/** Exports every record in the import format */
+export const exportCsv = async (entity: DataEntity) => {
+    const handler = HANDLERS[entity];
+    const rows = await handler.exportRows();
+    return toCsv(
+        rows,
+        handler.columns.map((column) => ({
+            header: column,
+            value: (row) => {
+                const value = row[column];
+                return value instanceof Date
+                    ? formatDate(value)
+                    : (value as string | number | boolean | null | undefined);
+            },
+        }))
+    );
+};
@@ -0,0 +1,33 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListInventoryTransactionsQuery } from "../schemas/inventoryTransaction.schema.js";
+
+const ledgerInclude = {
+    product: { select: { id: true, name: true, sku: true } },
+    warehouseLocation: {
+        select: {
+            id: true,
+            code: true,
+            warehouse: { select: { id: true, name: true } },
+        },
+    },
+    batch: { select: { id: true, batchNumber: true } },
+    serialNumber: { select: { id: true, serialNumber: true } },
+    user: { select: { id: true, username: true } },
+} satisfies Prisma.InventoryTransactionInclude;
+
+export const listInventoryTransactions = async (
+    query: ListInventoryTransactionsQuery
+) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.inventoryTransaction.findMany({
+                ...args,
+                include: ledgerInclude,
+            }),
+        count: (args) => prisma.inventoryTransaction.count(args),
+    });
+
+    return { inventoryTransactions: items, ...meta };
+};
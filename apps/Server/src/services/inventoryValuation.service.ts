@@ -0,0 +1,341 @@
+import { InventoryTransactionType, Prisma } from "@prisma/client";
+import type { InventoryValuationQuery, ValuationMethod } from "shared";
+import prisma from "../config/prisma.js";
+import { toCsv } from "../utils/csv.js";
+
+/** Ledger rows replayed per round trip */
+const REPLAY_BATCH_SIZE = 5000;
+
+/**
+ * Transfers move stock between warehouses without changing what the company
+ * owns, so they never touch the cost pool.
+ */
+const TRANSFER_TYPES: InventoryTransactionType[] = [
+    "TRANSFER_OUT",
+    "TRANSFER_IN",
+];
+
+/**
+ * Running cost of one product across the company. `unitCost` on `receive` is
+ * the purchase cost of a receipt; other inbound movements pass nothing and
+ * come in at the pool's current cost.
+ */
+interface CostPool {
+    readonly quantity: number;
+    readonly value: number;
+    receive(quantity: number, unitCost?: number): void;
+    issue(quantity: number): void;
+}
+
+/** Weighted average: receipts re-average, issues leave the average unchanged */
+const createAveragePool = (): CostPool => {
+    let quantity = 0;
+    let value = 0;
+    let lastCost = 0;
+    const currentCost = () => (quantity > 0 ? value / quantity : lastCost);
+
+    return {
+        get quantity() {
+            return quantity;
+        },
+        get value() {
+            return value;
+        },
+        receive(received, unitCost) {
+            const cost = unitCost ?? currentCost();
+            if (quantity <= 0) {
+                // Nothing (or a deficit) to average with; restart at this cost
+                quantity += received;
+                value = quantity * cost;
+            } else {
+                quantity += received;
+                value += received * cost;
+            }
+            lastCost = currentCost();
+        },
+        issue(issued) {
+            const cost = currentCost();
+            quantity -= issued;
+            value -= issued * cost;
+            lastCost = cost;
+        },
+    };
+};
+
+/**
+ * FIFO: receipts add cost layers and issues consume the oldest first. Issues
+ * beyond the layers on hand are carried as a shortfall that the next inbound
+ * quantity settles before adding a layer.
+ */
+const createFifoPool = (): CostPool => {
+    const layers: { quantity: number; unitCost: number }[] = [];
+    let shortfall = 0;
+    let lastCost = 0;
+
+    return {
+        get quantity() {
+            return layers.reduce((a, l) => a + l.quantity, 0) - shortfall;
+        },
+        get value() {
+            return (
+                layers.reduce((a, l) => a + l.quantity * l.unitCost, 0) -
+                shortfall * lastCost
+            );
+        },
+        receive(received, unitCost) {
+            const cost = unitCost ?? lastCost;
+            if (unitCost !== undefined) lastCost = unitCost;
+            const settled = Math.min(shortfall, received);
+            shortfall -= settled;
+            if (received > settled) {
+                layers.push({ quantity: received - settled, unitCost: cost });
+            }
+        },
+        issue(issued) {
+            let remaining = issued;
+            while (remaining > 0 && layers.length) {
+                const layer = layers[0];
+                const taken = Math.min(layer.quantity, remaining);
+                layer.quantity -= taken;
+                remaining -= taken;
+                if (layer.quantity === 0) layers.shift();
+            }
+            shortfall += remaining;
+        },
+    };
+};
+
+const POOL_FACTORIES: Record<ValuationMethod, () => CostPool> = {
+    WEIGHTED_AVERAGE: createAveragePool,
+    FIFO: createFifoPool,
+};
+
+/** Code point order; unlike `localeCompare` it doesn't depend on the server locale */
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+interface ValuationLine {
+    /** null for stock in transit between warehouses */
+    warehouse: { id: number; name: string } | null;
+    category: { id: number; name: string };
+    product: { id: number; sku: string; name: string };
+    quantity: number;
+    unitCost: number;
+    value: number;
+}
+
+interface ProductState {
+    pool: CostPool;
+    /** Quantity per warehouse; stock shipped on a transfer is in neither */
+    warehouses: Map<number, number>;
+}
+
+/**
+ * Replays the ledger up to `asOf`, in timestamp then id order, inside a
+ * repeatable-read snapshot so the result only depends on the cutoff.
+ */
+const replayLedger = (
+    method: ValuationMethod,
+    asOf: Date,
+    productFilter: Prisma.ProductWhereInput
+) =>
+    prisma.$transaction(
+        async (tx) => {
+            const states = new Map<number, ProductState>();
+            let cursor: number | undefined;
+
+            for (;;) {
+                const rows = await tx.inventoryTransaction.findMany({
+                    where: { timestamp: { lte: asOf }, product: productFilter },
+                    select: {
+                        id: true,
+                        productId: true,
+                        quantityChange: true,
+                        transactionType: true,
+                        warehouseLocation: { select: { warehouseId: true } },
+                        unitCost: true,
+                        purchaseOrderItem: { select: { unitCost: true } },
+                    },
+                    orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+                    take: REPLAY_BATCH_SIZE,
+                    ...(cursor && { skip: 1, cursor: { id: cursor } }),
+                });
+
+                for (const row of rows) {
+                    let state = states.get(row.productId);
+                    if (!state) {
+                        state = {
+                            pool: POOL_FACTORIES[method](),
+                            warehouses: new Map(),
+                        };
+                        states.set(row.productId, state);
+                    }
+
+                    const { warehouseId } = row.warehouseLocation;
+                    state.warehouses.set(
+                        warehouseId,
+                        (state.warehouses.get(warehouseId) ?? 0) +
+                            row.quantityChange
+                    );
+
+                    if (TRANSFER_TYPES.includes(row.transactionType)) continue;
+                    if (row.quantityChange > 0) {
+                        state.pool.receive(
+                            row.quantityChange,
+                            row.transactionType === "RECEIPT_PURCHASE"
+                                ? row.purchaseOrderItem?.unitCost
+                                : row.unitCost ?? undefined
+                        );
+                    } else if (row.quantityChange < 0) {
+                        state.pool.issue(-row.quantityChange);
+                    }
+                }
+
+                if (rows.length < REPLAY_BATCH_SIZE) break;
+                cursor = rows[rows.length - 1].id;
+            }
+
+            return states;
+        },
+        {
+            isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+            timeout: 120_000,
+        }
+    );
+
+/**
+ * Values stock as of a cutoff by replaying `InventoryTransaction` history with
+ * weighted-average or FIFO costing. Purchase receipts are costed at
+ * `PurchaseOrderItem.unitCost` and opening balances at the cost recorded on
+ * the ledger entry; returns, adjustments and other inbound movements at the
+ * product's running cost.
+ *
+ * Costs are pooled per product across the company, as `Product.averageCost`
+ * is; a warehouse's share is its quantity at the pool's unit cost, and stock
+ * shipped on a transfer but not yet received is reported as in transit
+ * (`warehouse: null`). Line values are rounded to whole UGX and every total is
+ * a sum of rounded lines, so totals reconcile with the CSV.
+ */
+export const getInventoryValuation = async ({
+    asOf = new Date(),
+    method,
+    warehouseId,
+    categoryId,
+    productId,
+}: Omit<InventoryValuationQuery, "format">) => {
+    const states = await replayLedger(method, asOf, {
+        ...(productId && { id: productId }),
+        ...(categoryId && { categoryId }),
+    });
+
+    const [products, warehouses] = await Promise.all([
+        prisma.product.findMany({
+            where: { id: { in: [...states.keys()] } },
+            select: {
+                id: true,
+                sku: true,
+                name: true,
+                category: { select: { id: true, name: true } },
+            },
+        }),
+        prisma.warehouse.findMany({ select: { id: true, name: true } }),
+    ]);
+    const productById = new Map(products.map((p) => [p.id, p]));
+    const warehouseById = new Map(warehouses.map((w) => [w.id, w]));
+
+    const lines: ValuationLine[] = [];
+    for (const [id, { pool, warehouses: quantities }] of states) {
+        const product = productById.get(id)!;
+        const unitCost = pool.quantity !== 0 ? pool.value / pool.quantity : 0;
+        const inTransit =
+            pool.quantity - [...quantities.values()].reduce((a, b) => a + b, 0);
+
+        const shares: [number | null, number][] = [
+            ...quantities.entries(),
+            [null, inTransit],
+        ];
+        for (const [shareWarehouseId, quantity] of shares) {
+            if (quantity === 0) continue;
+            if (warehouseId && shareWarehouseId !== warehouseId) continue;
+            lines.push({
+                warehouse:
+                    shareWarehouseId === null
+                        ? null
+                        : warehouseById.get(shareWarehouseId)!,
+                category: product.category,
+                product: {
+                    id: product.id,
+                    sku: product.sku,
+                    name: product.name,
+                },
+                quantity,
+                unitCost: Math.round(unitCost * 100) / 100,
+                value: Math.round(quantity * unitCost),
+            });
+        }
+    }
+
+    // In transit last; ties broken by ids so output order never varies
+    lines.sort(
+        (a, b) =>
+            (a.warehouse?.id ?? Infinity) - (b.warehouse?.id ?? Infinity) ||
+            compareText(a.category.name, b.category.name) ||
+            a.category.id - b.category.id ||
+            compareText(a.product.sku, b.product.sku) ||
+            a.product.id - b.product.id
+    );
+
+    const summarise = <K>(key: (line: ValuationLine) => K) => {
+        const groups = new Map<
+            string,
+            { key: K; quantity: number; value: number }
+        >();
+        for (const line of lines) {
+            const groupKey = JSON.stringify(key(line));
+            const group = groups.get(groupKey) ?? {
+                key: key(line),
+                quantity: 0,
+                value: 0,
+            };
+            group.quantity += line.quantity;
+            group.value += line.value;
+            groups.set(groupKey, group);
+        }
+        return [...groups.values()];
+    };
+
+    return {
+        asOf,
+        method,
+        totals: {
+            quantity: lines.reduce((a, line) => a + line.quantity, 0),
+            value: lines.reduce((a, line) => a + line.value, 0),
+        },
+        byWarehouse: summarise((line) => line.warehouse).map(
+            ({ key, ...totals }) => ({ warehouse: key, ...totals })
+        ),
+        byCategory: summarise((line) => line.category)
+            .map(({ key, ...totals }) => ({ category: key, ...totals }))
+            .sort(
+                (a, b) =>
+                    compareText(a.category.name, b.category.name) ||
+                    a.category.id - b.category.id
+            ),
+        lines,
+    };
+};
+
+type InventoryValuation = Awaited<ReturnType<typeof getInventoryValuation>>;
+
+export const toInventoryValuationCsv = ({ lines }: InventoryValuation) =>
+    toCsv(lines, [
+        {
+            header: "Warehouse",
+            value: (line) => line.warehouse?.name ?? "In transit",
+        },
+        { header: "Category", value: (line) => line.category.name },
+        { header: "SKU", value: (line) => line.product.sku },
+        { header: "Product", value: (line) => line.product.name },
+        { header: "Quantity", value: (line) => line.quantity },
+        { header: "Unit cost", value: (line) => line.unitCost },
+        { header: "Value", value: (line) => line.value },
+    ]);
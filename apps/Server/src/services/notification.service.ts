@@ -0,0 +1,156 @@
+import { Notification, NotificationType } from "@prisma/client";
+import type { Response } from "express";
+import prisma from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListNotificationsQuery } from "../schemas/notification.schema.js";
+import logger from "../config/logger.js";
+
+export interface NotificationInput {
+    type: NotificationType;
+    message: string;
+    relatedEntityType?: string;
+    relatedEntityId?: number;
+}
+
+/** Open event streams per user; a user may have several tabs open */
+const streams = new Map<number, Set<Response>>();
+
+/** Keeps idle connections from being closed by proxies */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+setInterval(() => {
+    for (const connections of streams.values()) {
+        for (const res of connections) res.write(": heartbeat\n\n");
+    }
+}, HEARTBEAT_INTERVAL_MS).unref();
+
+const publish = (userId: number, event: string, data: unknown) => {
+    for (const res of streams.get(userId) ?? []) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+};
+
+/**
+ * Registers a Server-Sent Events connection for the user. Streams live in this
+ * process, so running several server instances needs a shared broker instead.
+ * Returns the function that unregisters it.
+ */
+export const subscribe = (userId: number, res: Response) => {
+    const connections = streams.get(userId) ?? new Set();
+    connections.add(res);
+    streams.set(userId, connections);
+
+    return () => {
+        connections.delete(res);
+        if (!connections.size) streams.delete(userId);
+    };
+};
+
+export const listNotifications = async (
+    userId: number,
+    query: ListNotificationsQuery
+) => {
+    const [{ items, meta }, unread] = await Promise.all([
+        findPage(query, {
+            where: { userId },
+            findMany: (args) => prisma.notification.findMany(args),
+            count: (args) => prisma.notification.count(args),
+        }),
+        prisma.notification.count({ where: { userId, isRead: false } }),
+    ]);
+
+    return { notifications: items, unread, ...meta };
+};
+
+export const markNotificationRead = async (id: number, userId: number) => {
+    // Scoped to the user so nobody can mark someone else's notifications
+    const notification = await prisma.notification.update({
+        where: { id, userId },
+        data: { isRead: true },
+    });
+    publish(userId, "read", { ids: [id] });
+    return notification;
+};
+
+export const markAllNotificationsRead = async (userId: number) => {
+    const { count } = await prisma.notification.updateMany({
+        where: { userId, isRead: false },
+        data: { isRead: true },
+    });
+    publish(userId, "read", { all: true });
+    return { count };
+};
+
+/**
+ * Creates a notification for each user and pushes it to their open streams.
+ * Call it once the change it reports has committed. Failures are logged and
+ * never fail the operation that triggered them.
+ */
+export const notifyUsers = async (
+    userIds: number[],
+    input: NotificationInput
+): Promise<Notification[]> => {
+    const recipients = [...new Set(userIds)];
+    if (!recipients.length) return [];
+
+    try {
+        const notifications = await prisma.notification.createManyAndReturn({
+            data: recipients.map((userId) => ({ ...input, userId })),
+        });
+        for (const notification of notifications) {
+            publish(notification.userId, "notification", notification);
+        }
+        return notifications;
+    } catch (error) {
+        logger.error("Failed to send notifications: ", error);
+        return [];
+    }
+};
+
+/** Tells assignees about tasks they have just been given */
+export const notifyTasksAssigned = async (
+    tasks: { id: number; title: string; assignedTo: number | null }[]
+) => {
+    for (const task of tasks) {
+        if (task.assignedTo === null) continue;
+        await notifyUsers([task.assignedTo], {
+            type: "TASK_ASSIGNED",
+            message: `You were assigned the task "${task.title}"`,
+            relatedEntityType: "Task",
+            relatedEntityId: task.id,
+        });
+    }
+};
+
+/**
+ * Users from `userIds` who haven't been told about the entity yet: they have
+ * no unread notification of this type for it and none from the last day.
+ * Keeps periodic scans from repeating themselves.
+ */
+export const filterUnnotified = async (
+    userIds: number[],
+    {
+        type,
+        relatedEntityType,
+        relatedEntityId,
+    }: Required<Omit<NotificationInput, "message">>
+) => {
+    const notified = await prisma.notification.findMany({
+        where: {
+            userId: { in: userIds },
+            type,
+            relatedEntityType,
+            relatedEntityId,
+            OR: [
+                { isRead: false },
+                {
+                    createdAt: {
+                        gte: new Date(Date.now() - 24 * 60 * 60 * 1000),
+                    },
+                },
+            ],
+        },
+        select: { userId: true },
+    });
+    return userIds.filter((id) => !notified.some((n) => n.userId === id));
+};
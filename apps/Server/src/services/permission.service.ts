@@ -0,0 +1,102 @@
+import prisma from "../config/prisma.js";
+import type { PermissionKey } from "../config/permissions.js";
+
+export interface UserPermissions {
+    /** Permissions granted in every warehouse */
+    global: PermissionKey[];
+    /** Permissions granted only in the listed (managed) warehouses */
+    scoped: Partial<Record<PermissionKey, number[]>>;
+}
+
+/** Resolves the effective permission set of a role for a given user */
+export const getUserPermissions = async (
+    userId: number,
+    roleId: number
+): Promise<UserPermissions> => {
+    const [grants, managedWarehouses] = await Promise.all([
+        prisma.rolePermission.findMany({
+            where: { roleId },
+            select: { scope: true, permission: { select: { key: true } } },
+        }),
+        prisma.warehouse.findMany({
+            where: { managerId: userId },
+            select: { id: true },
+        }),
+    ]);
+
+    const warehouseIds = managedWarehouses.map((warehouse) => warehouse.id);
+    const permissions: UserPermissions = { global: [], scoped: {} };
+
+    for (const grant of grants) {
+        const key = grant.permission.key as PermissionKey;
+        if (grant.scope === "GLOBAL") {
+            permissions.global.push(key);
+        } else {
+            permissions.scoped[key] = warehouseIds;
+        }
+    }
+
+    // A global grant supersedes a scoped one for the same key
+    for (const key of permissions.global) delete permissions.scoped[key];
+
+    return permissions;
+};
+
+/**
+ * Checks a permission, optionally in a specific warehouse. Without a warehouse,
+ * only global grants count.
+ */
+export const hasPermission = (
+    permissions: UserPermissions,
+    key: PermissionKey,
+    warehouseId?: number
+) => {
+    if (permissions.global.includes(key)) return true;
+    if (warehouseId === undefined) return false;
+    return permissions.scoped[key]?.includes(warehouseId) ?? false;
+};
+
+/**
+ * Ids of active users holding a permission, globally or, when `warehouseId`
+ * is given, through a scoped grant on a warehouse they manage
+ */
+export const getUsersWithPermission = async (
+    key: PermissionKey,
+    warehouseId?: number
+) => {
+    const users = await prisma.user.findMany({
+        where: {
+            isActive: true,
+            OR: [
+                {
+                    role: {
+                        permissions: {
+                            some: { scope: "GLOBAL", permission: { key } },
+                        },
+                    },
+                },
+                ...(warehouseId
+                    ? [
+                          {
+                              managedWarehouses: { some: { id: warehouseId } },
+                              role: {
+                                  permissions: {
+                                      some: {
+                                          scope: "MANAGED_WAREHOUSES" as const,
+                                          permission: { key },
+                                      },
+                                  },
+                              },
+                          },
+                      ]
+                    : []),
+            ],
+        },
+        select: { id: true },
+        orderBy: { id: "asc" },
+    });
+    return users.map((user) => user.id);
+};
+
+export const listPermissions = () =>
+    prisma.permission.findMany({ orderBy: { key: "asc" } });
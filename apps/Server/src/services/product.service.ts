@@ -0,0 +1,202 @@
+import { Prisma } from "@prisma/client";
+import type {
+    CreateProductInput,
+    StockSummary,
+    UpdateProductInput,
+} from "shared";
+import prisma from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListProductsQuery } from "../schemas/product.schema.js";
+
+const productInclude = {
+    category: { select: { id: true, name: true } },
+    defaultSupplier: { select: { id: true, name: true } },
+} satisfies Prisma.ProductInclude;
+
+const warehouseEntry = (
+    summary: StockSummary,
+    warehouse: { id: number; name: string }
+) => {
+    let entry = summary.byWarehouse.find((w) => w.warehouseId === warehouse.id);
+    if (!entry) {
+        entry = {
+            warehouseId: warehouse.id,
+            warehouseName: warehouse.name,
+            quantity: 0,
+            inTransit: 0,
+        };
+        summary.byWarehouse.push(entry);
+    }
+    return entry;
+};
+
+/**
+ * Sums `InventoryStockLocation` quantities per product, broken down by warehouse.
+ * Stock on in-transit transfers is reported against the destination warehouse
+ * so it doesn't vanish from reports between shipping and receiving.
+ */
+export const getStockSummaries = async (productIds: number[]) => {
+    const [rows, inTransit] = await Promise.all([
+        prisma.inventoryStockLocation.findMany({
+            where: { productId: { in: productIds } },
+            select: {
+                productId: true,
+                quantity: true,
+                warehouseLocation: {
+                    select: { warehouse: { select: { id: true, name: true } } },
+                },
+            },
+        }),
+        prisma.stockTransferItem.findMany({
+            where: {
+                productId: { in: productIds },
+                stockTransfer: { status: "IN_TRANSIT" },
+            },
+            select: {
+                productId: true,
+                quantity: true,
+                stockTransfer: {
+                    select: {
+                        toWarehouse: { select: { id: true, name: true } },
+                    },
+                },
+            },
+        }),
+    ]);
+
+    const summaries = new Map<number, StockSummary>(
+        productIds.map((id) => [
+            id,
+            { onHand: 0, inTransit: 0, byWarehouse: [] },
+        ])
+    );
+
+    for (const row of rows) {
+        const summary = summaries.get(row.productId)!;
+        warehouseEntry(summary, row.warehouseLocation.warehouse).quantity +=
+            row.quantity;
+        summary.onHand += row.quantity;
+    }
+
+    for (const item of inTransit) {
+        const summary = summaries.get(item.productId)!;
+        warehouseEntry(summary, item.stockTransfer.toWarehouse).inTransit +=
+            item.quantity;
+        summary.inTransit += item.quantity;
+    }
+
+    return summaries;
+};
+
+const withStock = async <T extends { id: number }>(products: T[]) => {
+    const summaries = await getStockSummaries(products.map((p) => p.id));
+    return products.map((product) => ({
+        ...product,
+        stock: summaries.get(product.id)!,
+    }));
+};
+
+export const listProducts = async (query: ListProductsQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.product.findMany({ ...args, include: productInclude }),
+        count: (args) => prisma.product.count(args),
+    });
+
+    return { products: await withStock(items), ...meta };
+};
+
+export const getProduct = async (id: number) => {
+    const product = await prisma.product.findUniqueOrThrow({
+        where: { id },
+        include: productInclude,
+    });
+    const [withSummary] = await withStock([product]);
+    return withSummary;
+};
+
+/**
+ * Stock of a product per location and batch, with the quantity allocated to
+ * sales orders, plus its serial numbers on hand and where they are.
+ */
+export const getProductStock = async (id: number) => {
+    const product = await prisma.product.findUniqueOrThrow({
+        where: { id },
+        select: { isTrackedBySerial: true },
+    });
+
+    const [stockLocations, serials] = await Promise.all([
+        prisma.inventoryStockLocation.findMany({
+            where: { productId: id, quantity: { not: 0 } },
+            include: {
+                warehouseLocation: {
+                    select: {
+                        id: true,
+                        code: true,
+                        isQuarantine: true,
+                        warehouse: { select: { id: true, name: true } },
+                    },
+                },
+                batch: {
+                    select: { id: true, batchNumber: true, expiryDate: true },
+                },
+                allocations: { select: { quantity: true } },
+            },
+            orderBy: [
+                { warehouseLocation: { warehouse: { name: "asc" } } },
+                { warehouseLocation: { code: "asc" } },
+                { batch: { expiryDate: "asc" } },
+            ],
+        }),
+        product.isTrackedBySerial
+            ? prisma.serialNumber.findMany({
+                  // On hand whatever the status, so restocked returns are included
+                  where: { productId: id, currentLocationId: { not: null } },
+                  select: {
+                      id: true,
+                      serialNumber: true,
+                      status: true,
+                      currentLocation: {
+                          select: {
+                              id: true,
+                              code: true,
+                              warehouse: { select: { id: true, name: true } },
+                          },
+                      },
+                  },
+                  orderBy: { serialNumber: "asc" },
+              })
+            : [],
+    ]);
+
+    return {
+        locations: stockLocations.map(({ allocations, ...location }) => ({
+            ...location,
+            allocated: allocations.reduce((sum, a) => sum + a.quantity, 0),
+        })),
+        serials,
+    };
+};
+
+export const createProduct = async (data: CreateProductInput) => {
+    const product = await prisma.product.create({
+        data,
+        include: productInclude,
+    });
+    const [withSummary] = await withStock([product]);
+    return withSummary;
+};
+
+export const updateProduct = async (id: number, data: UpdateProductInput) => {
+    const product = await prisma.product.update({
+        where: { id },
+        data,
+        include: productInclude,
+    });
+    const [withSummary] = await withStock([product]);
+    return withSummary;
+};
+
+/** Fails with a foreign key conflict once the product has stock or order history */
+export const deleteProduct = (id: number) =>
+    prisma.product.delete({ where: { id } });
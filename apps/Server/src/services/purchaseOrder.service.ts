@@ -0,0 +1,549 @@
+import { Prisma, PurchaseOrderStatus } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import {
+    calculateOrderTotals,
+    type CreatePurchaseOrderInput,
+    type DecimalLike,
+    type ReceivePurchaseOrderInput,
+    type UpdatePurchaseOrderInput,
+} from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListPurchaseOrdersQuery } from "../schemas/purchaseOrder.schema.js";
+import AppError from "../utils/AppError.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import { lockProducts, releaseBackorders } from "./fulfillment.service.js";
+import { notifyUsers } from "./notification.service.js";
+import { cancelOpenTasks, createOpenTask } from "./task.service.js";
+import {
+    getDefaultLocation,
+    getLocationWarehouseId,
+} from "./warehouse.service.js";
+
+interface PurchaseOrderLine {
+    quantityOrdered: number;
+    unitCost: number;
+    discountPercentage?: DecimalLike | null;
+    taxRate?: DecimalLike | null;
+}
+
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = [
+    "ORDERED",
+    "PARTIALLY_RECEIVED",
+];
+
+const CANCELLABLE_STATUSES: PurchaseOrderStatus[] = ["PENDING", "ORDERED"];
+
+export const purchaseOrderDetailInclude = {
+    supplier: { select: { id: true, name: true } },
+    warehouse: { select: { id: true, name: true } },
+    items: {
+        include: {
+            product: {
+                select: {
+                    id: true,
+                    name: true,
+                    sku: true,
+                    isTrackedByBatch: true,
+                    isTrackedBySerial: true,
+                },
+            },
+        },
+        orderBy: { id: "asc" },
+    },
+    events: {
+        include: { user: { select: { id: true, username: true } } },
+        orderBy: { timestamp: "desc" },
+    },
+} satisfies Prisma.PurchaseOrderInclude;
+
+export const listPurchaseOrders = async (query: ListPurchaseOrdersQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.purchaseOrder.findMany({
+                ...args,
+                include: {
+                    supplier: { select: { id: true, name: true } },
+                    warehouse: { select: { id: true, name: true } },
+                },
+            }),
+        count: (args) => prisma.purchaseOrder.count(args),
+    });
+
+    return { purchaseOrders: items, ...meta };
+};
+
+export const getPurchaseOrder = (id: number) =>
+    prisma.purchaseOrder.findUniqueOrThrow({
+        where: { id },
+        include: purchaseOrderDetailInclude,
+    });
+
+/** Recomputes line and order totals with the shared calculator */
+export const pricePurchaseOrder = (
+    items: PurchaseOrderLine[],
+    shippingCost?: number | null
+) =>
+    calculateOrderTotals({
+        lines: items.map((item) => ({
+            quantity: item.quantityOrdered,
+            unitPrice: item.unitCost,
+            discountPercentage: item.discountPercentage,
+            taxRate: item.taxRate,
+        })),
+        shippingCost,
+    });
+
+export const createPurchaseOrder = (
+    { items, ...order }: CreatePurchaseOrderInput,
+    userId: number
+) => {
+    const totals = pricePurchaseOrder(items, order.shippingCost);
+
+    return prisma.$transaction(async (tx) => {
+        const created = await tx.purchaseOrder.create({
+            data: {
+                ...order,
+                createdBy: userId,
+                subTotal: totals.subTotal,
+                taxAmount: totals.taxAmount,
+                shippingCost: totals.shippingCost,
+                totalAmount: totals.totalAmount,
+            },
+        });
+        await tx.purchaseOrderItem.createMany({
+            data: items.map((item, index) => ({
+                ...item,
+                purchaseOrderId: created.id,
+                totalCost: totals.lines[index].total,
+            })),
+        });
+        await tx.purchaseOrderEvent.create({
+            data: { purchaseOrderId: created.id, userId, eventType: "CREATED" },
+        });
+
+        return tx.purchaseOrder.findUniqueOrThrow({
+            where: { id: created.id },
+            include: purchaseOrderDetailInclude,
+        });
+    });
+};
+
+/**
+ * Updates a pending purchase order. Passing `items` replaces every line; totals
+ * are recomputed on every update.
+ */
+export const updatePurchaseOrder = (
+    id: number,
+    { items, ...changes }: UpdatePurchaseOrderInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT id FROM "PurchaseOrder" WHERE id = ${id} FOR UPDATE`;
+        const order = await tx.purchaseOrder.findUniqueOrThrow({
+            where: { id },
+            include: { items: { orderBy: { id: "asc" } } },
+        });
+        if (order.status !== "PENDING") {
+            throw new AppError(
+                `Cannot edit a purchase order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        const totals = pricePurchaseOrder(
+            items ?? order.items,
+            changes.shippingCost ?? order.shippingCost
+        );
+
+        if (items) {
+            await tx.purchaseOrderItem.deleteMany({
+                where: { purchaseOrderId: id },
+            });
+            await tx.purchaseOrderItem.createMany({
+                data: items.map((item, index) => ({
+                    ...item,
+                    purchaseOrderId: id,
+                    totalCost: totals.lines[index].total,
+                })),
+            });
+        } else {
+            for (const [index, item] of order.items.entries()) {
+                await tx.purchaseOrderItem.update({
+                    where: { id: item.id },
+                    data: { totalCost: totals.lines[index].total },
+                });
+            }
+        }
+
+        await tx.purchaseOrderEvent.create({
+            data: { purchaseOrderId: id, userId, eventType: "UPDATED" },
+        });
+
+        return tx.purchaseOrder.update({
+            where: { id },
+            data: {
+                ...changes,
+                subTotal: totals.subTotal,
+                taxAmount: totals.taxAmount,
+                shippingCost: totals.shippingCost,
+                totalAmount: totals.totalAmount,
+            },
+            include: purchaseOrderDetailInclude,
+        });
+    });
+
+/**
+ * Confirms a pending purchase order, typically a replenishment draft after a
+ * buyer has reviewed it, moving it to `ORDERED` so it can be received.
+ */
+export const confirmPurchaseOrder = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT id FROM "PurchaseOrder" WHERE id = ${id} FOR UPDATE`;
+        const order = await tx.purchaseOrder.findUniqueOrThrow({
+            where: { id },
+            select: { status: true },
+        });
+        if (order.status !== "PENDING") {
+            throw new AppError(
+                `Cannot confirm a purchase order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        await tx.purchaseOrderEvent.create({
+            data: { purchaseOrderId: id, userId, eventType: "ORDERED" },
+        });
+
+        return tx.purchaseOrder.update({
+            where: { id },
+            data: { status: "ORDERED" },
+            include: purchaseOrderDetailInclude,
+        });
+    });
+
+/**
+ * Cancels a purchase order before anything has been received against it.
+ * Partly received orders have stock on the books and are closed out with a
+ * supplier return instead.
+ */
+export const cancelPurchaseOrder = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT id FROM "PurchaseOrder" WHERE id = ${id} FOR UPDATE`;
+        const order = await tx.purchaseOrder.findUniqueOrThrow({
+            where: { id },
+            select: { status: true },
+        });
+        if (!CANCELLABLE_STATUSES.includes(order.status)) {
+            throw new AppError(
+                `Cannot cancel a purchase order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        await cancelOpenTasks(tx, { purchaseOrderId: id });
+        await tx.purchaseOrderEvent.create({
+            data: { purchaseOrderId: id, userId, eventType: "CANCELLED" },
+        });
+
+        return tx.purchaseOrder.update({
+            where: { id },
+            data: { status: "CANCELLED" },
+            include: purchaseOrderDetailInclude,
+        });
+    });
+
+/**
+ * Tracks weighted moving average cost while a receipt is being processed, so
+ * several lines for the same product in one receipt average correctly.
+ */
+export const createCostTracker = async (
+    tx: TransactionClient,
+    productIds: number[]
+) => {
+    // Lock the products so concurrent receipts can't average from stale data
+    const ids = Prisma.join(productIds);
+    await tx.$executeRaw`SELECT id FROM "Product" WHERE id IN (${ids}) ORDER BY id FOR UPDATE`;
+
+    const [products, balances] = await Promise.all([
+        tx.product.findMany({
+            where: { id: { in: productIds } },
+            select: { id: true, averageCost: true },
+        }),
+        tx.inventoryStockLocation.groupBy({
+            by: ["productId"],
+            where: { productId: { in: productIds } },
+            _sum: { quantity: true },
+        }),
+    ]);
+
+    const state = new Map(
+        products.map((product) => [
+            product.id,
+            {
+                averageCost: product.averageCost ?? 0,
+                onHand:
+                    balances.find((b) => b.productId === product.id)?._sum
+                        .quantity ?? 0,
+            },
+        ])
+    );
+
+    return {
+        /** new average = (onHand × average + quantity × unitCost) / (onHand + quantity) */
+        receive(productId: number, quantity: number, unitCost: number) {
+            const current = state.get(productId)!;
+            const onHand = Math.max(current.onHand, 0);
+            current.averageCost =
+                onHand === 0
+                    ? unitCost
+                    : Math.round(
+                          (onHand * current.averageCost + quantity * unitCost) /
+                              (onHand + quantity)
+                      );
+            current.onHand = onHand + quantity;
+        },
+        async save() {
+            for (const [id, { averageCost }] of state) {
+                await tx.product.update({
+                    where: { id },
+                    data: { averageCost },
+                });
+            }
+        },
+    };
+};
+
+/**
+ * Receives goods against a purchase order: posts `RECEIPT_PURCHASE` movements,
+ * creates batches and serial numbers, updates received quantities and moving
+ * average cost, advances the status and logs a `PurchaseOrderEvent`. A put-away
+ * task is opened in each receiving warehouse, and the order's creator is
+ * notified when someone else receives it.
+ */
+export const receivePurchaseOrder = async (
+    id: number,
+    input: ReceivePurchaseOrderInput,
+    userId: number
+) => {
+    const received = await prisma.$transaction(async (tx) => {
+        // Serialise receipts against the same order
+        await tx.$executeRaw`SELECT id FROM "PurchaseOrder" WHERE id = ${id} FOR UPDATE`;
+
+        const order = await tx.purchaseOrder.findUniqueOrThrow({
+            where: { id },
+            include: { items: true },
+        });
+        if (!RECEIVABLE_STATUSES.includes(order.status)) {
+            throw new AppError(
+                `Cannot receive a purchase order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        const defaultLocationId =
+            input.warehouseLocationId ??
+            (input.warehouseId
+                ? (await getDefaultLocation(input.warehouseId, "receiving", tx))
+                      .id
+                : undefined);
+
+        const receivedNow = new Map<number, number>();
+        const itemFor = (purchaseOrderItemId: number) => {
+            const item = order.items.find((i) => i.id === purchaseOrderItemId);
+            if (!item) {
+                throw new AppError(
+                    `Item ${purchaseOrderItemId} does not belong to purchase order ${id}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+            return item;
+        };
+
+        const productIds = [
+            ...new Set(
+                input.lines.map(
+                    (line) => itemFor(line.purchaseOrderItemId).productId
+                )
+            ),
+        ];
+        const costs = await createCostTracker(tx, productIds);
+        const movements: StockMovement[] = [];
+
+        for (const line of input.lines) {
+            const item = itemFor(line.purchaseOrderItemId);
+            const received =
+                item.quantityReceived +
+                (receivedNow.get(item.id) ?? 0) +
+                line.quantity;
+            if (received > item.quantityOrdered) {
+                throw new AppError(
+                    `Receiving ${line.quantity} of item ${item.id} exceeds the ${item.quantityOrdered} ordered ` +
+                        `(${item.quantityReceived} already received)`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+            receivedNow.set(item.id, received - item.quantityReceived);
+
+            const warehouseLocationId =
+                line.warehouseLocationId ?? defaultLocationId!;
+
+            const batch = line.batchNumber
+                ? await tx.batch.upsert({
+                      where: {
+                          productId_batchNumber: {
+                              productId: item.productId,
+                              batchNumber: line.batchNumber,
+                          },
+                      },
+                      update: {},
+                      create: {
+                          productId: item.productId,
+                          batchNumber: line.batchNumber,
+                          manufacturingDate: line.manufacturingDate,
+                          expiryDate: line.expiryDate,
+                      },
+                  })
+                : null;
+
+            const movement: StockMovement = {
+                productId: item.productId,
+                warehouseLocationId,
+                batchId: batch?.id,
+                quantity: line.quantity,
+                transactionType: "RECEIPT_PURCHASE",
+                notes: input.notes,
+                source: {
+                    purchaseOrderId: order.id,
+                    purchaseOrderItemId: item.id,
+                },
+            };
+
+            if (line.serialNumbers) {
+                for (const serialNumber of line.serialNumbers) {
+                    // A unit sent back to the supplier earlier can be received
+                    // again; posting rejects serials that are still on hand
+                    const serial = await tx.serialNumber.upsert({
+                        where: {
+                            productId_serialNumber: {
+                                productId: item.productId,
+                                serialNumber,
+                            },
+                        },
+                        update: {},
+                        create: {
+                            productId: item.productId,
+                            serialNumber,
+                            status: "IN_STOCK",
+                        },
+                    });
+                    movements.push({
+                        ...movement,
+                        quantity: 1,
+                        serialNumberId: serial.id,
+                    });
+                }
+            } else {
+                movements.push(movement);
+            }
+
+            costs.receive(item.productId, line.quantity, item.unitCost);
+        }
+
+        await lockProducts(tx, productIds);
+        await postStockMovements(movements, { userId, tx });
+        await costs.save();
+        await releaseBackorders(tx, productIds, userId);
+
+        const receiptLocations = await tx.warehouseLocation.findMany({
+            where: {
+                id: { in: movements.map((m) => m.warehouseLocationId) },
+            },
+            select: { warehouseId: true },
+            distinct: ["warehouseId"],
+        });
+        for (const { warehouseId } of receiptLocations) {
+            await createOpenTask(tx, {
+                type: "PUT_AWAY",
+                title: `Put away purchase order #${order.id}`,
+                warehouseId,
+                purchaseOrderId: order.id,
+                createdBy: userId,
+            });
+        }
+
+        for (const [itemId, quantity] of receivedNow) {
+            await tx.purchaseOrderItem.update({
+                where: { id: itemId },
+                data: { quantityReceived: { increment: quantity } },
+            });
+        }
+
+        const fullyReceived = order.items.every(
+            (item) =>
+                item.quantityReceived + (receivedNow.get(item.id) ?? 0) >=
+                item.quantityOrdered
+        );
+        const status: PurchaseOrderStatus = fullyReceived
+            ? "RECEIVED"
+            : "PARTIALLY_RECEIVED";
+        const totalUnits = [...receivedNow.values()].reduce((a, b) => a + b, 0);
+
+        await tx.purchaseOrderEvent.create({
+            data: {
+                purchaseOrderId: order.id,
+                userId,
+                eventType: status,
+                details:
+                    `Received ${totalUnits} unit(s) across ${receivedNow.size} line(s)` +
+                    (input.notes ? `: ${input.notes}` : ""),
+            },
+        });
+
+        return tx.purchaseOrder.update({
+            where: { id: order.id },
+            data: { status, actualDeliveryDate: new Date() },
+            include: purchaseOrderDetailInclude,
+        });
+    });
+
+    if (received.createdBy !== userId) {
+        await notifyUsers([received.createdBy], {
+            type: "PURCHASE_ORDER_RECEIVED",
+            message: `Purchase order #${received.id} from ${
+                received.supplier.name
+            } was ${
+                received.status === "RECEIVED" ? "fully" : "partially"
+            } received`,
+            relatedEntityType: "PurchaseOrder",
+            relatedEntityId: received.id,
+        });
+    }
+
+    return received;
+};
+
+/**
+ * Warehouse a receipt posts into, for warehouse-scoped permission checks.
+ * Returns undefined when the lines span several warehouses.
+ */
+export const getReceiptWarehouseId = async (
+    input: ReceivePurchaseOrderInput
+) => {
+    const locationIds = new Set(
+        input.lines.map(
+            (line) => line.warehouseLocationId ?? input.warehouseLocationId
+        )
+    );
+    const warehouseIds = new Set<number | undefined>();
+
+    for (const locationId of locationIds) {
+        warehouseIds.add(
+            locationId === undefined
+                ? input.warehouseId
+                : await getLocationWarehouseId(locationId)
+        );
+    }
+
+    return warehouseIds.size === 1 ? [...warehouseIds][0] : undefined;
+};
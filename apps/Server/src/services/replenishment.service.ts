@@ -0,0 +1,405 @@
+import { Prisma, PurchaseOrderStatus, SalesOrderStatus } from "@prisma/client";
+import type {
+    CreateReplenishmentDraftsInput,
+    LowStockQuery,
+    UpsertReorderSettingInput,
+} from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListReorderSettingsQuery } from "../schemas/replenishment.schema.js";
+import { lockProducts } from "./fulfillment.service.js";
+import {
+    pricePurchaseOrder,
+    purchaseOrderDetailInclude,
+} from "./purchaseOrder.service.js";
+
+/** Purchase orders whose outstanding quantity is still expected to arrive */
+const OPEN_PURCHASE_STATUSES: PurchaseOrderStatus[] = [
+    "PENDING",
+    "ORDERED",
+    "PARTIALLY_RECEIVED",
+];
+const OPEN_SALES_STATUSES: SalesOrderStatus[] = [
+    "PENDING",
+    "PROCESSING",
+    "PARTIALLY_SHIPPED",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reorderSettingInclude = {
+    product: {
+        select: {
+            id: true,
+            name: true,
+            sku: true,
+            unitOfMeasure: true,
+            averageCost: true,
+            supplierSku: true,
+            defaultSupplier: { select: { id: true, name: true } },
+        },
+    },
+    warehouse: { select: { id: true, name: true, isPickingLocation: true } },
+} satisfies Prisma.ReorderSettingInclude;
+
+export const listReorderSettings = async (query: ListReorderSettingsQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.reorderSetting.findMany({
+                ...args,
+                include: reorderSettingInclude,
+            }),
+        count: (args) => prisma.reorderSetting.count(args),
+    });
+
+    return { settings: items, ...meta };
+};
+
+export const upsertReorderSetting = ({
+    productId,
+    warehouseId,
+    ...values
+}: UpsertReorderSettingInput) =>
+    prisma.reorderSetting.upsert({
+        where: { productId_warehouseId: { productId, warehouseId } },
+        update: values,
+        create: { productId, warehouseId, ...values },
+        include: reorderSettingInclude,
+    });
+
+export const deleteReorderSetting = (id: number) =>
+    prisma.reorderSetting.delete({ where: { id } });
+
+/** Warehouse of a reorder setting, for warehouse-scoped permission checks */
+export const getReorderSettingWarehouseId = async (id: number) =>
+    (
+        await prisma.reorderSetting.findUnique({
+            where: { id },
+            select: { warehouseId: true },
+        })
+    )?.warehouseId;
+
+const add = (map: Map<string, number>, key: string, quantity: number) =>
+    map.set(key, (map.get(key) ?? 0) + quantity);
+
+/**
+ * Computes the stock position of every reorder setting matching the filters:
+ *
+ *   position = on hand − allocated + open purchase orders − unallocated demand
+ *
+ * On hand excludes quarantine locations and expired batches. Purchase orders
+ * and sales demand without a warehouse are counted once per product, against
+ * its primary warehouse: the lowest-id picking warehouse with a reorder
+ * setting (or the lowest-id warehouse when none of them picks).
+ */
+const loadStockPositions = async (
+    tx: TransactionClient,
+    {
+        warehouseId,
+        productIds,
+        supplierId,
+    }: { warehouseId?: number; productIds?: number[]; supplierId?: number }
+) => {
+    const settings = await tx.reorderSetting.findMany({
+        where: {
+            ...(productIds && { productId: { in: productIds } }),
+            ...(supplierId && { product: { defaultSupplierId: supplierId } }),
+        },
+        include: reorderSettingInclude,
+        orderBy: [{ productId: "asc" }, { warehouseId: "asc" }],
+    });
+    const ids = [...new Set(settings.map((setting) => setting.productId))];
+    if (!ids.length) return [];
+
+    // Settings are ordered by warehouse id, so the first match is the lowest
+    const primaryWarehouse = new Map<number, number>();
+    for (const productId of ids) {
+        const own = settings.filter((s) => s.productId === productId);
+        const primary =
+            own.find((s) => s.warehouse.isPickingLocation) ?? own[0];
+        primaryWarehouse.set(productId, primary.warehouseId);
+    }
+
+    const [stock, purchaseLines, salesLines] = await Promise.all([
+        tx.inventoryStockLocation.findMany({
+            where: {
+                productId: { in: ids },
+                quantity: { gt: 0 },
+                OR: [
+                    { batchId: null },
+                    {
+                        batch: {
+                            OR: [
+                                { expiryDate: null },
+                                { expiryDate: { gt: new Date() } },
+                            ],
+                        },
+                    },
+                ],
+                warehouseLocation: { isQuarantine: false },
+            },
+            select: {
+                productId: true,
+                quantity: true,
+                warehouseLocation: { select: { warehouseId: true } },
+                allocations: { select: { quantity: true } },
+            },
+        }),
+        tx.purchaseOrderItem.findMany({
+            where: {
+                productId: { in: ids },
+                purchaseOrder: { status: { in: OPEN_PURCHASE_STATUSES } },
+            },
+            select: {
+                productId: true,
+                quantityOrdered: true,
+                quantityReceived: true,
+                purchaseOrder: { select: { warehouseId: true } },
+            },
+        }),
+        tx.salesOrderItem.findMany({
+            where: {
+                productId: { in: ids },
+                salesOrder: { status: { in: OPEN_SALES_STATUSES } },
+            },
+            select: {
+                productId: true,
+                quantityOrdered: true,
+                quantityShipped: true,
+                allocations: { select: { quantity: true } },
+            },
+        }),
+    ]);
+
+    const onHand = new Map<string, number>();
+    const allocated = new Map<string, number>();
+    for (const row of stock) {
+        const key = `${row.productId}:${row.warehouseLocation.warehouseId}`;
+        add(onHand, key, row.quantity);
+        add(
+            allocated,
+            key,
+            row.allocations.reduce((total, a) => total + a.quantity, 0)
+        );
+    }
+
+    const onOrder = new Map<string, number>();
+    for (const line of purchaseLines) {
+        const warehouseId =
+            line.purchaseOrder.warehouseId ??
+            primaryWarehouse.get(line.productId);
+        add(
+            onOrder,
+            `${line.productId}:${warehouseId}`,
+            Math.max(line.quantityOrdered - line.quantityReceived, 0)
+        );
+    }
+
+    const unallocatedDemand = new Map<number, number>();
+    for (const line of salesLines) {
+        const outstanding =
+            line.quantityOrdered -
+            line.quantityShipped -
+            line.allocations.reduce((total, a) => total + a.quantity, 0);
+        unallocatedDemand.set(
+            line.productId,
+            (unallocatedDemand.get(line.productId) ?? 0) +
+                Math.max(outstanding, 0)
+        );
+    }
+
+    return settings
+        .filter(
+            (setting) => !warehouseId || setting.warehouseId === warehouseId
+        )
+        .map(({ product, warehouse, ...setting }) => {
+            const key = `${setting.productId}:${setting.warehouseId}`;
+            const demand =
+                primaryWarehouse.get(setting.productId) === setting.warehouseId
+                    ? unallocatedDemand.get(setting.productId) ?? 0
+                    : 0;
+            const position =
+                (onHand.get(key) ?? 0) -
+                (allocated.get(key) ?? 0) +
+                (onOrder.get(key) ?? 0) -
+                demand;
+
+            return {
+                ...setting,
+                product,
+                warehouse: { id: warehouse.id, name: warehouse.name },
+                onHand: onHand.get(key) ?? 0,
+                allocated: allocated.get(key) ?? 0,
+                onOrder: onOrder.get(key) ?? 0,
+                unallocatedDemand: demand,
+                position,
+                isBelowMin: position < setting.minQuantity,
+                suggestedQuantity:
+                    position <= setting.reorderPoint
+                        ? setting.maxQuantity - position
+                        : 0,
+            };
+        });
+};
+
+type StockPosition = Awaited<ReturnType<typeof loadStockPositions>>[number];
+
+/**
+ * Settings whose stock position has fallen to or below the reorder point,
+ * furthest below it first, with the quantity that brings them back to the
+ * maximum.
+ */
+export const getLowStock = async ({
+    warehouseId,
+    supplierId,
+    belowMinOnly,
+}: LowStockQuery) => {
+    const positions = await loadStockPositions(prisma, {
+        warehouseId,
+        supplierId,
+    });
+
+    return positions
+        .filter((position) =>
+            belowMinOnly ? position.isBelowMin : position.suggestedQuantity > 0
+        )
+        .sort(
+            (a, b) =>
+                a.position - a.reorderPoint - (b.position - b.reorderPoint) ||
+                a.productId - b.productId
+        );
+};
+
+/** Unit cost of the product on its latest order with the supplier */
+const getLastUnitCost = async (
+    tx: TransactionClient,
+    productId: number,
+    supplierId: number
+) =>
+    (
+        await tx.purchaseOrderItem.findFirst({
+            where: {
+                productId,
+                purchaseOrder: { supplierId, status: { not: "CANCELLED" } },
+            },
+            select: { unitCost: true },
+            orderBy: { id: "desc" },
+        })
+    )?.unitCost;
+
+/**
+ * Drafts `PENDING` purchase orders for every setting at or below its reorder
+ * point, one per default supplier and warehouse, for a buyer to review and
+ * confirm. Lines use the product's supplier SKU and the last unit cost paid to
+ * that supplier, falling back to the average cost. Drafts are open supply, so
+ * running again doesn't order the same shortfall twice. Products without a
+ * default supplier are returned as skipped.
+ */
+export const createReplenishmentDrafts = (
+    { warehouseId, productIds }: CreateReplenishmentDraftsInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        const candidates = await tx.reorderSetting.findMany({
+            where: {
+                ...(warehouseId && { warehouseId }),
+                ...(productIds && { productId: { in: productIds } }),
+            },
+            select: { productId: true },
+        });
+        // Serialise runs so concurrent ones can't draft the same shortfall
+        await lockProducts(
+            tx,
+            candidates.map((c) => c.productId)
+        );
+
+        const positions = (
+            await loadStockPositions(tx, { warehouseId, productIds })
+        ).filter((position) => position.suggestedQuantity > 0);
+
+        const skipped: (Pick<StockPosition, "product" | "warehouse"> & {
+            suggestedQuantity: number;
+            reason: string;
+        })[] = [];
+        const groups = new Map<string, StockPosition[]>();
+        for (const position of positions) {
+            const supplier = position.product.defaultSupplier;
+            if (!supplier) {
+                skipped.push({
+                    product: position.product,
+                    warehouse: position.warehouse,
+                    suggestedQuantity: position.suggestedQuantity,
+                    reason: "Product has no default supplier",
+                });
+                continue;
+            }
+            const key = `${supplier.id}:${position.warehouseId}`;
+            groups.set(key, [...(groups.get(key) ?? []), position]);
+        }
+
+        const purchaseOrderIds: number[] = [];
+        for (const lines of groups.values()) {
+            const supplierId = lines[0].product.defaultSupplier!.id;
+            const items = [];
+            for (const line of lines) {
+                items.push({
+                    productId: line.productId,
+                    quantityOrdered: line.suggestedQuantity,
+                    unitCost:
+                        (await getLastUnitCost(
+                            tx,
+                            line.productId,
+                            supplierId
+                        )) ??
+                        line.product.averageCost ??
+                        0,
+                    supplierSku: line.product.supplierSku,
+                });
+            }
+            const totals = pricePurchaseOrder(items);
+            const leadTimeDays = Math.max(
+                ...lines.map((line) => line.leadTimeDays)
+            );
+
+            const order = await tx.purchaseOrder.create({
+                data: {
+                    supplierId,
+                    warehouseId: lines[0].warehouseId,
+                    isReplenishment: true,
+                    expectedDeliveryDate: leadTimeDays
+                        ? new Date(Date.now() + leadTimeDays * DAY_MS)
+                        : undefined,
+                    createdBy: userId,
+                    subTotal: totals.subTotal,
+                    taxAmount: totals.taxAmount,
+                    shippingCost: totals.shippingCost,
+                    totalAmount: totals.totalAmount,
+                },
+                select: { id: true },
+            });
+            await tx.purchaseOrderItem.createMany({
+                data: items.map((item, index) => ({
+                    ...item,
+                    purchaseOrderId: order.id,
+                    totalCost: totals.lines[index].total,
+                })),
+            });
+            await tx.purchaseOrderEvent.create({
+                data: {
+                    purchaseOrderId: order.id,
+                    userId,
+                    eventType: "CREATED",
+                    details: `Drafted by replenishment for ${lines.length} product(s) below their reorder point`,
+                },
+            });
+            purchaseOrderIds.push(order.id);
+        }
+
+        const purchaseOrders = await tx.purchaseOrder.findMany({
+            where: { id: { in: purchaseOrderIds } },
+            include: purchaseOrderDetailInclude,
+            orderBy: { id: "asc" },
+        });
+
+        return { purchaseOrders, skipped };
+    });
@@ -0,0 +1,206 @@
+import { Prisma } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import {
+    calculateOrderTotals,
+    type CreateSalesOrderInput,
+    type DecimalLike,
+    type UpdateSalesOrderInput,
+} from "shared";
+import prisma from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListSalesOrdersQuery } from "../schemas/salesOrder.schema.js";
+import AppError from "../utils/AppError.js";
+
+interface SalesOrderLine {
+    quantityOrdered: number;
+    unitPrice: number;
+    discountPercentage?: DecimalLike | null;
+    taxRate?: DecimalLike | null;
+}
+
+export const salesOrderDetailInclude = {
+    customer: { select: { id: true, name: true, taxExempt: true } },
+    carrier: { select: { id: true, name: true, trackingUrl: true } },
+    items: {
+        include: {
+            product: {
+                select: {
+                    id: true,
+                    name: true,
+                    sku: true,
+                    isTrackedByBatch: true,
+                    isTrackedBySerial: true,
+                },
+            },
+            allocations: { select: { quantity: true } },
+        },
+        orderBy: { id: "asc" },
+    },
+    events: {
+        include: { user: { select: { id: true, username: true } } },
+        orderBy: { timestamp: "desc" },
+    },
+} satisfies Prisma.SalesOrderInclude;
+
+export const listSalesOrders = async (query: ListSalesOrdersQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.salesOrder.findMany({
+                ...args,
+                include: { customer: { select: { id: true, name: true } } },
+            }),
+        count: (args) => prisma.salesOrder.count(args),
+    });
+
+    return { salesOrders: items, ...meta };
+};
+
+export const getSalesOrder = (id: number) =>
+    prisma.salesOrder.findUniqueOrThrow({
+        where: { id },
+        include: salesOrderDetailInclude,
+    });
+
+/**
+ * Recomputes line and order totals with the shared calculator. Totals sent by
+ * the client are never trusted.
+ */
+const priceSalesOrder = (
+    items: SalesOrderLine[],
+    options: {
+        discountAmount?: number | null;
+        shippingCost?: number | null;
+        taxExempt: boolean;
+    }
+) => {
+    const totals = calculateOrderTotals({
+        lines: items.map((item) => ({
+            quantity: item.quantityOrdered,
+            unitPrice: item.unitPrice,
+            discountPercentage: item.discountPercentage,
+            taxRate: item.taxRate,
+        })),
+        ...options,
+    });
+
+    if (totals.discountAmount < (options.discountAmount ?? 0)) {
+        throw new AppError(
+            "Order discount cannot exceed the order value",
+            StatusCodes.BAD_REQUEST
+        );
+    }
+    return totals;
+};
+
+export const createSalesOrder = async (
+    { items, ...order }: CreateSalesOrderInput,
+    userId: number
+) => {
+    const customer = await prisma.customer.findUniqueOrThrow({
+        where: { id: order.customerId },
+        select: { taxExempt: true },
+    });
+    const totals = priceSalesOrder(items, {
+        discountAmount: order.discountAmount,
+        shippingCost: order.shippingCost,
+        taxExempt: customer.taxExempt,
+    });
+
+    return prisma.$transaction(async (tx) => {
+        const created = await tx.salesOrder.create({
+            data: {
+                ...order,
+                createdBy: userId,
+                subTotal: totals.subTotal,
+                taxAmount: totals.taxAmount,
+                discountAmount: totals.discountAmount,
+                shippingCost: totals.shippingCost,
+                totalAmount: totals.totalAmount,
+            },
+        });
+        await tx.salesOrderItem.createMany({
+            data: items.map((item, index) => ({
+                ...item,
+                salesOrderId: created.id,
+                totalPrice: totals.lines[index].total,
+            })),
+        });
+        await tx.salesOrderEvent.create({
+            data: { salesOrderId: created.id, userId, eventType: "CREATED" },
+        });
+
+        return tx.salesOrder.findUniqueOrThrow({
+            where: { id: created.id },
+            include: salesOrderDetailInclude,
+        });
+    });
+};
+
+/**
+ * Updates a pending sales order. Passing `items` replaces every line. Totals are
+ * recomputed even when only header fields change, since the customer's tax
+ * exemption, the discount or shipping may have changed.
+ */
+export const updateSalesOrder = (
+    id: number,
+    { items, ...changes }: UpdateSalesOrderInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT id FROM "SalesOrder" WHERE id = ${id} FOR UPDATE`;
+        const order = await tx.salesOrder.findUniqueOrThrow({
+            where: { id },
+            include: { items: { orderBy: { id: "asc" } } },
+        });
+        if (order.status !== "PENDING") {
+            throw new AppError(
+                `Cannot edit a sales order with status ${order.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        const customer = await tx.customer.findUniqueOrThrow({
+            where: { id: changes.customerId ?? order.customerId },
+            select: { taxExempt: true },
+        });
+        const totals = priceSalesOrder(items ?? order.items, {
+            discountAmount: changes.discountAmount ?? order.discountAmount,
+            shippingCost: changes.shippingCost ?? order.shippingCost,
+            taxExempt: customer.taxExempt,
+        });
+
+        if (items) {
+            await tx.salesOrderItem.deleteMany({ where: { salesOrderId: id } });
+            await tx.salesOrderItem.createMany({
+                data: items.map((item, index) => ({
+                    ...item,
+                    salesOrderId: id,
+                    totalPrice: totals.lines[index].total,
+                })),
+            });
+        } else {
+            for (const [index, item] of order.items.entries()) {
+                await tx.salesOrderItem.update({
+                    where: { id: item.id },
+                    data: { totalPrice: totals.lines[index].total },
+                });
+            }
+        }
+
+        await tx.salesOrderEvent.create({
+            data: { salesOrderId: id, userId, eventType: "UPDATED" },
+        });
+
+        return tx.salesOrder.update({
+            where: { id },
+            data: {
+                ...changes,
+                subTotal: totals.subTotal,
+                taxAmount: totals.taxAmount,
+                discountAmount: totals.discountAmount,
+                shippingCost: totals.shippingCost,
+                totalAmount: totals.totalAmount,
+            },
+            include: salesOrderDetailInclude,
+        });
+    });
@@ -0,0 +1,194 @@
+import { Prisma } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import type { SerialHistoryQuery } from "shared";
+import prisma from "../config/prisma.js";
+import AppError from "../utils/AppError.js";
+
+const historyInclude = {
+    warehouseLocation: {
+        select: {
+            id: true,
+            code: true,
+            warehouse: { select: { id: true, name: true } },
+        },
+    },
+    batch: { select: { id: true, batchNumber: true, expiryDate: true } },
+    user: { select: { id: true, username: true } },
+    purchaseOrderItem: {
+        select: {
+            purchaseOrder: {
+                select: {
+                    id: true,
+                    orderDate: true,
+                    supplier: { select: { id: true, name: true } },
+                },
+            },
+        },
+    },
+    salesOrderItem: {
+        select: {
+            salesOrder: {
+                select: {
+                    id: true,
+                    orderDate: true,
+                    customer: { select: { id: true, name: true } },
+                },
+            },
+        },
+    },
+    stockTransfer: {
+        select: {
+            id: true,
+            transferNumber: true,
+            fromWarehouse: { select: { id: true, name: true } },
+            toWarehouse: { select: { id: true, name: true } },
+        },
+    },
+    customerReturnItem: {
+        select: {
+            reason: true,
+            condition: true,
+            customerReturn: {
+                select: {
+                    id: true,
+                    returnNumber: true,
+                    customer: { select: { id: true, name: true } },
+                },
+            },
+        },
+    },
+    supplierReturnItem: {
+        select: {
+            reason: true,
+            supplierReturn: {
+                select: {
+                    id: true,
+                    returnNumber: true,
+                    supplier: { select: { id: true, name: true } },
+                },
+            },
+        },
+    },
+    stockAdjustment: { select: { id: true, reason: true } },
+} satisfies Prisma.InventoryTransactionInclude;
+
+type HistoryEntry = Prisma.InventoryTransactionGetPayload<{
+    include: typeof historyInclude;
+}>;
+
+/** The document a ledger entry was posted against, flattened for display */
+const describeSource = (entry: HistoryEntry) => {
+    if (entry.purchaseOrderItem) {
+        const order = entry.purchaseOrderItem.purchaseOrder;
+        return {
+            type: "PURCHASE_ORDER" as const,
+            id: order.id,
+            date: order.orderDate,
+            supplier: order.supplier,
+        };
+    }
+    if (entry.salesOrderItem) {
+        const order = entry.salesOrderItem.salesOrder;
+        return {
+            type: "SALES_ORDER" as const,
+            id: order.id,
+            date: order.orderDate,
+            customer: order.customer,
+        };
+    }
+    if (entry.stockTransfer) {
+        const { id, transferNumber, ...transfer } = entry.stockTransfer;
+        return {
+            type: "STOCK_TRANSFER" as const,
+            id,
+            number: transferNumber,
+            ...transfer,
+        };
+    }
+    if (entry.customerReturnItem) {
+        const { customerReturn, ...item } = entry.customerReturnItem;
+        return {
+            type: "CUSTOMER_RETURN" as const,
+            id: customerReturn.id,
+            number: customerReturn.returnNumber,
+            customer: customerReturn.customer,
+            ...item,
+        };
+    }
+    if (entry.supplierReturnItem) {
+        const { supplierReturn, ...item } = entry.supplierReturnItem;
+        return {
+            type: "SUPPLIER_RETURN" as const,
+            id: supplierReturn.id,
+            number: supplierReturn.returnNumber,
+            supplier: supplierReturn.supplier,
+            ...item,
+        };
+    }
+    if (entry.stockAdjustment) {
+        return {
+            type: "STOCK_ADJUSTMENT" as const,
+            ...entry.stockAdjustment,
+        };
+    }
+    return null;
+};
+
+/**
+ * Reconstructs the path of a serialised unit from the ledger, oldest first:
+ * the purchase order it arrived on, transfers, the sales order it shipped on
+ * and any returns or write-offs. Returns one entry per product carrying the
+ * serial unless `productId` narrows it down.
+ */
+export const getSerialHistory = async (
+    serialNumber: string,
+    { productId }: SerialHistoryQuery
+) => {
+    const units = await prisma.serialNumber.findMany({
+        where: { serialNumber, productId },
+        include: {
+            product: { select: { id: true, name: true, sku: true } },
+            currentLocation: {
+                select: {
+                    id: true,
+                    code: true,
+                    warehouse: { select: { id: true, name: true } },
+                },
+            },
+            inventoryTransactions: {
+                include: historyInclude,
+                orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+            },
+        },
+        orderBy: { productId: "asc" },
+    });
+    if (!units.length) {
+        throw new AppError(
+            `Serial number ${serialNumber} not found`,
+            StatusCodes.NOT_FOUND
+        );
+    }
+
+    return units.map(({ inventoryTransactions, ...unit }) => ({
+        id: unit.id,
+        serialNumber: unit.serialNumber,
+        status: unit.status,
+        product: unit.product,
+        currentLocation: unit.currentLocation,
+        history: inventoryTransactions.map((entry) => ({
+            id: entry.id,
+            timestamp: entry.timestamp,
+            transactionType: entry.transactionType,
+            quantityChange: entry.quantityChange,
+            location: {
+                id: entry.warehouseLocation.id,
+                code: entry.warehouseLocation.code,
+            },
+            warehouse: entry.warehouseLocation.warehouse,
+            batch: entry.batch,
+            user: entry.user,
+            notes: entry.notes,
+            source: describeSource(entry),
+        })),
+    }));
+};
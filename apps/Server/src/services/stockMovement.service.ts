@@ -0,0 +1,332 @@
+import {
+    InventoryTransactionType,
+    Prisma,
+    SerialNumberStatus,
+} from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import AppError from "../utils/AppError.js";
+
+/** Transaction types that add stock to a location; every other type removes it */
+const INBOUND_TYPES: ReadonlySet<InventoryTransactionType> = new Set([
+    "RECEIPT_PURCHASE",
+    "ADJUSTMENT_ADD",
+    "TRANSFER_IN",
+    "RETURN_CUSTOMER",
+    "INITIAL_STOCK",
+    "PRODUCTION_OUTPUT",
+]);
+
+/** Source document a ledger entry is posted against */
+export type MovementSource = Pick<
+    Prisma.InventoryTransactionUncheckedCreateInput,
+    | "purchaseOrderId"
+    | "purchaseOrderItemId"
+    | "salesOrderId"
+    | "salesOrderItemId"
+    | "stockAdjustmentId"
+    | "stockTransferId"
+    | "customerReturnItemId"
+    | "supplierReturnItemId"
+>;
+
+export interface StockMovement {
+    productId: number;
+    warehouseLocationId: number;
+    batchId?: number | null;
+    serialNumberId?: number | null;
+    /** Units moved, always positive; the direction comes from `transactionType` */
+    quantity: number;
+    transactionType: InventoryTransactionType;
+    notes?: string | null;
+    /** Cost per unit of inbound stock that has no purchase order line */
+    unitCost?: number | null;
+    source?: MovementSource;
+}
+
+export interface PostMovementsOptions {
+    /** User the ledger entries are attributed to */
+    userId: number;
+    /** Let balances go below zero instead of rejecting the post */
+    allowNegative?: boolean;
+    /** Join an existing transaction so the post commits with the caller's writes */
+    tx?: TransactionClient;
+}
+
+export const isInbound = (type: InventoryTransactionType) =>
+    INBOUND_TYPES.has(type);
+
+/**
+ * Serialises concurrent posts to the same product/location until the surrounding
+ * transaction ends. Advisory locks are used instead of `SELECT ... FOR UPDATE`
+ * because the balance row may not exist yet, and the `(product, location, batch)`
+ * unique key doesn't stop duplicate rows when `batchId` is null.
+ */
+const lockBalances = async (
+    tx: TransactionClient,
+    movements: StockMovement[]
+) => {
+    const pairs = new Map<string, [number, number]>();
+    for (const { productId, warehouseLocationId } of movements) {
+        pairs.set(`${productId}:${warehouseLocationId}`, [
+            productId,
+            warehouseLocationId,
+        ]);
+    }
+
+    // Always lock in the same order so two posts can't deadlock each other
+    const ordered = [...pairs.values()].sort(
+        ([productA, locationA], [productB, locationB]) =>
+            productA - productB || locationA - locationB
+    );
+    for (const [productId, locationId] of ordered) {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${productId}::int, ${locationId}::int)`;
+    }
+};
+
+/**
+ * Batch-tracked products can only move with a batch and serial-tracked ones one
+ * serial at a time. Batches and serials must belong to the moved product.
+ */
+const assertTracking = async (
+    tx: TransactionClient,
+    movements: StockMovement[]
+) => {
+    const productIds = [...new Set(movements.map((m) => m.productId))];
+    const ids = (key: "batchId" | "serialNumberId") => [
+        ...new Set(
+            movements.map((m) => m[key]).filter((id): id is number => !!id)
+        ),
+    ];
+    const [products, batches, serials] = await Promise.all([
+        tx.product.findMany({
+            where: {
+                id: { in: productIds },
+                OR: [{ isTrackedByBatch: true }, { isTrackedBySerial: true }],
+            },
+            select: {
+                id: true,
+                sku: true,
+                isTrackedByBatch: true,
+                isTrackedBySerial: true,
+            },
+        }),
+        tx.batch.findMany({
+            where: { id: { in: ids("batchId") } },
+            select: { id: true, productId: true },
+        }),
+        tx.serialNumber.findMany({
+            where: { id: { in: ids("serialNumberId") } },
+            select: { id: true, productId: true },
+        }),
+    ]);
+
+    for (const { productId, batchId, serialNumberId, quantity } of movements) {
+        const tracked = products.find((p) => p.id === productId);
+        if (tracked?.isTrackedByBatch && !batchId) {
+            throw new AppError(
+                `Product ${tracked.sku} is tracked by batch; a batch is required for every movement`,
+                StatusCodes.BAD_REQUEST
+            );
+        }
+        if (tracked?.isTrackedBySerial && (!serialNumberId || quantity !== 1)) {
+            throw new AppError(
+                `Product ${tracked.sku} is tracked by serial number; every unit must move with its serial`,
+                StatusCodes.BAD_REQUEST
+            );
+        }
+        if (
+            batchId &&
+            batches.find((b) => b.id === batchId)?.productId !== productId
+        ) {
+            throw new AppError(
+                `Batch ${batchId} does not belong to product ${productId}`,
+                StatusCodes.BAD_REQUEST
+            );
+        }
+        if (
+            serialNumberId &&
+            serials.find((s) => s.id === serialNumberId)?.productId !==
+                productId
+        ) {
+            throw new AppError(
+                `Serial number ${serialNumberId} does not belong to product ${productId}`,
+                StatusCodes.BAD_REQUEST
+            );
+        }
+    }
+};
+
+/** Serial status after leaving stock through each outbound movement type */
+const OUTBOUND_SERIAL_STATUS: Partial<
+    Record<InventoryTransactionType, SerialNumberStatus>
+> = {
+    SHIPMENT_SALES: "SHIPPED",
+    RETURN_SUPPLIER: "SHIPPED",
+    ADJUSTMENT_REMOVE: "SCRAPPED",
+    PRODUCTION_CONSUMPTION: "SCRAPPED",
+};
+
+/**
+ * Keeps a serialised unit in step with the ledger. A unit is on hand while it
+ * has a current location: it can only leave from that location and can only
+ * arrive when it isn't on hand anywhere. Units in transit between warehouses
+ * have no location but keep their status.
+ */
+const moveSerial = async (
+    tx: TransactionClient,
+    serialNumberId: number,
+    warehouseLocationId: number,
+    transactionType: InventoryTransactionType
+) => {
+    const serial = await tx.serialNumber.findUniqueOrThrow({
+        where: { id: serialNumberId },
+    });
+
+    if (isInbound(transactionType)) {
+        if (serial.currentLocationId !== null || serial.status === "SCRAPPED") {
+            throw new AppError(
+                `Serial ${serial.serialNumber} is ${
+                    serial.status === "SCRAPPED"
+                        ? "scrapped"
+                        : `already in stock at location ${serial.currentLocationId}`
+                }`,
+                StatusCodes.CONFLICT
+            );
+        }
+        await tx.serialNumber.update({
+            where: { id: serialNumberId },
+            data: {
+                currentLocationId: warehouseLocationId,
+                status:
+                    transactionType === "RETURN_CUSTOMER"
+                        ? "RETURNED"
+                        : "IN_STOCK",
+            },
+        });
+        return;
+    }
+
+    if (serial.currentLocationId !== warehouseLocationId) {
+        throw new AppError(
+            `Serial ${serial.serialNumber} is not in stock at location ${warehouseLocationId}`,
+            StatusCodes.CONFLICT
+        );
+    }
+    await tx.serialNumber.update({
+        where: { id: serialNumberId },
+        data: {
+            currentLocationId: null,
+            status: OUTBOUND_SERIAL_STATUS[transactionType] ?? serial.status,
+        },
+    });
+};
+
+const applyMovements = async (
+    tx: TransactionClient,
+    movements: StockMovement[],
+    { userId, allowNegative = false }: PostMovementsOptions
+) => {
+    for (const movement of movements) {
+        if (!Number.isInteger(movement.quantity) || movement.quantity <= 0) {
+            throw new AppError(
+                "Movement quantity must be a positive whole number",
+                StatusCodes.BAD_REQUEST
+            );
+        }
+    }
+
+    await assertTracking(tx, movements);
+    await lockBalances(tx, movements);
+
+    const transactions = [];
+    for (const movement of movements) {
+        const {
+            productId,
+            warehouseLocationId,
+            batchId = null,
+            serialNumberId = null,
+            transactionType,
+        } = movement;
+
+        const balance = await tx.inventoryStockLocation.findFirst({
+            where: { productId, warehouseLocationId, batchId },
+        });
+
+        const quantityChange = isInbound(transactionType)
+            ? movement.quantity
+            : -movement.quantity;
+        const newQuantity = (balance?.quantity ?? 0) + quantityChange;
+
+        if (newQuantity < 0 && !allowNegative) {
+            throw new AppError(
+                `Insufficient stock for product ${productId} at location ${warehouseLocationId}` +
+                    `${batchId ? ` (batch ${batchId})` : ""}: ` +
+                    `${balance?.quantity ?? 0} available, ${movement.quantity} requested`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        if (balance) {
+            await tx.inventoryStockLocation.update({
+                where: { id: balance.id },
+                data: { quantity: newQuantity },
+            });
+        } else {
+            await tx.inventoryStockLocation.create({
+                data: {
+                    productId,
+                    warehouseLocationId,
+                    batchId,
+                    quantity: newQuantity,
+                },
+            });
+        }
+
+        if (serialNumberId) {
+            await moveSerial(
+                tx,
+                serialNumberId,
+                warehouseLocationId,
+                transactionType
+            );
+        }
+
+        transactions.push(
+            await tx.inventoryTransaction.create({
+                data: {
+                    productId,
+                    warehouseLocationId,
+                    batchId,
+                    serialNumberId,
+                    quantityChange,
+                    newQuantityAtLocation: newQuantity,
+                    transactionType,
+                    userId,
+                    notes: movement.notes,
+                    unitCost: movement.unitCost,
+                    ...movement.source,
+                },
+            })
+        );
+    }
+
+    return transactions;
+};
+
+/**
+ * Posts stock movements atomically: each one writes an `InventoryTransaction`
+ * and updates the matching `InventoryStockLocation` balance, and the location
+ * and status of the moved serial number if any. Either every movement is
+ * posted or none is.
+ *
+ * All flows that change stock must go through here so the ledger and the
+ * balances can't drift apart.
+ */
+export const postStockMovements = (
+    movements: StockMovement[],
+    options: PostMovementsOptions
+) => {
+    if (options.tx) return applyMovements(options.tx, movements, options);
+    return prisma.$transaction((tx) => applyMovements(tx, movements, options));
+};
@@ -0,0 +1,412 @@
+import { Prisma } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import type {
+    CreateStockTransferInput,
+    ReceiveStockTransferInput,
+    ShipStockTransferInput,
+} from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListStockTransfersQuery } from "../schemas/stockTransfer.schema.js";
+import AppError from "../utils/AppError.js";
+import { formatDocumentNumber } from "../utils/documentNumber.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import {
+    findAvailableStock,
+    lockProducts,
+    releaseBackorders,
+} from "./fulfillment.service.js";
+import {
+    assertLocationInWarehouse,
+    getDefaultLocation,
+} from "./warehouse.service.js";
+import { createOpenTask } from "./task.service.js";
+
+export const stockTransferDetailInclude = {
+    fromWarehouse: { select: { id: true, name: true } },
+    toWarehouse: { select: { id: true, name: true } },
+    initiatedByUser: { select: { id: true, username: true } },
+    completedByUser: { select: { id: true, username: true } },
+    items: {
+        include: {
+            product: { select: { id: true, name: true, sku: true } },
+            batch: {
+                select: { id: true, batchNumber: true, expiryDate: true },
+            },
+            serialNumber: { select: { id: true, serialNumber: true } },
+        },
+        orderBy: { id: "asc" },
+    },
+} satisfies Prisma.StockTransferInclude;
+
+const lockTransfer = (tx: TransactionClient, id: number) =>
+    tx.$executeRaw`SELECT id FROM "StockTransfer" WHERE id = ${id} FOR UPDATE`;
+
+export const listStockTransfers = async (query: ListStockTransfersQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.stockTransfer.findMany({
+                ...args,
+                include: {
+                    fromWarehouse: { select: { id: true, name: true } },
+                    toWarehouse: { select: { id: true, name: true } },
+                    _count: { select: { items: true } },
+                },
+            }),
+        count: (args) => prisma.stockTransfer.count(args),
+    });
+
+    return { stockTransfers: items, ...meta };
+};
+
+export const getStockTransfer = (id: number) =>
+    prisma.stockTransfer.findUniqueOrThrow({
+        where: { id },
+        include: stockTransferDetailInclude,
+    });
+
+export const createStockTransfer = (
+    { items, ...transfer }: CreateStockTransferInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        const created = await tx.stockTransfer.create({
+            data: { ...transfer, initiatedByUserId: userId },
+        });
+        await tx.stockTransferItem.createMany({
+            data: items.map((item) => ({
+                ...item,
+                stockTransferId: created.id,
+            })),
+        });
+
+        return tx.stockTransfer.update({
+            where: { id: created.id },
+            data: { transferNumber: formatDocumentNumber("TRF", created.id) },
+            include: stockTransferDetailInclude,
+        });
+    });
+
+/**
+ * Ships a pending transfer: posts `TRANSFER_OUT` from the source warehouse,
+ * moves the transfer to `IN_TRANSIT` and opens a put-away task at the
+ * destination. Only unreserved stock is shipped: an explicit source location
+ * must hold enough of the item that isn't allocated to sales orders, and items
+ * without one are drawn from unreserved stock; when that spans several batches
+ * the item is split per batch so the receipt knows exactly what is on the way.
+ */
+export const shipStockTransfer = (
+    id: number,
+    input: ShipStockTransferInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockTransfer(tx, id);
+        const transfer = await tx.stockTransfer.findUniqueOrThrow({
+            where: { id },
+            include: { items: { include: { serialNumber: true } } },
+        });
+        if (transfer.status !== "PENDING") {
+            throw new AppError(
+                `Cannot ship a transfer with status ${transfer.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        await lockProducts(
+            tx,
+            transfer.items.map((item) => item.productId)
+        );
+
+        const movements: StockMovement[] = [];
+        // Units already planned out of each balance by earlier items, so two
+        // lines for the same stock can't both draw on it
+        const planned = new Map<string, number>();
+        const balanceKey = (
+            productId: number,
+            warehouseLocationId: number,
+            batchId: number | null | undefined
+        ) => `${productId}:${warehouseLocationId}:${batchId ?? null}`;
+        const plannedFrom = (...key: Parameters<typeof balanceKey>) =>
+            planned.get(balanceKey(...key)) ?? 0;
+        const plan = (movement: StockMovement) => {
+            const key = balanceKey(
+                movement.productId,
+                movement.warehouseLocationId,
+                movement.batchId
+            );
+            planned.set(key, (planned.get(key) ?? 0) + movement.quantity);
+            movements.push(movement);
+        };
+        const base = (item: (typeof transfer.items)[number]) => ({
+            productId: item.productId,
+            transactionType: "TRANSFER_OUT" as const,
+            serialNumberId: item.serialNumberId,
+            source: { stockTransferId: id },
+        });
+
+        for (const item of transfer.items) {
+            const source = input.sources?.find(
+                (s) => s.stockTransferItemId === item.id
+            );
+            const serialLocationId = item.serialNumber?.currentLocationId;
+
+            if (source || serialLocationId) {
+                const warehouseLocationId =
+                    source?.warehouseLocationId ?? serialLocationId!;
+                await assertLocationInWarehouse(
+                    warehouseLocationId,
+                    transfer.fromWarehouseId,
+                    tx
+                );
+
+                const balance = await tx.inventoryStockLocation.findFirst({
+                    where: {
+                        productId: item.productId,
+                        warehouseLocationId,
+                        batchId: item.batchId,
+                    },
+                    include: { allocations: { select: { quantity: true } } },
+                });
+                const reserved =
+                    balance?.allocations.reduce((n, a) => n + a.quantity, 0) ??
+                    0;
+                const available =
+                    (balance?.quantity ?? 0) -
+                    reserved -
+                    plannedFrom(
+                        item.productId,
+                        warehouseLocationId,
+                        item.batchId
+                    );
+                if (available < item.quantity) {
+                    throw new AppError(
+                        `Insufficient unreserved stock of product ${item.productId} ` +
+                            `at location ${warehouseLocationId}: ${Math.max(available, 0)} available, ` +
+                            `${item.quantity} requested`,
+                        StatusCodes.CONFLICT
+                    );
+                }
+
+                plan({
+                    ...base(item),
+                    warehouseLocationId,
+                    batchId: item.batchId,
+                    quantity: item.quantity,
+                });
+                continue;
+            }
+
+            const stock = await findAvailableStock(tx, item.productId, {
+                warehouseId: transfer.fromWarehouseId,
+                batchId: item.batchId,
+                pickingOnly: false,
+            });
+
+            let outstanding = item.quantity;
+            const byBatch = new Map<number | null, number>();
+            for (const row of stock) {
+                const quantity = Math.min(
+                    outstanding,
+                    row.available -
+                        plannedFrom(
+                            item.productId,
+                            row.warehouseLocationId,
+                            row.batchId
+                        )
+                );
+                if (quantity <= 0) continue;
+                plan({
+                    ...base(item),
+                    warehouseLocationId: row.warehouseLocationId,
+                    batchId: row.batchId,
+                    quantity,
+                });
+                byBatch.set(
+                    row.batchId,
+                    (byBatch.get(row.batchId) ?? 0) + quantity
+                );
+                outstanding -= quantity;
+                if (outstanding === 0) break;
+            }
+            if (outstanding > 0) {
+                throw new AppError(
+                    `Insufficient unreserved stock of product ${item.productId} ` +
+                        `in the source warehouse: ${outstanding} short`,
+                    StatusCodes.CONFLICT
+                );
+            }
+
+            const [[firstBatchId, firstQuantity], ...rest] = byBatch;
+            await tx.stockTransferItem.update({
+                where: { id: item.id },
+                data: { batchId: firstBatchId, quantity: firstQuantity },
+            });
+            for (const [batchId, quantity] of rest) {
+                await tx.stockTransferItem.create({
+                    data: {
+                        stockTransferId: id,
+                        productId: item.productId,
+                        batchId,
+                        quantity,
+                    },
+                });
+            }
+        }
+
+        await postStockMovements(movements, { userId, tx });
+        await createOpenTask(tx, {
+            type: "PUT_AWAY",
+            title: `Put away transfer ${transfer.transferNumber}`,
+            warehouseId: transfer.toWarehouseId,
+            stockTransferId: id,
+            createdBy: userId,
+        });
+
+        return tx.stockTransfer.update({
+            where: { id },
+            data: { status: "IN_TRANSIT", shippedAt: new Date() },
+            include: stockTransferDetailInclude,
+        });
+    });
+
+/**
+ * Receives an in-transit transfer into destination locations with
+ * `TRANSFER_IN` movements. Received quantities lower than shipped are kept on
+ * the item as a discrepancy; the shortfall is not put back into stock anywhere.
+ */
+export const receiveStockTransfer = (
+    id: number,
+    input: ReceiveStockTransferInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockTransfer(tx, id);
+        const transfer = await tx.stockTransfer.findUniqueOrThrow({
+            where: { id },
+            include: { items: true },
+        });
+        if (transfer.status !== "IN_TRANSIT") {
+            throw new AppError(
+                `Cannot receive a transfer with status ${transfer.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        for (const line of input.lines ?? []) {
+            if (
+                !transfer.items.some((i) => i.id === line.stockTransferItemId)
+            ) {
+                throw new AppError(
+                    `Item ${line.stockTransferItemId} does not belong to transfer ${id}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+        }
+
+        let defaultLocationId = input.warehouseLocationId;
+        const movements: StockMovement[] = [];
+
+        for (const item of transfer.items) {
+            const line = input.lines?.find(
+                (l) => l.stockTransferItemId === item.id
+            );
+            const quantityReceived = line?.quantityReceived ?? item.quantity;
+            if (quantityReceived > item.quantity) {
+                throw new AppError(
+                    `Item ${item.id}: received ${quantityReceived} but only ${item.quantity} were shipped`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+
+            let warehouseLocationId = line?.warehouseLocationId;
+            if (!warehouseLocationId) {
+                defaultLocationId ??= (
+                    await getDefaultLocation(
+                        transfer.toWarehouseId,
+                        "receiving",
+                        tx
+                    )
+                ).id;
+                warehouseLocationId = defaultLocationId;
+            }
+            await assertLocationInWarehouse(
+                warehouseLocationId,
+                transfer.toWarehouseId,
+                tx
+            );
+
+            if (quantityReceived > 0) {
+                movements.push({
+                    productId: item.productId,
+                    warehouseLocationId,
+                    batchId: item.batchId,
+                    serialNumberId: item.serialNumberId,
+                    quantity: quantityReceived,
+                    transactionType: "TRANSFER_IN",
+                    notes: line?.discrepancyNotes,
+                    source: { stockTransferId: id },
+                });
+            }
+
+            await tx.stockTransferItem.update({
+                where: { id: item.id },
+                data: {
+                    quantityReceived,
+                    discrepancyNotes: line?.discrepancyNotes,
+                },
+            });
+        }
+
+        const productIds = movements.map((m) => m.productId);
+        await lockProducts(tx, productIds);
+        if (movements.length) {
+            await postStockMovements(movements, { userId, tx });
+            await releaseBackorders(tx, productIds, userId);
+        }
+
+        return tx.stockTransfer.update({
+            where: { id },
+            data: {
+                status: "COMPLETED",
+                receivedAt: new Date(),
+                completedByUserId: userId,
+            },
+            include: stockTransferDetailInclude,
+        });
+    });
+
+/** Cancels a transfer that hasn't shipped yet; nothing has been posted for it */
+export const cancelStockTransfer = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockTransfer(tx, id);
+        const transfer = await tx.stockTransfer.findUniqueOrThrow({
+            where: { id },
+        });
+        if (transfer.status !== "PENDING") {
+            throw new AppError(
+                `Cannot cancel a transfer with status ${transfer.status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        return tx.stockTransfer.update({
+            where: { id },
+            data: { status: "CANCELLED", completedByUserId: userId },
+            include: stockTransferDetailInclude,
+        });
+    });
+
+/** Source or destination warehouse of a transfer, for warehouse-scoped permission checks */
+export const getTransferWarehouseId = async (
+    id: number,
+    side: "from" | "to"
+) => {
+    const transfer = await prisma.stockTransfer.findUnique({
+        where: { id },
+        select: { fromWarehouseId: true, toWarehouseId: true },
+    });
+    return side === "from"
+        ? transfer?.fromWarehouseId
+        : transfer?.toWarehouseId;
+};
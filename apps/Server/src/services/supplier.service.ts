@@ -0,0 +1,14 @@
+import prisma from "../config/prisma.js";
+
+export const listSuppliers = () =>
+    prisma.supplier.findMany({
+        select: {
+            id: true,
+            name: true,
+            contactName: true,
+            contactEmail: true,
+            contactPhone: true,
+            defaultCurrency: true,
+        },
+        orderBy: { name: "asc" },
+    });
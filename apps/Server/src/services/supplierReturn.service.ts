@@ -0,0 +1,498 @@
+import { Prisma, ReturnReason, SupplierReturnStatus } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import type {
+    CreateSupplierReturnInput,
+    ReturnRateReportQuery,
+    ShipSupplierReturnInput,
+} from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListSupplierReturnsQuery } from "../schemas/supplierReturn.schema.js";
+import AppError from "../utils/AppError.js";
+import { formatDocumentNumber } from "../utils/documentNumber.js";
+import { postStockMovements, StockMovement } from "./stockMovement.service.js";
+import { lockProducts } from "./fulfillment.service.js";
+import { assertLocationInWarehouse } from "./warehouse.service.js";
+
+export const supplierReturnDetailInclude = {
+    supplier: { select: { id: true, name: true } },
+    purchaseOrder: { select: { id: true, orderDate: true, status: true } },
+    processedByUser: { select: { id: true, username: true } },
+    items: {
+        include: {
+            product: { select: { id: true, name: true, sku: true } },
+            purchaseOrderItem: {
+                select: { id: true, quantityReceived: true, unitCost: true },
+            },
+        },
+        orderBy: { id: "asc" },
+    },
+} satisfies Prisma.SupplierReturnInclude;
+
+/** Returns whose goods have left the building */
+const SHIPPED_STATUSES: SupplierReturnStatus[] = [
+    "SHIPPED",
+    "RECEIVED_BY_SUPPLIER",
+    "COMPLETED",
+];
+const COMPLETABLE_STATUSES: SupplierReturnStatus[] = [
+    "SHIPPED",
+    "RECEIVED_BY_SUPPLIER",
+];
+
+const lockReturn = (tx: TransactionClient, id: number) =>
+    tx.$executeRaw`SELECT id FROM "SupplierReturn" WHERE id = ${id} FOR UPDATE`;
+
+const lockPurchaseOrder = (tx: TransactionClient, id: number) =>
+    tx.$executeRaw`SELECT id FROM "PurchaseOrder" WHERE id = ${id} FOR UPDATE`;
+
+const assertStatus = (
+    status: SupplierReturnStatus,
+    allowed: SupplierReturnStatus[],
+    action: string
+) => {
+    if (!allowed.includes(status)) {
+        throw new AppError(
+            `Cannot ${action} a supplier return with status ${status}`,
+            StatusCodes.CONFLICT
+        );
+    }
+};
+
+/** Quantity of each purchase order item on returns in the given statuses */
+const getReturnedQuantities = async (
+    tx: TransactionClient,
+    purchaseOrderItemIds: number[],
+    statuses: SupplierReturnStatus[]
+) => {
+    const rows = await tx.supplierReturnItem.groupBy({
+        by: ["originalPurchaseOrderItemId"],
+        where: {
+            originalPurchaseOrderItemId: { in: purchaseOrderItemIds },
+            supplierReturn: { status: { in: statuses } },
+        },
+        _sum: { quantityReturned: true },
+    });
+    return new Map(
+        rows.map((row) => [
+            row.originalPurchaseOrderItemId!,
+            row._sum.quantityReturned ?? 0,
+        ])
+    );
+};
+
+export const listSupplierReturns = async (query: ListSupplierReturnsQuery) => {
+    const { items, meta } = await findPage(query, {
+        findMany: (args) =>
+            prisma.supplierReturn.findMany({
+                ...args,
+                include: {
+                    supplier: { select: { id: true, name: true } },
+                    _count: { select: { items: true } },
+                },
+            }),
+        count: (args) => prisma.supplierReturn.count(args),
+    });
+
+    return { supplierReturns: items, ...meta };
+};
+
+export const getSupplierReturn = (id: number) =>
+    prisma.supplierReturn.findUniqueOrThrow({
+        where: { id },
+        include: supplierReturnDetailInclude,
+    });
+
+/**
+ * Opens a return against lines of a purchase order. Each line can only send
+ * back what was received on it less what open returns already claim.
+ */
+export const createSupplierReturn = ({
+    items,
+    ...supplierReturn
+}: CreateSupplierReturnInput) =>
+    prisma.$transaction(async (tx) => {
+        const { originalPurchaseOrderId, supplierId } = supplierReturn;
+
+        // Serialise returns against the same order so the received quantity
+        // check can't be raced
+        await lockPurchaseOrder(tx, originalPurchaseOrderId);
+        const order = await tx.purchaseOrder.findUniqueOrThrow({
+            where: { id: originalPurchaseOrderId },
+            include: { items: true },
+        });
+        if (order.supplierId !== supplierId) {
+            throw new AppError(
+                `Purchase order ${order.id} belongs to a different supplier`,
+                StatusCodes.BAD_REQUEST
+            );
+        }
+
+        const returned = await getReturnedQuantities(
+            tx,
+            order.items.map((i) => i.id),
+            ["PENDING_SHIPMENT", ...SHIPPED_STATUSES]
+        );
+        const requested = new Map<number, number>();
+        const data: Prisma.SupplierReturnItemCreateManySupplierReturnInput[] =
+            [];
+
+        for (const item of items) {
+            const orderItem = order.items.find(
+                (i) => i.id === item.originalPurchaseOrderItemId
+            );
+            if (!orderItem) {
+                throw new AppError(
+                    `Item ${item.originalPurchaseOrderItemId} does not belong to purchase order ${order.id}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+
+            const total =
+                (requested.get(orderItem.id) ?? 0) + item.quantityReturned;
+            requested.set(orderItem.id, total);
+            const returnable =
+                orderItem.quantityReceived - (returned.get(orderItem.id) ?? 0);
+            if (total > returnable) {
+                throw new AppError(
+                    `Cannot return ${total} of purchase order item ${orderItem.id}: ` +
+                        `only ${returnable} received and not yet returned`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+
+            data.push({ ...item, productId: orderItem.productId });
+        }
+
+        const created = await tx.supplierReturn.create({
+            data: { ...supplierReturn, status: "PENDING_SHIPMENT" },
+        });
+        await tx.supplierReturnItem.createMany({
+            data: data.map((item) => ({
+                ...item,
+                supplierReturnId: created.id,
+            })),
+        });
+
+        return tx.supplierReturn.update({
+            where: { id: created.id },
+            data: { returnNumber: formatDocumentNumber("SRN", created.id) },
+            include: supplierReturnDetailInclude,
+        });
+    });
+
+/**
+ * Ships a return: posts `RETURN_SUPPLIER` movements from the picked locations.
+ * Picks may come from quarantine, but can't eat into stock allocated to sales
+ * orders. The original purchase order moves to `RETURNED` once everything
+ * received on it has been shipped back.
+ */
+export const shipSupplierReturn = (
+    id: number,
+    { warehouseId, picks, ...shipment }: ShipSupplierReturnInput,
+    userId: number
+) =>
+    prisma.$transaction(async (tx) => {
+        await lockReturn(tx, id);
+        const supplierReturn = await tx.supplierReturn.findUniqueOrThrow({
+            where: { id },
+            include: { items: true },
+        });
+        assertStatus(supplierReturn.status, ["PENDING_SHIPMENT"], "ship");
+        // Receipts lock the order before products, so take it first here too
+        if (supplierReturn.originalPurchaseOrderId) {
+            await lockPurchaseOrder(tx, supplierReturn.originalPurchaseOrderId);
+        }
+
+        const picked = new Map<number, number>();
+        const movements: StockMovement[] = [];
+        for (const pick of picks) {
+            const item = supplierReturn.items.find(
+                (i) => i.id === pick.supplierReturnItemId
+            );
+            if (!item) {
+                throw new AppError(
+                    `Item ${pick.supplierReturnItemId} does not belong to supplier return ${id}`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+            await assertLocationInWarehouse(
+                pick.warehouseLocationId,
+                warehouseId,
+                tx
+            );
+
+            picked.set(item.id, (picked.get(item.id) ?? 0) + pick.quantity);
+            movements.push({
+                productId: item.productId,
+                warehouseLocationId: pick.warehouseLocationId,
+                batchId: pick.batchId,
+                serialNumberId: pick.serialNumberId,
+                quantity: pick.quantity,
+                transactionType: "RETURN_SUPPLIER",
+                notes: item.notes ?? undefined,
+                source: { supplierReturnItemId: item.id },
+            });
+        }
+        for (const item of supplierReturn.items) {
+            if (picked.get(item.id) !== item.quantityReturned) {
+                throw new AppError(
+                    `Item ${item.id}: picked ${picked.get(item.id) ?? 0} ` +
+                        `but ${item.quantityReturned} are being returned`,
+                    StatusCodes.BAD_REQUEST
+                );
+            }
+        }
+
+        await lockProducts(
+            tx,
+            movements.map((m) => m.productId)
+        );
+        await assertUnallocated(tx, movements);
+        await postStockMovements(movements, { userId, tx });
+
+        if (supplierReturn.originalPurchaseOrderId) {
+            await markOrderReturned(
+                tx,
+                supplierReturn.originalPurchaseOrderId,
+                supplierReturn,
+                userId
+            );
+        }
+
+        return tx.supplierReturn.update({
+            where: { id },
+            data: { ...shipment, status: "SHIPPED" },
+            include: supplierReturnDetailInclude,
+        });
+    });
+
+/** Rejects picks that would take stock already allocated to sales orders */
+const assertUnallocated = async (
+    tx: TransactionClient,
+    movements: StockMovement[]
+) => {
+    const taken = new Map<string, StockMovement & { total: number }>();
+    for (const movement of movements) {
+        const key = `${movement.productId}:${movement.warehouseLocationId}:${
+            movement.batchId ?? ""
+        }`;
+        const entry = taken.get(key) ?? { ...movement, total: 0 };
+        entry.total += movement.quantity;
+        taken.set(key, entry);
+    }
+
+    for (const {
+        productId,
+        warehouseLocationId,
+        batchId,
+        total,
+    } of taken.values()) {
+        const stock = await tx.inventoryStockLocation.findFirst({
+            where: { productId, warehouseLocationId, batchId: batchId ?? null },
+            include: { allocations: { select: { quantity: true } } },
+        });
+        const allocated = (stock?.allocations ?? []).reduce(
+            (sum, a) => sum + a.quantity,
+            0
+        );
+        const available = (stock?.quantity ?? 0) - allocated;
+        if (total > available) {
+            throw new AppError(
+                `Only ${available} unallocated unit(s) of product ${productId} ` +
+                    `at location ${warehouseLocationId}`,
+                StatusCodes.CONFLICT
+            );
+        }
+    }
+};
+
+/**
+ * Logs the shipment on the purchase order and moves the order to `RETURNED`
+ * once everything received on it has been shipped back.
+ */
+const markOrderReturned = async (
+    tx: TransactionClient,
+    purchaseOrderId: number,
+    shipping: Prisma.SupplierReturnGetPayload<{ include: { items: true } }>,
+    userId: number
+) => {
+    const order = await tx.purchaseOrder.findUniqueOrThrow({
+        where: { id: purchaseOrderId },
+        include: { items: true },
+    });
+    // The return being shipped is still PENDING_SHIPMENT at this point
+    const returned = await getReturnedQuantities(
+        tx,
+        order.items.map((i) => i.id),
+        SHIPPED_STATUSES
+    );
+    for (const item of shipping.items) {
+        const itemId = item.originalPurchaseOrderItemId!;
+        returned.set(
+            itemId,
+            (returned.get(itemId) ?? 0) + item.quantityReturned
+        );
+    }
+
+    const fullyReturned =
+        order.items.some((i) => i.quantityReceived > 0) &&
+        order.items.every(
+            (item) => (returned.get(item.id) ?? 0) >= item.quantityReceived
+        );
+
+    await tx.purchaseOrderEvent.create({
+        data: {
+            purchaseOrderId,
+            userId,
+            eventType: fullyReturned ? "RETURNED" : "RETURN_SHIPPED",
+            details: `Supplier return ${shipping.returnNumber} shipped`,
+        },
+    });
+    if (fullyReturned) {
+        await tx.purchaseOrder.update({
+            where: { id: purchaseOrderId },
+            data: { status: "RETURNED" },
+        });
+    }
+};
+
+/** Closes a shipped return once the supplier has settled it */
+export const completeSupplierReturn = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockReturn(tx, id);
+        const supplierReturn = await tx.supplierReturn.findUniqueOrThrow({
+            where: { id },
+        });
+        assertStatus(supplierReturn.status, COMPLETABLE_STATUSES, "complete");
+
+        return tx.supplierReturn.update({
+            where: { id },
+            data: {
+                status: "COMPLETED",
+                processedByUserId: userId,
+                processedAt: new Date(),
+            },
+            include: supplierReturnDetailInclude,
+        });
+    });
+
+/** Cancels a return that hasn't shipped; nothing has been posted for it */
+export const cancelSupplierReturn = (id: number, userId: number) =>
+    prisma.$transaction(async (tx) => {
+        await lockReturn(tx, id);
+        const supplierReturn = await tx.supplierReturn.findUniqueOrThrow({
+            where: { id },
+        });
+        assertStatus(supplierReturn.status, ["PENDING_SHIPMENT"], "cancel");
+
+        return tx.supplierReturn.update({
+            where: { id },
+            data: {
+                status: "CANCELLED",
+                processedByUserId: userId,
+                processedAt: new Date(),
+            },
+            include: supplierReturnDetailInclude,
+        });
+    });
+
+/**
+ * Return rates per supplier for vendor reviews: units shipped back, by reason,
+ * against units received from that supplier over the same period. Receipts are
+ * dated by their ledger entries and returns by when they were raised.
+ */
+export const getReturnRateReport = async ({
+    supplierId,
+    from,
+    to,
+}: ReturnRateReportQuery) => {
+    const period = from || to ? { gte: from, lte: to } : undefined;
+
+    const [receipts, returnItems] = await Promise.all([
+        prisma.inventoryTransaction.groupBy({
+            by: ["purchaseOrderId"],
+            where: {
+                transactionType: "RECEIPT_PURCHASE",
+                timestamp: period,
+                purchaseOrderId: { not: null },
+                ...(supplierId && { PurchaseOrder: { supplierId } }),
+            },
+            _sum: { quantityChange: true },
+        }),
+        prisma.supplierReturnItem.findMany({
+            where: {
+                supplierReturn: {
+                    status: { in: SHIPPED_STATUSES },
+                    createdAt: period,
+                    supplierId,
+                },
+            },
+            select: {
+                quantityReturned: true,
+                reason: true,
+                supplierReturn: { select: { supplierId: true } },
+            },
+        }),
+    ]);
+
+    const orders = await prisma.purchaseOrder.findMany({
+        where: { id: { in: receipts.map((r) => r.purchaseOrderId!) } },
+        select: { id: true, supplierId: true },
+    });
+    const orderSupplier = new Map(orders.map((o) => [o.id, o.supplierId]));
+
+    const rows = new Map<
+        number,
+        {
+            received: number;
+            returned: number;
+            byReason: Map<ReturnReason, number>;
+        }
+    >();
+    const rowFor = (id: number) => {
+        let row = rows.get(id);
+        if (!row) {
+            row = { received: 0, returned: 0, byReason: new Map() };
+            rows.set(id, row);
+        }
+        return row;
+    };
+
+    for (const receipt of receipts) {
+        const id = orderSupplier.get(receipt.purchaseOrderId!);
+        if (id) rowFor(id).received += receipt._sum.quantityChange ?? 0;
+    }
+    for (const item of returnItems) {
+        const row = rowFor(item.supplierReturn.supplierId);
+        row.returned += item.quantityReturned;
+        row.byReason.set(
+            item.reason,
+            (row.byReason.get(item.reason) ?? 0) + item.quantityReturned
+        );
+    }
+
+    const suppliers = await prisma.supplier.findMany({
+        where: { id: { in: [...rows.keys()] } },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+    });
+    const rate = (quantity: number, received: number) =>
+        received ? Math.round((quantity / received) * 10000) / 100 : null;
+
+    return suppliers.map(({ id, name }) => {
+        const row = rows.get(id)!;
+        return {
+            supplierId: id,
+            supplierName: name,
+            quantityReceived: row.received,
+            quantityReturned: row.returned,
+            returnRate: rate(row.returned, row.received),
+            byReason: Object.values(ReturnReason).map((reason) => ({
+                reason,
+                quantity: row.byReason.get(reason) ?? 0,
+                returnRate: rate(row.byReason.get(reason) ?? 0, row.received),
+            })),
+        };
+    });
+};
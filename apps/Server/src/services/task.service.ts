@@ -0,0 +1,228 @@
+import { Prisma, TaskStatus } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import type { CreateTaskInput, TaskBoardQuery, UpdateTaskInput } from "shared";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import { findPage } from "../utils/listQuery.js";
+import type { ListTasksQuery } from "../schemas/task.schema.js";
+import AppError from "../utils/AppError.js";
+import { notifyTasksAssigned } from "./notification.service.js";
+
+const OPEN_TASK_STATUSES: TaskStatus[] = ["PENDING", "IN_PROGRESS"];
+
+/** Statuses a task may move to from each status */
+const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+    PENDING: ["IN_PROGRESS", "COMPLETED", "CANCELLED"],
+    IN_PROGRESS: ["PENDING", "COMPLETED", "CANCELLED"],
+    COMPLETED: ["IN_PROGRESS"],
+    CANCELLED: ["PENDING"],
+};
+
+/** Closed tasks stay on the board for this long */
+const BOARD_CLOSED_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const taskDetailInclude = {
+    assignedToUser: { select: { id: true, username: true } },
+    createdByUser: { select: { id: true, username: true } },
+    warehouse: { select: { id: true, name: true } },
+    salesOrder: { select: { id: true, status: true } },
+    purchaseOrder: { select: { id: true, status: true } },
+    StockTransfer: { select: { id: true, transferNumber: true } },
+    CustomerReturn: { select: { id: true, returnNumber: true } },
+    SupplierReturn: { select: { id: true, returnNumber: true } },
+    cycleCount: { select: { id: true, countNumber: true } },
+} satisfies Prisma.TaskInclude;
+
+// Most urgent first; tasks without a due date after those with one
+const taskOrderBy = [
+    { priority: "desc" },
+    { dueDate: { sort: "asc", nulls: "last" } },
+    { id: "asc" },
+] satisfies Prisma.TaskOrderByWithRelationInput[];
+
+/** `assignedTo` limits the list to one user's tasks, for "my tasks" */
+export const listTasks = async (query: ListTasksQuery, assignedTo?: number) => {
+    const { items, meta } = await findPage(query, {
+        where: assignedTo === undefined ? undefined : { assignedTo },
+        findMany: (args) =>
+            prisma.task.findMany({ ...args, include: taskDetailInclude }),
+        count: (args) => prisma.task.count(args),
+    });
+
+    return { tasks: items, ...meta };
+};
+
+/**
+ * Tasks for the work board, grouped by status. Open tasks are all included;
+ * completed and cancelled ones only while recently closed.
+ */
+export const getTaskBoard = async (filters: TaskBoardQuery) => {
+    const closedSince = new Date(Date.now() - BOARD_CLOSED_DAYS * DAY_MS);
+    const tasks = await prisma.task.findMany({
+        where: {
+            ...filters,
+            OR: [
+                { status: { in: OPEN_TASK_STATUSES } },
+                { updatedAt: { gte: closedSince } },
+            ],
+        },
+        include: taskDetailInclude,
+        orderBy: taskOrderBy,
+    });
+
+    const board = Object.fromEntries(
+        Object.values(TaskStatus).map((status) => [status, [] as typeof tasks])
+    ) as Record<TaskStatus, typeof tasks>;
+    for (const task of tasks) board[task.status].push(task);
+    return board;
+};
+
+export const getTask = (id: number) =>
+    prisma.task.findUniqueOrThrow({
+        where: { id },
+        include: taskDetailInclude,
+    });
+
+const assertActiveAssignee = async (
+    assignedTo: number | null | undefined,
+    db: TransactionClient = prisma
+) => {
+    if (!assignedTo) return;
+    const active = await db.user.count({
+        where: { id: assignedTo, isActive: true },
+    });
+    if (!active) {
+        throw new AppError(
+            "Tasks can only be assigned to active users",
+            StatusCodes.BAD_REQUEST
+        );
+    }
+};
+
+/** Count tasks are driven by their cycle count session, not edited directly */
+const assertNotCountTask = (
+    task: { cycleCountId: number | null },
+    action: string
+) => {
+    if (task.cycleCountId) {
+        throw new AppError(
+            `Cannot ${action} a count task; use its cycle count session instead`,
+            StatusCodes.CONFLICT
+        );
+    }
+};
+
+export const createTask = async (input: CreateTaskInput, userId: number) => {
+    await assertActiveAssignee(input.assignedTo);
+    const task = await prisma.task.create({
+        data: { ...input, createdBy: userId },
+        include: taskDetailInclude,
+    });
+
+    await notifyTasksAssigned([task]);
+    return task;
+};
+
+/** Updates task details; a new assignee is notified */
+export const updateTask = async (id: number, input: UpdateTaskInput) => {
+    await assertActiveAssignee(input.assignedTo);
+    const previous = await prisma.task.findUniqueOrThrow({ where: { id } });
+    const task = await prisma.task.update({
+        where: { id },
+        data: input,
+        include: taskDetailInclude,
+    });
+
+    if (task.assignedTo !== previous.assignedTo) {
+        await notifyTasksAssigned([task]);
+    }
+    return task;
+};
+
+/**
+ * Moves a task between statuses along {@link STATUS_TRANSITIONS}, stamping
+ * `completedAt` on completion and clearing it when the task is reopened.
+ */
+export const updateTaskStatus = (id: number, status: TaskStatus) =>
+    prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT id FROM "Task" WHERE id = ${id} FOR UPDATE`;
+        const task = await tx.task.findUniqueOrThrow({ where: { id } });
+        assertNotCountTask(task, "change the status of");
+
+        if (task.status === status) {
+            return tx.task.findUniqueOrThrow({
+                where: { id },
+                include: taskDetailInclude,
+            });
+        }
+        if (!STATUS_TRANSITIONS[task.status].includes(status)) {
+            throw new AppError(
+                `Cannot move a task from ${task.status} to ${status}`,
+                StatusCodes.CONFLICT
+            );
+        }
+
+        return tx.task.update({
+            where: { id },
+            data: {
+                status,
+                completedAt: status === "COMPLETED" ? new Date() : null,
+            },
+            include: taskDetailInclude,
+        });
+    });
+
+export const deleteTask = async (id: number) => {
+    const task = await prisma.task.findUniqueOrThrow({ where: { id } });
+    assertNotCountTask(task, "delete");
+    await prisma.task.delete({ where: { id } });
+};
+
+/**
+ * Creates a task generated by a warehouse flow, inside that flow's
+ * transaction, unless an open task of the same type already covers the same
+ * document in the same warehouse. Running a flow again, such as a second
+ * partial receipt, therefore doesn't pile up duplicate work.
+ */
+export const createOpenTask = async (
+    tx: TransactionClient,
+    data: Prisma.TaskUncheckedCreateInput &
+        Required<Pick<Prisma.TaskUncheckedCreateInput, "type" | "warehouseId">>
+) => {
+    const existing = await tx.task.findFirst({
+        where: {
+            type: data.type,
+            warehouseId: data.warehouseId,
+            salesOrderId: data.salesOrderId ?? null,
+            purchaseOrderId: data.purchaseOrderId ?? null,
+            stockTransferId: data.stockTransferId ?? null,
+            status: { in: OPEN_TASK_STATUSES },
+        },
+    });
+    return existing ?? tx.task.create({ data });
+};
+
+/**
+ * Cancels the open tasks generated for a document, inside the transaction
+ * that cancels the document itself.
+ */
+export const cancelOpenTasks = (
+    tx: TransactionClient,
+    where: Pick<Prisma.TaskWhereInput, "salesOrderId" | "purchaseOrderId">
+) =>
+    tx.task.updateMany({
+        where: { ...where, status: { in: OPEN_TASK_STATUSES } },
+        data: { status: "CANCELLED" },
+    });
+
+/** Warehouse of a task, for warehouse-scoped permission checks */
+export const getTaskWarehouseId = async (id: number) =>
+    (
+        await prisma.task.findUnique({
+            where: { id },
+            select: { warehouseId: true },
+        })
+    )?.warehouseId ?? undefined;
+
+export const isTaskAssignee = async (id: number, userId: number) =>
+    (await prisma.task.count({ where: { id, assignedTo: userId } })) > 0;
@@ -0,0 +1,96 @@
+import { Prisma } from "@prisma/client";
+import { StatusCodes } from "http-status-codes";
+import prisma, { type TransactionClient } from "../config/prisma.js";
+import AppError from "../utils/AppError.js";
+
+export const listWarehouses = () =>
+    prisma.warehouse.findMany({
+        select: {
+            id: true,
+            name: true,
+            address: true,
+            isPickingLocation: true,
+            isReceivingLocation: true,
+            manager: { select: { id: true, username: true } },
+        },
+        orderBy: { name: "asc" },
+    });
+
+const LOCATION_FILTERS = {
+    receiving: { isDefaultReceiving: true },
+    picking: { isDefaultPicking: true },
+    quarantine: { isQuarantine: true },
+} satisfies Record<string, Prisma.WarehouseLocationWhereInput>;
+
+/**
+ * Returns the warehouse's default receiving or picking location, or its
+ * quarantine location. Fails when the warehouse isn't enabled for receiving or
+ * picking, or has no such location set.
+ */
+export const getDefaultLocation = async (
+    warehouseId: number,
+    purpose: keyof typeof LOCATION_FILTERS,
+    db: TransactionClient = prisma
+) => {
+    const warehouse = await db.warehouse.findUniqueOrThrow({
+        where: { id: warehouseId },
+        include: {
+            locations: {
+                where: LOCATION_FILTERS[purpose],
+                orderBy: { id: "asc" },
+                take: 1,
+            },
+        },
+    });
+
+    const enabled =
+        purpose === "receiving"
+            ? warehouse.isReceivingLocation
+            : purpose === "picking"
+            ? warehouse.isPickingLocation
+            : true;
+    if (!enabled) {
+        throw new AppError(
+            `Warehouse ${warehouse.name} is not enabled for ${purpose}`,
+            StatusCodes.BAD_REQUEST
+        );
+    }
+
+    const [location] = warehouse.locations;
+    if (!location) {
+        throw new AppError(
+            `Warehouse ${warehouse.name} has no ${
+                purpose === "quarantine" ? "" : "default "
+            }${purpose} location`,
+            StatusCodes.BAD_REQUEST
+        );
+    }
+    return location;
+};
+
+/** Resolves the warehouse a location belongs to, for warehouse-scoped permission checks */
+export const getLocationWarehouseId = async (warehouseLocationId: number) => {
+    const location = await prisma.warehouseLocation.findUnique({
+        where: { id: warehouseLocationId },
+        select: { warehouseId: true },
+    });
+    return location?.warehouseId;
+};
+
+/** Fails unless the location exists and belongs to the given warehouse */
+export const assertLocationInWarehouse = async (
+    warehouseLocationId: number,
+    warehouseId: number,
+    db: TransactionClient = prisma
+) => {
+    const location = await db.warehouseLocation.findUnique({
+        where: { id: warehouseLocationId },
+        select: { warehouseId: true },
+    });
+    if (location?.warehouseId !== warehouseId) {
+        throw new AppError(
+            `Location ${warehouseLocationId} does not belong to warehouse ${warehouseId}`,
+            StatusCodes.BAD_REQUEST
+        );
+    }
+};
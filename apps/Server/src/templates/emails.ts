@@ -0,0 +1,78 @@
+const APP_NAME = "InvenEase";
+
+export interface EmailContent {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+interface TemplateParams {
+    name: string;
+    url: string;
+    expiresInMinutes: number;
+}
+
+const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+/** Reads a link lifetime as whole hours, or as minutes when under an hour */
+const formatLifetime = (minutes: number) => {
+    if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+    const hours = Math.round(minutes / 60);
+    return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+/** Wraps a message body and call to action in the shared HTML layout */
+const layout = (name: string, body: string, action: string, url: string) => `
+<!doctype html>
+<html>
+    <body style="font-family: Arial, sans-serif; color: #1e293b; line-height: 1.5">
+        <h2>${APP_NAME}</h2>
+        <p>Hi ${escapeHtml(name)},</p>
+        <p>${body}</p>
+        <p>
+            <a href="${escapeHtml(url)}"
+               style="display: inline-block; padding: 10px 16px; background: #0f172a; color: #fff; border-radius: 6px; text-decoration: none">
+                ${action}
+            </a>
+        </p>
+        <p style="font-size: 12px; color: #64748b">
+            If the button doesn't work, copy this link into your browser:<br />
+            ${escapeHtml(url)}
+        </p>
+    </body>
+</html>`;
+
+export const passwordResetEmail = ({
+    name,
+    url,
+    expiresInMinutes,
+}: TemplateParams): EmailContent => {
+    const lifetime = formatLifetime(expiresInMinutes);
+    const body = `We received a request to reset your password. The link below is valid for ${lifetime} and can only be used once. If you didn't ask for this, you can ignore this email.`;
+
+    return {
+        subject: `Reset your ${APP_NAME} password`,
+        text: `Hi ${name},\n\n${body}\n\n${url}\n`,
+        html: layout(name, body, "Reset password", url),
+    };
+};
+
+export const emailVerificationEmail = ({
+    name,
+    url,
+    expiresInMinutes,
+}: TemplateParams): EmailContent => {
+    const lifetime = formatLifetime(expiresInMinutes);
+    const body = `Please confirm your email address. The link below is valid for ${lifetime}.`;
+
+    return {
+        subject: `Verify your ${APP_NAME} email address`,
+        text: `Hi ${name},\n\n${body}\n\n${url}\n`,
+        html: layout(name, body, "Verify email", url),
+    };
+};
@@ -0,0 +1,17 @@
+import type { UserPermissions } from "../services/permission.service.js";
+
+export interface AuthUser {
+    id: number;
+    roleId: number;
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            /** Populated by the `authenticate` middleware */
+            user?: AuthUser;
+            /** Cached by `loadPermissions` */
+            permissions?: UserPermissions;
+        }
+    }
+}
@@ -1,7 +1,15 @@
 import { Request, Response, NextFunction } from "express";
+import { runWithRequestContext } from "../lib/requestContext.js";
 
+/**
+ * Wraps an async handler so rejections reach the error handler. The handler
+ * runs in a request context carrying the authenticated user, which the audit
+ * trail attributes writes to.
+ */
 export const catchAsync =
     (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
     (req: Request, res: Response, next: NextFunction) => {
-        Promise.resolve(fn(req, res, next)).catch(next);
+        runWithRequestContext({ userId: req.user?.id, ipAddress: req.ip }, () =>
+            Promise.resolve(fn(req, res, next)).catch(next)
+        );
     };
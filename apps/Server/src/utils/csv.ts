@@ -0,0 +1,77 @@
+export interface CsvColumn<T> {
+    header: string;
+    value: (row: T) => string | number | boolean | null | undefined;
+}
+
+/**
+ * Quotes a cell per RFC 4180. Text that a spreadsheet would evaluate as a
+ * formula is prefixed with an apostrophe.
+ */
+const formatCell = (value: string | number | boolean | null | undefined) => {
+    if (value === null || value === undefined) return "";
+    let text = String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serialises rows to CSV with a header line and CRLF line endings */
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]) =>
+    [
+        columns.map((column) => formatCell(column.header)).join(","),
+        ...rows.map((row) =>
+            columns.map((column) => formatCell(column.value(row))).join(",")
+        ),
+    ].join("\r\n") + "\r\n";
+
+/**
+ * Parses RFC 4180 CSV into rows of cells. Handles quoted cells with embedded
+ * commas, quotes and line breaks, CRLF or LF line endings and a UTF-8 BOM, as
+ * written by Excel. Blank lines are kept as `[""]` so row numbers match the
+ * file. The apostrophe `toCsv` puts before formula-like text is removed again,
+ * so exports round-trip.
+ */
+export const parseCsv = (text: string) => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endCell = () => {
+        row.push(/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell);
+        cell = "";
+    };
+    const endRow = () => {
+        endCell();
+        rows.push(row);
+        row = [];
+    };
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            endCell();
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== "" || row.length) endRow();
+
+    return rows;
+};
@@ -0,0 +1,3 @@
+/** Builds a human-readable document number from a record id, e.g. `TRF-000042` */
+export const formatDocumentNumber = (prefix: string, id: number) =>
+    `${prefix}-${String(id).padStart(6, "0")}`;
@@ -0,0 +1,524 @@
+import { z } from "zod";
+import {
+    booleanQuery,
+    cutoffDateQuery,
+    paginationQuerySchema,
+    type FilterOperator,
+    type ListMeta,
+} from "shared";
+
+type Where = Record<string, unknown>;
+type OrderBy = Record<string, "asc" | "desc">;
+
+export type ListField = (
+    | { type: "string" | "number" | "date" | "boolean" }
+    | { type: "enum"; values: Record<string, string> }
+) & {
+    /** Column the field reads, when it differs from the parameter name; dotted paths follow to-one relations */
+    path?: string;
+    /** Adds the `isNull` operator and keeps nulls in cursor pages */
+    nullable?: boolean;
+    /**
+     * Builds the condition from the parsed value instead of comparing a
+     * column, e.g. to filter on a to-many relation; only `eq` is accepted
+     */
+    where?: (value: unknown) => Where;
+};
+
+export type PaginationMode = "offset" | "cursor";
+
+export interface ListQueryConfig {
+    /** Filterable fields, keyed by query parameter name */
+    fields: Record<string, ListField>;
+    /** Fields the list can be sorted by; they must be columns of the model itself */
+    sortable: readonly string[];
+    /** Sort used when none is given, e.g. "-timestamp" */
+    defaultSort: string;
+    /** Text columns matched by `search`; dotted paths follow to-one relations */
+    search?: readonly string[];
+    /** Allowed pagination modes, the first being the default */
+    pagination?: readonly [PaginationMode, ...PaginationMode[]];
+}
+
+interface SortTerm {
+    field: string;
+    direction: "asc" | "desc";
+    nullable: boolean;
+    type: ListField["type"];
+}
+
+/** A validated list request, ready to run with `findPage` */
+export interface ListQuery {
+    pagination: PaginationMode;
+    page: number;
+    limit: number;
+    /** Filters and search */
+    where: Where;
+    orderBy: OrderBy[];
+    /** Sort values of the last row of the previous page, in cursor mode */
+    after: unknown[] | null;
+    /** Counts matching rows in cursor mode too, which is slow on large tables */
+    withTotal: boolean;
+    sort: SortTerm[];
+    /** The `sort` parameter as given, which cursors are tied to */
+    sortKey: string;
+}
+
+const OPERATORS = {
+    string: ["eq", "ne", "in", "nin", "contains", "startsWith", "endsWith"],
+    number: ["eq", "ne", "lt", "lte", "gt", "gte", "in", "nin"],
+    date: ["eq", "ne", "lt", "lte", "gt", "gte"],
+    boolean: ["eq", "ne"],
+    enum: ["eq", "ne", "in", "nin"],
+} as const satisfies Record<string, readonly FilterOperator[]>;
+
+type Operator = (typeof OPERATORS)[keyof typeof OPERATORS][number] | "isNull";
+
+const CONDITIONS: Record<
+    Exclude<Operator, "isNull">,
+    (value: unknown) => Where
+> = {
+    eq: (value) => ({ equals: value }),
+    ne: (value) => ({ not: value }),
+    in: (value) => ({ in: value }),
+    nin: (value) => ({ notIn: value }),
+    lt: (value) => ({ lt: value }),
+    lte: (value) => ({ lte: value }),
+    gt: (value) => ({ gt: value }),
+    gte: (value) => ({ gte: value }),
+    contains: (value) => ({ contains: value, mode: "insensitive" }),
+    startsWith: (value) => ({ startsWith: value, mode: "insensitive" }),
+    endsWith: (value) => ({ endsWith: value, mode: "insensitive" }),
+};
+
+const RESERVED_PARAMS = new Set([
+    "page",
+    "limit",
+    "cursor",
+    "sort",
+    "search",
+    "withTotal",
+]);
+
+const numberQuery = z.string().trim().min(1).pipe(z.coerce.number());
+
+const valueSchema = (field: ListField, operator: Operator): z.ZodTypeAny => {
+    switch (field.type) {
+        case "string":
+            return z.string().min(1);
+        case "number":
+            return numberQuery;
+        case "date":
+            // A bare date as an upper bound includes the whole day
+            return operator === "lte" ? cutoffDateQuery : z.coerce.date();
+        case "boolean":
+            return booleanQuery;
+        case "enum":
+            return z.nativeEnum(field.values);
+    }
+};
+
+/** Wraps a condition in the relations of a dotted path, e.g. "product.name" */
+const atPath = (path: string, condition: unknown): Where =>
+    path
+        .split(".")
+        .reduceRight<unknown>(
+            (inner, key) => ({ [key]: inner }),
+            condition
+        ) as Where;
+
+/** Reads `key` of the raw query as a single comma-separated string */
+const rawValue = (value: unknown) =>
+    Array.isArray(value) ? value.join(",") : (value as string | undefined);
+
+/** Copies issues of a nested parse onto `ctx` under the parameter name */
+const parseParam = <T extends z.ZodTypeAny>(
+    schema: T,
+    value: unknown,
+    param: string,
+    ctx: z.RefinementCtx
+): z.output<T> | typeof z.NEVER => {
+    const result = schema.safeParse(value);
+    if (result.success) return result.data;
+    for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: [param, ...issue.path] });
+    }
+    return z.NEVER;
+};
+
+const encodeCursor = (sortKey: string, values: unknown[]) =>
+    Buffer.from(JSON.stringify({ s: sortKey, v: values })).toString(
+        "base64url"
+    );
+
+const decodeCursor = (cursor: string, sortKey: string, sort: SortTerm[]) => {
+    let decoded: { s?: unknown; v?: unknown };
+    try {
+        decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    } catch {
+        return null;
+    }
+    if (
+        decoded?.s !== sortKey ||
+        !Array.isArray(decoded.v) ||
+        decoded.v.length !== sort.length
+    ) {
+        return null;
+    }
+    const values: unknown[] = [];
+    for (const [i, term] of sort.entries()) {
+        const value = decoded.v[i];
+        if (value === null && term.nullable) {
+            values.push(null);
+        } else if (term.type === "date") {
+            const date = new Date(value as string);
+            if (typeof value !== "string" || Number.isNaN(date.getTime())) {
+                return null;
+            }
+            values.push(date);
+        } else if (
+            typeof value ===
+            (term.type === "number"
+                ? "number"
+                : term.type === "boolean"
+                ? "boolean"
+                : "string")
+        ) {
+            values.push(value);
+        } else {
+            return null;
+        }
+    }
+    return values;
+};
+
+/** Rows sorting after `value` on one sort term; null when there are none */
+const afterValue = (
+    { field, direction, nullable }: SortTerm,
+    value: unknown
+) => {
+    // Postgres sorts nulls last ascending and first descending
+    if (value === null) {
+        return direction === "asc" ? null : { [field]: { not: null } };
+    }
+    if (direction === "desc") return { [field]: { lt: value } };
+    return nullable
+        ? { OR: [{ [field]: { gt: value } }, { [field]: null }] }
+        : { [field]: { gt: value } };
+};
+
+/**
+ * Rows after the cursor row in sort order (keyset pagination), so deep pages
+ * cost the same as the first one, unlike OFFSET.
+ */
+const keysetWhere = (sort: SortTerm[], values: unknown[]): Where => {
+    const branches: Where[] = [];
+    sort.forEach((term, i) => {
+        const after = afterValue(term, values[i]);
+        if (!after) return;
+        branches.push({
+            AND: [
+                ...sort
+                    .slice(0, i)
+                    .map((previous, j) => ({ [previous.field]: values[j] })),
+                after,
+            ],
+        });
+    });
+
+    // Redundant with the branches, but a plain range on the leading column
+    // lets Postgres start the index scan at the cursor
+    const [lead] = sort;
+    const bound = !lead.nullable &&
+        values[0] !== null && {
+            [lead.field]: {
+                [lead.direction === "asc" ? "gte" : "lte"]: values[0],
+            },
+        };
+
+    return { AND: [...(bound ? [bound] : []), { OR: branches }] };
+};
+
+/**
+ * Builds the query string schema of a list endpoint. It parses:
+ *
+ * - `page` and `limit`, or `cursor` and `limit` (an empty `cursor` starts
+ *   cursor paging on lists that default to offsets)
+ * - `sort=-timestamp,id`, a leading `-` sorting descending; `id` is always
+ *   the final tiebreaker
+ * - `search`, matched case-insensitively against the configured columns
+ * - filters, `field=value` or `field.operator=value`, e.g.
+ *   `quantityChange.lt=0` or `transactionType.in=SHIPMENT_SALES,TRANSFER_OUT`
+ *
+ * Unknown parameters are rejected so a mistyped filter can't silently
+ * return everything.
+ */
+export const createListQuerySchema = (config: ListQueryConfig) => {
+    const modes = config.pagination ?? ["offset", "cursor"];
+    const sortSchema = z
+        .string()
+        .trim()
+        .transform((value, ctx) => {
+            const terms: SortTerm[] = [];
+            for (const part of value.split(",")) {
+                const field = part.replace(/^-/, "");
+                if (!config.sortable.includes(field)) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message: `Can't sort by "${field}"`,
+                    });
+                    return z.NEVER;
+                }
+                if (terms.some((term) => term.field === field)) continue;
+                terms.push({
+                    field,
+                    direction: part.startsWith("-") ? "desc" : "asc",
+                    nullable: !!config.fields[field]?.nullable,
+                    // Sortable fields missing from `fields` are taken as numbers
+                    type: config.fields[field]?.type ?? "number",
+                });
+            }
+            if (!terms.some((term) => term.field === "id")) {
+                terms.push({
+                    field: "id",
+                    direction: terms[0].direction,
+                    nullable: false,
+                    type: "number",
+                });
+            }
+            return terms;
+        });
+
+    return z
+        .record(z.union([z.string(), z.array(z.string())]))
+        .transform((raw, ctx): ListQuery => {
+            const cursor = rawValue(raw.cursor);
+            const pagination: PaginationMode =
+                cursor !== undefined
+                    ? "cursor"
+                    : raw.page !== undefined
+                    ? "offset"
+                    : modes[0];
+            if (!modes.includes(pagination)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `This list doesn't support ${pagination} pagination`,
+                });
+                return z.NEVER;
+            }
+
+            const page = parseParam(
+                paginationQuerySchema.shape.page,
+                rawValue(raw.page),
+                "page",
+                ctx
+            );
+            const limit = parseParam(
+                paginationQuerySchema.shape.limit,
+                rawValue(raw.limit),
+                "limit",
+                ctx
+            );
+            const withTotal = parseParam(
+                booleanQuery.default("false"),
+                rawValue(raw.withTotal),
+                "withTotal",
+                ctx
+            );
+            const sortKey = rawValue(raw.sort) ?? config.defaultSort;
+            const sort = parseParam(sortSchema, sortKey, "sort", ctx);
+
+            const conditions: Where[] = [];
+            const search = rawValue(raw.search)?.trim();
+            if (search && config.search?.length) {
+                conditions.push({
+                    OR: config.search.map((path) =>
+                        atPath(path, { contains: search, mode: "insensitive" })
+                    ),
+                });
+            }
+
+            for (const [param, value] of Object.entries(raw)) {
+                if (RESERVED_PARAMS.has(param)) continue;
+                const dot = param.lastIndexOf(".");
+                const [name, operator] = config.fields[param]
+                    ? [param, "eq"]
+                    : [param.slice(0, dot), param.slice(dot + 1)];
+                const field = config.fields[name];
+                if (dot === -1 && !field) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message: "Unknown parameter",
+                        path: [param],
+                    });
+                    continue;
+                }
+                const operators: readonly string[] = !field
+                    ? []
+                    : field.where
+                    ? ["eq"]
+                    : [
+                          ...OPERATORS[field.type],
+                          ...(field.nullable ? ["isNull"] : []),
+                      ];
+                if (!operators.includes(operator)) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message: field
+                            ? `Unsupported operator; use one of ${operators.join(
+                                  ", "
+                              )}`
+                            : "Unknown parameter",
+                        path: [param],
+                    });
+                    continue;
+                }
+
+                const path = field.path ?? name;
+                if (operator === "isNull") {
+                    const isNull = parseParam(
+                        booleanQuery,
+                        rawValue(value),
+                        param,
+                        ctx
+                    );
+                    conditions.push(
+                        atPath(path, isNull ? null : { not: null })
+                    );
+                    continue;
+                }
+
+                const schema = valueSchema(field, operator as Operator);
+                const parsed = parseParam(
+                    operator === "in" || operator === "nin"
+                        ? z
+                              .string()
+                              .transform((list) => list.split(","))
+                              .pipe(z.array(schema).min(1))
+                        : schema,
+                    rawValue(value),
+                    param,
+                    ctx
+                );
+                conditions.push(
+                    field.where
+                        ? field.where(parsed)
+                        : atPath(
+                              path,
+                              CONDITIONS[operator as keyof typeof CONDITIONS](
+                                  parsed
+                              )
+                          )
+                );
+            }
+
+            if (!Array.isArray(sort)) return z.NEVER;
+
+            let after: unknown[] | null = null;
+            if (pagination === "cursor" && cursor) {
+                after = decodeCursor(cursor, sortKey, sort);
+                if (!after) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        message:
+                            "Invalid cursor, or it belongs to another sort",
+                        path: ["cursor"],
+                    });
+                }
+            }
+
+            return {
+                pagination,
+                page,
+                limit,
+                where: conditions.length ? { AND: conditions } : {},
+                orderBy: sort.map((term) => ({
+                    [term.field]: term.direction,
+                })),
+                after,
+                withTotal,
+                sort,
+                sortKey,
+            };
+        });
+};
+
+interface PageSource<T> {
+    /** Conditions applied on top of the query's, e.g. scoping to a parent record */
+    where?: Where;
+    findMany: (args: {
+        where: Where;
+        orderBy: OrderBy[];
+        skip?: number;
+        take: number;
+    }) => Promise<T[]>;
+    count: (args: { where: Where }) => Promise<number>;
+}
+
+/**
+ * Runs a list query through a model's `findMany` and `count`, returning the
+ * page and its `meta`. Rows must include the sorted columns, which the
+ * cursor of the next page is made of.
+ */
+export const findPage = async <T extends object>(
+    query: ListQuery,
+    source: PageSource<T>
+): Promise<{ items: T[]; meta: ListMeta }> => {
+    const where = source.where
+        ? { AND: [source.where, query.where] }
+        : query.where;
+
+    if (query.pagination === "offset") {
+        const [items, total] = await Promise.all([
+            source.findMany({
+                where,
+                orderBy: query.orderBy,
+                skip: (query.page - 1) * query.limit,
+                take: query.limit,
+            }),
+            source.count({ where }),
+        ]);
+        return {
+            items,
+            meta: {
+                total,
+                limit: query.limit,
+                page: query.page,
+                nextCursor: null,
+                hasMore: query.page * query.limit < total,
+            },
+        };
+    }
+
+    // One extra row tells whether another page follows
+    const [rows, total] = await Promise.all([
+        source.findMany({
+            where: query.after
+                ? { AND: [where, keysetWhere(query.sort, query.after)] }
+                : where,
+            orderBy: query.orderBy,
+            take: query.limit + 1,
+        }),
+        query.withTotal ? source.count({ where }) : null,
+    ]);
+    const hasMore = rows.length > query.limit;
+    const items = rows.slice(0, query.limit);
+    const last = items.at(-1) as Record<string, unknown> | undefined;
+
+    return {
+        items,
+        meta: {
+            total,
+            limit: query.limit,
+            page: null,
+            nextCursor:
+                hasMore && last
+                    ? encodeCursor(
+                          query.sortKey,
+                          query.sort.map((term) => last[term.field] ?? null)
+                      )
+                    : null,
+            hasMore,
+        },
+    };
+};
@@ -13,6 +13,11 @@ export function handlePrismaError(error: unknown): AppError | null {
                     `Unique constraint failed on field: ${error.meta?.target}`,
                     StatusCodes.CONFLICT
                 );
+            case "P2003":
+                return new AppError(
+                    `Foreign key constraint failed on field: ${error.meta?.field_name}`,
+                    StatusCodes.CONFLICT
+                );
             case "P2025":
                 return new AppError(
                     `Record not found: ${error.meta?.cause || "Unkown cause"}`,
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { apiContract, type ApiContract, type Endpoint } from "./contract.js";
+
+/** `params` and `body` when the endpoint takes them; `query` is always optional */
+export type EndpointArgs<E extends Endpoint> = (E extends {
+    params: infer P extends z.ZodTypeAny;
+}
+    ? { params: z.input<P> }
+    : unknown) &
+    (E extends { query: infer Q extends z.ZodTypeAny }
+        ? { query?: z.input<Q> }
+        : unknown) &
+    (E extends { body: infer B extends z.ZodTypeAny }
+        ? { body: z.input<B> }
+        : unknown);
+
+export interface EndpointResult<E extends Endpoint> {
+    data: z.output<E["response"]>;
+    meta: E extends { meta: infer M extends z.ZodTypeAny }
+        ? z.output<M>
+        : undefined;
+}
+
+type EndpointCall<E extends Endpoint> = object extends EndpointArgs<E>
+    ? (args?: EndpointArgs<E>, init?: RequestInit) => Promise<EndpointResult<E>>
+    : (args: EndpointArgs<E>, init?: RequestInit) => Promise<EndpointResult<E>>;
+
+type Contract = Record<string, Record<string, Endpoint>>;
+
+/** One function per endpoint of each resource of the contract */
+type ContractClient<C extends Contract> = {
+    [R in keyof C]: { [N in keyof C[R]]: EndpointCall<C[R][N]> };
+};
+
+export type ApiClient = ContractClient<ApiContract>;
+
+/**
+ * A non-2xx response, carrying the message sent by the server's error handler,
+ * or the status text when the response had none.
+ */
+export class ApiError extends Error {
+    status: number;
+    /** The server's own message; undefined for responses that weren't JSON */
+    serverMessage?: string;
+
+    constructor(status: number, statusText: string, serverMessage?: string) {
+        super(serverMessage ?? statusText);
+        this.name = "ApiError";
+        this.status = status;
+        this.serverMessage = serverMessage;
+    }
+}
+
+export interface ApiClientOptions {
+    /** Base URL of the API, e.g. "/api/v1" */
+    baseUrl: string;
+    /** Headers sent with every request, e.g. the bearer token */
+    headers?: () => Record<string, string> | Promise<Record<string, string>>;
+    /** Replaces the global `fetch`, e.g. to retry after refreshing a token */
+    fetch?: typeof fetch;
+    /** Parses responses against their schemas, so contract drift fails loudly */
+    validateResponses?: boolean;
+}
+
+interface RequestArgs {
+    params?: Record<string, unknown>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+}
+
+type Send = (
+    endpoint: Endpoint,
+    args?: RequestArgs,
+    init?: RequestInit
+) => Promise<{ data: unknown; meta: unknown }>;
+
+/** Binds every endpoint of the contract to `send`, typed from its schemas */
+function bindContract<C extends Contract>(
+    contract: C,
+    send: Send
+): ContractClient<C>;
+function bindContract(contract: Contract, send: Send) {
+    return Object.fromEntries(
+        Object.entries(contract).map(([resource, endpoints]) => [
+            resource,
+            Object.fromEntries(
+                Object.entries(endpoints).map(([name, endpoint]) => [
+                    name,
+                    (args?: RequestArgs, init?: RequestInit) =>
+                        send(endpoint, args, init),
+                ])
+            ),
+        ])
+    );
+}
+
+const toPath = (path: string, params: Record<string, unknown> = {}) =>
+    path.replace(/:(\w+)/g, (_, name: string) =>
+        encodeURIComponent(String(params[name]))
+    );
+
+/** Query string as the server's parsers expect it: lists comma-separated, dates in ISO */
+const toSearch = (query: Record<string, unknown> = {}) => {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value === undefined || value === null) continue;
+        search.append(
+            key,
+            value instanceof Date
+                ? value.toISOString()
+                : Array.isArray(value)
+                ? value.join(",")
+                : String(value)
+        );
+    }
+    const encoded = search.toString();
+    return encoded ? `?${encoded}` : "";
+};
+
+/**
+ * Builds a client with one function per endpoint of `apiContract`, e.g.
+ * `client.tasks.updateStatus({ params: { id }, body: { status } })`, typed
+ * from the contract's schemas. Calls resolve to the `data` and `meta` of the
+ * success envelope and reject with `ApiError`.
+ */
+export const createApiClient = (options: ApiClientOptions): ApiClient => {
+    const send: Send = async (
+        endpoint: Endpoint,
+        args: RequestArgs = {},
+        init: RequestInit = {}
+    ) => {
+        const headers = new Headers(await options.headers?.());
+        new Headers(init.headers).forEach((value, key) =>
+            headers.set(key, value)
+        );
+        if (args.body !== undefined) {
+            headers.set("Content-Type", "application/json");
+        }
+
+        const response = await (options.fetch ?? fetch)(
+            options.baseUrl +
+                toPath(endpoint.path, args.params) +
+                toSearch(args.query),
+            {
+                ...init,
+                method: endpoint.method,
+                headers,
+                body:
+                    args.body === undefined
+                        ? undefined
+                        : JSON.stringify(args.body),
+            }
+        );
+        const payload = (await response.json().catch(() => undefined)) as
+            | { data?: unknown; meta?: unknown; message?: string }
+            | undefined;
+
+        if (!response.ok) {
+            throw new ApiError(
+                response.status,
+                response.statusText,
+                payload?.message
+            );
+        }
+        return {
+            data: options.validateResponses
+                ? endpoint.response.parse(payload?.data)
+                : payload?.data,
+            meta:
+                options.validateResponses && endpoint.meta
+                    ? endpoint.meta.parse(payload?.meta)
+                    : payload?.meta,
+        };
+    };
+
+    return bindContract(apiContract, send);
+};
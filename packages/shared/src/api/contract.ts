@@ -0,0 +1,735 @@
+import { z } from "zod";
+import { auditLogSchema } from "../schemas/audit.schema.js";
+import {
+    authTokensSchema,
+    loginResponseSchema,
+    loginSchema,
+    passwordResetConfirmSchema,
+    passwordResetRequestSchema,
+    refreshTokenSchema,
+    verifyEmailSchema,
+} from "../schemas/auth.schema.js";
+import {
+    expiringBatchSchema,
+    expiringBatchesQuerySchema,
+    stockAdjustmentSchema,
+    writeOffExpiredSchema,
+} from "../schemas/batch.schema.js";
+import {
+    categorySchema,
+    createCategorySchema,
+    updateCategorySchema,
+} from "../schemas/category.schema.js";
+import {
+    idParamSchema,
+    listMetaSchema,
+    listParamsSchema,
+} from "../schemas/common.schema.js";
+import { customerSchema } from "../schemas/customer.schema.js";
+import {
+    completeCustomerReturnSchema,
+    createCustomerReturnSchema,
+    customerReturnSchema,
+    customerReturnSummarySchema,
+    inspectCustomerReturnSchema,
+} from "../schemas/customerReturn.schema.js";
+import {
+    countSheetSchema,
+    createCycleCountSchema,
+    cycleCountSchema,
+    cycleCountSummarySchema,
+    recordCountsSchema,
+} from "../schemas/cycleCount.schema.js";
+import { inventoryTransactionSchema } from "../schemas/inventoryTransaction.schema.js";
+import {
+    inventoryValuationQuerySchema,
+    inventoryValuationSchema,
+} from "../schemas/inventoryValuation.schema.js";
+import {
+    notificationListMetaSchema,
+    notificationSchema,
+} from "../schemas/notification.schema.js";
+import {
+    permissionSchema,
+    userPermissionsSchema,
+} from "../schemas/permission.schema.js";
+import {
+    createProductSchema,
+    productSchema,
+    productStockSchema,
+    updateProductSchema,
+} from "../schemas/product.schema.js";
+import {
+    createPurchaseOrderSchema,
+    purchaseOrderSchema,
+    purchaseOrderSummarySchema,
+    receivePurchaseOrderSchema,
+    updatePurchaseOrderSchema,
+} from "../schemas/purchaseOrder.schema.js";
+import {
+    createReplenishmentDraftsSchema,
+    lowStockQuerySchema,
+    reorderSettingSchema,
+    replenishmentDraftsSchema,
+    stockPositionSchema,
+    upsertReorderSettingSchema,
+} from "../schemas/replenishment.schema.js";
+import {
+    allocateSalesOrderSchema,
+    createSalesOrderSchema,
+    salesOrderSchema,
+    salesOrderSummarySchema,
+    shipSalesOrderSchema,
+    updateSalesOrderSchema,
+} from "../schemas/salesOrder.schema.js";
+import {
+    serialHistoryQuerySchema,
+    serialParamSchema,
+    serialUnitHistorySchema,
+} from "../schemas/serial.schema.js";
+import {
+    createStockTransferSchema,
+    receiveStockTransferSchema,
+    shipStockTransferSchema,
+    stockTransferSchema,
+    stockTransferSummarySchema,
+} from "../schemas/stockTransfer.schema.js";
+import { supplierSchema } from "../schemas/supplier.schema.js";
+import {
+    createSupplierReturnSchema,
+    returnRateReportQuerySchema,
+    returnRateSchema,
+    shipSupplierReturnSchema,
+    supplierReturnSchema,
+    supplierReturnSummarySchema,
+} from "../schemas/supplierReturn.schema.js";
+import {
+    createTaskSchema,
+    taskBoardQuerySchema,
+    taskBoardSchema,
+    taskSchema,
+    updateTaskSchema,
+    updateTaskStatusSchema,
+} from "../schemas/task.schema.js";
+import { warehouseSchema } from "../schemas/warehouse.schema.js";
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+export interface Endpoint {
+    method: HttpMethod;
+    /** Path under `/api/v1`; `:name` segments are filled from `params` */
+    path: string;
+    params?: z.ZodTypeAny;
+    query?: z.ZodTypeAny;
+    body?: z.ZodTypeAny;
+    /** `data` of the success envelope; `z.void()` when the endpoint sends none */
+    response: z.ZodTypeAny;
+    /** `meta` of the success envelope */
+    meta?: z.ZodTypeAny;
+}
+
+const endpoint = <E extends Endpoint>(definition: E) => definition;
+
+const noData = z.void();
+const countSchema = z.object({ count: z.number().int() });
+
+/**
+ * The JSON endpoints of the API, grouped by resource, with the schemas their
+ * requests and responses are checked against. `createApiClient` turns it
+ * into typed functions. Streams and CSV downloads aren't part of it.
+ */
+export const apiContract = {
+    auth: {
+        login: endpoint({
+            method: "POST",
+            path: "/auth/login",
+            body: loginSchema,
+            response: loginResponseSchema,
+        }),
+        refresh: endpoint({
+            method: "POST",
+            path: "/auth/refresh",
+            body: refreshTokenSchema,
+            response: authTokensSchema,
+        }),
+        logout: endpoint({
+            method: "POST",
+            path: "/auth/logout",
+            body: refreshTokenSchema,
+            response: noData,
+        }),
+        requestPasswordReset: endpoint({
+            method: "POST",
+            path: "/auth/password-reset/request",
+            body: passwordResetRequestSchema,
+            response: noData,
+        }),
+        confirmPasswordReset: endpoint({
+            method: "POST",
+            path: "/auth/password-reset/confirm",
+            body: passwordResetConfirmSchema,
+            response: noData,
+        }),
+        sendEmailVerification: endpoint({
+            method: "POST",
+            path: "/auth/verify-email/send",
+            response: noData,
+        }),
+        verifyEmail: endpoint({
+            method: "POST",
+            path: "/auth/verify-email",
+            body: verifyEmailSchema,
+            response: noData,
+        }),
+    },
+    permissions: {
+        mine: endpoint({
+            method: "GET",
+            path: "/permissions/me",
+            response: userPermissionsSchema,
+        }),
+        list: endpoint({
+            method: "GET",
+            path: "/permissions",
+            response: z.array(permissionSchema),
+        }),
+    },
+    categories: {
+        list: endpoint({
+            method: "GET",
+            path: "/categories",
+            response: z.array(categorySchema),
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/categories/:id",
+            params: idParamSchema,
+            response: categorySchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/categories",
+            body: createCategorySchema,
+            response: categorySchema,
+        }),
+        update: endpoint({
+            method: "PATCH",
+            path: "/categories/:id",
+            params: idParamSchema,
+            body: updateCategorySchema,
+            response: categorySchema,
+        }),
+        remove: endpoint({
+            method: "DELETE",
+            path: "/categories/:id",
+            params: idParamSchema,
+            response: noData,
+        }),
+    },
+    products: {
+        list: endpoint({
+            method: "GET",
+            path: "/products",
+            query: listParamsSchema,
+            response: z.array(productSchema),
+            meta: listMetaSchema,
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/products/:id",
+            params: idParamSchema,
+            response: productSchema,
+        }),
+        stock: endpoint({
+            method: "GET",
+            path: "/products/:id/stock",
+            params: idParamSchema,
+            response: productStockSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/products",
+            body: createProductSchema,
+            response: productSchema,
+        }),
+        update: endpoint({
+            method: "PATCH",
+            path: "/products/:id",
+            params: idParamSchema,
+            body: updateProductSchema,
+            response: productSchema,
+        }),
+        remove: endpoint({
+            method: "DELETE",
+            path: "/products/:id",
+            params: idParamSchema,
+            response: noData,
+        }),
+    },
+    warehouses: {
+        list: endpoint({
+            method: "GET",
+            path: "/warehouses",
+            response: z.array(warehouseSchema),
+        }),
+    },
+    suppliers: {
+        list: endpoint({
+            method: "GET",
+            path: "/suppliers",
+            response: z.array(supplierSchema),
+        }),
+    },
+    customers: {
+        list: endpoint({
+            method: "GET",
+            path: "/customers",
+            response: z.array(customerSchema),
+        }),
+    },
+    inventoryTransactions: {
+        list: endpoint({
+            method: "GET",
+            path: "/inventory-transactions",
+            query: listParamsSchema,
+            response: z.array(inventoryTransactionSchema),
+            meta: listMetaSchema,
+        }),
+    },
+    salesOrders: {
+        list: endpoint({
+            method: "GET",
+            path: "/sales-orders",
+            query: listParamsSchema,
+            response: z.array(salesOrderSummarySchema),
+            meta: listMetaSchema,
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/sales-orders/:id",
+            params: idParamSchema,
+            response: salesOrderSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/sales-orders",
+            body: createSalesOrderSchema,
+            response: salesOrderSchema,
+        }),
+        update: endpoint({
+            method: "PATCH",
+            path: "/sales-orders/:id",
+            params: idParamSchema,
+            body: updateSalesOrderSchema,
+            response: salesOrderSchema,
+        }),
+        allocate: endpoint({
+            method: "POST",
+            path: "/sales-orders/:id/allocate",
+            params: idParamSchema,
+            body: allocateSalesOrderSchema,
+            response: salesOrderSchema,
+        }),
+        ship: endpoint({
+            method: "POST",
+            path: "/sales-orders/:id/ship",
+            params: idParamSchema,
+            body: shipSalesOrderSchema,
+            response: salesOrderSchema,
+        }),
+        cancel: endpoint({
+            method: "POST",
+            path: "/sales-orders/:id/cancel",
+            params: idParamSchema,
+            response: salesOrderSchema,
+        }),
+    },
+    purchaseOrders: {
+        list: endpoint({
+            method: "GET",
+            path: "/purchase-orders",
+            query: listParamsSchema,
+            response: z.array(purchaseOrderSummarySchema),
+            meta: listMetaSchema,
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/purchase-orders/:id",
+            params: idParamSchema,
+            response: purchaseOrderSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/purchase-orders",
+            body: createPurchaseOrderSchema,
+            response: purchaseOrderSchema,
+        }),
+        update: endpoint({
+            method: "PATCH",
+            path: "/purchase-orders/:id",
+            params: idParamSchema,
+            body: updatePurchaseOrderSchema,
+            response: purchaseOrderSchema,
+        }),
+        confirm: endpoint({
+            method: "POST",
+            path: "/purchase-orders/:id/confirm",
+            params: idParamSchema,
+            response: purchaseOrderSchema,
+        }),
+        receive: endpoint({
+            method: "POST",
+            path: "/purchase-orders/:id/receive",
+            params: idParamSchema,
+            body: receivePurchaseOrderSchema,
+            response: purchaseOrderSchema,
+        }),
+        cancel: endpoint({
+            method: "POST",
+            path: "/purchase-orders/:id/cancel",
+            params: idParamSchema,
+            response: purchaseOrderSchema,
+        }),
+    },
+    stockTransfers: {
+        list: endpoint({
+            method: "GET",
+            path: "/stock-transfers",
+            query: listParamsSchema,
+            response: z.array(stockTransferSummarySchema),
+            meta: listMetaSchema,
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/stock-transfers/:id",
+            params: idParamSchema,
+            response: stockTransferSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/stock-transfers",
+            body: createStockTransferSchema,
+            response: stockTransferSchema,
+        }),
+        ship: endpoint({
+            method: "POST",
+            path: "/stock-transfers/:id/ship",
+            params: idParamSchema,
+            body: shipStockTransferSchema,
+            response: stockTransferSchema,
+        }),
+        receive: endpoint({
+            method: "POST",
+            path: "/stock-transfers/:id/receive",
+            params: idParamSchema,
+            body: receiveStockTransferSchema,
+            response: stockTransferSchema,
+        }),
+        cancel: endpoint({
+            method: "POST",
+            path: "/stock-transfers/:id/cancel",
+            params: idParamSchema,
+            response: stockTransferSchema,
+        }),
+    },
+    customerReturns: {
+        list: endpoint({
+            method: "GET",
+            path: "/customer-returns",
+            query: listParamsSchema,
+            response: z.array(customerReturnSummarySchema),
+            meta: listMetaSchema,
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/customer-returns/:id",
+            params: idParamSchema,
+            response: customerReturnSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/customer-returns",
+            body: createCustomerReturnSchema,
+            response: customerReturnSchema,
+        }),
+        receive: endpoint({
+            method: "POST",
+            path: "/customer-returns/:id/receive",
+            params: idParamSchema,
+            response: customerReturnSchema,
+        }),
+        inspect: endpoint({
+            method: "POST",
+            path: "/customer-returns/:id/inspect",
+            params: idParamSchema,
+            body: inspectCustomerReturnSchema,
+            response: customerReturnSchema,
+        }),
+        complete: endpoint({
+            method: "POST",
+            path: "/customer-returns/:id/complete",
+            params: idParamSchema,
+            body: completeCustomerReturnSchema,
+            response: customerReturnSchema,
+        }),
+        cancel: endpoint({
+            method: "POST",
+            path: "/customer-returns/:id/cancel",
+            params: idParamSchema,
+            response: customerReturnSchema,
+        }),
+    },
+    supplierReturns: {
+        list: endpoint({
+            method: "GET",
+            path: "/supplier-returns",
+            query: listParamsSchema,
+            response: z.array(supplierReturnSummarySchema),
+            meta: listMetaSchema,
+        }),
+        returnRates: endpoint({
+            method: "GET",
+            path: "/supplier-returns/return-rates",
+            query: returnRateReportQuerySchema,
+            response: z.array(returnRateSchema),
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/supplier-returns/:id",
+            params: idParamSchema,
+            response: supplierReturnSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/supplier-returns",
+            body: createSupplierReturnSchema,
+            response: supplierReturnSchema,
+        }),
+        ship: endpoint({
+            method: "POST",
+            path: "/supplier-returns/:id/ship",
+            params: idParamSchema,
+            body: shipSupplierReturnSchema,
+            response: supplierReturnSchema,
+        }),
+        complete: endpoint({
+            method: "POST",
+            path: "/supplier-returns/:id/complete",
+            params: idParamSchema,
+            response: supplierReturnSchema,
+        }),
+        cancel: endpoint({
+            method: "POST",
+            path: "/supplier-returns/:id/cancel",
+            params: idParamSchema,
+            response: supplierReturnSchema,
+        }),
+    },
+    batches: {
+        expiring: endpoint({
+            method: "GET",
+            path: "/batches/expiring",
+            query: expiringBatchesQuerySchema,
+            response: z.array(expiringBatchSchema),
+        }),
+        writeOffExpired: endpoint({
+            method: "POST",
+            path: "/batches/write-off-expired",
+            body: writeOffExpiredSchema,
+            response: z.array(stockAdjustmentSchema),
+        }),
+    },
+    serials: {
+        history: endpoint({
+            method: "GET",
+            path: "/serials/:serial/history",
+            params: serialParamSchema,
+            query: serialHistoryQuerySchema,
+            response: z.array(serialUnitHistorySchema),
+        }),
+    },
+    cycleCounts: {
+        list: endpoint({
+            method: "GET",
+            path: "/cycle-counts",
+            query: listParamsSchema,
+            response: z.array(cycleCountSummarySchema),
+            meta: listMetaSchema,
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/cycle-counts/:id",
+            params: idParamSchema,
+            response: cycleCountSchema,
+        }),
+        countSheet: endpoint({
+            method: "GET",
+            path: "/cycle-counts/:id/count-sheet",
+            params: idParamSchema,
+            response: countSheetSchema,
+        }),
+        recordCounts: endpoint({
+            method: "POST",
+            path: "/cycle-counts/:id/counts",
+            params: idParamSchema,
+            body: recordCountsSchema,
+            response: countSheetSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/cycle-counts",
+            body: createCycleCountSchema,
+            response: cycleCountSchema,
+        }),
+        submit: endpoint({
+            method: "POST",
+            path: "/cycle-counts/:id/submit",
+            params: idParamSchema,
+            response: cycleCountSchema,
+        }),
+        approve: endpoint({
+            method: "POST",
+            path: "/cycle-counts/:id/approve",
+            params: idParamSchema,
+            response: cycleCountSchema,
+        }),
+        reject: endpoint({
+            method: "POST",
+            path: "/cycle-counts/:id/reject",
+            params: idParamSchema,
+            response: cycleCountSchema,
+        }),
+        cancel: endpoint({
+            method: "POST",
+            path: "/cycle-counts/:id/cancel",
+            params: idParamSchema,
+            response: cycleCountSchema,
+        }),
+    },
+    replenishment: {
+        listSettings: endpoint({
+            method: "GET",
+            path: "/replenishment/settings",
+            query: listParamsSchema,
+            response: z.array(reorderSettingSchema),
+            meta: listMetaSchema,
+        }),
+        upsertSetting: endpoint({
+            method: "PUT",
+            path: "/replenishment/settings",
+            body: upsertReorderSettingSchema,
+            response: reorderSettingSchema,
+        }),
+        removeSetting: endpoint({
+            method: "DELETE",
+            path: "/replenishment/settings/:id",
+            params: idParamSchema,
+            response: noData,
+        }),
+        lowStock: endpoint({
+            method: "GET",
+            path: "/replenishment/low-stock",
+            query: lowStockQuerySchema,
+            response: z.array(stockPositionSchema),
+        }),
+        createDrafts: endpoint({
+            method: "POST",
+            path: "/replenishment/drafts",
+            body: createReplenishmentDraftsSchema,
+            response: replenishmentDraftsSchema,
+        }),
+    },
+    inventoryValuation: {
+        get: endpoint({
+            method: "GET",
+            path: "/inventory-valuation",
+            query: inventoryValuationQuerySchema.omit({ format: true }),
+            response: inventoryValuationSchema,
+        }),
+    },
+    tasks: {
+        list: endpoint({
+            method: "GET",
+            path: "/tasks",
+            query: listParamsSchema,
+            response: z.array(taskSchema),
+            meta: listMetaSchema,
+        }),
+        mine: endpoint({
+            method: "GET",
+            path: "/tasks/my",
+            query: listParamsSchema,
+            response: z.array(taskSchema),
+            meta: listMetaSchema,
+        }),
+        board: endpoint({
+            method: "GET",
+            path: "/tasks/board",
+            query: taskBoardQuerySchema,
+            response: taskBoardSchema,
+        }),
+        get: endpoint({
+            method: "GET",
+            path: "/tasks/:id",
+            params: idParamSchema,
+            response: taskSchema,
+        }),
+        create: endpoint({
+            method: "POST",
+            path: "/tasks",
+            body: createTaskSchema,
+            response: taskSchema,
+        }),
+        update: endpoint({
+            method: "PATCH",
+            path: "/tasks/:id",
+            params: idParamSchema,
+            body: updateTaskSchema,
+            response: taskSchema,
+        }),
+        updateStatus: endpoint({
+            method: "PATCH",
+            path: "/tasks/:id/status",
+            params: idParamSchema,
+            body: updateTaskStatusSchema,
+            response: taskSchema,
+        }),
+        remove: endpoint({
+            method: "DELETE",
+            path: "/tasks/:id",
+            params: idParamSchema,
+            response: noData,
+        }),
+    },
+    notifications: {
+        list: endpoint({
+            method: "GET",
+            path: "/notifications",
+            query: listParamsSchema,
+            response: z.array(notificationSchema),
+            meta: notificationListMetaSchema,
+        }),
+        markRead: endpoint({
+            method: "POST",
+            path: "/notifications/:id/read",
+            params: idParamSchema,
+            response: notificationSchema,
+        }),
+        markAllRead: endpoint({
+            method: "POST",
+            path: "/notifications/read-all",
+            response: countSchema,
+        }),
+    },
+    audit: {
+        list: endpoint({
+            method: "GET",
+            path: "/audit",
+            query: listParamsSchema,
+            response: z.array(auditLogSchema),
+            meta: listMetaSchema,
+        }),
+    },
+} satisfies Record<string, Record<string, Endpoint>>;
+
+export type ApiContract = typeof apiContract;
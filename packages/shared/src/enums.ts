@@ -0,0 +1,230 @@
+/*
+ * Enums mirrored from `apps/Server/prisma/schema.prisma`, in the shape Prisma
+ * generates them: a const object plus a union type of its values, so they
+ * can be passed to `z.nativeEnum` and assigned to Prisma's own types. The
+ * server fails to type-check when they drift from the schema.
+ */
+
+export const SalesOrderStatus = {
+    PENDING: "PENDING",
+    PROCESSING: "PROCESSING",
+    PARTIALLY_SHIPPED: "PARTIALLY_SHIPPED",
+    SHIPPED: "SHIPPED",
+    DELIVERED: "DELIVERED",
+    CANCELLED: "CANCELLED",
+    RETURNED: "RETURNED",
+} as const;
+export type SalesOrderStatus =
+    (typeof SalesOrderStatus)[keyof typeof SalesOrderStatus];
+
+export const PurchaseOrderStatus = {
+    PENDING: "PENDING",
+    ORDERED: "ORDERED",
+    PARTIALLY_RECEIVED: "PARTIALLY_RECEIVED",
+    RECEIVED: "RECEIVED",
+    CANCELLED: "CANCELLED",
+    RETURNED: "RETURNED",
+} as const;
+export type PurchaseOrderStatus =
+    (typeof PurchaseOrderStatus)[keyof typeof PurchaseOrderStatus];
+
+export const SalesOrderEventType = {
+    CREATED: "CREATED",
+    UPDATED: "UPDATED",
+    ALLOCATED: "ALLOCATED",
+    BACKORDER_RELEASED: "BACKORDER_RELEASED",
+    PARTIALLY_SHIPPED: "PARTIALLY_SHIPPED",
+    SHIPPED: "SHIPPED",
+    DELIVERED: "DELIVERED",
+    CANCELLED: "CANCELLED",
+    RETURN_COMPLETED: "RETURN_COMPLETED",
+} as const;
+export type SalesOrderEventType =
+    (typeof SalesOrderEventType)[keyof typeof SalesOrderEventType];
+
+export const PurchaseOrderEventType = {
+    CREATED: "CREATED",
+    UPDATED: "UPDATED",
+    ORDERED: "ORDERED",
+    PARTIALLY_RECEIVED: "PARTIALLY_RECEIVED",
+    RECEIVED: "RECEIVED",
+    CANCELLED: "CANCELLED",
+    RETURN_SHIPPED: "RETURN_SHIPPED",
+    RETURNED: "RETURNED",
+} as const;
+export type PurchaseOrderEventType =
+    (typeof PurchaseOrderEventType)[keyof typeof PurchaseOrderEventType];
+
+export const AuditAction = {
+    CREATE: "CREATE",
+    UPDATE: "UPDATE",
+    DELETE: "DELETE",
+} as const;
+export type AuditAction = (typeof AuditAction)[keyof typeof AuditAction];
+
+export const NotificationType = {
+    GENERAL: "GENERAL",
+    LOW_STOCK: "LOW_STOCK",
+    PURCHASE_ORDER_RECEIVED: "PURCHASE_ORDER_RECEIVED",
+    TASK_ASSIGNED: "TASK_ASSIGNED",
+    BATCH_EXPIRING: "BATCH_EXPIRING",
+} as const;
+export type NotificationType =
+    (typeof NotificationType)[keyof typeof NotificationType];
+
+export const TaskStatus = {
+    PENDING: "PENDING",
+    IN_PROGRESS: "IN_PROGRESS",
+    COMPLETED: "COMPLETED",
+    CANCELLED: "CANCELLED",
+} as const;
+export type TaskStatus = (typeof TaskStatus)[keyof typeof TaskStatus];
+
+export const TaskType = {
+    GENERAL: "GENERAL",
+    PICK: "PICK",
+    PUT_AWAY: "PUT_AWAY",
+    COUNT: "COUNT",
+} as const;
+export type TaskType = (typeof TaskType)[keyof typeof TaskType];
+
+export const InventoryTransactionType = {
+    RECEIPT_PURCHASE: "RECEIPT_PURCHASE",
+    SHIPMENT_SALES: "SHIPMENT_SALES",
+    ADJUSTMENT_ADD: "ADJUSTMENT_ADD",
+    ADJUSTMENT_REMOVE: "ADJUSTMENT_REMOVE",
+    TRANSFER_OUT: "TRANSFER_OUT",
+    TRANSFER_IN: "TRANSFER_IN",
+    RETURN_CUSTOMER: "RETURN_CUSTOMER",
+    RETURN_SUPPLIER: "RETURN_SUPPLIER",
+    INITIAL_STOCK: "INITIAL_STOCK",
+    PRODUCTION_OUTPUT: "PRODUCTION_OUTPUT",
+    PRODUCTION_CONSUMPTION: "PRODUCTION_CONSUMPTION",
+} as const;
+export type InventoryTransactionType =
+    (typeof InventoryTransactionType)[keyof typeof InventoryTransactionType];
+
+export const StockAdjustmentReason = {
+    CYCLE_COUNT: "CYCLE_COUNT",
+    DAMAGE: "DAMAGE",
+    THEFT_LOSS: "THEFT_LOSS",
+    FOUND: "FOUND",
+    EXPIRY: "EXPIRY",
+    OTHER: "OTHER",
+} as const;
+export type StockAdjustmentReason =
+    (typeof StockAdjustmentReason)[keyof typeof StockAdjustmentReason];
+
+export const StockTransferStatus = {
+    PENDING: "PENDING",
+    IN_TRANSIT: "IN_TRANSIT",
+    COMPLETED: "COMPLETED",
+    CANCELLED: "CANCELLED",
+} as const;
+export type StockTransferStatus =
+    (typeof StockTransferStatus)[keyof typeof StockTransferStatus];
+
+export const ReturnReason = {
+    DEFECTIVE: "DEFECTIVE",
+    WRONG_ITEM: "WRONG_ITEM",
+    DAMAGED_IN_TRANSIT: "DAMAGED_IN_TRANSIT",
+    NO_LONGER_WANTED: "NO_LONGER_WANTED",
+    ORDER_ERROR: "ORDER_ERROR",
+    OTHER: "OTHER",
+} as const;
+export type ReturnReason = (typeof ReturnReason)[keyof typeof ReturnReason];
+
+export const ReturnedItemCondition = {
+    SELLABLE: "SELLABLE",
+    DAMAGED_REQUIRES_REPAIR: "DAMAGED_REQUIRES_REPAIR",
+    UNSELLABLE_DISPOSE: "UNSELLABLE_DISPOSE",
+    QUARANTINED: "QUARANTINED",
+} as const;
+export type ReturnedItemCondition =
+    (typeof ReturnedItemCondition)[keyof typeof ReturnedItemCondition];
+
+export const CustomerReturnStatus = {
+    PENDING: "PENDING",
+    RECEIVED: "RECEIVED",
+    PROCESSING: "PROCESSING",
+    COMPLETED: "COMPLETED",
+    CANCELLED: "CANCELLED",
+} as const;
+export type CustomerReturnStatus =
+    (typeof CustomerReturnStatus)[keyof typeof CustomerReturnStatus];
+
+export const SupplierReturnStatus = {
+    PENDING_SHIPMENT: "PENDING_SHIPMENT",
+    SHIPPED: "SHIPPED",
+    RECEIVED_BY_SUPPLIER: "RECEIVED_BY_SUPPLIER",
+    COMPLETED: "COMPLETED",
+    CANCELLED: "CANCELLED",
+} as const;
+export type SupplierReturnStatus =
+    (typeof SupplierReturnStatus)[keyof typeof SupplierReturnStatus];
+
+export const PermissionScope = {
+    GLOBAL: "GLOBAL",
+    MANAGED_WAREHOUSES: "MANAGED_WAREHOUSES",
+} as const;
+export type PermissionScope =
+    (typeof PermissionScope)[keyof typeof PermissionScope];
+
+export const CycleCountStatus = {
+    IN_PROGRESS: "IN_PROGRESS",
+    PENDING_APPROVAL: "PENDING_APPROVAL",
+    COMPLETED: "COMPLETED",
+    CANCELLED: "CANCELLED",
+} as const;
+export type CycleCountStatus =
+    (typeof CycleCountStatus)[keyof typeof CycleCountStatus];
+
+export const SerialNumberStatus = {
+    IN_STOCK: "IN_STOCK",
+    SHIPPED: "SHIPPED",
+    RETURNED: "RETURNED",
+    SCRAPPED: "SCRAPPED",
+} as const;
+export type SerialNumberStatus =
+    (typeof SerialNumberStatus)[keyof typeof SerialNumberStatus];
+
+/** Names of the database models, as recorded in `AuditLog.entityType` */
+export const ModelName = {
+    Category: "Category",
+    Product: "Product",
+    Warehouse: "Warehouse",
+    WarehouseLocation: "WarehouseLocation",
+    InventoryStockLocation: "InventoryStockLocation",
+    Supplier: "Supplier",
+    PurchaseOrder: "PurchaseOrder",
+    PurchaseOrderItem: "PurchaseOrderItem",
+    Customer: "Customer",
+    Carrier: "Carrier",
+    SalesOrder: "SalesOrder",
+    SalesOrderItem: "SalesOrderItem",
+    StockAllocation: "StockAllocation",
+    Role: "Role",
+    Permission: "Permission",
+    RolePermission: "RolePermission",
+    User: "User",
+    RefreshToken: "RefreshToken",
+    Notification: "Notification",
+    SalesOrderEvent: "SalesOrderEvent",
+    PurchaseOrderEvent: "PurchaseOrderEvent",
+    Task: "Task",
+    InventoryTransaction: "InventoryTransaction",
+    StockAdjustment: "StockAdjustment",
+    StockTransfer: "StockTransfer",
+    StockTransferItem: "StockTransferItem",
+    CustomerReturn: "CustomerReturn",
+    CustomerReturnItem: "CustomerReturnItem",
+    SupplierReturn: "SupplierReturn",
+    SupplierReturnItem: "SupplierReturnItem",
+    Batch: "Batch",
+    SerialNumber: "SerialNumber",
+    CycleCount: "CycleCount",
+    CycleCountLine: "CycleCountLine",
+    ReorderSetting: "ReorderSetting",
+    AuditLog: "AuditLog",
+} as const;
+export type ModelName = (typeof ModelName)[keyof typeof ModelName];
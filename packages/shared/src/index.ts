@@ -0,0 +1,26 @@
+export * from "./orderTotals.js";
+export * from "./enums.js";
+export * from "./schemas/common.schema.js";
+export * from "./schemas/audit.schema.js";
+export * from "./schemas/auth.schema.js";
+export * from "./schemas/batch.schema.js";
+export * from "./schemas/category.schema.js";
+export * from "./schemas/customer.schema.js";
+export * from "./schemas/customerReturn.schema.js";
+export * from "./schemas/cycleCount.schema.js";
+export * from "./schemas/inventoryTransaction.schema.js";
+export * from "./schemas/inventoryValuation.schema.js";
+export * from "./schemas/notification.schema.js";
+export * from "./schemas/permission.schema.js";
+export * from "./schemas/product.schema.js";
+export * from "./schemas/purchaseOrder.schema.js";
+export * from "./schemas/replenishment.schema.js";
+export * from "./schemas/salesOrder.schema.js";
+export * from "./schemas/serial.schema.js";
+export * from "./schemas/stockTransfer.schema.js";
+export * from "./schemas/supplier.schema.js";
+export * from "./schemas/supplierReturn.schema.js";
+export * from "./schemas/task.schema.js";
+export * from "./schemas/warehouse.schema.js";
+export * from "./api/contract.js";
+export * from "./api/client.js";
@@ -0,0 +1,302 @@
+import { describe, expect, it } from "vitest";
+import {
+    calculateLineTotals,
+    calculateOrderTotals,
+    calculateReturnCredit,
+} from "./orderTotals.js";
+
+describe("calculateLineTotals", () => {
+    it("applies the discount before tax", () => {
+        expect(
+            calculateLineTotals({
+                quantity: 3,
+                unitPrice: 1000,
+                discountPercentage: 10,
+                taxRate: 18,
+            })
+        ).toEqual({
+            gross: 3000,
+            discount: 300,
+            net: 2700,
+            tax: 486,
+            total: 3186,
+        });
+    });
+
+    it("rounds halves away from zero", () => {
+        // 10% of 25 is 2.5, 18% of the remaining 22 is 3.96
+        expect(
+            calculateLineTotals({
+                quantity: 1,
+                unitPrice: 25,
+                discountPercentage: 10,
+                taxRate: 18,
+            })
+        ).toEqual({ gross: 25, discount: 3, net: 22, tax: 4, total: 26 });
+        // 1% of 50 is 0.5
+        expect(
+            calculateLineTotals({ quantity: 1, unitPrice: 50, taxRate: 1 }).tax
+        ).toBe(1);
+        // 1% of 49 is 0.49
+        expect(
+            calculateLineTotals({ quantity: 1, unitPrice: 49, taxRate: 1 }).tax
+        ).toBe(0);
+    });
+
+    it("reads fractional rates without floating point drift", () => {
+        // 0.29 * 100 is 28.999999999999996 in floating point
+        expect(
+            calculateLineTotals({
+                quantity: 1,
+                unitPrice: 10000,
+                taxRate: 0.29,
+            }).tax
+        ).toBe(29);
+        expect(
+            calculateLineTotals({ quantity: 1, unitPrice: 100, taxRate: 12.5 })
+                .tax
+        ).toBe(13);
+    });
+
+    it("accepts rates as strings and decimal objects", () => {
+        const decimal = { toString: () => "12.5" };
+        expect(
+            calculateLineTotals({
+                quantity: 2,
+                unitPrice: 100,
+                discountPercentage: "12.5",
+                taxRate: decimal,
+            })
+        ).toEqual({ gross: 200, discount: 25, net: 175, tax: 22, total: 197 });
+    });
+
+    it("treats missing rates as zero", () => {
+        expect(
+            calculateLineTotals({
+                quantity: 4,
+                unitPrice: 250,
+                discountPercentage: null,
+            })
+        ).toEqual({ gross: 1000, discount: 0, net: 1000, tax: 0, total: 1000 });
+    });
+
+    it("charges no tax when tax exempt", () => {
+        expect(
+            calculateLineTotals(
+                { quantity: 1, unitPrice: 1000, taxRate: 18 },
+                true
+            )
+        ).toEqual({ gross: 1000, discount: 0, net: 1000, tax: 0, total: 1000 });
+    });
+
+    it("allows a full discount", () => {
+        expect(
+            calculateLineTotals({
+                quantity: 1,
+                unitPrice: 1000,
+                discountPercentage: 100,
+                taxRate: 18,
+            })
+        ).toEqual({ gross: 1000, discount: 1000, net: 0, tax: 0, total: 0 });
+    });
+
+    it.each([
+        ["above 100", 100.01],
+        ["negative", -1],
+        ["not a number", "abc"],
+        ["infinite", Infinity],
+    ])("rejects a rate that is %s", (_, rate) => {
+        expect(() =>
+            calculateLineTotals({ quantity: 1, unitPrice: 100, taxRate: rate })
+        ).toThrow(RangeError);
+        expect(() =>
+            calculateLineTotals({
+                quantity: 1,
+                unitPrice: 100,
+                discountPercentage: rate,
+            })
+        ).toThrow(RangeError);
+    });
+
+    it.each([
+        ["a fractional quantity", { quantity: 1.5, unitPrice: 100 }],
+        ["a negative quantity", { quantity: -1, unitPrice: 100 }],
+        ["a fractional price", { quantity: 1, unitPrice: 99.5 }],
+        ["a negative price", { quantity: 1, unitPrice: -100 }],
+        [
+            "an unsafe integer price",
+            { quantity: 1, unitPrice: Number.MAX_SAFE_INTEGER + 1 },
+        ],
+    ])("rejects %s", (_, line) => {
+        expect(() => calculateLineTotals(line)).toThrow(RangeError);
+    });
+});
+
+describe("calculateOrderTotals", () => {
+    it("sums the rounded line figures", () => {
+        const totals = calculateOrderTotals({
+            lines: [
+                { quantity: 2, unitPrice: 1000, taxRate: 18 },
+                {
+                    quantity: 1,
+                    unitPrice: 25,
+                    discountPercentage: 10,
+                    taxRate: 18,
+                },
+            ],
+            discountAmount: 100,
+            shippingCost: 500,
+        });
+
+        expect(totals).toEqual({
+            lines: [
+                { gross: 2000, discount: 0, net: 2000, tax: 360, total: 2360 },
+                { gross: 25, discount: 3, net: 22, tax: 4, total: 26 },
+            ],
+            subTotal: 2022,
+            taxAmount: 364,
+            discountAmount: 100,
+            shippingCost: 500,
+            totalAmount: 2786,
+        });
+    });
+
+    it("caps the order discount at the taxed subtotal", () => {
+        const totals = calculateOrderTotals({
+            lines: [{ quantity: 1, unitPrice: 1000, taxRate: 18 }],
+            discountAmount: 5000,
+            shippingCost: 200,
+        });
+
+        expect(totals.discountAmount).toBe(1180);
+        expect(totals.totalAmount).toBe(200);
+    });
+
+    it("zeroes tax on every line when tax exempt", () => {
+        const totals = calculateOrderTotals({
+            lines: [
+                { quantity: 1, unitPrice: 1000, taxRate: 18 },
+                { quantity: 3, unitPrice: 50, taxRate: 5 },
+            ],
+            taxExempt: true,
+        });
+
+        expect(totals.lines.map((line) => line.tax)).toEqual([0, 0]);
+        expect(totals.taxAmount).toBe(0);
+        expect(totals.totalAmount).toBe(1150);
+    });
+
+    it("treats a missing discount and shipping cost as zero", () => {
+        expect(
+            calculateOrderTotals({
+                lines: [{ quantity: 1, unitPrice: 500 }],
+                discountAmount: null,
+                shippingCost: null,
+            })
+        ).toMatchObject({
+            discountAmount: 0,
+            shippingCost: 0,
+            totalAmount: 500,
+        });
+    });
+
+    it("returns zeroes for an order without lines", () => {
+        expect(calculateOrderTotals({ lines: [] })).toEqual({
+            lines: [],
+            subTotal: 0,
+            taxAmount: 0,
+            discountAmount: 0,
+            shippingCost: 0,
+            totalAmount: 0,
+        });
+    });
+
+    it.each([
+        ["a negative discount", { discountAmount: -1 }],
+        ["a fractional discount", { discountAmount: 0.5 }],
+        ["a negative shipping cost", { shippingCost: -1 }],
+        ["a fractional shipping cost", { shippingCost: 10.25 }],
+    ])("rejects %s", (_, amounts) => {
+        expect(() =>
+            calculateOrderTotals({
+                lines: [{ quantity: 1, unitPrice: 100 }],
+                ...amounts,
+            })
+        ).toThrow(RangeError);
+    });
+
+    it("rejects an invalid line", () => {
+        expect(() =>
+            calculateOrderTotals({
+                lines: [
+                    { quantity: 1, unitPrice: 100 },
+                    { quantity: 1, unitPrice: 100, taxRate: 150 },
+                ],
+            })
+        ).toThrow(RangeError);
+    });
+});
+
+describe("calculateReturnCredit", () => {
+    // Lines of 2360 and 26 with tax, less a 100 order discount
+    const order = { subTotal: 2022, taxAmount: 364, discountAmount: 100 };
+
+    it("spreads the order discount over the lines by their totals", () => {
+        expect(
+            calculateReturnCredit({ quantity: 2, total: 2360 }, 2, order)
+        ).toBe(2261);
+        expect(
+            calculateReturnCredit({ quantity: 1, total: 26 }, 1, order)
+        ).toBe(25);
+    });
+
+    it("rounds a partial return half away from zero", () => {
+        // 2360 × 2286 / 2386 / 2 is 1130.54
+        expect(
+            calculateReturnCredit({ quantity: 2, total: 2360 }, 1, order)
+        ).toBe(1131);
+        // 25 / 2 is 12.5
+        expect(
+            calculateReturnCredit({ quantity: 2, total: 25 }, 1, {
+                subTotal: 25,
+                taxAmount: 0,
+            })
+        ).toBe(13);
+    });
+
+    it("credits the returned share of the line without an order discount", () => {
+        expect(
+            calculateReturnCredit({ quantity: 3, total: 1000 }, 1, {
+                subTotal: 1000,
+                taxAmount: 0,
+                discountAmount: null,
+            })
+        ).toBe(333);
+    });
+
+    it("credits nothing once the discount covers the whole order", () => {
+        expect(
+            calculateReturnCredit({ quantity: 1, total: 1180 }, 1, {
+                subTotal: 1000,
+                taxAmount: 180,
+                discountAmount: 5000,
+            })
+        ).toBe(0);
+    });
+
+    it("stays exact beyond the safe integer range", () => {
+        expect(
+            calculateReturnCredit({ quantity: 1, total: 9_000_000_000 }, 1, {
+                subTotal: 9_000_000_000,
+                taxAmount: 0,
+                discountAmount: 3_000_000_000,
+            })
+        ).toBe(6_000_000_000);
+    });
+
+    it("rejects a fractional quantity", () => {
+        expect(() =>
+            calculateReturnCredit({ quantity: 2, total: 100 }, 0.5, order)
+        ).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,153 @@
+/**
+ * Order totals shared by the client (live recalculation while editing) and the
+ * server (authoritative values stored on write).
+ *
+ * Rounding policy: every monetary value is a whole number of Uganda shillings.
+ * Rates are percentages (`18` means 18%) with up to two decimals. Each rounded
+ * figure is rounded once, half away from zero, at line level:
+ *
+ * 1. `gross    = quantity × unitPrice` (exact)
+ * 2. `discount = round(gross × discountPercentage / 100)`
+ * 3. `net      = gross − discount`
+ * 4. `tax      = round(net × taxRate / 100)`, or 0 when the customer is tax exempt
+ * 5. `total    = net + tax` (stored as `totalPrice` / `totalCost`)
+ *
+ * Order figures are sums of the rounded line figures, so they always reconcile
+ * with the lines:
+ *
+ * - `subTotal    = Σ net`
+ * - `taxAmount   = Σ tax`
+ * - `totalAmount = subTotal + taxAmount − discountAmount + shippingCost`
+ *
+ * The order-level `discountAmount` is a flat deduction after tax; it doesn't
+ * change line tax. It is capped at `subTotal + taxAmount`.
+ */
+
+/** A rate as a number, a numeric string or a decimal object such as Prisma's `Decimal` */
+export type DecimalLike = number | string | { toString(): string };
+
+export interface OrderLineInput {
+    quantity: number;
+    /** Unit price (sales) or unit cost (purchases) in whole shillings */
+    unitPrice: number;
+    discountPercentage?: DecimalLike | null;
+    taxRate?: DecimalLike | null;
+}
+
+export interface OrderTotalsInput {
+    lines: OrderLineInput[];
+    discountAmount?: number | null;
+    shippingCost?: number | null;
+    /** Mirrors `Customer.taxExempt`; zeroes tax on every line */
+    taxExempt?: boolean;
+}
+
+export interface LineTotals {
+    gross: number;
+    discount: number;
+    net: number;
+    tax: number;
+    total: number;
+}
+
+export interface OrderTotals {
+    lines: LineTotals[];
+    subTotal: number;
+    taxAmount: number;
+    discountAmount: number;
+    shippingCost: number;
+    totalAmount: number;
+}
+
+/** Rate in hundredths of a percent, so 12.5% becomes 1250 */
+const toBasisPoints = (rate: DecimalLike | null | undefined) => {
+    if (rate === null || rate === undefined) return 0;
+    const value = Number(rate.toString());
+    if (!Number.isFinite(value) || value < 0 || value > 100) {
+        throw new RangeError(`Rate must be between 0 and 100, got ${rate}`);
+    }
+    return Math.round(value * 100);
+};
+
+/** `amount × basisPoints / 10000` rounded half away from zero, in integers */
+const applyRate = (amount: number, basisPoints: number) => {
+    const scaled = amount * basisPoints;
+    const rounded = Math.floor((Math.abs(scaled) * 2 + 10000) / 20000);
+    return scaled < 0 ? -rounded : rounded;
+};
+
+const assertWholeShillings = (name: string, value: number) => {
+    if (!Number.isSafeInteger(value) || value < 0) {
+        throw new RangeError(
+            `${name} must be a non-negative whole number, got ${value}`
+        );
+    }
+};
+
+export function calculateLineTotals(
+    line: OrderLineInput,
+    taxExempt = false
+): LineTotals {
+    assertWholeShillings("quantity", line.quantity);
+    assertWholeShillings("unitPrice", line.unitPrice);
+
+    const gross = line.quantity * line.unitPrice;
+    const discount = applyRate(gross, toBasisPoints(line.discountPercentage));
+    const net = gross - discount;
+    const tax = taxExempt ? 0 : applyRate(net, toBasisPoints(line.taxRate));
+
+    return { gross, discount, net, tax, total: net + tax };
+}
+
+export function calculateOrderTotals({
+    lines,
+    discountAmount = 0,
+    shippingCost = 0,
+    taxExempt = false,
+}: OrderTotalsInput): OrderTotals {
+    assertWholeShillings("discountAmount", discountAmount ?? 0);
+    assertWholeShillings("shippingCost", shippingCost ?? 0);
+
+    const lineTotals = lines.map((line) =>
+        calculateLineTotals(line, taxExempt)
+    );
+    const subTotal = lineTotals.reduce((sum, line) => sum + line.net, 0);
+    const taxAmount = lineTotals.reduce((sum, line) => sum + line.tax, 0);
+    const appliedDiscount = Math.min(discountAmount ?? 0, subTotal + taxAmount);
+    const shipping = shippingCost ?? 0;
+
+    return {
+        lines: lineTotals,
+        subTotal,
+        taxAmount,
+        discountAmount: appliedDiscount,
+        shippingCost: shipping,
+        totalAmount: subTotal + taxAmount - appliedDiscount + shipping,
+    };
+}
+
+/**
+ * Credit for returning `quantity` units of an order line: their share of the
+ * line total less their share of the order discount, which is spread over the
+ * lines in proportion to their totals. Rounded once, half away from zero.
+ */
+export function calculateReturnCredit(
+    line: { quantity: number; total: number },
+    quantity: number,
+    order: Pick<OrderTotals, "subTotal" | "taxAmount"> & {
+        discountAmount?: number | null;
+    }
+): number {
+    assertWholeShillings("quantity", quantity);
+    assertWholeShillings("total", line.total);
+    if (!line.quantity) return 0;
+
+    const taxed = order.subTotal + order.taxAmount;
+    const discount = Math.min(order.discountAmount ?? 0, taxed);
+    const [kept, of] = discount > 0 ? [taxed - discount, taxed] : [1, 1];
+
+    // In integers, as the product can exceed the safe range of a number
+    const numerator = BigInt(line.total) * BigInt(quantity) * BigInt(kept);
+    const denominator = BigInt(line.quantity) * BigInt(of);
+    return Number((numerator * 2n + denominator) / (denominator * 2n));
+}
@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { AuditAction, ModelName } from "../enums.js";
+import { dateString, userRefSchema } from "./common.schema.js";
+
+const jsonRecord = z.record(z.unknown());
+
+export const auditLogSchema = z.object({
+    id: z.number().int(),
+    entityType: z.nativeEnum(ModelName),
+    /** Primary key; composite keys are joined with ":" */
+    entityId: z.string(),
+    action: z.nativeEnum(AuditAction),
+    /** Changed fields before the write; null for creates */
+    before: jsonRecord.nullable(),
+    /** Changed fields after the write; null for deletes */
+    after: jsonRecord.nullable(),
+    userId: z.number().int().nullable(),
+    ipAddress: z.string().nullable(),
+    timestamp: dateString,
+    user: userRefSchema.nullable(),
+});
+
+export type AuditLog = z.infer<typeof auditLogSchema>;
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { dateString } from "./common.schema.js";
+
+export const loginSchema = z.object({
+    email: z.string().trim().toLowerCase().email(),
+    password: z.string().min(1, "Password is required"),
+});
+
+export const refreshTokenSchema = z.object({
+    refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const passwordResetRequestSchema = z.object({
+    email: z.string().trim().toLowerCase().email(),
+});
+
+export const passwordResetConfirmSchema = z.object({
+    token: z.string().min(1, "Token is required"),
+    password: z
+        .string()
+        .min(8, "Password must be at least 8 characters")
+        .max(72, "Password must be at most 72 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+    token: z.string().min(1, "Token is required"),
+});
+
+export const authTokensSchema = z.object({
+    accessToken: z.string(),
+    refreshToken: z.string(),
+});
+
+/** The signed-in user, as returned on login */
+export const sessionUserSchema = z.object({
+    id: z.number().int(),
+    username: z.string(),
+    email: z.string(),
+    firstName: z.string().nullable(),
+    lastName: z.string().nullable(),
+    roleId: z.number().int(),
+    isEmailVerified: z.boolean(),
+    lastLoginAt: dateString.nullable(),
+});
+
+export const loginResponseSchema = authTokensSchema.extend({
+    user: sessionUserSchema,
+});
+
+export type LoginInput = z.infer<typeof loginSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type PasswordResetRequestInput = z.infer<
+    typeof passwordResetRequestSchema
+>;
+export type PasswordResetConfirmInput = z.infer<
+    typeof passwordResetConfirmSchema
+>;
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+export type AuthTokens = z.infer<typeof authTokensSchema>;
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { StockAdjustmentReason } from "../enums.js";
+import {
+    dateString,
+    namedRefSchema,
+    productRefSchema,
+} from "./common.schema.js";
+
+export const expiringBatchesQuerySchema = z.object({
+    /** Look-ahead window; batches that have already expired are always included */
+    days: z.coerce.number().int().nonnegative().max(3650).default(30),
+    warehouseId: z.coerce.number().int().positive().optional(),
+    productId: z.coerce.number().int().positive().optional(),
+});
+
+export const writeOffExpiredSchema = z.object({
+    warehouseId: z.number().int().positive(),
+    /** Limit the write-off to these batches; defaults to every expired batch */
+    batchIds: z.array(z.number().int().positive()).min(1).optional(),
+    notes: z.string().trim().max(1000).optional(),
+});
+
+/** Stock of a batch in a warehouse */
+export const expiringBatchSchema = z.object({
+    product: productRefSchema,
+    batch: z.object({
+        id: z.number().int(),
+        batchNumber: z.string(),
+        expiryDate: dateString.nullable(),
+    }),
+    warehouse: namedRefSchema,
+    quantity: z.number().int(),
+    /** Zero or negative once the batch has expired */
+    daysUntilExpiry: z.number().int(),
+    isExpired: z.boolean(),
+});
+
+export const stockAdjustmentSchema = z.object({
+    id: z.number().int(),
+    productId: z.number().int(),
+    warehouseLocationId: z.number().int(),
+    adjustmentQuantity: z.number().int(),
+    reason: z.nativeEnum(StockAdjustmentReason),
+    notes: z.string().nullable(),
+    processedByUserId: z.number().int(),
+    processedAt: dateString,
+    createdAt: dateString,
+    updatedAt: dateString,
+    product: productRefSchema,
+    warehouseLocation: z.object({ id: z.number().int(), code: z.string() }),
+});
+
+export type ExpiringBatchesQuery = z.infer<typeof expiringBatchesQuerySchema>;
+export type WriteOffExpiredInput = z.infer<typeof writeOffExpiredSchema>;
+export type ExpiringBatch = z.infer<typeof expiringBatchSchema>;
+export type StockAdjustment = z.infer<typeof stockAdjustmentSchema>;
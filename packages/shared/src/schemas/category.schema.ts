@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { dateString } from "./common.schema.js";
+
+export const createCategorySchema = z.object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export const updateCategorySchema = createCategorySchema.partial();
+
+export const categorySchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    _count: z.object({ products: z.number().int() }),
+});
+
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
+export type Category = z.infer<typeof categorySchema>;
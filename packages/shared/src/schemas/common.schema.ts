@@ -0,0 +1,120 @@
+import { z } from "zod";
+
+export const idParamSchema = z.object({
+    id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Accepts "true"/"false" query strings as booleans. Booleans pass through, so
+ * typed clients can send them as they are before they're stringified.
+ */
+export const booleanQuery = z.union([
+    z.boolean(),
+    z.enum(["true", "false"]).transform((value) => value === "true"),
+]);
+
+export const paginationQuerySchema = z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+/**
+ * Inclusive cutoff. A bare date such as `2026-09-30` means the end of that
+ * day (UTC), so a range or month-end report includes the whole last day.
+ */
+export const cutoffDateQuery = z
+    .string()
+    .trim()
+    .transform((value, ctx) => {
+        const date = new Date(
+            /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value
+        );
+        if (Number.isNaN(date.getTime())) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "Invalid date",
+            });
+            return z.NEVER;
+        }
+        return date;
+    });
+
+/*
+ * Response building blocks. Dates travel as ISO strings and Prisma decimals,
+ * such as tax rates, as numeric strings.
+ */
+
+export const dateString = z.string().datetime();
+export const decimalString = z.string();
+
+export const userRefSchema = z.object({
+    id: z.number().int(),
+    username: z.string(),
+});
+
+export const namedRefSchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+});
+
+export const productRefSchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+    sku: z.string(),
+});
+
+/** `meta` of lists served by the server's list query engine */
+export const listMetaSchema = z.object({
+    /** Rows matching the filters; null on cursor pages unless `withTotal` was set */
+    total: z.number().int().nullable(),
+    limit: z.number().int(),
+    /** Current page with offset paging, null with cursor paging */
+    page: z.number().int().nullable(),
+    /** Pass back as `cursor` for the next page; null on the last page */
+    nextCursor: z.string().nullable(),
+    hasMore: z.boolean(),
+});
+
+export const FILTER_OPERATORS = [
+    "eq",
+    "ne",
+    "in",
+    "nin",
+    "lt",
+    "lte",
+    "gt",
+    "gte",
+    "contains",
+    "startsWith",
+    "endsWith",
+    "isNull",
+] as const;
+
+/**
+ * Query parameters of list engine endpoints. Filters are keyed `field` or
+ * `field.operator`, e.g. `{ "quantityChange.lt": 0 }`; `in` and `nin` take
+ * comma-separated values.
+ */
+export interface ListParams {
+    page?: number;
+    limit?: number;
+    /** `nextCursor` of the previous page; an empty string starts cursor paging */
+    cursor?: string;
+    /** Comma-separated fields, `-` prefixed for descending, e.g. "-timestamp" */
+    sort?: string;
+    search?: string;
+    withTotal?: boolean;
+    [filter: string]: string | number | boolean | undefined;
+}
+
+/** Types list engine parameters; the server validates them per resource */
+export const listParamsSchema = z.custom<ListParams>(
+    (value) => typeof value === "object" && value !== null
+);
+
+export type IdParam = z.infer<typeof idParamSchema>;
+export type UserRef = z.infer<typeof userRefSchema>;
+export type NamedRef = z.infer<typeof namedRefSchema>;
+export type ProductRef = z.infer<typeof productRefSchema>;
+export type ListMeta = z.infer<typeof listMetaSchema>;
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const customerSchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+    accountNumber: z.string().nullable(),
+    contactName: z.string().nullable(),
+    contactEmail: z.string().nullable(),
+    contactPhone: z.string().nullable(),
+    defaultShippingAddress: z.string().nullable(),
+    defaultBillingAddress: z.string().nullable(),
+    taxExempt: z.boolean(),
+});
+
+export type Customer = z.infer<typeof customerSchema>;
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import {
+    CustomerReturnStatus,
+    ReturnedItemCondition,
+    ReturnReason,
+    SalesOrderStatus,
+} from "../enums.js";
+import {
+    dateString,
+    namedRefSchema,
+    productRefSchema,
+    userRefSchema,
+} from "./common.schema.js";
+
+const customerReturnItemSchema = z
+    .object({
+        originalSalesOrderItemId: z.number().int().positive().optional(),
+        productId: z.number().int().positive(),
+        quantityReturned: z.number().int().positive(),
+        reason: z.nativeEnum(ReturnReason),
+        condition: z.nativeEnum(ReturnedItemCondition),
+        notes: z.string().trim().max(1000).optional(),
+        restockLocationId: z.number().int().positive().optional(),
+        serialNumbers: z.array(z.string().trim().min(1).max(128)).optional(),
+    })
+    .refine(
+        (item) =>
+            !item.serialNumbers ||
+            item.serialNumbers.length === item.quantityReturned,
+        {
+            message:
+                "Number of serial numbers must equal the quantity returned",
+            path: ["serialNumbers"],
+        }
+    );
+
+export const createCustomerReturnSchema = z.object({
+    customerId: z.number().int().positive(),
+    originalSalesOrderId: z.number().int().positive().optional(),
+    notes: z.string().trim().max(2000).optional(),
+    items: z
+        .array(customerReturnItemSchema)
+        .min(1, "At least one item is required"),
+});
+
+/** Records the outcome of inspecting returned goods */
+export const inspectCustomerReturnSchema = z.object({
+    items: z
+        .array(
+            z.object({
+                customerReturnItemId: z.number().int().positive(),
+                condition: z.nativeEnum(ReturnedItemCondition).optional(),
+                restockLocationId: z.number().int().positive().optional(),
+                notes: z.string().trim().max(1000).optional(),
+            })
+        )
+        .min(1),
+});
+
+export const completeCustomerReturnSchema = z.object({
+    /** Warehouse used for items that have no restock location */
+    warehouseId: z.number().int().positive().optional(),
+});
+
+const customerReturnFields = {
+    id: z.number().int(),
+    returnNumber: z.string().nullable(),
+    customerId: z.number().int(),
+    originalSalesOrderId: z.number().int().nullable(),
+    status: z.nativeEnum(CustomerReturnStatus),
+    notes: z.string().nullable(),
+    processedByUserId: z.number().int().nullable(),
+    processedAt: dateString.nullable(),
+    /** Set when the return is completed */
+    creditAmount: z.number().int().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    customer: namedRefSchema,
+    salesOrder: z
+        .object({
+            id: z.number().int(),
+            orderDate: dateString,
+            status: z.nativeEnum(SalesOrderStatus),
+        })
+        .nullable(),
+};
+
+export const customerReturnSummarySchema = z.object({
+    ...customerReturnFields,
+    _count: z.object({ items: z.number().int() }),
+});
+
+export const customerReturnLineSchema = z.object({
+    id: z.number().int(),
+    customerReturnId: z.number().int(),
+    originalSalesOrderItemId: z.number().int().nullable(),
+    productId: z.number().int(),
+    quantityReturned: z.number().int(),
+    reason: z.nativeEnum(ReturnReason),
+    condition: z.nativeEnum(ReturnedItemCondition),
+    notes: z.string().nullable(),
+    restockLocationId: z.number().int().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    product: productRefSchema,
+    restockLocation: z
+        .object({
+            id: z.number().int(),
+            code: z.string(),
+            warehouseId: z.number().int(),
+            isQuarantine: z.boolean(),
+        })
+        .nullable(),
+});
+
+/** A return with its lines */
+export const customerReturnSchema = z.object({
+    ...customerReturnFields,
+    processedByUser: userRefSchema.nullable(),
+    items: z.array(customerReturnLineSchema),
+});
+
+export type CreateCustomerReturnInput = z.infer<
+    typeof createCustomerReturnSchema
+>;
+export type InspectCustomerReturnInput = z.infer<
+    typeof inspectCustomerReturnSchema
+>;
+export type CompleteCustomerReturnInput = z.infer<
+    typeof completeCustomerReturnSchema
+>;
+export type CustomerReturnSummary = z.infer<typeof customerReturnSummarySchema>;
+export type CustomerReturnLine = z.infer<typeof customerReturnLineSchema>;
+export type CustomerReturn = z.infer<typeof customerReturnSchema>;
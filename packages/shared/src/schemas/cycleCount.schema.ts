@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { CycleCountStatus, TaskStatus } from "../enums.js";
+import {
+    dateString,
+    namedRefSchema,
+    productRefSchema,
+    userRefSchema,
+} from "./common.schema.js";
+
+export const createCycleCountSchema = z.object({
+    warehouseId: z.number().int().positive(),
+    /** Count only these locations of the warehouse */
+    locationIds: z.array(z.number().int().positive()).min(1).optional(),
+    /** Count only products of this category */
+    categoryId: z.number().int().positive().optional(),
+    notes: z.string().trim().max(2000).optional(),
+    /** Users who count; locations are shared out between them. Defaults to the creator */
+    assigneeIds: z.array(z.number().int().positive()).min(1).optional(),
+    dueDate: z.coerce.date().optional(),
+});
+
+/**
+ * A count either targets a line of the session by id, or names a product,
+ * location and batch found during counting that the snapshot didn't expect.
+ * Serial-tracked products are counted by listing their serials.
+ */
+const countEntrySchema = z
+    .object({
+        cycleCountLineId: z.number().int().positive().optional(),
+        productId: z.number().int().positive().optional(),
+        warehouseLocationId: z.number().int().positive().optional(),
+        batchId: z.number().int().positive().optional(),
+        countedQuantity: z.number().int().nonnegative().optional(),
+        serialNumbers: z.array(z.string().trim().min(1).max(128)).optional(),
+    })
+    .refine(
+        (entry) =>
+            !!entry.cycleCountLineId !==
+            !!(entry.productId && entry.warehouseLocationId),
+        {
+            message:
+                "Specify either cycleCountLineId or productId and warehouseLocationId",
+            path: ["cycleCountLineId"],
+        }
+    )
+    .refine(
+        (entry) => entry.countedQuantity !== undefined || entry.serialNumbers,
+        {
+            message: "Specify countedQuantity or serialNumbers",
+            path: ["countedQuantity"],
+        }
+    )
+    .refine(
+        (entry) =>
+            !entry.serialNumbers ||
+            entry.countedQuantity === undefined ||
+            entry.serialNumbers.length === entry.countedQuantity,
+        {
+            message: "Number of serial numbers must equal the counted quantity",
+            path: ["serialNumbers"],
+        }
+    );
+
+export const recordCountsSchema = z.object({
+    counts: z.array(countEntrySchema).min(1),
+});
+
+const cycleCountFields = {
+    id: z.number().int(),
+    countNumber: z.string().nullable(),
+    warehouseId: z.number().int(),
+    categoryId: z.number().int().nullable(),
+    status: z.nativeEnum(CycleCountStatus),
+    notes: z.string().nullable(),
+    /** Variance value above which approval is required */
+    approvalThreshold: z.number().int(),
+    /** Absolute variance at average cost, set on submit */
+    varianceValue: z.number().int().nullable(),
+    createdByUserId: z.number().int(),
+    approvedByUserId: z.number().int().nullable(),
+    submittedAt: dateString.nullable(),
+    completedAt: dateString.nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    warehouse: namedRefSchema,
+    category: namedRefSchema.nullable(),
+};
+
+export const cycleCountSummarySchema = z.object({
+    ...cycleCountFields,
+    _count: z.object({ lines: z.number().int() }),
+});
+
+const countLineProductSchema = productRefSchema.extend({
+    isTrackedBySerial: z.boolean(),
+});
+const countLineLocationSchema = z.object({
+    id: z.number().int(),
+    code: z.string(),
+});
+const countLineBatchSchema = z
+    .object({
+        id: z.number().int(),
+        batchNumber: z.string(),
+        expiryDate: dateString.nullable(),
+    })
+    .nullable();
+
+export const cycleCountLineSchema = z.object({
+    id: z.number().int(),
+    cycleCountId: z.number().int(),
+    taskId: z.number().int().nullable(),
+    productId: z.number().int(),
+    warehouseLocationId: z.number().int(),
+    batchId: z.number().int().nullable(),
+    /** Snapshot of the balance when the session started */
+    expectedQuantity: z.number().int(),
+    countedQuantity: z.number().int().nullable(),
+    countedSerials: z.array(z.string()),
+    /** Net stock movement between the snapshot and the count */
+    movementQuantity: z.number().int().nullable(),
+    /** Counted less the balance at the time of counting */
+    varianceQuantity: z.number().int().nullable(),
+    /** Average cost when the session was submitted */
+    unitCost: z.number().int().nullable(),
+    countedByUserId: z.number().int().nullable(),
+    countedAt: dateString.nullable(),
+    stockAdjustmentId: z.number().int().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    product: countLineProductSchema,
+    warehouseLocation: countLineLocationSchema,
+    batch: countLineBatchSchema,
+    countedByUser: userRefSchema.nullable(),
+});
+
+/** A session with its counting tasks and lines */
+export const cycleCountSchema = z.object({
+    ...cycleCountFields,
+    createdByUser: userRefSchema,
+    approvedByUser: userRefSchema.nullable(),
+    tasks: z.array(
+        z.object({
+            id: z.number().int(),
+            status: z.nativeEnum(TaskStatus),
+            assignedToUser: userRefSchema.nullable(),
+        })
+    ),
+    lines: z.array(cycleCountLineSchema),
+});
+
+/** The caller's lines of a session, without expected quantities (blind count) */
+export const countSheetSchema = z.object({
+    id: z.number().int(),
+    countNumber: z.string().nullable(),
+    status: z.nativeEnum(CycleCountStatus),
+    lines: z.array(
+        z.object({
+            id: z.number().int(),
+            countedQuantity: z.number().int().nullable(),
+            countedSerials: z.array(z.string()),
+            countedAt: dateString.nullable(),
+            product: countLineProductSchema,
+            warehouseLocation: countLineLocationSchema,
+            batch: countLineBatchSchema,
+        })
+    ),
+});
+
+export type CreateCycleCountInput = z.infer<typeof createCycleCountSchema>;
+export type RecordCountsInput = z.infer<typeof recordCountsSchema>;
+export type CycleCountSummary = z.infer<typeof cycleCountSummarySchema>;
+export type CycleCountLine = z.infer<typeof cycleCountLineSchema>;
+export type CycleCount = z.infer<typeof cycleCountSchema>;
+export type CountSheet = z.infer<typeof countSheetSchema>;
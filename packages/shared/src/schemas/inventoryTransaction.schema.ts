@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { InventoryTransactionType } from "../enums.js";
+import { dateString, namedRefSchema, userRefSchema } from "./common.schema.js";
+
+/** A ledger entry; stock moves only by adding these */
+export const inventoryTransactionSchema = z.object({
+    id: z.number().int(),
+    productId: z.number().int(),
+    warehouseLocationId: z.number().int(),
+    quantityChange: z.number().int(),
+    newQuantityAtLocation: z.number().int(),
+    transactionType: z.nativeEnum(InventoryTransactionType),
+    timestamp: dateString,
+    userId: z.number().int(),
+    notes: z.string().nullable(),
+    unitCost: z.number().int().nullable(),
+    purchaseOrderItemId: z.number().int().nullable(),
+    salesOrderItemId: z.number().int().nullable(),
+    stockAdjustmentId: z.number().int().nullable(),
+    stockTransferId: z.number().int().nullable(),
+    customerReturnItemId: z.number().int().nullable(),
+    supplierReturnItemId: z.number().int().nullable(),
+    batchId: z.number().int().nullable(),
+    serialNumberId: z.number().int().nullable(),
+    purchaseOrderId: z.number().int().nullable(),
+    salesOrderId: z.number().int().nullable(),
+    product: z.object({
+        id: z.number().int(),
+        name: z.string(),
+        sku: z.string(),
+    }),
+    warehouseLocation: z.object({
+        id: z.number().int(),
+        code: z.string(),
+        warehouse: namedRefSchema,
+    }),
+    batch: z
+        .object({ id: z.number().int(), batchNumber: z.string() })
+        .nullable(),
+    serialNumber: z
+        .object({ id: z.number().int(), serialNumber: z.string() })
+        .nullable(),
+    user: userRefSchema,
+});
+
+export type InventoryTransaction = z.infer<typeof inventoryTransactionSchema>;
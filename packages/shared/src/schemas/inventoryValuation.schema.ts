@@ -0,0 +1,57 @@
+import { z } from "zod";
+import {
+    cutoffDateQuery,
+    dateString,
+    namedRefSchema,
+    productRefSchema,
+} from "./common.schema.js";
+
+export const VALUATION_METHODS = ["WEIGHTED_AVERAGE", "FIFO"] as const;
+
+export const inventoryValuationQuerySchema = z.object({
+    /** Defaults to now */
+    asOf: cutoffDateQuery.optional(),
+    method: z.enum(VALUATION_METHODS).default("WEIGHTED_AVERAGE"),
+    warehouseId: z.coerce.number().int().positive().optional(),
+    categoryId: z.coerce.number().int().positive().optional(),
+    productId: z.coerce.number().int().positive().optional(),
+    format: z.enum(["json", "csv"]).default("json"),
+});
+
+const valuationTotalsSchema = z.object({
+    quantity: z.number().int(),
+    /** Sum of rounded line values */
+    value: z.number().int(),
+});
+
+/** Stock of a product in a warehouse; `warehouse` is null for stock in transit */
+export const valuationLineSchema = z.object({
+    warehouse: namedRefSchema.nullable(),
+    category: namedRefSchema,
+    product: productRefSchema,
+    quantity: z.number().int(),
+    unitCost: z.number(),
+    value: z.number().int(),
+});
+
+export const inventoryValuationSchema = z.object({
+    asOf: dateString,
+    method: z.enum(VALUATION_METHODS),
+    totals: valuationTotalsSchema,
+    byWarehouse: z.array(
+        valuationTotalsSchema.extend({
+            warehouse: namedRefSchema.nullable(),
+        })
+    ),
+    byCategory: z.array(
+        valuationTotalsSchema.extend({ category: namedRefSchema })
+    ),
+    lines: z.array(valuationLineSchema),
+});
+
+export type ValuationMethod = (typeof VALUATION_METHODS)[number];
+export type InventoryValuationQuery = z.infer<
+    typeof inventoryValuationQuerySchema
+>;
+export type ValuationLine = z.infer<typeof valuationLineSchema>;
+export type InventoryValuation = z.infer<typeof inventoryValuationSchema>;
@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { NotificationType } from "../enums.js";
+import { dateString, listMetaSchema } from "./common.schema.js";
+
+export const notificationSchema = z.object({
+    id: z.number().int(),
+    userId: z.number().int(),
+    type: z.nativeEnum(NotificationType),
+    message: z.string(),
+    isRead: z.boolean(),
+    /** Model name of the record the notification is about, e.g. "PurchaseOrder" */
+    relatedEntityType: z.string().nullable(),
+    relatedEntityId: z.number().int().nullable(),
+    createdAt: dateString,
+});
+
+export const notificationListMetaSchema = listMetaSchema.extend({
+    /** Unread notifications of the user, regardless of filters */
+    unread: z.number().int(),
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+export type NotificationListMeta = z.infer<typeof notificationListMetaSchema>;
@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { dateString } from "./common.schema.js";
+
+export const permissionSchema = z.object({
+    id: z.number().int(),
+    /** e.g. "purchaseOrder:approve" */
+    key: z.string(),
+    description: z.string().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+});
+
+/** Effective permissions of the signed-in user */
+export const userPermissionsSchema = z.object({
+    /** Keys granted in every warehouse */
+    global: z.array(z.string()),
+    /** Keys granted only in the listed (managed) warehouses */
+    scoped: z.record(z.array(z.number().int())),
+});
+
+export type Permission = z.infer<typeof permissionSchema>;
+export type UserPermissions = z.infer<typeof userPermissionsSchema>;
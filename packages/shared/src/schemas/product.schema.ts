@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { SerialNumberStatus } from "../enums.js";
+import { dateString, namedRefSchema } from "./common.schema.js";
+
+export const createProductSchema = z.object({
+    name: z.string().trim().min(1, "Name is required").max(200),
+    description: z.string().trim().max(2000).nullish(),
+    sku: z.string().trim().min(1, "SKU is required").max(64),
+    categoryId: z.number().int().positive(),
+    unitOfMeasure: z.string().trim().min(1).max(32).optional(),
+    isTrackedByBatch: z.boolean().optional(),
+    isTrackedBySerial: z.boolean().optional(),
+    defaultSupplierId: z.number().int().positive().nullish(),
+    supplierSku: z.string().trim().max(64).nullish(),
+});
+
+export const updateProductSchema = createProductSchema.partial();
+
+export const warehouseStockSchema = z.object({
+    warehouseId: z.number().int(),
+    warehouseName: z.string(),
+    quantity: z.number().int(),
+    /** Shipped to this warehouse on a transfer that hasn't been received yet */
+    inTransit: z.number().int(),
+});
+
+export const stockSummarySchema = z.object({
+    onHand: z.number().int(),
+    inTransit: z.number().int(),
+    byWarehouse: z.array(warehouseStockSchema),
+});
+
+export const productSchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+    description: z.string().nullable(),
+    sku: z.string(),
+    categoryId: z.number().int(),
+    unitOfMeasure: z.string(),
+    averageCost: z.number().int().nullable(),
+    isTrackedByBatch: z.boolean(),
+    isTrackedBySerial: z.boolean(),
+    defaultSupplierId: z.number().int().nullable(),
+    supplierSku: z.string().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    category: namedRefSchema,
+    defaultSupplier: namedRefSchema.nullable(),
+    stock: stockSummarySchema,
+});
+
+/** A location's stock of the product, per batch for batch-tracked products */
+export const productStockLocationSchema = z.object({
+    id: z.number().int(),
+    quantity: z.number().int(),
+    /** Reserved for sales orders, not yet shipped */
+    allocated: z.number().int(),
+    warehouseLocation: z.object({
+        id: z.number().int(),
+        code: z.string(),
+        isQuarantine: z.boolean(),
+        warehouse: namedRefSchema,
+    }),
+    batch: z
+        .object({
+            id: z.number().int(),
+            batchNumber: z.string(),
+            expiryDate: dateString.nullable(),
+        })
+        .nullable(),
+});
+
+export const productSerialSchema = z.object({
+    id: z.number().int(),
+    serialNumber: z.string(),
+    status: z.nativeEnum(SerialNumberStatus),
+    currentLocation: z
+        .object({
+            id: z.number().int(),
+            code: z.string(),
+            warehouse: namedRefSchema,
+        })
+        .nullable(),
+});
+
+export const productStockSchema = z.object({
+    locations: z.array(productStockLocationSchema),
+    /** Serial numbers in stock; empty unless the product is serial-tracked */
+    serials: z.array(productSerialSchema),
+});
+
+export type CreateProductInput = z.infer<typeof createProductSchema>;
+export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type WarehouseStock = z.infer<typeof warehouseStockSchema>;
+export type StockSummary = z.infer<typeof stockSummarySchema>;
+export type Product = z.infer<typeof productSchema>;
+export type ProductStockLocation = z.infer<typeof productStockLocationSchema>;
+export type ProductSerial = z.infer<typeof productSerialSchema>;
+export type ProductStock = z.infer<typeof productStockSchema>;
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { PurchaseOrderEventType, PurchaseOrderStatus } from "../enums.js";
+import {
+    dateString,
+    decimalString,
+    namedRefSchema,
+    userRefSchema,
+} from "./common.schema.js";
+
+const purchaseOrderItemInputSchema = z.object({
+    productId: z.number().int().positive(),
+    quantityOrdered: z.number().int().positive(),
+    unitCost: z.number().int().nonnegative(),
+    supplierSku: z.string().trim().max(64).nullish(),
+    discountPercentage: z.number().min(0).max(100).optional(),
+    taxRate: z.number().min(0).max(100).optional(),
+});
+
+/** Totals are never accepted from the client; they are recomputed on every write */
+export const createPurchaseOrderSchema = z.object({
+    supplierId: z.number().int().positive(),
+    /** Destination warehouse; counted as incoming supply there by replenishment */
+    warehouseId: z.number().int().positive().nullish(),
+    expectedDeliveryDate: z.coerce.date().optional(),
+    shippingAddress: z.string().trim().max(500).optional(),
+    carrierId: z.number().int().positive().nullish(),
+    notes: z.string().trim().max(2000).optional(),
+    shippingCost: z.number().int().nonnegative().optional(),
+    items: z
+        .array(purchaseOrderItemInputSchema)
+        .min(1, "At least one item is required"),
+});
+
+export const updatePurchaseOrderSchema = createPurchaseOrderSchema.partial();
+
+const receiptLineSchema = z
+    .object({
+        purchaseOrderItemId: z.number().int().positive(),
+        quantity: z.number().int().positive(),
+        /** Overrides the receipt-level location for this line */
+        warehouseLocationId: z.number().int().positive().optional(),
+        batchNumber: z.string().trim().min(1).max(64).optional(),
+        manufacturingDate: z.coerce.date().optional(),
+        expiryDate: z.coerce.date().optional(),
+        serialNumbers: z.array(z.string().trim().min(1).max(128)).optional(),
+    })
+    .refine(
+        (line) =>
+            !line.serialNumbers ||
+            line.serialNumbers.length === line.quantity,
+        {
+            message: "Number of serial numbers must equal the quantity",
+            path: ["serialNumbers"],
+        }
+    );
+
+export const receivePurchaseOrderSchema = z
+    .object({
+        /** Receive into this warehouse's default receiving location */
+        warehouseId: z.number().int().positive().optional(),
+        warehouseLocationId: z.number().int().positive().optional(),
+        notes: z.string().trim().max(1000).optional(),
+        lines: z.array(receiptLineSchema).min(1, "At least one line is required"),
+    })
+    .refine(
+        (receipt) =>
+            receipt.warehouseId ||
+            receipt.warehouseLocationId ||
+            receipt.lines.every((line) => line.warehouseLocationId),
+        {
+            message:
+                "Specify a warehouse, a location, or a location on every line",
+            path: ["warehouseId"],
+        }
+    );
+
+const purchaseOrderFields = {
+    id: z.number().int(),
+    supplierId: z.number().int(),
+    orderDate: dateString,
+    expectedDeliveryDate: dateString.nullable(),
+    actualDeliveryDate: dateString.nullable(),
+    status: z.nativeEnum(PurchaseOrderStatus),
+    shippingAddress: z.string().nullable(),
+    trackingNumber: z.string().nullable(),
+    carrierId: z.number().int().nullable(),
+    notes: z.string().nullable(),
+    createdBy: z.number().int(),
+    subTotal: z.number().int().nullable(),
+    taxAmount: z.number().int().nullable(),
+    shippingCost: z.number().int().nullable(),
+    totalAmount: z.number().int().nullable(),
+    warehouseId: z.number().int().nullable(),
+    isReplenishment: z.boolean(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    supplier: namedRefSchema,
+    warehouse: namedRefSchema.nullable(),
+};
+
+export const purchaseOrderSummarySchema = z.object(purchaseOrderFields);
+
+export const purchaseOrderItemSchema = z.object({
+    id: z.number().int(),
+    purchaseOrderId: z.number().int(),
+    productId: z.number().int(),
+    quantityOrdered: z.number().int(),
+    quantityReceived: z.number().int(),
+    unitCost: z.number().int(),
+    discountPercentage: decimalString.nullable(),
+    taxRate: decimalString.nullable(),
+    totalCost: z.number().int().nullable(),
+    supplierSku: z.string().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    product: z.object({
+        id: z.number().int(),
+        name: z.string(),
+        sku: z.string(),
+        isTrackedByBatch: z.boolean(),
+        isTrackedBySerial: z.boolean(),
+    }),
+});
+
+export const purchaseOrderEventSchema = z.object({
+    id: z.number().int(),
+    purchaseOrderId: z.number().int(),
+    eventType: z.nativeEnum(PurchaseOrderEventType),
+    details: z.string().nullable(),
+    timestamp: dateString,
+    userId: z.number().int(),
+    user: userRefSchema,
+});
+
+/** An order with its lines and events, newest event first */
+export const purchaseOrderSchema = z.object({
+    ...purchaseOrderFields,
+    items: z.array(purchaseOrderItemSchema),
+    events: z.array(purchaseOrderEventSchema),
+});
+
+export type CreatePurchaseOrderInput = z.infer<
+    typeof createPurchaseOrderSchema
+>;
+export type UpdatePurchaseOrderInput = z.infer<
+    typeof updatePurchaseOrderSchema
+>;
+export type ReceivePurchaseOrderInput = z.infer<
+    typeof receivePurchaseOrderSchema
+>;
+export type PurchaseOrderSummary = z.infer<typeof purchaseOrderSummarySchema>;
+export type PurchaseOrderItem = z.infer<typeof purchaseOrderItemSchema>;
+export type PurchaseOrderEvent = z.infer<typeof purchaseOrderEventSchema>;
+export type PurchaseOrder = z.infer<typeof purchaseOrderSchema>;
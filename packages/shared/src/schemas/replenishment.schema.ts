@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { booleanQuery, dateString, namedRefSchema } from "./common.schema.js";
+import { purchaseOrderSchema } from "./purchaseOrder.schema.js";
+
+/** Creates or replaces the settings of a product in a warehouse */
+export const upsertReorderSettingSchema = z
+    .object({
+        productId: z.number().int().positive(),
+        warehouseId: z.number().int().positive(),
+        minQuantity: z.number().int().nonnegative().default(0),
+        reorderPoint: z.number().int().nonnegative(),
+        maxQuantity: z.number().int().positive(),
+        leadTimeDays: z.number().int().nonnegative().max(365).default(0),
+    })
+    .refine((setting) => setting.minQuantity <= setting.reorderPoint, {
+        message: "Reorder point must not be below the minimum quantity",
+        path: ["reorderPoint"],
+    })
+    .refine((setting) => setting.reorderPoint < setting.maxQuantity, {
+        message: "Maximum quantity must be above the reorder point",
+        path: ["maxQuantity"],
+    });
+
+export const lowStockQuerySchema = z.object({
+    warehouseId: z.coerce.number().int().positive().optional(),
+    supplierId: z.coerce.number().int().positive().optional(),
+    /** Only positions below the minimum (safety) quantity */
+    belowMinOnly: booleanQuery.optional(),
+});
+
+export const createReplenishmentDraftsSchema = z.object({
+    /** Limit the run to one warehouse; defaults to every warehouse */
+    warehouseId: z.number().int().positive().optional(),
+    productIds: z.array(z.number().int().positive()).min(1).optional(),
+});
+
+const reorderProductSchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+    sku: z.string(),
+    unitOfMeasure: z.string(),
+    averageCost: z.number().int().nullable(),
+    supplierSku: z.string().nullable(),
+    defaultSupplier: namedRefSchema.nullable(),
+});
+
+const reorderSettingFields = {
+    id: z.number().int(),
+    productId: z.number().int(),
+    warehouseId: z.number().int(),
+    /** Safety stock; positions below it are critical */
+    minQuantity: z.number().int(),
+    /** Replenish when the stock position falls to or below this */
+    reorderPoint: z.number().int(),
+    /** Replenishment orders up to this position */
+    maxQuantity: z.number().int(),
+    leadTimeDays: z.number().int(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    product: reorderProductSchema,
+};
+
+export const reorderSettingSchema = z.object({
+    ...reorderSettingFields,
+    warehouse: namedRefSchema.extend({ isPickingLocation: z.boolean() }),
+});
+
+/** position = on hand − allocated + on order − unallocated demand */
+export const stockPositionSchema = z.object({
+    ...reorderSettingFields,
+    warehouse: namedRefSchema,
+    onHand: z.number().int(),
+    allocated: z.number().int(),
+    onOrder: z.number().int(),
+    unallocatedDemand: z.number().int(),
+    position: z.number().int(),
+    isBelowMin: z.boolean(),
+    /** Brings the position back to the maximum; zero above the reorder point */
+    suggestedQuantity: z.number().int(),
+});
+
+export const replenishmentDraftsSchema = z.object({
+    purchaseOrders: z.array(purchaseOrderSchema),
+    /** Shortfalls that couldn't be drafted, e.g. for lack of a default supplier */
+    skipped: z.array(
+        z.object({
+            product: reorderProductSchema,
+            warehouse: namedRefSchema,
+            suggestedQuantity: z.number().int(),
+            reason: z.string(),
+        })
+    ),
+});
+
+export type UpsertReorderSettingInput = z.infer<
+    typeof upsertReorderSettingSchema
+>;
+export type LowStockQuery = z.infer<typeof lowStockQuerySchema>;
+export type CreateReplenishmentDraftsInput = z.infer<
+    typeof createReplenishmentDraftsSchema
+>;
+export type ReorderSetting = z.infer<typeof reorderSettingSchema>;
+export type StockPosition = z.infer<typeof stockPositionSchema>;
+export type ReplenishmentDrafts = z.infer<typeof replenishmentDraftsSchema>;
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { SalesOrderEventType, SalesOrderStatus } from "../enums.js";
+import {
+    dateString,
+    decimalString,
+    namedRefSchema,
+    userRefSchema,
+} from "./common.schema.js";
+
+const salesOrderItemInputSchema = z.object({
+    productId: z.number().int().positive(),
+    quantityOrdered: z.number().int().positive(),
+    unitPrice: z.number().int().nonnegative(),
+    discountPercentage: z.number().min(0).max(100).optional(),
+    taxRate: z.number().min(0).max(100).optional(),
+});
+
+/** Totals are never accepted from the client; they are recomputed on every write */
+export const createSalesOrderSchema = z.object({
+    customerId: z.number().int().positive(),
+    requestedDeliveryDate: z.coerce.date().optional(),
+    shippingAddress: z.string().trim().max(500).optional(),
+    billingAddress: z.string().trim().max(500).optional(),
+    carrierId: z.number().int().positive().nullish(),
+    notes: z.string().trim().max(2000).optional(),
+    shippingCost: z.number().int().nonnegative().optional(),
+    discountAmount: z.number().int().nonnegative().optional(),
+    items: z
+        .array(salesOrderItemInputSchema)
+        .min(1, "At least one item is required"),
+});
+
+export const updateSalesOrderSchema = createSalesOrderSchema.partial();
+
+export const allocateSalesOrderSchema = z.object({
+    /** Restrict allocation to one warehouse; defaults to every picking warehouse */
+    warehouseId: z.number().int().positive().optional(),
+});
+
+export const shipSalesOrderSchema = z.object({
+    carrierId: z.number().int().positive().optional(),
+    trackingNumber: z.string().trim().min(1).max(100).optional(),
+    notes: z.string().trim().max(1000).optional(),
+    /**
+     * Ship part of the allocation; omit to ship everything allocated. Lines of
+     * serial-tracked products must list the serials being shipped.
+     */
+    lines: z
+        .array(
+            z
+                .object({
+                    salesOrderItemId: z.number().int().positive(),
+                    quantity: z.number().int().positive(),
+                    serialNumbers: z
+                        .array(z.string().trim().min(1).max(128))
+                        .optional(),
+                })
+                .refine(
+                    (line) =>
+                        !line.serialNumbers ||
+                        line.serialNumbers.length === line.quantity,
+                    {
+                        message:
+                            "Number of serial numbers must equal the quantity",
+                        path: ["serialNumbers"],
+                    }
+                )
+        )
+        .min(1)
+        .optional(),
+});
+
+const salesOrderFields = {
+    id: z.number().int(),
+    customerId: z.number().int(),
+    orderDate: dateString,
+    requestedDeliveryDate: dateString.nullable(),
+    scheduledDeliveryDate: dateString.nullable(),
+    actualDeliveryDate: dateString.nullable(),
+    status: z.nativeEnum(SalesOrderStatus),
+    shippingAddress: z.string().nullable(),
+    billingAddress: z.string().nullable(),
+    trackingNumber: z.string().nullable(),
+    carrierId: z.number().int().nullable(),
+    notes: z.string().nullable(),
+    createdBy: z.number().int(),
+    subTotal: z.number().int().nullable(),
+    taxAmount: z.number().int().nullable(),
+    shippingCost: z.number().int().nullable(),
+    discountAmount: z.number().int().nullable(),
+    totalAmount: z.number().int().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+};
+
+export const salesOrderSummarySchema = z.object({
+    ...salesOrderFields,
+    customer: namedRefSchema,
+});
+
+export const salesOrderItemSchema = z.object({
+    id: z.number().int(),
+    salesOrderId: z.number().int(),
+    productId: z.number().int(),
+    quantityOrdered: z.number().int(),
+    quantityShipped: z.number().int(),
+    unitPrice: z.number().int(),
+    discountPercentage: decimalString.nullable(),
+    taxRate: decimalString.nullable(),
+    isBackordered: z.boolean(),
+    totalPrice: z.number().int().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    product: z.object({
+        id: z.number().int(),
+        name: z.string(),
+        sku: z.string(),
+        isTrackedByBatch: z.boolean(),
+        isTrackedBySerial: z.boolean(),
+    }),
+    allocations: z.array(z.object({ quantity: z.number().int() })),
+});
+
+export const salesOrderEventSchema = z.object({
+    id: z.number().int(),
+    salesOrderId: z.number().int(),
+    eventType: z.nativeEnum(SalesOrderEventType),
+    details: z.string().nullable(),
+    timestamp: dateString,
+    userId: z.number().int(),
+    user: userRefSchema,
+});
+
+/** An order with its lines and events, newest event first */
+export const salesOrderSchema = z.object({
+    ...salesOrderFields,
+    customer: namedRefSchema.extend({ taxExempt: z.boolean() }),
+    carrier: namedRefSchema
+        .extend({ trackingUrl: z.string().nullable() })
+        .nullable(),
+    items: z.array(salesOrderItemSchema),
+    events: z.array(salesOrderEventSchema),
+});
+
+export type CreateSalesOrderInput = z.infer<typeof createSalesOrderSchema>;
+export type UpdateSalesOrderInput = z.infer<typeof updateSalesOrderSchema>;
+export type AllocateSalesOrderInput = z.infer<typeof allocateSalesOrderSchema>;
+export type ShipSalesOrderInput = z.infer<typeof shipSalesOrderSchema>;
+export type SalesOrderSummary = z.infer<typeof salesOrderSummarySchema>;
+export type SalesOrderItem = z.infer<typeof salesOrderItemSchema>;
+export type SalesOrderEvent = z.infer<typeof salesOrderEventSchema>;
+export type SalesOrder = z.infer<typeof salesOrderSchema>;
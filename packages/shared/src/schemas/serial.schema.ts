@@ -0,0 +1,107 @@
+import { z } from "zod";
+import {
+    InventoryTransactionType,
+    ReturnedItemCondition,
+    ReturnReason,
+    SerialNumberStatus,
+    StockAdjustmentReason,
+} from "../enums.js";
+import {
+    dateString,
+    namedRefSchema,
+    productRefSchema,
+    userRefSchema,
+} from "./common.schema.js";
+
+export const serialParamSchema = z.object({
+    serial: z.string().trim().min(1).max(128),
+});
+
+/** Serial numbers are only unique per product */
+export const serialHistoryQuerySchema = z.object({
+    productId: z.coerce.number().int().positive().optional(),
+});
+
+/** The document a ledger entry was posted against */
+export const serialHistorySourceSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("PURCHASE_ORDER"),
+        id: z.number().int(),
+        date: dateString,
+        supplier: namedRefSchema,
+    }),
+    z.object({
+        type: z.literal("SALES_ORDER"),
+        id: z.number().int(),
+        date: dateString,
+        customer: namedRefSchema,
+    }),
+    z.object({
+        type: z.literal("STOCK_TRANSFER"),
+        id: z.number().int(),
+        number: z.string().nullable(),
+        fromWarehouse: namedRefSchema,
+        toWarehouse: namedRefSchema,
+    }),
+    z.object({
+        type: z.literal("CUSTOMER_RETURN"),
+        id: z.number().int(),
+        number: z.string().nullable(),
+        customer: namedRefSchema,
+        reason: z.nativeEnum(ReturnReason),
+        condition: z.nativeEnum(ReturnedItemCondition),
+    }),
+    z.object({
+        type: z.literal("SUPPLIER_RETURN"),
+        id: z.number().int(),
+        number: z.string().nullable(),
+        supplier: namedRefSchema,
+        reason: z.nativeEnum(ReturnReason),
+    }),
+    z.object({
+        type: z.literal("STOCK_ADJUSTMENT"),
+        id: z.number().int(),
+        reason: z.nativeEnum(StockAdjustmentReason),
+    }),
+]);
+
+export const serialHistoryEntrySchema = z.object({
+    id: z.number().int(),
+    timestamp: dateString,
+    transactionType: z.nativeEnum(InventoryTransactionType),
+    quantityChange: z.number().int(),
+    location: z.object({ id: z.number().int(), code: z.string() }),
+    warehouse: namedRefSchema,
+    batch: z
+        .object({
+            id: z.number().int(),
+            batchNumber: z.string(),
+            expiryDate: dateString.nullable(),
+        })
+        .nullable(),
+    user: userRefSchema,
+    notes: z.string().nullable(),
+    source: serialHistorySourceSchema.nullable(),
+});
+
+/** A serialised unit and its ledger history, oldest first */
+export const serialUnitHistorySchema = z.object({
+    id: z.number().int(),
+    serialNumber: z.string(),
+    status: z.nativeEnum(SerialNumberStatus),
+    product: productRefSchema,
+    currentLocation: z
+        .object({
+            id: z.number().int(),
+            code: z.string(),
+            warehouse: namedRefSchema,
+        })
+        .nullable(),
+    history: z.array(serialHistoryEntrySchema),
+});
+
+export type SerialParam = z.infer<typeof serialParamSchema>;
+export type SerialHistoryQuery = z.infer<typeof serialHistoryQuerySchema>;
+export type SerialHistorySource = z.infer<typeof serialHistorySourceSchema>;
+export type SerialHistoryEntry = z.infer<typeof serialHistoryEntrySchema>;
+export type SerialUnitHistory = z.infer<typeof serialUnitHistorySchema>;
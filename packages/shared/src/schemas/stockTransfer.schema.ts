@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { StockTransferStatus } from "../enums.js";
+import {
+    dateString,
+    namedRefSchema,
+    productRefSchema,
+    userRefSchema,
+} from "./common.schema.js";
+
+export const createStockTransferSchema = z
+    .object({
+        fromWarehouseId: z.number().int().positive(),
+        toWarehouseId: z.number().int().positive(),
+        notes: z.string().trim().max(1000).optional(),
+        items: z
+            .array(
+                z
+                    .object({
+                        productId: z.number().int().positive(),
+                        quantity: z.number().int().positive(),
+                        batchId: z.number().int().positive().optional(),
+                        serialNumberId: z.number().int().positive().optional(),
+                    })
+                    .refine(
+                        (item) => !item.serialNumberId || item.quantity === 1,
+                        {
+                            message: "A serialised item must have quantity 1",
+                            path: ["quantity"],
+                        }
+                    )
+            )
+            .min(1, "At least one item is required"),
+    })
+    .refine((transfer) => transfer.fromWarehouseId !== transfer.toWarehouseId, {
+        message: "Source and destination warehouses must differ",
+        path: ["toWarehouseId"],
+    });
+
+export const shipStockTransferSchema = z.object({
+    /** Source location per item; items left out are drawn from available stock */
+    sources: z
+        .array(
+            z.object({
+                stockTransferItemId: z.number().int().positive(),
+                warehouseLocationId: z.number().int().positive(),
+            })
+        )
+        .optional(),
+});
+
+export const receiveStockTransferSchema = z.object({
+    /** Receive into this location unless a line overrides it */
+    warehouseLocationId: z.number().int().positive().optional(),
+    /** Lines left out are received in full */
+    lines: z
+        .array(
+            z.object({
+                stockTransferItemId: z.number().int().positive(),
+                quantityReceived: z.number().int().nonnegative(),
+                warehouseLocationId: z.number().int().positive().optional(),
+                discrepancyNotes: z.string().trim().max(1000).optional(),
+            })
+        )
+        .optional(),
+});
+
+const stockTransferFields = {
+    id: z.number().int(),
+    transferNumber: z.string().nullable(),
+    fromWarehouseId: z.number().int(),
+    toWarehouseId: z.number().int(),
+    status: z.nativeEnum(StockTransferStatus),
+    notes: z.string().nullable(),
+    initiatedByUserId: z.number().int(),
+    initiatedAt: dateString,
+    shippedAt: dateString.nullable(),
+    receivedAt: dateString.nullable(),
+    completedByUserId: z.number().int().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    fromWarehouse: namedRefSchema,
+    toWarehouse: namedRefSchema,
+};
+
+export const stockTransferSummarySchema = z.object({
+    ...stockTransferFields,
+    _count: z.object({ items: z.number().int() }),
+});
+
+export const stockTransferItemSchema = z.object({
+    id: z.number().int(),
+    stockTransferId: z.number().int(),
+    productId: z.number().int(),
+    /** Quantity requested and shipped */
+    quantity: z.number().int(),
+    /** Set on receipt; differs from `quantity` when there is a discrepancy */
+    quantityReceived: z.number().int().nullable(),
+    discrepancyNotes: z.string().nullable(),
+    batchId: z.number().int().nullable(),
+    serialNumberId: z.number().int().nullable(),
+    product: productRefSchema,
+    batch: z
+        .object({
+            id: z.number().int(),
+            batchNumber: z.string(),
+            expiryDate: dateString.nullable(),
+        })
+        .nullable(),
+    serialNumber: z
+        .object({ id: z.number().int(), serialNumber: z.string() })
+        .nullable(),
+});
+
+/** A transfer with its lines */
+export const stockTransferSchema = z.object({
+    ...stockTransferFields,
+    initiatedByUser: userRefSchema,
+    completedByUser: userRefSchema.nullable(),
+    items: z.array(stockTransferItemSchema),
+});
+
+export type CreateStockTransferInput = z.infer<
+    typeof createStockTransferSchema
+>;
+export type ShipStockTransferInput = z.infer<typeof shipStockTransferSchema>;
+export type ReceiveStockTransferInput = z.infer<
+    typeof receiveStockTransferSchema
+>;
+export type StockTransferSummary = z.infer<typeof stockTransferSummarySchema>;
+export type StockTransferItem = z.infer<typeof stockTransferItemSchema>;
+export type StockTransfer = z.infer<typeof stockTransferSchema>;
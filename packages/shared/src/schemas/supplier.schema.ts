@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const supplierSchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+    contactName: z.string().nullable(),
+    contactEmail: z.string().nullable(),
+    contactPhone: z.string().nullable(),
+    defaultCurrency: z.string(),
+});
+
+export type Supplier = z.infer<typeof supplierSchema>;
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import {
+    PurchaseOrderStatus,
+    ReturnReason,
+    SupplierReturnStatus,
+} from "../enums.js";
+import {
+    dateString,
+    namedRefSchema,
+    productRefSchema,
+    userRefSchema,
+} from "./common.schema.js";
+
+export const createSupplierReturnSchema = z.object({
+    supplierId: z.number().int().positive(),
+    originalPurchaseOrderId: z.number().int().positive(),
+    shippingCost: z.number().int().nonnegative().optional(),
+    notes: z.string().trim().max(2000).optional(),
+    items: z
+        .array(
+            z.object({
+                originalPurchaseOrderItemId: z.number().int().positive(),
+                quantityReturned: z.number().int().positive(),
+                reason: z.nativeEnum(ReturnReason),
+                notes: z.string().trim().max(1000).optional(),
+            })
+        )
+        .min(1, "At least one item is required"),
+});
+
+/**
+ * Every item must be fully covered by picks from locations in `warehouseId`.
+ * Serialised units are picked one at a time with `serialNumberId`.
+ */
+export const shipSupplierReturnSchema = z.object({
+    warehouseId: z.number().int().positive(),
+    trackingNumber: z.string().trim().max(100).optional(),
+    shippingCost: z.number().int().nonnegative().optional(),
+    picks: z
+        .array(
+            z
+                .object({
+                    supplierReturnItemId: z.number().int().positive(),
+                    warehouseLocationId: z.number().int().positive(),
+                    quantity: z.number().int().positive(),
+                    batchId: z.number().int().positive().optional(),
+                    serialNumberId: z.number().int().positive().optional(),
+                })
+                .refine((pick) => !pick.serialNumberId || pick.quantity === 1, {
+                    message: "A serialised pick must have quantity 1",
+                    path: ["quantity"],
+                })
+        )
+        .min(1),
+});
+
+export const returnRateReportQuerySchema = z.object({
+    supplierId: z.coerce.number().int().positive().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+});
+
+const supplierReturnFields = {
+    id: z.number().int(),
+    returnNumber: z.string().nullable(),
+    supplierId: z.number().int(),
+    originalPurchaseOrderId: z.number().int().nullable(),
+    status: z.nativeEnum(SupplierReturnStatus),
+    shippingCost: z.number().int().nullable(),
+    trackingNumber: z.string().nullable(),
+    notes: z.string().nullable(),
+    processedByUserId: z.number().int().nullable(),
+    processedAt: dateString.nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    supplier: namedRefSchema,
+};
+
+export const supplierReturnSummarySchema = z.object({
+    ...supplierReturnFields,
+    _count: z.object({ items: z.number().int() }),
+});
+
+export const supplierReturnLineSchema = z.object({
+    id: z.number().int(),
+    supplierReturnId: z.number().int(),
+    originalPurchaseOrderItemId: z.number().int().nullable(),
+    productId: z.number().int(),
+    quantityReturned: z.number().int(),
+    reason: z.nativeEnum(ReturnReason),
+    notes: z.string().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    product: productRefSchema,
+    purchaseOrderItem: z
+        .object({
+            id: z.number().int(),
+            quantityReceived: z.number().int(),
+            unitCost: z.number().int(),
+        })
+        .nullable(),
+});
+
+/** A return with its lines */
+export const supplierReturnSchema = z.object({
+    ...supplierReturnFields,
+    purchaseOrder: z
+        .object({
+            id: z.number().int(),
+            orderDate: dateString,
+            status: z.nativeEnum(PurchaseOrderStatus),
+        })
+        .nullable(),
+    processedByUser: userRefSchema.nullable(),
+    items: z.array(supplierReturnLineSchema),
+});
+
+/** Units returned against units received, per supplier; rates are percentages */
+export const returnRateSchema = z.object({
+    supplierId: z.number().int(),
+    supplierName: z.string(),
+    quantityReceived: z.number().int(),
+    quantityReturned: z.number().int(),
+    /** Null when nothing was received in the period */
+    returnRate: z.number().nullable(),
+    byReason: z.array(
+        z.object({
+            reason: z.nativeEnum(ReturnReason),
+            quantity: z.number().int(),
+            returnRate: z.number().nullable(),
+        })
+    ),
+});
+
+export type CreateSupplierReturnInput = z.infer<
+    typeof createSupplierReturnSchema
+>;
+export type ShipSupplierReturnInput = z.infer<typeof shipSupplierReturnSchema>;
+export type ReturnRateReportQuery = z.infer<typeof returnRateReportQuerySchema>;
+export type SupplierReturnSummary = z.infer<typeof supplierReturnSummarySchema>;
+export type SupplierReturnLine = z.infer<typeof supplierReturnLineSchema>;
+export type SupplierReturn = z.infer<typeof supplierReturnSchema>;
+export type ReturnRate = z.infer<typeof returnRateSchema>;
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import {
+    PurchaseOrderStatus,
+    SalesOrderStatus,
+    TaskStatus,
+    TaskType,
+} from "../enums.js";
+import { dateString, namedRefSchema, userRefSchema } from "./common.schema.js";
+
+export const taskBoardQuerySchema = z.object({
+    warehouseId: z.coerce.number().int().positive().optional(),
+    assignedTo: z.coerce.number().int().positive().optional(),
+});
+
+const taskFields = {
+    title: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(2000).nullish(),
+    assignedTo: z.number().int().positive().nullish(),
+    dueDate: z.coerce.date().nullish(),
+    /** Higher runs first */
+    priority: z.number().int().min(0).max(10),
+};
+
+/** Count tasks belong to cycle count sessions and are created by them */
+export const createTaskSchema = z.object({
+    ...taskFields,
+    type: z.enum(["GENERAL", "PICK", "PUT_AWAY"]).default("GENERAL"),
+    priority: taskFields.priority.default(0),
+    warehouseId: z.number().int().positive(),
+    salesOrderId: z.number().int().positive().optional(),
+    purchaseOrderId: z.number().int().positive().optional(),
+    stockTransferId: z.number().int().positive().optional(),
+    customerReturnId: z.number().int().positive().optional(),
+    supplierReturnId: z.number().int().positive().optional(),
+    productId: z.number().int().positive().optional(),
+    customerId: z.number().int().positive().optional(),
+});
+
+export const updateTaskSchema = z.object(taskFields).partial();
+
+export const updateTaskStatusSchema = z.object({
+    status: z.nativeEnum(TaskStatus),
+});
+
+export const taskSchema = z.object({
+    id: z.number().int(),
+    title: z.string(),
+    description: z.string().nullable(),
+    type: z.nativeEnum(TaskType),
+    status: z.nativeEnum(TaskStatus),
+    priority: z.number().int().nullable(),
+    dueDate: dateString.nullable(),
+    completedAt: dateString.nullable(),
+    assignedTo: z.number().int().nullable(),
+    createdBy: z.number().int().nullable(),
+    warehouseId: z.number().int().nullable(),
+    salesOrderId: z.number().int().nullable(),
+    purchaseOrderId: z.number().int().nullable(),
+    customerId: z.number().int().nullable(),
+    productId: z.number().int().nullable(),
+    stockTransferId: z.number().int().nullable(),
+    customerReturnId: z.number().int().nullable(),
+    supplierReturnId: z.number().int().nullable(),
+    cycleCountId: z.number().int().nullable(),
+    createdAt: dateString,
+    updatedAt: dateString,
+    assignedToUser: userRefSchema.nullable(),
+    createdByUser: userRefSchema.nullable(),
+    warehouse: namedRefSchema.nullable(),
+    salesOrder: z
+        .object({
+            id: z.number().int(),
+            status: z.nativeEnum(SalesOrderStatus),
+        })
+        .nullable(),
+    purchaseOrder: z
+        .object({
+            id: z.number().int(),
+            status: z.nativeEnum(PurchaseOrderStatus),
+        })
+        .nullable(),
+    StockTransfer: z
+        .object({ id: z.number().int(), transferNumber: z.string().nullable() })
+        .nullable(),
+    CustomerReturn: z
+        .object({ id: z.number().int(), returnNumber: z.string().nullable() })
+        .nullable(),
+    SupplierReturn: z
+        .object({ id: z.number().int(), returnNumber: z.string().nullable() })
+        .nullable(),
+    cycleCount: z
+        .object({ id: z.number().int(), countNumber: z.string().nullable() })
+        .nullable(),
+});
+
+/** Tasks grouped by status, as shown on the work board */
+export const taskBoardSchema = z.record(
+    z.nativeEnum(TaskStatus),
+    z.array(taskSchema)
+);
+
+export type TaskBoardQuery = z.infer<typeof taskBoardQuerySchema>;
+export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type UpdateTaskStatusInput = z.infer<typeof updateTaskStatusSchema>;
+export type Task = z.infer<typeof taskSchema>;
+export type TaskBoard = z.infer<typeof taskBoardSchema>;
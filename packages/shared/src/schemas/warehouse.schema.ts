@@ -0,0 +1,13 @@
+import { z } from "zod";
+import { userRefSchema } from "./common.schema.js";
+
+export const warehouseSchema = z.object({
+    id: z.number().int(),
+    name: z.string(),
+    address: z.string().nullable(),
+    isPickingLocation: z.boolean(),
+    isReceivingLocation: z.boolean(),
+    manager: userRefSchema.nullable(),
+});
+
+export type Warehouse = z.infer<typeof warehouseSchema>;